@@ -196,6 +196,48 @@ else
   fail "compile output" "Missing prompt content"
 fi
 
+# ============================================
+# 4b. MATCH
+# ============================================
+section "Match"
+
+mkdir -p voice-aspect
+cat > voice-aspect/aspect.json << 'EOF'
+{
+  "schemaVersion": 2,
+  "name": "voice-aspect",
+  "version": "1.0.0",
+  "displayName": "Voice Aspect",
+  "tagline": "A test aspect with mode triggers",
+  "category": "assistant",
+  "prompt": "You are a helpful voice assistant.",
+  "modes": {
+    "campaign": {
+      "description": "Run a campaign",
+      "triggers": { "enter": ["let's play"], "exit": ["stop playing"] }
+    }
+  }
+}
+EOF
+
+if $ASPECTS match ./voice-aspect "Okay, let's play a game!" --format json 2>&1 | grep -q '"type":"enter","mode":"campaign"'; then
+  pass "match --format json returns the mode switch"
+else
+  fail "match" "Enter phrase did not match"
+fi
+
+if [[ "$($ASPECTS match ./voice-aspect "stop playing" --format json 2>&1)" == "null" ]]; then
+  pass "match ignores exit phrases of inactive modes"
+else
+  fail "match" "Exit phrase matched without --mode"
+fi
+
+if $ASPECTS match ./voice-aspect "stop playing" --mode campaign --format json 2>&1 | grep -q '"type":"exit"'; then
+  pass "match --mode matches the active mode's exit phrases"
+else
+  fail "match --mode" "Exit phrase did not match"
+fi
+
 # ============================================
 # 5. LIST (before any installs)
 # ============================================
@@ -300,6 +342,52 @@ else
   fail "list after remove" "test-aspect still in list"
 fi
 
+# ============================================
+# 9b. MIGRATE (local install of a v1 aspect)
+# ============================================
+section "Migrate"
+
+mkdir -p migrate-test/legacy-aspect && cd migrate-test
+cat > legacy-aspect/aspect.json << 'EOF'
+{
+  "schemaVersion": 1,
+  "name": "legacy-aspect",
+  "displayName": "Legacy Aspect",
+  "tagline": "A schema v1 aspect to migrate",
+  "category": "assistant",
+  "tags": ["legacy", "test"],
+  "prompt": "You are a legacy test assistant."
+}
+EOF
+$ASPECTS init --force > /dev/null 2>&1
+$ASPECTS add ./legacy-aspect > /dev/null 2>&1
+
+if $ASPECTS migrate --all > /dev/null 2>&1 && grep -q '"schemaVersion": 2' legacy-aspect/aspect.json; then
+  pass "migrate --all upgrades local install sources"
+else
+  fail "migrate --all" "Source file not upgraded"
+fi
+
+if grep -q '"tags": \["legacy", "test"\]' legacy-aspect/aspect.json; then
+  pass "migrate keeps the file's formatting"
+else
+  fail "migrate formatting" "Inline array was reformatted"
+fi
+
+if $ASPECTS verify --project > /dev/null 2>&1; then
+  pass "verify passes after migrate"
+else
+  fail "verify after migrate" "Migrated install reported as drifted"
+fi
+
+if $ASPECTS install --frozen > /dev/null 2>&1; then
+  pass "install --frozen matches aspects.lock after migrate"
+else
+  fail "install --frozen after migrate" "Lock hash mismatch"
+fi
+
+cd ..
+
 # ============================================
 # 10. CONFIG
 # ============================================
@@ -5,7 +5,7 @@
 
 import { execSync } from "node:child_process";
 import { existsSync, readFileSync } from "node:fs";
-import { aspectSchema } from "../src/lib/schema";
+import { parseAspectData } from "../src/lib/parser";
 import {
   header,
   fileHeader,
@@ -87,11 +87,9 @@ function validateAspectJson(filePath: string): {
     return { valid: false, errors };
   }
 
-  const result = aspectSchema.safeParse(parsed);
+  const result = parseAspectData(parsed);
   if (!result.success) {
-    for (const issue of result.error.issues) {
-      errors.push(`${issue.path.join(".")}: ${issue.message}`);
-    }
+    errors.push(...result.errors);
     return { valid: false, errors };
   }
 
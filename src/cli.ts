@@ -14,8 +14,15 @@ import find from "./commands/find";
 import info from "./commands/info";
 import remove from "./commands/remove";
 import update from "./commands/update";
+import verify from "./commands/verify";
 import validate from "./commands/validate";
+import lint from "./commands/lint";
+import scan from "./commands/scan";
+import migrate from "./commands/migrate";
+import schema from "./commands/schema";
+import pack from "./commands/pack";
 import compile from "./commands/compile";
+import match from "./commands/match";
 import publish from "./commands/publish";
 import set from "./commands/set";
 import edit from "./commands/edit";
@@ -28,6 +35,9 @@ import config from "./commands/config";
 import init from "./commands/init";
 import handle from "./commands/handle";
 import whoami from "./commands/whoami";
+import key from "./commands/key";
+import store from "./commands/store";
+import cache from "./commands/cache";
 
 // Alias map: short/alternate names -> canonical command
 const ALIASES: Record<string, string> = {
@@ -61,6 +71,12 @@ if (process.argv[2] === 'config' && !process.argv[3]) {
 if (process.argv[2] === 'handle' && !process.argv[3]) {
   process.argv.splice(3, 0, 'list');
 }
+if (process.argv[2] === 'key' && !process.argv[3]) {
+  process.argv.splice(3, 0, 'list');
+}
+if (process.argv[2] === 'store' && !process.argv[3]) {
+  process.argv.splice(3, 0, 'status');
+}
 
 // Command registry with descriptions
 const COMMANDS: Array<{
@@ -78,8 +94,17 @@ const COMMANDS: Array<{
   { name: "info", cmd: info, desc: "Show details about an aspect" },
   { name: "remove", cmd: remove, desc: "Remove an installed aspect" },
   { name: "update", cmd: update, desc: "Update installed aspect(s) to latest version" },
-  { name: "validate", cmd: validate, desc: "Validate an aspect.json file" },
+  { name: "verify", cmd: verify, desc: "Check installed aspects against their install hashes" },
+  { name: "store", cmd: store, desc: "Inspect and prune the shared content store" },
+  { name: "cache", cmd: cache, desc: "Clear cached registry responses" },
+  { name: "validate", cmd: validate, desc: "Validate an aspect file" },
+  { name: "lint", cmd: lint, desc: "Check aspect files for multi-model prompt pitfalls" },
+  { name: "scan", cmd: scan, desc: "Scan aspects for prompt injection" },
+  { name: "migrate", cmd: migrate, desc: "Upgrade aspect files to the current schema" },
+  { name: "schema", cmd: schema, desc: "Print the JSON Schema for aspect.json" },
+  { name: "pack", cmd: pack, desc: "Pack a multi-file aspect into a .aspect file" },
   { name: "compile", cmd: compile, desc: "Compile an aspect's prompt for a model" },
+  { name: "match", cmd: match, desc: "Match an utterance to a mode switch or command" },
   { name: "publish", cmd: publish, desc: "Publish an aspect to the registry" },
   { name: "set", cmd: set, desc: "Manage aspect sets (collections)" },
   { name: "edit", cmd: edit, desc: "Edit an existing aspect" },
@@ -90,6 +115,7 @@ const COMMANDS: Array<{
   { name: "logout", cmd: logout, desc: "Clear stored authentication tokens" },
   { name: "handle", cmd: handle, desc: "Manage your handles (namespaces)", aliases: ["h"] },
   { name: "whoami", cmd: whoami, desc: "Show your current identity" },
+  { name: "key", cmd: key, desc: "Manage signing keys and trusted publisher keys" },
   { name: "config", cmd: config, desc: "View and modify configuration" },
 ];
 
@@ -186,7 +212,10 @@ const main = defineCommand({
   subCommands,
 });
 
-// Show banner
-morphistBanner();
+// Show banner, unless machine-readable output must be the only thing on stdout
+const wantsFormat = process.argv.some(arg => arg === "--format" || arg.startsWith("--format="));
+if (!wantsFormat && process.argv[2] !== "schema") {
+  morphistBanner();
+}
 
 runMain(main);
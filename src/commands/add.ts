@@ -2,8 +2,19 @@ import { defineCommand } from "citty";
 import * as p from "@clack/prompts";
 import { parseInstallSpec } from "../lib/resolver";
 import { installAspect } from "../lib/installer";
+import { getInstalledAspect, enableOfflineMode } from "../lib/config";
+import { readLockfile, lockedAspectToSpec, findLockedDependency } from "../lib/lockfile";
+import {
+  readManifest,
+  addManifestDependency,
+  manifestDependencyToSpec,
+  parseManifestDependency,
+  specToManifestEntry,
+} from "../lib/manifest";
+import { hashInstalledAspect } from "../lib/aspect-loader";
+import { log } from "../utils/logger";
 import { c, icons } from "../utils/colors";
-import { findProjectRoot, type InstallScope } from "../utils/paths";
+import { findProjectRoot, LOCKFILE_NAME, PROJECT_MANIFEST_NAME, type InstallScope } from "../utils/paths";
 import { initProjectAspects } from "./init";
 
 export default defineCommand({
@@ -18,6 +29,11 @@ Sources:
   aspects add github:user/repo    From GitHub repository
   aspects add ./my-aspect         From local path
 
+Project dependencies:
+  aspects install                 Install everything declared in ${PROJECT_MANIFEST_NAME}
+  aspects install --frozen        Reinstall exactly what ${LOCKFILE_NAME} pins;
+                                  fails on any hash mismatch (for CI)
+
 Scope:
   By default, installs to ./.aspects/ if in a project, else ~/.aspects/
   Use -g/--global to always install to ~/.aspects/
@@ -27,13 +43,23 @@ Examples:
   aspects add alaric meditation-guide    Install multiple aspects
   aspects add -g alaric                  Install globally
   aspects add -p alaric                  Install to project (init if needed)
-  aspects add --force alaric             Overwrite existing`,
+  aspects add --force alaric             Overwrite existing
+  aspects add --offline alaric           Install from ~/.aspects/cache only
+
+Install policy:
+  Installs are checked against ~/.aspects/policy.json and the "policy" section
+  of ${PROJECT_MANIFEST_NAME} (publishers, trust levels, signatures, injection scan,
+  prompt size). --allow-unsafe installs anyway; overrides are logged to
+  ~/.aspects/policy-overrides.log.
+
+Project installs are declared in ${PROJECT_MANIFEST_NAME} and pinned in ${LOCKFILE_NAME}.
+Commit both so every machine gets byte-identical aspects.`,
   },
   args: {
     specs: {
       type: "positional",
       description: "Aspect spec(s): name, name@version, blake3:<hash>, github:user/repo, or ./path",
-      required: true,
+      required: false,
     },
     force: {
       type: "boolean",
@@ -49,9 +75,36 @@ Examples:
       alias: "p",
       description: "Install to project scope (init if needed)",
     },
+    frozen: {
+      type: "boolean",
+      description: `Install exactly what ${LOCKFILE_NAME} pins, fail on any mismatch`,
+    },
+    offline: {
+      type: "boolean",
+      description: "Use only cached registry data (no network)",
+    },
+    "allow-unsafe": {
+      type: "boolean",
+      description: "Install despite install policy violations (logged)",
+    },
   },
   async run({ args }) {
-    const specs = Array.isArray(args.specs) ? args.specs : [args.specs];
+    if (args.offline) enableOfflineMode();
+    const allowUnsafe = !!args["allow-unsafe"];
+    if (args.frozen) {
+      await installFrozen(allowUnsafe);
+      return;
+    }
+
+    const specs = args.specs
+      ? Array.isArray(args.specs) ? args.specs : [args.specs]
+      : [];
+
+    // Bare `aspects install` - install everything declared in aspects.json
+    if (specs.length === 0) {
+      await installFromManifest(allowUnsafe);
+      return;
+    }
 
     // Determine scope
     let scope: InstallScope;
@@ -113,6 +166,7 @@ Examples:
         scope, 
         projectRoot,
         specifier: specStr,  // Preserve original input for display/reinstall
+        allowUnsafe,
       });
 
       if (!result.success) {
@@ -122,6 +176,12 @@ Examples:
 
       const { aspect, source, alreadyInstalled } = result;
 
+      // Keep aspects.json in sync with project installs
+      if (scope === 'project') {
+        const [key, value] = specToManifestEntry(spec, aspect, projectRoot);
+        await addManifestDependency(key, value, projectRoot);
+      }
+
       results.push({
         spec: specStr,
         success: true,
@@ -176,3 +236,147 @@ Examples:
     console.log();
   },
 });
+
+/**
+ * Install every dependency declared in aspects.json.
+ * Dependencies already pinned in aspects.lock install at their locked version;
+ * new or changed ones (including edited local aspects) are resolved fresh and
+ * the lockfile is updated. Only --frozen holds content to the locked hash.
+ */
+async function installFromManifest(allowUnsafe: boolean): Promise<void> {
+  const projectRoot = await findProjectRoot();
+  if (!projectRoot) {
+    log.error(`No aspects specified and no project found. Usage: aspects add <spec...>`);
+    process.exit(1);
+  }
+
+  const manifest = await readManifest(projectRoot);
+  const dependencies = Object.entries(manifest?.dependencies ?? {});
+  if (dependencies.length === 0) {
+    log.error(`No dependencies declared in ${PROJECT_MANIFEST_NAME}. Usage: aspects add <spec...>`);
+    process.exit(1);
+  }
+
+  const lockfile = await readLockfile(projectRoot);
+
+  console.log();
+  console.log(c.muted(`Installing ${dependencies.length} aspect(s) from ${PROJECT_MANIFEST_NAME}`));
+  console.log();
+
+  let failed = 0;
+  for (const [key, value] of dependencies) {
+    const specStr = manifestDependencyToSpec(key, value);
+
+    let result;
+    try {
+      const declared = parseManifestDependency(key, value, projectRoot);
+      const locked = findLockedDependency(lockfile, declared, projectRoot);
+      const spec = locked ? lockedAspectToSpec(locked[0], locked[1], projectRoot) : declared;
+      result = await installAspect(spec, {
+        scope: "project",
+        projectRoot,
+        specifier: specStr,
+        lockedBlake3: locked?.[1].blake3,
+        allowUnsafe,
+      });
+    } catch (err) {
+      result = { success: false as const, error: (err as Error).message };
+    }
+
+    if (!result.success) {
+      console.log(`${icons.error} ${c.error(specStr)}: ${result.error}`);
+      failed++;
+    } else if (result.alreadyInstalled) {
+      console.log(`${icons.info} ${c.aspect(result.aspect.name)}${c.version(`@${result.aspect.version}`)} ${c.muted("already installed")}`);
+    } else {
+      console.log(`${icons.success} ${c.aspect(result.aspect.name)}${c.version(`@${result.aspect.version}`)}`);
+    }
+  }
+
+  console.log();
+  if (failed > 0) {
+    log.error(`${failed} of ${dependencies.length} aspect(s) failed to install`);
+    process.exit(1);
+  }
+  console.log(`${icons.success} ${c.success(`${dependencies.length} aspect(s) installed`)}`);
+  console.log();
+}
+
+/**
+ * Reinstall every project aspect pinned in the lockfile.
+ * Already-installed aspects whose content still matches are left alone;
+ * anything that doesn't hash to the locked value fails the run.
+ */
+async function installFrozen(allowUnsafe: boolean): Promise<void> {
+  const projectRoot = await findProjectRoot();
+  if (!projectRoot) {
+    log.error(`No project found. Run ${c.cmd("aspects init")} first.`);
+    process.exit(1);
+  }
+
+  const lockfile = await readLockfile(projectRoot);
+  if (!lockfile) {
+    log.error(`No ${LOCKFILE_NAME} found in ${projectRoot}`);
+    process.exit(1);
+  }
+
+  // Every declared dependency must already be pinned
+  const manifest = await readManifest(projectRoot);
+  const unlocked = Object.entries(manifest?.dependencies ?? {})
+    .filter(([key, value]) => {
+      try {
+        return !findLockedDependency(lockfile, parseManifestDependency(key, value, projectRoot), projectRoot);
+      } catch {
+        return true;
+      }
+    })
+    .map(([key, value]) => manifestDependencyToSpec(key, value));
+  if (unlocked.length > 0) {
+    log.error(`${LOCKFILE_NAME} is out of sync with ${PROJECT_MANIFEST_NAME}. Not locked: ${unlocked.join(", ")}`);
+    console.log(c.muted(`  Run ${c.cmd("aspects install")} to update ${LOCKFILE_NAME}, then commit it.`));
+    process.exit(1);
+  }
+
+  const entries = Object.entries(lockfile.aspects);
+  console.log();
+  console.log(c.muted(`Installing ${entries.length} aspect(s) from ${LOCKFILE_NAME}`));
+  console.log();
+
+  let failed = 0;
+  for (const [name, entry] of entries) {
+    const existing = await getInstalledAspect(name, "project", projectRoot);
+    if (existing?.blake3 === entry.blake3 && await hashInstalledAspect(name, "project", projectRoot) === entry.blake3) {
+      console.log(`${icons.info} ${c.aspect(name)}${c.version(`@${entry.version}`)} ${c.muted("up to date")}`);
+      continue;
+    }
+
+    let result;
+    try {
+      result = await installAspect(lockedAspectToSpec(name, entry, projectRoot), {
+        force: true,
+        scope: "project",
+        projectRoot,
+        specifier: entry.specifier,
+        expectedBlake3: entry.blake3,
+        allowUnsafe,
+      });
+    } catch (err) {
+      result = { success: false as const, error: (err as Error).message };
+    }
+
+    if (result.success) {
+      console.log(`${icons.success} ${c.aspect(name)}${c.version(`@${entry.version}`)} ${c.dim(entry.blake3.slice(0, 12))}`);
+    } else {
+      console.log(`${icons.error} ${c.error(name)}: ${result.error}`);
+      failed++;
+    }
+  }
+
+  console.log();
+  if (failed > 0) {
+    log.error(`${failed} aspect(s) could not be installed to match ${LOCKFILE_NAME}`);
+    process.exit(1);
+  }
+  console.log(`${icons.success} ${c.success(`${entries.length} aspect(s) match ${LOCKFILE_NAME}`)}`);
+  console.log();
+}
@@ -5,8 +5,9 @@ import * as p from "@clack/prompts";
 import pc from "picocolors";
 import { c, icons } from "../utils/colors";
 import { getAspectPath } from "../utils/paths";
-import { readConfig } from "../lib/config";
+import { getInstalledAspect, readConfig } from "../lib/config";
 import { fetchRegistryIndex, fetchAspectContent } from "../lib/registry";
+import { aspectFormatOf, findAspectFile, readAspectSource } from "../lib/formats";
 import type { Aspect } from "../lib/types";
 import { getSetsDir } from "../utils/paths";
 
@@ -106,6 +107,24 @@ function matchesFilter(aspect: Aspect, filter: FindFilter): boolean {
   }
 }
 
+/**
+ * Directory of an installed aspect, given its name or publisher/name.
+ */
+async function resolveInstalledDir(name: string): Promise<string> {
+  const installed = await getInstalledAspect(name);
+  return installed?.localPath ?? getAspectPath(installed?.key ?? name);
+}
+
+/**
+ * Raw data of an installed aspect, in whichever format its file is written.
+ */
+async function readInstalledAspect(name: string): Promise<Aspect> {
+  const aspectPath = await findAspectFile(await resolveInstalledDir(name));
+  const source = readAspectSource(await readFile(aspectPath, "utf-8"), aspectFormatOf(aspectPath));
+  if (!source.success) throw new Error(source.errors.join(", "));
+  return source.data as Aspect;
+}
+
 async function loadLocalAspects(): Promise<Aspect[]> {
   const config = await readConfig();
   const aspects: Aspect[] = [];
@@ -217,9 +236,7 @@ export default defineCommand({
               }
             }
           } else {
-            const aspectPath = join(getAspectPath(name), "aspect.json");
-            const content = await readFile(aspectPath, "utf-8");
-            aspectsToBundle.push(JSON.parse(content));
+            aspectsToBundle.push(await readInstalledAspect(name));
           }
         } catch (error) {
           spinner.stop(`Failed to load aspect: ${name}`);
@@ -282,9 +299,7 @@ export default defineCommand({
               }
             }
           } else {
-            const aspectPath = join(getAspectPath(aspectName), "aspect.json");
-            const content = await readFile(aspectPath, "utf-8");
-            const aspect = JSON.parse(content);
+            const aspect = await readInstalledAspect(aspectName);
             if (!aspectsToBundle.some((a) => a.name === aspect.name)) {
               aspectsToBundle.push(aspect);
             }
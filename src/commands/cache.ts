@@ -0,0 +1,30 @@
+import { defineCommand } from 'citty';
+import { clearDiskCache } from '../lib/disk-cache';
+import { c, icons } from '../utils/colors';
+import { getCacheDir } from '../utils/paths';
+
+// Subcommand: cache clear
+const clearCommand = defineCommand({
+  meta: {
+    name: 'clear',
+    description: 'Delete every cached registry response',
+  },
+  async run() {
+    await clearDiskCache();
+
+    console.log();
+    console.log(`${icons.success} Cleared ${c.file(getCacheDir())}`);
+    console.log();
+  },
+});
+
+// Main cache command
+export default defineCommand({
+  meta: {
+    name: 'cache',
+    description: 'Manage cached registry responses (~/.aspects/cache)',
+  },
+  subCommands: {
+    clear: clearCommand,
+  },
+});
@@ -1,147 +1,126 @@
-import { readFile, writeFile, stat } from "node:fs/promises";
+import { readFile, writeFile } from "node:fs/promises";
 import { join } from "node:path";
 import { defineCommand } from "citty";
 import * as p from "@clack/prompts";
-import { aspectSchema } from "../lib/schema";
-import { ASPECTS_DIR } from "../utils/paths";
-
-// Model family detection
-type ModelFamily = "claude-modern" | "gpt-modern" | "claude-legacy" | "gpt-legacy" | "unknown";
-
-function detectModelFamily(model: string): ModelFamily {
-  const lower = model.toLowerCase();
-  
-  // Claude models
-  if (lower.includes("claude")) {
-    if (lower.includes("claude-4") || lower.includes("claude-3.5") || lower.includes("claude-3-5")) {
-      return "claude-modern";
-    }
-    return "claude-legacy";
-  }
-  
-  // GPT models
-  if (lower.includes("gpt")) {
-    if (lower.includes("gpt-4.1") || lower.includes("gpt-4o") || lower.includes("gpt-4-turbo")) {
-      return "gpt-modern";
-    }
-    return "gpt-legacy";
-  }
-  
-  // Default to modern formatting
-  return "unknown";
-}
-
-function formatDirectivesForModel(
-  directives: Array<{ id: string; rule: string; priority: string }>,
-  family: ModelFamily,
-  options?: { isReminder?: boolean }
-): string {
-  if (directives.length === 0) return "";
-
-  const isModern = family === "claude-modern" || family === "gpt-modern" || family === "unknown";
-  const isReminder = options?.isReminder ?? false;
-
-  if (isModern) {
-    // XML format for modern models
-    const tagName = isReminder ? "critical-reminders" : "directives";
-    const rules = directives
-      .map((d) => `  <rule id="${d.id}" priority="${d.priority}">${d.rule}</rule>`)
-      .join("\n");
-    
-    if (isReminder) {
-      return `<!-- Universal Pattern: High-priority directives repeated here for cross-LLM compatibility.
-     Claude weights prompt beginning; GPT weights prompt end. Repetition ensures emphasis on both. -->
-<${tagName}>\n${rules}\n</${tagName}>\n`;
-    }
-    return `<${tagName}>\n${rules}\n</${tagName}>\n\n`;
-  }
-  
-  // Markdown format for legacy models
-  let output = "";
-  
-  if (isReminder) {
-    output += "<!-- Note: Critical directives repeated below for cross-model compatibility -->\n";
-    output += "## Critical Reminders\n\n";
-  }
-
-  const highPriority = directives.filter((d) => d.priority === "high");
-  const otherPriority = directives.filter((d) => d.priority !== "high");
-
-  for (const d of highPriority) {
-    output += `**IMPORTANT**: ${d.rule}\n\n`;
-  }
-
-  if (!isReminder && otherPriority.length > 0) {
-    for (const d of otherPriority) {
-      output += `- ${d.rule}\n`;
-    }
-    output += "\n";
-  }
+import { loadAspectByNameOrPath, resolveAspectExtends } from "../lib/aspect-loader";
+import { compileAspects, type CompileResult, type ConflictStrategy } from "../lib/compiler";
+import { loadModelProfiles } from "../lib/model-profiles";
+import { applyVariables } from "../lib/variables";
+import { formatPayload, PAYLOAD_FORMATS, type PayloadFormat } from "../lib/payloads";
+import type { Aspect, ModelProfile } from "../lib/types";
+import { c, icons } from "../utils/colors";
+import { getSetsDir, MODELS_PATH } from "../utils/paths";
 
-  return output;
-}
-
-function formatInstructionsForModel(
-  instructions: Array<{ id: string; rule: string }>,
-  family: ModelFamily
-): string {
-  if (instructions.length === 0) return "";
-
-  const isModern = family === "claude-modern" || family === "gpt-modern" || family === "unknown";
-
-  if (isModern) {
-    // XML format for modern models
-    const rules = instructions
-      .map((i) => `  <guideline id="${i.id}">${i.rule}</guideline>`)
-      .join("\n");
-    return `<instructions>\n${rules}\n</instructions>\n\n`;
-  }
-  
-  // Markdown format for legacy models
-  let output = "## Guidelines\n\n";
-  for (const i of instructions) {
-    output += `- ${i.rule}\n`;
-  }
-  output += "\n";
-
-  return output;
-}
+const CONFLICT_STRATEGIES: ConflictStrategy[] = ["error", "first", "last"];
 
 export default defineCommand({
   meta: {
     name: "compile",
     description: `Compile an aspect's prompt for a specific model.
 
-Formats directives and instructions optimally for the target model:
-  - Modern models (Claude 4.x, GPT-4.1+): Clean XML tags
-  - Legacy models (Claude 3, GPT-4): Markdown with emphasis
+Formats directives and instructions optimally for the target model,
+using the first model profile whose id or glob matches it:
+  - Modern models (Claude 4.x, GPT-4.1+, Gemini): Clean XML tags
+  - Legacy models (Claude 3, GPT-4), Llama, Mistral: Markdown with emphasis
+Add or override profiles in ~/.aspects/models.json; see --list-models.
 
 Cross-LLM Universal Pattern:
   High-priority directives are repeated at BOTH beginning and end.
   Claude weights prompt beginning; GPT weights prompt end.
   This ensures critical rules work across all models.
 
+Composing:
+  Several aspects (or a set) compile into one prompt, layered in order.
+  Directives and instructions are combined and sorted by priority; the same
+  id defined differently by two aspects is an error unless --on-conflict says
+  which one wins.
+
+Few-shot examples:
+  An aspect's example dialogues (and the active mode's) follow the prompt,
+  as <example> blocks for modern models and transcripts for legacy ones.
+
+Variables:
+  {{name}} placeholders in the prompt, directives, instructions, modes and
+  examples are filled from --var name=value (repeatable) or a --vars JSON
+  file, falling back to each variable's default. --var wins over --vars.
+
+Token budget:
+  Sizes are estimated offline from the model profile (--tokens shows them
+  per section). --max-tokens trims to fit, in a fixed order: low-priority
+  directives, instructions, the reminder block, examples, then
+  medium-priority directives, last-listed first. High-priority directives, the mode and the
+  prompt are never cut. What was cut is reported on stderr.
+
+Payloads:
+  --format anthropic|openai|gemini prints a request body with the prompt
+  split into one system block per section, ready to add messages to.
+  Examples become prior user/assistant messages instead of a system block.
+  Anthropic blocks get cache breakpoints after the stable sections.
+
+Without -m, the model is the first one recommended by the aspects
+(resources.model.recommended). Without --mode, the first aspect's
+defaultMode is active, if it sets one.
+
 Examples:
+  aspects compile alaric
   aspects compile alaric -m claude-haiku-4-5
   aspects compile alaric -m gpt-4o --mode campaign
   aspects compile ./my-aspect -m claude-4 -o prompt.txt
-  aspects compile alaric -m claude-4 --verbose`,
+  aspects compile alaric -m claude-4 --verbose
+  aspects compile assistant acme-tone tax-expert -m claude-4
+  aspects compile --set support -m gpt-4o --on-conflict last
+  aspects compile alaric -m claude-sonnet-4-5 --format anthropic
+  aspects compile support -m gpt-4o --var company_name=Acme --var product=Anvil
+  aspects compile support -m gpt-4o --vars customers/acme.json
+  aspects compile alaric -m llama-3.2-1b --max-tokens 800
+  aspects compile alaric -m gpt-4o-mini --tokens
+  aspects compile --list-models`,
   },
   args: {
     name: {
       type: "positional",
-      description: "Aspect name or path",
-      required: true,
+      description: "Aspect name(s) or path(s)",
+      required: false,
     },
     model: {
       type: "string",
       alias: "m",
-      description: "Target model (e.g., claude-haiku-4-5, gpt-4o)",
-      required: true,
+      description: "Target model (e.g., claude-haiku-4-5, gpt-4o, gemini-2.5-pro); defaults to the aspect's recommended model",
     },
     mode: {
       type: "string",
-      description: "Activate a mode",
+      description: "Activate a mode (defaults to the aspect's defaultMode)",
+    },
+    set: {
+      type: "string",
+      description: "Compile every aspect in a set",
+    },
+    "on-conflict": {
+      type: "string",
+      description: "When aspects define the same directive id differently: error (default), first, last",
+      default: "error",
+    },
+    var: {
+      type: "string",
+      description: "Set a variable: name=value (repeatable)",
+    },
+    vars: {
+      type: "string",
+      description: "JSON file of variable values",
+    },
+    "max-tokens": {
+      type: "string",
+      description: "Trim lower-priority rules to fit this many tokens",
+    },
+    tokens: {
+      type: "boolean",
+      description: "Show estimated tokens per section instead of the prompt",
+      default: false,
+    },
+    format: {
+      type: "string",
+      description: "Output format: text (default), anthropic, openai, gemini",
+      default: "text",
     },
     output: {
       type: "string",
@@ -154,142 +133,194 @@ Examples:
       description: "Show which directives are active",
       default: false,
     },
+    "list-models": {
+      type: "boolean",
+      description: "List model profiles and exit",
+      default: false,
+    },
   },
   async run({ args }) {
-    // Find the aspect
-    let aspectPath: string;
-    let aspectContent: string;
-
-    // Check if it's a path
+    let profiles: ModelProfile[];
     try {
-      const stats = await stat(args.name);
-      if (stats.isDirectory()) {
-        aspectPath = join(args.name, "aspect.json");
-      } else {
-        aspectPath = args.name;
-      }
-      aspectContent = await readFile(aspectPath, "utf-8");
-    } catch {
-      // Try installed aspects
-      try {
-        aspectPath = join(ASPECTS_DIR, args.name, "aspect.json");
-        aspectContent = await readFile(aspectPath, "utf-8");
-      } catch {
-        p.log.error(`Aspect not found: ${args.name}`);
-        p.log.info("Try: aspects list");
-        process.exit(1);
-      }
+      profiles = await loadModelProfiles();
+    } catch (err) {
+      p.log.error((err as Error).message);
+      process.exit(1);
     }
 
-    // Parse and validate
-    let data: unknown;
-    try {
-      data = JSON.parse(aspectContent);
-    } catch {
-      p.log.error("Invalid JSON in aspect file");
-      process.exit(1);
+    if (args["list-models"]) {
+      listModelProfiles(profiles);
+      return;
     }
 
-    const result = aspectSchema.safeParse(data);
-    if (!result.success) {
-      p.log.error("Invalid aspect schema");
-      for (const issue of result.error.issues) {
-        p.log.error(`  ${issue.path.join(".")}: ${issue.message}`);
-      }
+    const onConflict = args["on-conflict"] as ConflictStrategy;
+    if (!CONFLICT_STRATEGIES.includes(onConflict)) {
+      p.log.error(`Invalid --on-conflict: ${onConflict}. Use one of: ${CONFLICT_STRATEGIES.join(", ")}`);
       process.exit(1);
     }
 
-    const aspect = result.data;
-    const model = args.model;
-    const family = detectModelFamily(model);
-
-    if (args.verbose) {
-      p.log.info(`Compiling ${aspect.name} for ${model}...`);
-      p.log.info("");
-      p.log.info(`Model family: ${family}`);
+    const format = args.format as PayloadFormat;
+    if (!PAYLOAD_FORMATS.includes(format)) {
+      p.log.error(`Invalid --format: ${format}. Use one of: ${PAYLOAD_FORMATS.join(", ")}`);
+      process.exit(1);
+    }
+    if (format !== "text" && args.verbose && !args.output) {
+      p.log.error("--verbose would mix log lines into the JSON on stdout; add -o <file>");
+      process.exit(1);
     }
 
-    // Collect directives and instructions from aspect
-    const directives: Array<{ id: string; rule: string; priority: string }> = aspect.directives || [];
-    const instructions: Array<{ id: string; rule: string }> = aspect.instructions || [];
-
-    // Check for mode
-    let modeInfo: { description: string; critical?: string } | null = null;
-    if (args.mode && aspect.modes) {
-      modeInfo = aspect.modes[args.mode] || null;
-      if (!modeInfo) {
-        p.log.error(`Mode not found: ${args.mode}`);
-        p.log.info(`Available modes: ${Object.keys(aspect.modes).join(", ")}`);
+    let maxTokens: number | undefined;
+    if (args["max-tokens"] !== undefined) {
+      maxTokens = Number(args["max-tokens"]);
+      if (!Number.isInteger(maxTokens) || maxTokens <= 0) {
+        p.log.error(`Invalid --max-tokens: ${args["max-tokens"]}. Use a positive whole number`);
         process.exit(1);
       }
-
-      if (args.verbose) {
-        p.log.info(`Active mode: ${args.mode}`);
-        p.log.info(`  ${modeInfo.description}`);
-      }
     }
 
-    if (args.verbose && directives.length > 0) {
-      p.log.info(`Active directives: ${directives.length}`);
-      for (const d of directives) {
-        p.log.info(`  ✓ ${d.id} [${d.priority}]`);
+    // Every positional is an aspect to compose, in order
+    const names = args._.map(String);
+    if (args.set) {
+      const set = await loadSet(args.set as string);
+      if (!set) {
+        p.log.error(`Set not found: ${args.set}`);
+        p.log.info("Try: aspects set list");
+        process.exit(1);
       }
-      p.log.info("");
+      names.push(...set.aspects.filter(name => !names.includes(name)));
+    }
+    if (names.length === 0) {
+      p.log.error("No aspects to compile");
+      p.log.info("Usage: aspects compile <name...> [-m <model>]");
+      process.exit(1);
     }
 
-    // Build compiled prompt with Universal Pattern:
-    // - Directives at START (Claude weights beginning)
-    // - Directives repeated at END (GPT weights end)
-    let compiled = "";
+    // Find the aspects, with everything they extend merged in
+    const aspects: Aspect[] = [];
+    for (const name of names) {
+      const loaded = await loadAspectByNameOrPath(name);
+      if ("error" in loaded) {
+        p.log.error(loaded.error);
+        p.log.info("Try: aspects list");
+        process.exit(1);
+      }
 
-    // Add directives section at START
-    if (directives.length > 0) {
-      compiled += formatDirectivesForModel(directives, family);
+      const resolved = await resolveAspectExtends(loaded.aspect, loaded.dir);
+      if (!resolved.success) {
+        p.log.error(resolved.error);
+        process.exit(1);
+      }
+      if (args.verbose && resolved.chain.length > 1) {
+        p.log.info(`${resolved.aspect.name} extends: ${resolved.chain.slice(1).join(" -> ")}`);
+      }
+      aspects.push(resolved.aspect);
     }
 
-    // Add instructions section
-    if (instructions.length > 0) {
-      compiled += formatInstructionsForModel(instructions, family);
+    // Without -m, use the first recommended model among the aspects
+    const recommended = aspects.find(a => a.resources?.model)?.resources?.model?.recommended;
+    const model = args.model ?? recommended?.modelId;
+    if (!model) {
+      p.log.error("Missing required option: --model <id> (no aspect recommends a model)");
+      p.log.info("Try: aspects compile --list-models");
+      process.exit(1);
     }
 
-    // Add mode critical section if present
-    if (modeInfo?.critical) {
-      if (family === "claude-modern" || family === "gpt-modern" || family === "unknown") {
-        compiled += `<mode name="${args.mode}">\n${modeInfo.critical}\n</mode>\n\n`;
-      } else {
-        compiled += `## Mode: ${args.mode}\n${modeInfo.critical}\n\n`;
+    const values = await loadVariableValues(args.vars, args.var);
+    if ("error" in values) {
+      p.log.error(values.error);
+      process.exit(1);
+    }
+    const declared = new Set(aspects.flatMap(a => Object.keys(a.variables ?? {})));
+    const unknown = Object.keys(values.values).filter(name => !declared.has(name));
+    if (unknown.length > 0) {
+      p.log.error(`Unknown variable: ${unknown.join(", ")}. Declared: ${[...declared].join(", ") || "none"}`);
+      process.exit(1);
+    }
+    for (const [i, aspect] of aspects.entries()) {
+      const filled = applyVariables(aspect, values.values);
+      if (!filled.success) {
+        for (const error of filled.errors) p.log.error(error);
+        process.exit(1);
       }
+      aspects[i] = filled.aspect;
     }
 
-    // Add main prompt
-    compiled += aspect.prompt;
-
-    // Universal Pattern: Repeat high-priority directives at END
-    // This ensures emphasis on both Claude (beginning-weighted) and GPT (end-weighted)
-    const highPriorityDirectives = directives.filter(d => d.priority === "high");
-    if (highPriorityDirectives.length > 0) {
-      compiled += "\n\n";
-      compiled += formatDirectivesForModel(highPriorityDirectives, family, { isReminder: true });
+    const result = compileAspects(aspects, { model, profiles, mode: args.mode, onConflict, maxTokens });
+    if (!result.success) {
+      p.log.error(result.error);
+      if (result.conflicts?.length) {
+        p.log.info("Use --on-conflict first|last to pick a winner");
+      }
+      process.exit(1);
     }
 
-    // Add voice hints as comment for reference
-    if (aspect.voiceHints && args.verbose) {
+    if (args.verbose) {
+      p.log.info(`Compiling ${aspects.map(a => a.name).join(" + ")} for ${model}...`);
+      if (!args.model && recommended) {
+        p.log.info(`Using the recommended model (${recommended.provider})`);
+      }
       p.log.info("");
-      p.log.info("Voice hints:");
-      if (aspect.voiceHints.speed) {
-        p.log.info(`  Speed: ${aspect.voiceHints.speed}`);
+      p.log.info(`Model profile: ${result.profile.id}`);
+      p.log.info(`Estimated tokens: ${result.tokens} of ${result.profile.contextWindow.toLocaleString("en-US")}`);
+
+      if (args.mode) {
+        p.log.info(`Active mode: ${args.mode}`);
+        for (const aspect of aspects) {
+          const mode = aspect.modes?.[args.mode];
+          if (mode) p.log.info(`  ${mode.description}`);
+        }
       }
-      if (aspect.voiceHints.emotions) {
-        p.log.info(`  Emotions: ${aspect.voiceHints.emotions.join(", ")}`);
+
+      for (const conflict of result.conflicts) {
+        p.log.warn(`Conflicting ${conflict.kind} "${conflict.id}" in ${conflict.aspects.join(", ")} (kept ${onConflict})`);
       }
-      if (aspect.voiceHints.styleHints) {
-        p.log.info(`  Style: ${aspect.voiceHints.styleHints}`);
+
+      if (result.directives.length > 0) {
+        p.log.info(`Active directives: ${result.directives.length}`);
+        for (const d of result.directives) {
+          p.log.info(`  ✓ ${d.id} [${d.priority}]`);
+        }
+        p.log.info("");
+      }
+
+      if (result.examples.length > 0) {
+        p.log.info(`Examples: ${result.examples.length}`);
+      }
+
+      // Add voice hints as comment for reference
+      for (const aspect of aspects) {
+        if (!aspect.voiceHints) continue;
+        p.log.info("");
+        p.log.info(aspects.length > 1 ? `Voice hints (${aspect.name}):` : "Voice hints:");
+        if (aspect.voiceHints.speed) {
+          p.log.info(`  Speed: ${aspect.voiceHints.speed}`);
+        }
+        if (aspect.voiceHints.emotions) {
+          p.log.info(`  Emotions: ${aspect.voiceHints.emotions.join(", ")}`);
+        }
+        if (aspect.voiceHints.styleHints) {
+          p.log.info(`  Style: ${aspect.voiceHints.styleHints}`);
+        }
+      }
+    }
+
+    if (args.tokens) {
+      printTokenReport(result, maxTokens);
+      return;
+    }
+
+    // Explain cuts on stderr so stdout stays the prompt
+    if (result.cuts.length > 0) {
+      console.error(`${icons.warn} Cut to fit ${maxTokens} tokens:`);
+      for (const cut of result.cuts) {
+        console.error(`  ${cut.id ?? cut.kind} ${c.muted(`(${cut.reason}, -${cut.tokens})`)}`);
       }
     }
 
     // Output
+    const output = formatPayload(format, model, result);
     if (args.output) {
-      await writeFile(args.output, compiled);
+      await writeFile(args.output, output);
       p.log.success(`Written to ${args.output}`);
     } else {
       if (args.verbose) {
@@ -297,7 +328,95 @@ Examples:
         p.log.info("--- Compiled Prompt ---");
         p.log.info("");
       }
-      console.log(compiled);
+      console.log(output);
     }
   },
 });
+
+/**
+ * Print estimated tokens per section, and anything a budget cut.
+ */
+function printTokenReport(result: Extract<CompileResult, { success: true }>, maxTokens?: number): void {
+  const width = Math.max(...result.sections.map(s => s.kind.length), "total".length);
+  console.log();
+  console.log(c.bold("  Estimated tokens") + c.dim(` (${result.profile.id}, ~${result.profile.charsPerToken} chars/token)`));
+  console.log();
+  for (const section of result.sections) {
+    console.log(`  ${section.kind.padEnd(width)} ${String(section.tokens).padStart(7)}`);
+  }
+  const budget = maxTokens !== undefined ? ` of ${maxTokens}` : "";
+  console.log(`  ${c.bold("total".padEnd(width))} ${String(result.tokens).padStart(7)}${c.muted(budget)}`);
+
+  if (result.cuts.length > 0) {
+    console.log();
+    console.log(`  ${c.bold("Cut")}`);
+    for (const cut of result.cuts) {
+      console.log(`  ${icons.warn} ${cut.id ?? cut.kind} ${c.muted(`(${cut.reason}, -${cut.tokens})`)}`);
+    }
+  }
+  console.log();
+}
+
+/**
+ * Print model profiles in match order.
+ */
+function listModelProfiles(profiles: ModelProfile[]): void {
+  console.log();
+  console.log(c.bold("  Model profiles") + c.dim(` (first match wins; custom profiles in ${MODELS_PATH})`));
+  console.log();
+  for (const profile of profiles) {
+    const format = [
+      profile.delimiter,
+      `rules at ${profile.directives}`,
+      profile.reminders ? "reminders" : "no reminders",
+      `${profile.emphasis} emphasis`,
+      `${profile.contextWindow.toLocaleString("en-US")} tokens`,
+    ].join(", ");
+    console.log(`  ${c.highlight(profile.id)} ${c.muted(profile.description ?? "")}`);
+    console.log(`    ${c.label("Matches")} ${profile.match.length > 0 ? profile.match.join(" ") : c.muted("id only")}`);
+    console.log(`    ${c.label("Format")}  ${format}`);
+  }
+  console.log();
+}
+
+/**
+ * Variable values from a --vars JSON file, overridden by --var name=value flags.
+ */
+async function loadVariableValues(
+  file: string | undefined,
+  flags: string | string[] | undefined,
+): Promise<{ values: Record<string, unknown> } | { error: string }> {
+  let values: Record<string, unknown> = {};
+  if (file) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(await readFile(file, "utf-8"));
+    } catch (err) {
+      return { error: `Cannot read --vars ${file}: ${(err as Error).message}` };
+    }
+    if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+      return { error: `--vars ${file} must be a JSON object of name: value` };
+    }
+    values = { ...parsed };
+  }
+
+  for (const flag of [flags ?? []].flat()) {
+    const eq = flag.indexOf("=");
+    if (eq <= 0) {
+      return { error: `Invalid --var: ${flag}. Use name=value` };
+    }
+    values[flag.slice(0, eq)] = flag.slice(eq + 1);
+  }
+  return { values };
+}
+
+// Helper to load a set
+async function loadSet(name: string): Promise<{ aspects: string[] } | null> {
+  try {
+    const setPath = join(getSetsDir(), name, "set.json");
+    const content = await readFile(setPath, "utf-8");
+    return JSON.parse(content);
+  } catch {
+    return null;
+  }
+}
@@ -19,6 +19,11 @@ const CONFIG_KEYS = {
     description: 'API registry URL',
     default: DEFAULT_REGISTRY_URL,
   },
+  'offline': {
+    path: ['settings', 'offline'],
+    description: 'Use only cached registry data (true/false)',
+    default: false,
+  },
 } as const;
 
 type ConfigKey = keyof typeof CONFIG_KEYS;
@@ -35,6 +40,15 @@ function getNestedValue(obj: Record<string, unknown>, path: readonly string[]):
   return current;
 }
 
+/** Convert a CLI string to the type of a known key's default */
+function parseKnownValue(key: string, value: string): unknown {
+  if (typeof CONFIG_KEYS[key as ConfigKey]?.default !== 'boolean') return value;
+  if (value === 'true') return true;
+  if (value === 'false') return false;
+  console.error(`${icons.error} ${key} must be true or false`);
+  process.exit(1);
+}
+
 function setNestedValue(obj: Record<string, unknown>, path: readonly string[], value: unknown): void {
   let current = obj;
   for (let i = 0; i < path.length - 1; i++) {
@@ -79,6 +93,11 @@ const listCommand = defineCommand({
     } else {
       console.log(`    ${c.label('url')} ${registryUrl} ${c.dim('(default)')}`);
     }
+    if (process.env.ASPECTS_OFFLINE) {
+      console.log(`    ${c.label('offline')} ${process.env.ASPECTS_OFFLINE} ${c.dim('(from ASPECTS_OFFLINE)')}`);
+    } else {
+      console.log(`    ${c.label('offline')} ${config.settings.offline ?? false}`);
+    }
 
     // Auth info
     console.log();
@@ -135,6 +154,10 @@ const getCommand = defineCommand({
         console.log(process.env.ASPECTS_REGISTRY_URL);
         return;
       }
+      if (key === 'offline' && process.env.ASPECTS_OFFLINE) {
+        console.log(process.env.ASPECTS_OFFLINE);
+        return;
+      }
       
       console.log(effectiveValue);
     } else {
@@ -177,7 +200,7 @@ const setCommand = defineCommand({
     // Check for known keys
     const knownKey = CONFIG_KEYS[key as ConfigKey];
     if (knownKey) {
-      setNestedValue(config as unknown as Record<string, unknown>, knownKey.path, value);
+      setNestedValue(config as unknown as Record<string, unknown>, knownKey.path, parseKnownValue(key, value));
       await writeConfig(config);
       console.log(`${icons.success} Set ${key} = ${value}`);
     } else {
@@ -4,10 +4,12 @@ import { execSync } from "node:child_process";
 import { defineCommand } from "citty";
 import * as p from "@clack/prompts";
 import {
+  CURRENT_SCHEMA_VERSION,
   OFFICIAL_CATEGORIES,
   FIELD_LIMITS,
   type OfficialCategory,
 } from "../lib/schema";
+import { ASPECT_JSON_SCHEMA_URL } from "../lib/json-schema";
 import { listAllSets, loadSet, saveSet } from "./set";
 
 const REGISTRY_DIR = "registry/aspects";
@@ -439,7 +441,8 @@ Keep it light! A few well-crafted rules beat many vague ones.
 
     // Build the aspect object
     const aspect: Record<string, unknown> = {
-      schemaVersion: 1,
+      $schema: ASPECT_JSON_SCHEMA_URL,
+      schemaVersion: CURRENT_SCHEMA_VERSION,
       name: aspectName,
       publisher: "anon-user",
       version: "1.0.0",
@@ -6,6 +6,7 @@ import { c, icons } from "../utils/colors";
 import { getAspectPath } from "../utils/paths";
 import { readConfig } from "../lib/config";
 import { parseAspectFile } from "../lib/parser";
+import { detachFromStore } from "../lib/store";
 import type { Aspect } from "../lib/types";
 
 const CATEGORIES = [
@@ -256,6 +257,8 @@ export default defineCommand({
       }
     }
 
+    // Installed copies are hardlinks into the shared store; edit a private copy
+    await detachFromStore(aspectPath);
     await writeFile(aspectPath, updatedContent);
 
     console.log();
@@ -1,9 +1,12 @@
 import { defineCommand } from "citty";
 import { c, icons } from "../utils/colors";
 import { fetchRegistryIndex } from "../lib/registry";
-import { readConfig } from "../lib/config";
+import { readConfig, enableOfflineMode } from "../lib/config";
+import { getInstallKey } from "../lib/resolver";
 import { getAspectPath } from "../utils/paths";
+import { findAspectFile } from "../lib/formats";
 import { parseAspectFile } from "../lib/parser";
+import { CURRENT_SCHEMA_VERSION } from "../lib/schema";
 import type { Aspect, RegistryAspect, InstalledAspect } from "../lib/types";
 
 interface SearchResult {
@@ -200,8 +203,13 @@ export default defineCommand({
       type: "boolean",
       description: "Only search registry",
     },
+    offline: {
+      type: "boolean",
+      description: "Use only cached registry data (no network)",
+    },
   },
   async run({ args }) {
+    if (args.offline) enableOfflineMode();
     const filters: SearchFilters = {
       name: [],
       tag: [],
@@ -265,8 +273,8 @@ export default defineCommand({
     // Get installed aspects
     const config = await readConfig();
     const installed = config.installed;
-    for (const name of Object.keys(installed)) {
-      installedNames.add(name);
+    for (const key of Object.keys(installed)) {
+      installedNames.add(key);
     }
 
     // Search registry (unless --local)
@@ -276,7 +284,7 @@ export default defineCommand({
         for (const [name, entry] of Object.entries(registry.aspects || {})) {
           // Build a minimal aspect from registry metadata
           const aspect: Aspect = {
-            schemaVersion: 1,
+            schemaVersion: CURRENT_SCHEMA_VERSION,
             name,
             displayName: entry.metadata?.displayName || name,
             tagline: entry.metadata?.tagline || "",
@@ -291,7 +299,7 @@ export default defineCommand({
             results.push({
               aspect,
               source: "registry",
-              installed: installedNames.has(name),
+              installed: installedNames.has(getInstallKey(name, entry.metadata?.publisher)),
               trust: entry.metadata?.trust,
             });
           }
@@ -305,16 +313,18 @@ export default defineCommand({
 
     // Search local aspects (unless --registry)
     if (!filters.registry) {
-      for (const [name, info] of Object.entries(installed)) {
+      for (const [key, info] of Object.entries(installed)) {
         const aspectInfo = info as InstalledAspect;
         // Skip if already in results from registry
-        if (results.some((r) => r.aspect.name === name && r.source === "registry")) {
+        if (results.some((r) =>
+          r.source === "registry" && getInstallKey(r.aspect.name, r.aspect.publisher) === key,
+        )) {
           continue;
         }
 
         // Load full aspect for deep search
-        const aspectPath = aspectInfo.localPath || getAspectPath(name);
-        const parseResult = await parseAspectFile(`${aspectPath}/aspect.json`);
+        const aspectPath = aspectInfo.localPath || getAspectPath(key);
+        const parseResult = await parseAspectFile(await findAspectFile(aspectPath));
         if (!parseResult.success) continue;
 
         const aspect = parseResult.aspect;
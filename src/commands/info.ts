@@ -1,8 +1,12 @@
 import { defineCommand } from 'citty';
 import { log } from '../utils/logger';
-import { findAndLoadAspect } from '../lib/aspect-loader';
+import { findAndLoadAspect, resolveAspectExtends } from '../lib/aspect-loader';
 import { getAspectDetail } from '../lib/registry';
+import { isOfflineError } from '../lib/api-client';
+import { parseInstallSpec } from '../lib/resolver';
+import { enableOfflineMode } from '../lib/config';
 import { c, icons } from '../utils/colors';
+import type { AspectResources } from '../lib/types';
 
 export default defineCommand({
   meta: {
@@ -12,17 +16,26 @@ export default defineCommand({
   args: {
     name: {
       type: 'positional',
-      description: 'Aspect name',
+      description: 'Aspect name (or publisher/name)',
       required: true,
     },
+    offline: {
+      type: 'boolean',
+      description: 'Use only cached registry data (no network)',
+    },
   },
   async run({ args }) {
+    if (args.offline) enableOfflineMode();
     // Search both project and global scopes
     const found = await findAndLoadAspect(args.name);
 
     // If installed locally, show local info
     if (found) {
-      const { aspect, scope, meta: installMeta } = found;
+      const { scope, meta: installMeta } = found;
+
+      // Show the aspect as it compiles, with its parents merged in
+      const resolved = await resolveAspectExtends(found.aspect, installMeta.localPath);
+      const aspect = resolved.success ? resolved.aspect : found.aspect;
 
       console.log();
       console.log(`${c.bold(aspect.displayName)} ${c.muted('(')}${c.aspect(aspect.name)}${c.version(`@${aspect.version}`)}${c.muted(')')} ${c.dim(`[${scope}]`)}`);
@@ -35,12 +48,18 @@ export default defineCommand({
       if (aspect.author) displayMeta.push(['Author', aspect.author]);
       if (aspect.license) displayMeta.push(['License', aspect.license]);
       displayMeta.push(['Source', installMeta.source]);
+      if (resolved.success && resolved.chain.length > 1) {
+        displayMeta.push(['Extends', resolved.chain.slice(1).join(' → ')]);
+      }
 
       if (displayMeta.length > 0) {
         for (const [label, value] of displayMeta) {
           console.log(`  ${c.label(label.padEnd(10))} ${c.value(value)}`);
         }
       }
+      if (!resolved.success) {
+        console.log(`  ${icons.warn} ${c.warn(resolved.error)}`);
+      }
 
       if (aspect.voiceHints) {
         console.log();
@@ -60,7 +79,39 @@ export default defineCommand({
         console.log();
         console.log(`  ${c.bold('Modes')}`);
         for (const [modeName, mode] of Object.entries(aspect.modes)) {
-          console.log(`    ${c.highlight(modeName)} ${icons.arrow} ${c.muted(mode.description)}`);
+          const isDefault = modeName === aspect.defaultMode ? c.dim(' (default)') : '';
+          console.log(`    ${c.highlight(modeName)}${isDefault} ${icons.arrow} ${c.muted(mode.description)}`);
+          if (mode.triggers?.enter?.length) {
+            console.log(`      ${c.label('Enter')} ${c.dim(mode.triggers.enter.map(t => `"${t}"`).join(', '))}`);
+          }
+          if (mode.triggers?.exit?.length) {
+            console.log(`      ${c.label('Exit')}  ${c.dim(mode.triggers.exit.map(t => `"${t}"`).join(', '))}`);
+          }
+        }
+      }
+
+      if (aspect.commands && aspect.commands.length > 0) {
+        console.log();
+        console.log(`  ${c.bold('Commands')}`);
+        for (const cmd of aspect.commands) {
+          console.log(`    ${c.highlight(cmd.id)} ${icons.arrow} ${c.muted(cmd.action)}`);
+          console.log(`      ${c.dim(cmd.aliases.map(a => `"${a}"`).join(', '))}`);
+        }
+      }
+
+      printResources(aspect.resources);
+
+      if (aspect.variables && Object.keys(aspect.variables).length > 0) {
+        console.log();
+        console.log(`  ${c.bold('Variables')}`);
+        for (const [name, variable] of Object.entries(aspect.variables)) {
+          const flags = [
+            variable.type ?? 'string',
+            variable.required ? 'required' : undefined,
+            variable.default !== undefined ? `default ${JSON.stringify(variable.default)}` : undefined,
+          ].filter(Boolean).join(', ');
+          const description = variable.description ? ` ${icons.arrow} ${c.muted(variable.description)}` : '';
+          console.log(`    ${c.highlight(name)} ${c.dim(`(${flags})`)}${description}`);
         }
       }
 
@@ -70,7 +121,10 @@ export default defineCommand({
 
     // Not installed locally - try registry API
     try {
-      const detail = await getAspectDetail(args.name);
+      const spec = parseInstallSpec(args.name);
+      const detail = spec.type === 'registry'
+        ? await getAspectDetail(spec.name, spec.publisher)
+        : null;
 
       if (!detail) {
         log.error(`Aspect "${args.name}" not found (not installed or in registry)`);
@@ -100,6 +154,8 @@ export default defineCommand({
         console.log(`  ${c.label(label.padEnd(10))} ${c.value(value)}`);
       }
 
+      printResources(latestAspect?.resources);
+
       // Stats
       console.log();
       console.log(`  ${c.bold('Stats')}`);
@@ -122,6 +178,10 @@ export default defineCommand({
       console.log(c.muted(`  Install: aspects install ${detail.name}`));
       console.log();
     } catch (err) {
+      if (isOfflineError(err)) {
+        log.error(`Aspect "${args.name}" is not installed and not in the registry cache`);
+        process.exit(1);
+      }
       log.error(`Aspect "${args.name}" is not installed`);
       console.log(c.muted(`  Try "aspects search ${args.name}" to find aspects in the registry`));
       process.exit(1);
@@ -129,6 +189,30 @@ export default defineCommand({
   },
 });
 
+/**
+ * Recommended model and voice, and skills, when the aspect declares them.
+ */
+function printResources(resources: AspectResources | undefined): void {
+  if (!resources) return;
+  const rows: [string, string][] = [];
+  if (resources.voice) {
+    rows.push(['Voice', `${resources.voice.recommended.provider} / ${resources.voice.recommended.voiceId}`]);
+  }
+  if (resources.model) {
+    rows.push(['Model', `${resources.model.recommended.provider} / ${resources.model.recommended.modelId}`]);
+  }
+  if (resources.skills?.length) {
+    rows.push(['Skills', resources.skills.join(', ')]);
+  }
+  if (rows.length === 0) return;
+
+  console.log();
+  console.log(`  ${c.bold('Recommended Resources')}`);
+  for (const [label, value] of rows) {
+    console.log(`    ${c.label(label.padEnd(8))} ${value}`);
+  }
+}
+
 function formatNumber(n: number): string {
   if (n >= 1000) {
     return `${(n / 1000).toFixed(1)}k`;
@@ -4,7 +4,8 @@ import { join } from 'node:path';
 import { defineCommand } from 'citty';
 import * as p from '@clack/prompts';
 import { c, icons } from '../utils/colors';
-import { PROJECT_ASPECTS_DIR_NAME } from '../utils/paths';
+import { PROJECT_ASPECTS_DIR_NAME, PROJECT_MANIFEST_NAME } from '../utils/paths';
+import { readManifest, writeManifest, createDefaultManifest } from '../lib/manifest';
 
 export default defineCommand({
   meta: {
@@ -36,13 +37,15 @@ export default defineCommand({
       }
     }
 
-    // Create directory structure
+    // Create directory structure and manifest
     await mkdir(aspectsDir, { recursive: true });
+    await ensureManifest(cwd);
 
     console.log();
     console.log(`${icons.success} Initialized ${c.file('.aspects/')} in ${c.muted(cwd)}`);
     console.log();
     console.log(`  Now you can run ${c.cmd('aspects add <name>')} to install locally.`);
+    console.log(`  Installed aspects are declared in ${c.file(PROJECT_MANIFEST_NAME)} - commit it with your project.`);
     console.log();
   },
 });
@@ -57,6 +60,15 @@ export async function initProjectAspects(): Promise<string> {
   const aspectsDir = join(cwd, PROJECT_ASPECTS_DIR_NAME);
 
   await mkdir(aspectsDir, { recursive: true });
+  await ensureManifest(cwd);
 
   return cwd;
 }
+
+/**
+ * Create an empty aspects.json manifest unless one already exists.
+ */
+async function ensureManifest(projectRoot: string): Promise<void> {
+  if (await readManifest(projectRoot)) return;
+  await writeManifest(createDefaultManifest(), projectRoot);
+}
@@ -0,0 +1,241 @@
+import { defineCommand } from 'citty';
+import {
+  generateSigningKey,
+  loadSigningKey,
+  formatPublicKey,
+  parsePublicKey,
+  readTrustedKeys,
+  writeTrustedKeys,
+} from '../lib/signing';
+import { c, icons } from '../utils/colors';
+import { TRUSTED_KEYS_PATH } from '../utils/paths';
+
+// Subcommand: key generate
+const generateCommand = defineCommand({
+  meta: {
+    name: 'generate',
+    description: 'Generate an ed25519 signing key for publishing',
+  },
+  args: {
+    force: {
+      type: 'boolean',
+      alias: 'f',
+      description: 'Replace an existing key (aspects signed with the old key will no longer match it)',
+      default: false,
+    },
+  },
+  async run({ args }) {
+    let publicKey: string;
+    try {
+      publicKey = await generateSigningKey(args.force);
+    } catch (err) {
+      console.error(`${icons.error} ${(err as Error).message}`);
+      console.log(`  Use ${c.cmd('aspects key generate --force')} to replace it.`);
+      process.exit(1);
+    }
+
+    console.log(`${icons.success} Generated signing key`);
+    console.log();
+    console.log(`  ${c.label('Public key')} ${publicKey}`);
+    console.log();
+    console.log(`  ${c.cmd('aspects publish')} now signs what you publish.`);
+    console.log(`  Share the public key so others can ${c.cmd('aspects key trust <publisher> <key>')}.`);
+  },
+});
+
+// Subcommand: key export
+const exportCommand = defineCommand({
+  meta: {
+    name: 'export',
+    description: 'Print your public signing key',
+  },
+  async run() {
+    const key = await loadSigningKey();
+    if (!key) {
+      console.error(`${icons.error} No signing key. Run ${c.cmd('aspects key generate')} first.`);
+      process.exit(1);
+    }
+    console.log(formatPublicKey(key));
+  },
+});
+
+// Subcommand: key trust
+const trustCommand = defineCommand({
+  meta: {
+    name: 'trust',
+    description: 'Trust a public key for a publisher',
+  },
+  args: {
+    publisher: {
+      type: 'positional',
+      description: 'Publisher handle',
+      required: true,
+    },
+    key: {
+      type: 'positional',
+      description: 'Public key (ed25519:<base58>)',
+      required: true,
+    },
+    require: {
+      type: 'boolean',
+      description: 'Also refuse unsigned or untrusted installs from this publisher',
+      default: false,
+    },
+  },
+  async run({ args }) {
+    const publisher = (args.publisher as string).replace(/^@/, '').toLowerCase();
+    const publicKey = args.key as string;
+
+    try {
+      parsePublicKey(publicKey);
+    } catch (err) {
+      console.error(`${icons.error} ${(err as Error).message}`);
+      process.exit(1);
+    }
+
+    const trusted = await readTrustedKeys();
+    const entry = trusted.publishers[publisher] ?? { keys: [] };
+    if (!entry.keys.includes(publicKey)) {
+      entry.keys.push(publicKey);
+    }
+    if (args.require) {
+      entry.requireSignature = true;
+    }
+    trusted.publishers[publisher] = entry;
+    await writeTrustedKeys(trusted);
+
+    console.log(`${icons.success} Trusted ${c.dim(publicKey)} for @${publisher}`);
+    if (entry.requireSignature) {
+      console.log(`  Installs from @${publisher} must be signed by a trusted key.`);
+    }
+  },
+});
+
+// Subcommand: key untrust
+const untrustCommand = defineCommand({
+  meta: {
+    name: 'untrust',
+    description: 'Stop trusting a key (or all keys) for a publisher',
+  },
+  args: {
+    publisher: {
+      type: 'positional',
+      description: 'Publisher handle',
+      required: true,
+    },
+    key: {
+      type: 'positional',
+      description: 'Public key to remove (omit to remove the publisher entirely)',
+      required: false,
+    },
+  },
+  async run({ args }) {
+    const publisher = (args.publisher as string).replace(/^@/, '').toLowerCase();
+    const publicKey = args.key as string | undefined;
+
+    const trusted = await readTrustedKeys();
+    const entry = trusted.publishers[publisher];
+    if (!entry || (publicKey && !entry.keys.includes(publicKey))) {
+      console.error(`${icons.error} No such trusted key for @${publisher}`);
+      process.exit(1);
+    }
+
+    if (publicKey) {
+      entry.keys = entry.keys.filter(k => k !== publicKey);
+      console.log(`${icons.success} Removed ${c.dim(publicKey)} from @${publisher}`);
+    } else {
+      delete trusted.publishers[publisher];
+      console.log(`${icons.success} Removed all keys for @${publisher}`);
+    }
+    await writeTrustedKeys(trusted);
+  },
+});
+
+// Subcommand: key require
+const requireCommand = defineCommand({
+  meta: {
+    name: 'require',
+    description: 'Require trusted signatures for installs from a publisher',
+  },
+  args: {
+    publisher: {
+      type: 'positional',
+      description: 'Publisher handle',
+      required: true,
+    },
+    off: {
+      type: 'boolean',
+      description: 'Stop requiring signatures',
+      default: false,
+    },
+  },
+  async run({ args }) {
+    const publisher = (args.publisher as string).replace(/^@/, '').toLowerCase();
+
+    const trusted = await readTrustedKeys();
+    const entry = trusted.publishers[publisher] ?? { keys: [] };
+    if (args.off) {
+      delete entry.requireSignature;
+    } else {
+      entry.requireSignature = true;
+    }
+    trusted.publishers[publisher] = entry;
+    await writeTrustedKeys(trusted);
+
+    if (args.off) {
+      console.log(`${icons.success} Signatures no longer required for @${publisher}`);
+      return;
+    }
+    console.log(`${icons.success} Installs from @${publisher} must now be signed by a trusted key`);
+    if (entry.keys.length === 0) {
+      console.log(`  ${icons.warn} No keys trusted yet. Add one with ${c.cmd(`aspects key trust ${publisher} <key>`)}.`);
+    }
+  },
+});
+
+// Subcommand: key list
+const listCommand = defineCommand({
+  meta: {
+    name: 'list',
+    description: 'Show your signing key and trusted publisher keys',
+  },
+  async run() {
+    const key = await loadSigningKey();
+    const trusted = await readTrustedKeys();
+
+    console.log();
+    console.log(c.bold('  Signing key'));
+    console.log(`    ${key ? formatPublicKey(key) : c.muted('none')}`);
+    console.log();
+    console.log(c.bold('  Trusted publishers') + c.dim(` (${TRUSTED_KEYS_PATH})`));
+
+    const publishers = Object.entries(trusted.publishers);
+    if (publishers.length === 0) {
+      console.log(`    ${c.muted('none')}`);
+    }
+    for (const [publisher, entry] of publishers) {
+      const required = entry.requireSignature ? c.warn(' (signature required)') : '';
+      console.log(`    @${publisher}${required}`);
+      for (const k of entry.keys) {
+        console.log(`      ${c.dim(k)}`);
+      }
+    }
+    console.log();
+  },
+});
+
+// Main key command
+export default defineCommand({
+  meta: {
+    name: 'key',
+    description: 'Manage publisher signing keys and trusted keys',
+  },
+  subCommands: {
+    generate: generateCommand,
+    export: exportCommand,
+    trust: trustCommand,
+    untrust: untrustCommand,
+    require: requireCommand,
+    list: listCommand,
+  },
+});
@@ -0,0 +1,173 @@
+import { relative, resolve } from 'node:path';
+import { defineCommand } from 'citty';
+import { listAllInstalledAspects } from '../lib/config';
+import { findAspectFile, resolveAspectFile } from '../lib/formats';
+import { lintAspectFile, lintConfigForFile, readLintConfig, type LintConfig, type LintProblem } from '../lib/lint';
+import { BUILTIN_LINT_RULES } from '../lib/lint-rules';
+import { readManifest } from '../lib/manifest';
+import { c, icons } from '../utils/colors';
+import { findProjectRoot } from '../utils/paths';
+
+interface FileReport {
+  file: string;
+  problems: LintProblem[];
+  errors?: string[];  // The file didn't parse
+}
+
+const SEVERITY_ICONS = {
+  error: icons.error,
+  warning: icons.warn,
+  info: icons.info,
+};
+
+function printReport({ file, problems, errors }: FileReport): void {
+  if (errors) {
+    console.log(`${icons.error} ${c.file(file)}`);
+    for (const error of errors) {
+      console.log(`    ${c.muted(error)}`);
+    }
+    return;
+  }
+  if (problems.length === 0) {
+    console.log(`${icons.success} ${c.file(file)}`);
+    return;
+  }
+
+  console.log(c.file(file));
+  for (const problem of problems) {
+    const where = problem.line !== undefined ? `${problem.line}` : problem.path;
+    console.log(`  ${SEVERITY_ICONS[problem.severity]} ${c.muted(where.padEnd(4))} ${problem.message} ${c.muted(problem.rule)}`);
+  }
+}
+
+export default defineCommand({
+  meta: {
+    name: 'lint',
+    description: `Check aspect files for prompt-writing pitfalls that behave differently across models.
+
+Rules:
+${BUILTIN_LINT_RULES.map(rule => `  ${rule.id.padEnd(25)} ${rule.description}`).join('\n')}
+
+Configure rules in the "lint" section of aspects.json:
+  { "lint": { "rules": { "absolute-language": "error", "no-shouting": { "max": 0 }, "unknown-category": "off" } } }
+
+Suppress inline with a YAML comment (or <!-- --> in aspect.md):
+  # aspects-lint-disable-next-line no-shouting
+
+aspect.json has no comments; turn rules off for it with an override:
+  { "lint": { "overrides": [{ "files": ["aspect.json"], "rules": { "no-shouting": "off" } }] } }
+
+Exits non-zero on errors, and with --max-warnings when there are more warnings than allowed.
+
+Examples:
+  aspects lint                     Lint the aspect file here
+  aspects lint ./my-aspect         Lint a directory's aspect file, or a file
+  aspects lint --all               Lint the source files of all local installs
+  aspects lint --format json       Machine-readable output for CI`,
+  },
+  args: {
+    path: {
+      type: 'positional',
+      description: 'Path to an aspect file or its directory (default: current directory)',
+      required: false,
+    },
+    all: {
+      type: 'boolean',
+      description: 'Lint the source files of all local installs',
+    },
+    format: {
+      type: 'string',
+      description: 'Output format: text or json',
+      default: 'text',
+    },
+    'max-warnings': {
+      type: 'string',
+      description: 'Fail if there are more warnings than this',
+    },
+  },
+  async run({ args }) {
+    const format = args.format as string;
+    if (format !== 'text' && format !== 'json') {
+      console.log(`${icons.error} Unknown format "${format}" (use text or json)`);
+      process.exit(1);
+    }
+
+    let maxWarnings: number | undefined;
+    if (args['max-warnings'] !== undefined) {
+      maxWarnings = Number(args['max-warnings']);
+      if (!Number.isInteger(maxWarnings) || maxWarnings < 0) {
+        console.log(`${icons.error} --max-warnings must be a non-negative integer`);
+        process.exit(1);
+      }
+    }
+
+    const projectRoot = await findProjectRoot() || undefined;
+    let config: LintConfig;
+    try {
+      config = readLintConfig(projectRoot ? await readManifest(projectRoot) : null);
+    } catch (err) {
+      console.log(`${icons.error} ${(err as Error).message}`);
+      process.exit(1);
+    }
+
+    let files: string[];
+    if (args.all) {
+      const local = (await listAllInstalledAspects(projectRoot)).filter(a => a.localPath);
+      files = [...new Set(await Promise.all(local.map(a => findAspectFile(a.localPath!))))];
+    } else {
+      files = [await resolveAspectFile(resolve(args.path || '.'))];
+    }
+
+    const reports: FileReport[] = [];
+    for (const file of files) {
+      let result;
+      try {
+        result = await lintAspectFile(file, {
+          config: projectRoot ? lintConfigForFile(config, relative(projectRoot, file)) : config,
+        });
+      } catch (err) {
+        // Invalid rule settings
+        console.log(`${icons.error} ${(err as Error).message}`);
+        process.exit(1);
+      }
+      reports.push(result.success ? { file, problems: result.problems } : { file, problems: [], errors: result.errors });
+    }
+
+    const all = reports.flatMap(r => r.problems);
+    const errors = all.filter(p => p.severity === 'error').length + reports.filter(r => r.errors).length;
+    const warnings = all.filter(p => p.severity === 'warning').length;
+    const infos = all.filter(p => p.severity === 'info').length;
+    const failed = errors > 0 || (maxWarnings !== undefined && warnings > maxWarnings);
+
+    if (format === 'json') {
+      console.log(JSON.stringify(reports, null, 2));
+      if (failed) process.exit(1);
+      return;
+    }
+
+    console.log();
+    if (files.length === 0) {
+      console.log(`${icons.info} No local installs to lint`);
+      console.log();
+      return;
+    }
+    for (const report of reports) {
+      printReport(report);
+    }
+
+    console.log();
+    if (all.length === 0 && errors === 0) {
+      console.log(`${icons.success} No problems in ${files.length} file(s)`);
+    } else {
+      console.log(`${errors > 0 ? icons.error : icons.warn} ${errors} error(s), ${warnings} warning(s), ${infos} info`);
+      if (maxWarnings !== undefined && warnings > maxWarnings) {
+        console.log(c.muted(`  More than ${maxWarnings} warning(s) allowed by --max-warnings.`));
+      }
+    }
+    console.log();
+
+    if (failed) {
+      process.exit(1);
+    }
+  },
+});
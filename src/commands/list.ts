@@ -1,9 +1,8 @@
 import { defineCommand } from 'citty';
 import { listInstalledAspects, listAllInstalledAspects } from '../lib/config';
-import { loadInstalledAspect } from '../lib/aspect-loader';
+import { hashInstalledAspect, loadInstalledAspect } from '../lib/aspect-loader';
 import { c, icons, formatAspectLine, type AspectDisplayInfo } from '../utils/colors';
 import { findProjectRoot, type InstallScope } from '../utils/paths';
-import { blake3HashAspect } from '../utils/hash';
 import type { InstalledAspect } from '../lib/types';
 
 interface GroupedAspect {
@@ -38,7 +37,7 @@ export default defineCommand({
   async run({ args }) {
     const projectRoot = await findProjectRoot() || undefined;
     
-    let installed: Array<{ name: string; scope: InstallScope } & InstalledAspect>;
+    let installed: Array<{ name: string; key: string; scope: InstallScope } & InstalledAspect>;
     if (args.global) {
       installed = await listInstalledAspects('global');
     } else if (args.project) {
@@ -67,10 +66,10 @@ export default defineCommand({
         }
       } else {
         // Load aspect for tagline and modification check
-        const aspect = await loadInstalledAspect(item.name, item.scope, projectRoot);
+        const aspect = await loadInstalledAspect(item.key, item.scope, projectRoot, { asWritten: true });
         let isModified = false;
         if (aspect) {
-          const currentHash = blake3HashAspect(aspect);
+          const currentHash = await hashInstalledAspect(item.key, item.scope, projectRoot);
           isModified = currentHash !== item.blake3;
         }
         
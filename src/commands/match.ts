@@ -0,0 +1,100 @@
+import { defineCommand } from "citty";
+import * as p from "@clack/prompts";
+import { loadAspectByNameOrPath, resolveAspectExtends } from "../lib/aspect-loader";
+import { matchTrigger, type TriggerMatch } from "../lib/modes";
+import { c, icons } from "../utils/colors";
+
+const FORMATS = ["text", "json"] as const;
+
+function describeMatch(match: TriggerMatch): string {
+  switch (match.type) {
+    case "enter":
+      return `enter mode ${c.bold(match.mode)}`;
+    case "exit":
+      return `exit mode ${c.bold(match.mode)}`;
+    case "command":
+      return `run command ${c.bold(match.command)}`;
+  }
+}
+
+export default defineCommand({
+  meta: {
+    name: "match",
+    description: `Match an utterance to a mode switch or command.
+
+Uses the aspect's mode triggers and command aliases, the way a voice app
+would: whole-word phrases, ignoring case and punctuation. Only the active
+mode's exit phrases and the other modes' enter phrases count; the longest
+matching phrase wins.
+
+With --format json, prints the match ({"type":"enter"|"exit","mode",...} or
+{"type":"command","command",...}) or null, for apps to call.
+
+Examples:
+  aspects match alaric "let's play a game"
+  aspects match alaric "stop playing" --mode campaign
+  aspects match ./my-aspect "what can you do" --format json`,
+  },
+  args: {
+    aspect: {
+      type: "positional",
+      description: "Installed aspect name, or path to an aspect file or directory",
+      required: true,
+    },
+    utterance: {
+      type: "positional",
+      description: "What the user said",
+      required: true,
+    },
+    mode: {
+      type: "string",
+      description: "The mode that's active now",
+    },
+    format: {
+      type: "string",
+      description: `Output format: ${FORMATS.join(", ")}`,
+      default: "text",
+    },
+  },
+  async run({ args }) {
+    const format = args.format as (typeof FORMATS)[number];
+    if (!FORMATS.includes(format)) {
+      p.log.error(`Invalid --format: ${format}. Use one of: ${FORMATS.join(", ")}`);
+      process.exit(1);
+    }
+
+    const loaded = await loadAspectByNameOrPath(args.aspect);
+    if ("error" in loaded) {
+      p.log.error(loaded.error);
+      process.exit(1);
+    }
+
+    // Modes and commands can come from a parent
+    const resolved = await resolveAspectExtends(loaded.aspect, loaded.dir);
+    if (!resolved.success) {
+      p.log.error(resolved.error);
+      process.exit(1);
+    }
+    const aspect = resolved.aspect;
+
+    if (args.mode && !aspect.modes?.[args.mode]) {
+      const modes = Object.keys(aspect.modes ?? {});
+      p.log.error(`Unknown mode: ${args.mode}. ${aspect.name} has: ${modes.join(", ") || "no modes"}`);
+      process.exit(1);
+    }
+
+    const match = matchTrigger(aspect, args.utterance, args.mode);
+    if (format === "json") {
+      console.log(JSON.stringify(match));
+      return;
+    }
+
+    console.log();
+    if (match) {
+      console.log(`${icons.success} ${describeMatch(match)} ${c.muted(`(matched "${match.phrase}")`)}`);
+    } else {
+      console.log(`${icons.info} No trigger matched`);
+    }
+    console.log();
+  },
+});
@@ -0,0 +1,184 @@
+import { readFile, writeFile } from 'node:fs/promises';
+import { dirname, resolve } from 'node:path';
+import { defineCommand } from 'citty';
+import { hashInstalledAspect } from '../lib/aspect-loader';
+import { addInstalledAspect, listAllInstalledAspects } from '../lib/config';
+import { aspectFormatOf, findAspectFile, readAspectSource, resolveAspectFile } from '../lib/formats';
+import { setLockedAspect } from '../lib/lockfile';
+import { migrateAspectContent } from '../lib/migrations';
+import { parseAspectData, readPromptFile } from '../lib/parser';
+import { CURRENT_SCHEMA_VERSION } from '../lib/schema';
+import { detachFromStore } from '../lib/store';
+import { c, icons } from '../utils/colors';
+import { diffLines } from '../utils/diff';
+import { findProjectRoot } from '../utils/paths';
+
+type Outcome = 'migrated' | 'current' | 'failed';
+type Install = Awaited<ReturnType<typeof listAllInstalledAspects>>[number];
+
+/**
+ * Changed lines with a line of context either side.
+ */
+function formatDiff(before: string, after: string): string[] {
+  const lines = diffLines(before, after);
+  const shown = new Set<number>();
+  lines.forEach((line, i) => {
+    if (line.type !== 'same') [i - 1, i, i + 1].forEach(n => shown.add(n));
+  });
+
+  const output: string[] = [];
+  let previous = -1;
+  for (let i = 0; i < lines.length; i++) {
+    if (!shown.has(i)) continue;
+    if (previous !== -1 && i > previous + 1) output.push(c.muted('    ...'));
+    const line = lines[i]!;
+    if (line.type === 'added') output.push(c.success(`  + ${line.text}`));
+    else if (line.type === 'removed') output.push(c.error(`  - ${line.text}`));
+    else output.push(c.muted(`    ${line.text}`));
+    previous = i;
+  }
+  return output;
+}
+
+async function migrateFile(file: string, dryRun: boolean): Promise<Outcome> {
+  let content: string;
+  try {
+    content = await readFile(file, 'utf-8');
+  } catch {
+    console.log(`${icons.error} ${c.file(file)} ${c.muted('not found')}`);
+    return 'failed';
+  }
+
+  const format = aspectFormatOf(file);
+  const source = readAspectSource(content, format);
+  const parsed = source.success ? parseAspectData(source.data, await readPromptFile(source.data, dirname(file))) : source;
+  if (!parsed.success) {
+    console.log(`${icons.error} ${c.file(file)}`);
+    for (const error of parsed.errors) {
+      console.log(`    ${c.muted(error)}`);
+    }
+    return 'failed';
+  }
+
+  if (parsed.migratedFrom === undefined) {
+    console.log(`${icons.success} ${c.file(file)} ${c.muted(`already schema v${CURRENT_SCHEMA_VERSION}`)}`);
+    return 'current';
+  }
+
+  const migrated = migrateAspectContent(content, parsed.migratedFrom, format);
+  console.log(`${icons.info} ${c.file(file)} ${c.muted(`schema v${parsed.migratedFrom} → v${CURRENT_SCHEMA_VERSION}`)}`);
+  for (const line of formatDiff(content, migrated)) {
+    console.log(line);
+  }
+
+  if (!dryRun) {
+    // Never rewrite a blob other installs share
+    await detachFromStore(file);
+    await writeFile(file, migrated);
+  }
+  return 'migrated';
+}
+
+/**
+ * Record a local install's new hash after its source file was migrated,
+ * in config and aspects.lock, so verify and frozen installs accept it.
+ */
+async function rehashInstall(install: Install, projectRoot?: string): Promise<void> {
+  const { key, name: _name, scope, ...info } = install;
+  const blake3 = await hashInstalledAspect(key, scope, projectRoot);
+  if (!blake3) return;
+  const updated = { ...info, blake3 };
+  await addInstalledAspect(key, updated, scope, projectRoot);
+  if (scope === 'project') {
+    await setLockedAspect(key, updated, projectRoot);
+  }
+}
+
+export default defineCommand({
+  meta: {
+    name: 'migrate',
+    description: `Upgrade aspect files to the current schema version (v${CURRENT_SCHEMA_VERSION}).
+
+Older files still load: they're migrated in memory each time, with a warning.
+This rewrites them in place, changing only the keys a migration touches,
+and shows the changes as a diff. Works on aspect.json, aspect.yaml and aspect.md.
+
+--all upgrades the source files of local installs and records their new hashes,
+so verify and frozen installs still pass. Aspects installed from the
+registry, GitHub or a hash stay exactly as published, so they keep matching
+their install hash; they're migrated when loaded.
+
+Examples:
+  aspects migrate                  Upgrade the aspect file here
+  aspects migrate ./my-aspect      Upgrade a directory's aspect file, or a file
+  aspects migrate --all --dry-run  Preview upgrading every local install`,
+  },
+  args: {
+    path: {
+      type: 'positional',
+      description: 'Path to an aspect file or its directory (default: current directory)',
+      required: false,
+    },
+    all: {
+      type: 'boolean',
+      description: 'Upgrade the source files of all local installs',
+    },
+    'dry-run': {
+      type: 'boolean',
+      description: 'Show the changes without writing them',
+    },
+  },
+  async run({ args }) {
+    const dryRun = args['dry-run'] as boolean | undefined;
+
+    let files: string[];
+    let local: Install[] = [];
+    let localFiles: string[] = [];
+    let published = 0;
+    const projectRoot = await findProjectRoot() || undefined;
+    if (args.all) {
+      const installed = await listAllInstalledAspects(projectRoot);
+      local = installed.filter(a => a.localPath);
+      published = installed.length - local.length;
+      localFiles = await Promise.all(local.map(a => findAspectFile(a.localPath!)));
+      files = [...new Set(localFiles)];
+    } else {
+      files = [await resolveAspectFile(resolve(args.path || '.'))];
+    }
+
+    console.log();
+    const results = new Map<string, Outcome>();
+    for (const file of files) {
+      results.set(file, await migrateFile(file, dryRun ?? false));
+    }
+    const outcomes = [...results.values()];
+
+    if (!dryRun) {
+      // Several installs can share one source file
+      for (const [i, install] of local.entries()) {
+        if (results.get(localFiles[i]!) === 'migrated') await rehashInstall(install, projectRoot);
+      }
+    }
+
+    const migrated = outcomes.filter(o => o === 'migrated').length;
+    const failed = outcomes.filter(o => o === 'failed').length;
+    console.log();
+    if (files.length === 0) {
+      console.log(`${icons.info} No local installs to migrate`);
+    } else if (migrated === 0 && failed === 0) {
+      console.log(`${icons.success} Nothing to migrate`);
+    } else if (dryRun) {
+      console.log(`${icons.info} Would migrate ${migrated} file(s)`);
+    } else {
+      console.log(`${icons.success} Migrated ${migrated} file(s)`);
+    }
+    if (published > 0) {
+      console.log(c.muted(`  ${published} published install(s) left as installed; they're migrated when loaded.`));
+    }
+    console.log();
+
+    if (failed > 0) {
+      process.exit(1);
+    }
+  },
+});
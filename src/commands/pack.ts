@@ -0,0 +1,74 @@
+import { writeFile } from 'node:fs/promises';
+import { resolve } from 'node:path';
+import { defineCommand } from 'citty';
+import { PACKAGE_EXTENSION, packAspect, readPackageDir } from '../lib/pack';
+import { c, icons } from '../utils/colors';
+
+function formatSize(bytes: number): string {
+  return bytes < 1024 ? `${bytes} B` : `${(bytes / 1024).toFixed(1)} KB`;
+}
+
+export default defineCommand({
+  meta: {
+    name: 'pack',
+    description: `Pack a multi-file aspect into a ${PACKAGE_EXTENSION} file.
+
+A package is an aspect directory whose aspect file lists extra files, such as
+a README or example dialogues, in "files". The ${PACKAGE_EXTENSION} file is a gzipped
+tar of aspect.json and those files, built the same way every time, so the
+same contents always give the same blake3 hash.
+
+Install it with \`aspects add ./name-1.0.0${PACKAGE_EXTENSION}\`, or \`aspects add blake3:<hash>\`
+once it's in the store.
+
+Examples:
+  aspects pack                     Pack the aspect in the current directory
+  aspects pack ./my-aspect         Pack a directory
+  aspects pack -o dist/my.aspect   Choose the output file`,
+  },
+  args: {
+    path: {
+      type: 'positional',
+      description: 'Aspect directory (default: current directory)',
+      required: false,
+    },
+    output: {
+      type: 'string',
+      alias: 'o',
+      description: `Output file (default: <name>-<version>${PACKAGE_EXTENSION})`,
+    },
+  },
+  async run({ args }) {
+    const dir = resolve(args.path || '.');
+    const result = await readPackageDir(dir);
+
+    console.log();
+    if (!result.success) {
+      console.log(`${icons.error} Cannot pack ${c.file(dir)}`);
+      for (const error of result.errors) {
+        console.log(`    ${c.muted(error)}`);
+      }
+      console.log();
+      process.exit(1);
+    }
+
+    const pkg = result.package;
+    for (const warning of pkg.warnings) {
+      console.log(`${icons.warn} ${warning}`);
+    }
+
+    const packed = packAspect(pkg);
+    const output = args.output ?? `${pkg.aspect.name}-${pkg.aspect.version}${PACKAGE_EXTENSION}`;
+    await writeFile(output, packed);
+
+    for (const file of pkg.files) {
+      console.log(`  ${c.file(file.path)} ${c.muted(formatSize(file.content.length))}`);
+    }
+    const size = pkg.files.reduce((total, file) => total + file.content.length, 0);
+    console.log();
+    console.log(`${icons.success} Packed ${c.aspect(pkg.aspect.name)}${c.version(`@${pkg.aspect.version}`)} to ${c.file(output)}`);
+    console.log(`  ${c.label('Files')} ${pkg.files.length}, ${formatSize(size)} (${formatSize(packed.length)} packed)`);
+    console.log(`  ${c.label('Hash')}  blake3:${pkg.hash}`);
+    console.log();
+  },
+});
@@ -3,9 +3,11 @@ import { join, dirname } from "node:path";
 import { defineCommand } from "citty";
 import * as p from "@clack/prompts";
 import { ASPECTS_DIR, findProjectRoot, getAspectPath } from "../utils/paths";
-import { aspectSchema } from "../lib/schema";
+import { parseAspectData, readPromptFile } from "../lib/parser";
+import { aspectFormatOf, findAspectFile, readAspectSource, toAspectJson } from "../lib/formats";
 import { publishAspect, ApiClientError } from "../lib/api-client";
 import { getAuth, isLoggedIn, findInstalledAspect, getDefaultHandle, getHandles, hasHandlePermission } from "../lib/config";
+import { loadSigningKey, formatPublicKey, signAspect } from "../lib/signing";
 import { c, icons } from "../utils/colors";
 
 const MAX_ASPECT_SIZE = 51200; // 50KB
@@ -19,6 +21,7 @@ interface AspectInfo {
   category?: string;
   publisher?: string;
   author?: string;
+  files?: string[];
 }
 
 export default defineCommand({
@@ -37,6 +40,10 @@ Examples:
   aspects publish                  Interactive (scans for aspects)
   aspects publish ./my-aspect      Publish specific aspect
   aspects publish --dry-run        Validate without publishing
+  aspects publish --no-sign        Publish without a signature
+
+If you have a signing key (aspects key generate), the canonical aspect
+content is signed with it so installers can verify it came from you.
 
 Don't want an account? Use 'aspects share' instead:
   - No login required
@@ -53,9 +60,15 @@ Don't want an account? Use 'aspects share' instead:
       type: "boolean",
       description: "Validate without publishing",
     },
+    sign: {
+      type: "boolean",
+      description: "Sign with your local signing key (use --no-sign to skip)",
+      default: true,
+    },
   },
   async run({ args }) {
     const dryRun = args["dry-run"] as boolean | undefined;
+    const signingKey = args.sign ? await loadSigningKey() : null;
 
     p.intro(`${icons.package} ${dryRun ? 'Validate' : 'Publish'} an aspect`);
 
@@ -89,7 +102,7 @@ Don't want an account? Use 'aspects share' instead:
         if (installed.length > 0) {
           // Prefer project scope if available
           const match = installed.find(i => i.scope === 'project') || installed[0]!;
-          aspectPath = getAspectPath(inputPath, match.scope, projectRoot);
+          aspectPath = match.localPath ?? getAspectPath(match.key, match.scope, projectRoot);
           p.log.info(`Found installed: ${c.aspect(inputPath)} ${c.dim(`[${match.scope}]`)}`);
         } else {
           // Fall through - will fail with "Path not found" in validateAspect
@@ -149,6 +162,14 @@ Don't want an account? Use 'aspects share' instead:
       process.exit(1);
     }
 
+    // The registry stores a single aspect.json, which would drop the other files
+    if (validation.aspect.files?.length) {
+      spinner2.stop("Validation failed");
+      p.log.error(`"${validation.aspect.name}" is a multi-file package, which the registry can't host yet`);
+      p.log.info(`Pack it with ${c.cmd("aspects pack")} and distribute the .aspect file instead.`);
+      process.exit(1);
+    }
+
     // Check size
     const sizeBytes = Buffer.byteLength(validation.content);
     if (sizeBytes > MAX_ASPECT_SIZE) {
@@ -203,12 +224,17 @@ Don't want an account? Use 'aspects share' instead:
     console.log(`  ${c.label("Size")}      ${(sizeBytes / 1024).toFixed(1)} KB / ${(MAX_ASPECT_SIZE / 1024).toFixed(0)} KB`);
     if (!dryRun) {
       console.log(`  ${c.label("Publisher")} ${validation.aspect.publisher || 'not set'}`);
+      console.log(`  ${c.label("Signed")}    ${signingKey ? formatPublicKey(signingKey) : 'no'}`);
     }
     console.log();
     console.log(`  ${c.bold(validation.aspect.displayName)} ${c.muted(`(${validation.aspect.name}@${validation.aspect.version})`)}`);
     console.log(`  ${c.italic(validation.aspect.tagline)}`);
     console.log();
 
+    if (!dryRun && args.sign && !signingKey) {
+      p.log.info(`No signing key found. Run ${c.cmd('aspects key generate')} to sign future publishes.`);
+    }
+
     if (dryRun) {
       p.log.success("Would publish successfully");
       p.outro("(No changes made)");
@@ -237,7 +263,8 @@ Don't want an account? Use 'aspects share' instead:
       if (defaultHandle && !parsed.publisher) {
         parsed.publisher = defaultHandle;
       }
-      const result = await publishAspect(parsed);
+      const signature = signingKey ? signAspect(parsed, signingKey) : undefined;
+      const result = await publishAspect(parsed, signature);
       spinner3.stop("Published");
 
       console.log();
@@ -285,7 +312,7 @@ async function loadAspectFromPath(
   try {
     const stats = await stat(inputPath);
     if (stats.isDirectory()) {
-      aspectPath = join(inputPath, "aspect.json");
+      aspectPath = await findAspectFile(inputPath);
     }
   } catch {
     return null;
@@ -293,7 +320,9 @@ async function loadAspectFromPath(
 
   try {
     const content = await readFile(aspectPath, "utf-8");
-    const aspect = JSON.parse(content);
+    const source = readAspectSource(content, aspectFormatOf(aspectPath));
+    if (!source.success) return null;
+    const aspect = source.data as Record<string, any>;
 
     return {
       path: dirname(aspectPath),
@@ -396,7 +425,7 @@ async function validateAspect(
   try {
     const stats = await stat(aspectPath);
     if (stats.isDirectory()) {
-      filePath = join(aspectPath, "aspect.json");
+      filePath = await findAspectFile(aspectPath);
     }
   } catch {
     return { valid: false, errors: [`Path not found: ${aspectPath}`] };
@@ -409,28 +438,24 @@ async function validateAspect(
     return { valid: false, errors: [`Cannot read file: ${filePath}`] };
   }
 
-  let data: unknown;
-  try {
-    data = JSON.parse(content);
-  } catch (err) {
-    return {
-      valid: false,
-      errors: [
-        `Invalid JSON: ${err instanceof Error ? err.message : "parse error"}`,
-      ],
-    };
+  const format = aspectFormatOf(filePath);
+  const source = readAspectSource(content, format);
+  if (!source.success) {
+    return { valid: false, errors: source.errors };
   }
+  const data = source.data;
 
-  const result = aspectSchema.safeParse(data);
+  // The registry only takes aspect.json, so YAML and Markdown are published converted
+  if (format !== "json") {
+    content = toAspectJson(data);
+  }
+
+  const result = parseAspectData(data, await readPromptFile(data, dirname(filePath)));
   if (!result.success) {
-    const errors = result.error.issues.map((issue) => {
-      const path = issue.path.join(".");
-      return `${path ? `${path}: ` : ""}${issue.message}`;
-    });
-    return { valid: false, errors };
+    return { valid: false, errors: result.errors };
   }
 
-  const aspect = result.data;
+  const aspect = result.aspect;
   return {
     valid: true,
     content,
@@ -443,6 +468,7 @@ async function validateAspect(
       category: aspect.category,
       publisher: aspect.publisher,
       author: aspect.author,
+      files: aspect.files,
     },
   };
 }
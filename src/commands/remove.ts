@@ -1,8 +1,11 @@
-import { rm } from 'node:fs/promises';
+import { rm, rmdir } from 'node:fs/promises';
+import { dirname } from 'node:path';
 import { defineCommand } from 'citty';
 import * as p from '@clack/prompts';
 import { log } from '../utils/logger';
 import { findInstalledAspect, removeInstalledAspect } from '../lib/config';
+import { removeLockedAspect } from '../lib/lockfile';
+import { removeManifestDependency } from '../lib/manifest';
 import { getAspectPath, findProjectRoot, type InstallScope } from '../utils/paths';
 import { c, icons } from '../utils/colors';
 
@@ -14,7 +17,7 @@ export default defineCommand({
   args: {
     name: {
       type: 'positional',
-      description: 'Aspect name to remove',
+      description: 'Aspect name to remove (publisher/name if ambiguous)',
       required: true,
     },
     global: {
@@ -104,13 +107,19 @@ export default defineCommand({
 
     // Remove each
     for (const install of toRemove) {
-      await removeInstalledAspect(args.name, install.scope, projectRoot);
+      await removeInstalledAspect(install.key, install.scope, projectRoot);
+      if (install.scope === 'project') {
+        await removeLockedAspect(install.key, projectRoot);
+        await removeManifestDependency(install.key, projectRoot);
+      }
 
-      // Delete files if registry or github install (local installs just unregister)
-      if (install.source === 'registry' || install.source === 'github') {
-        const aspectDir = getAspectPath(args.name, install.scope, projectRoot);
+      // Delete the files we wrote: everything but a linked local path, which just unregisters
+      if (!install.localPath) {
+        const aspectDir = getAspectPath(install.key, install.scope, projectRoot);
         try {
           await rm(aspectDir, { recursive: true });
+          // Drop the publisher directory once its last aspect is gone
+          if (install.key.includes('/')) await rmdir(dirname(aspectDir)).catch(() => {});
         } catch {
           // Directory might not exist, that's fine
         }
@@ -0,0 +1,151 @@
+import { writeFile } from 'node:fs/promises';
+import { resolve } from 'node:path';
+import { defineCommand } from 'citty';
+import pkg from '../../package.json';
+import { listAllInstalledAspects } from '../lib/config';
+import { findAspectFile, resolveAspectFile } from '../lib/formats';
+import { scanAspectFile, toSarif, type ScanFinding, type ScanReport } from '../lib/scanner';
+import { c, icons } from '../utils/colors';
+import { findProjectRoot, getAspectPath } from '../utils/paths';
+
+const FORMATS = ['text', 'json', 'sarif'] as const;
+
+interface FileResult extends ScanReport {
+  label: string;  // What to call the file in text output
+  errors?: string[];  // The file didn't parse
+}
+
+function printFinding(finding: ScanFinding): void {
+  const icon = finding.severity === 'critical' ? icons.error : icons.warn;
+  // Findings in a packaged file give the file with the line
+  const line = finding.line !== undefined ? `${finding.line}` : undefined;
+  const where = line ? (finding.file ? `${finding.file}:${line}` : line) : finding.path;
+  console.log(`  ${icon} ${c.muted(where.padEnd(4))} ${finding.message} ${c.muted(finding.rule)}`);
+  console.log(`         ${c.muted(`"${finding.match.length > 80 ? `${finding.match.slice(0, 77)}...` : finding.match}"`)}`);
+}
+
+export default defineCommand({
+  meta: {
+    name: 'scan',
+    description: `Scan aspects for prompt injection.
+
+Looks at every string an aspect could put in front of a model, and the
+text files a package lists, for:
+  - Instruction overrides, jailbreaks and prompt extraction
+  - Requests for passwords or financial info, and sending data elsewhere
+  - Invisible Unicode: tag characters, bidirectional overrides, zero-width characters
+  - Look-alike Cyrillic and Greek letters mixed into Latin words
+  - Base64 and hex that decode to text
+  - URLs in directives, instructions and commands
+
+Exits non-zero if anything critical is found.
+
+Examples:
+  aspects scan                              Scan the aspect file here
+  aspects scan ./my-aspect                  Scan a directory's aspect file, or a file
+  aspects scan --all                        Scan every installed aspect
+  aspects scan --all --format sarif -o aspects.sarif
+                                            SARIF for code-scanning dashboards`,
+  },
+  args: {
+    path: {
+      type: 'positional',
+      description: 'Path to an aspect file or its directory (default: current directory)',
+      required: false,
+    },
+    all: {
+      type: 'boolean',
+      description: 'Scan every installed aspect, project and global',
+    },
+    format: {
+      type: 'string',
+      description: 'Output format: text, json or sarif',
+      default: 'text',
+    },
+    output: {
+      type: 'string',
+      alias: 'o',
+      description: 'Write the json or sarif report to a file instead of stdout',
+    },
+  },
+  async run({ args }) {
+    const format = args.format as (typeof FORMATS)[number];
+    if (!FORMATS.includes(format)) {
+      console.log(`${icons.error} Unknown format "${args.format}" (use ${FORMATS.join(', ')})`);
+      process.exit(1);
+    }
+
+    const targets: Array<{ file: string; label: string }> = [];
+    if (args.all) {
+      const projectRoot = await findProjectRoot() || undefined;
+      for (const aspect of await listAllInstalledAspects(projectRoot)) {
+        const dir = aspect.localPath ?? getAspectPath(aspect.key, aspect.scope, projectRoot);
+        targets.push({ file: await findAspectFile(dir), label: `${aspect.key} ${c.muted(`[${aspect.scope}]`)}` });
+      }
+    } else {
+      const file = await resolveAspectFile(resolve(args.path || '.'));
+      targets.push({ file, label: file });
+    }
+
+    const results: FileResult[] = [];
+    for (const target of targets) {
+      const result = await scanAspectFile(target.file);
+      results.push(result.success
+        ? { ...target, findings: result.findings }
+        : { ...target, findings: [], errors: result.errors });
+    }
+
+    const findings = results.flatMap(r => r.findings);
+    const critical = findings.filter(f => f.severity === 'critical').length;
+    const failed = critical > 0 || results.some(r => r.errors);
+
+    if (format !== 'text') {
+      const report = format === 'sarif'
+        ? toSarif(results, { version: pkg.version, baseDir: process.cwd() })
+        : results.map(({ file, findings, errors }) => ({ file, findings, ...(errors && { errors }) }));
+      const json = JSON.stringify(report, null, 2);
+      if (args.output) {
+        await writeFile(args.output, json + '\n');
+        console.log(`${icons.success} Wrote ${c.file(args.output)} ${c.muted(`(${findings.length} finding(s))`)}`);
+      } else {
+        console.log(json);
+      }
+      if (failed) process.exit(1);
+      return;
+    }
+
+    console.log();
+    if (targets.length === 0) {
+      console.log(`${icons.info} No aspects installed`);
+      console.log();
+      return;
+    }
+
+    for (const result of results) {
+      if (result.errors) {
+        console.log(`${icons.error} ${c.file(result.label)}`);
+        for (const error of result.errors) {
+          console.log(`    ${c.muted(error)}`);
+        }
+      } else if (result.findings.length === 0) {
+        console.log(`${icons.success} ${c.file(result.label)}`);
+      } else {
+        console.log(c.file(result.label));
+        result.findings.forEach(printFinding);
+      }
+    }
+
+    console.log();
+    if (findings.length === 0) {
+      console.log(`${icons.success} No findings in ${results.length} aspect(s)`);
+    } else {
+      const warnings = findings.length - critical;
+      console.log(`${critical > 0 ? icons.error : icons.warn} ${critical} critical, ${warnings} warning(s)`);
+    }
+    console.log();
+
+    if (failed) {
+      process.exit(1);
+    }
+  },
+});
@@ -0,0 +1,35 @@
+import { writeFile } from 'node:fs/promises';
+import { defineCommand } from 'citty';
+import { ASPECT_JSON_SCHEMA_URL, aspectJsonSchema } from '../lib/json-schema';
+import { icons } from '../utils/colors';
+
+export default defineCommand({
+  meta: {
+    name: 'schema',
+    description: `Print the JSON Schema for aspect.json.
+
+Point an editor at it for autocomplete and inline errors (length limits,
+required fields, categories). Files from \`aspects create\` already do, with:
+  "$schema": "${ASPECT_JSON_SCHEMA_URL}"
+
+Examples:
+  aspects schema                         Print to stdout
+  aspects schema -o aspect.schema.json   Write a local copy`,
+  },
+  args: {
+    output: {
+      type: 'string',
+      alias: 'o',
+      description: 'Write to a file instead of stdout',
+    },
+  },
+  async run({ args }) {
+    const schema = JSON.stringify(aspectJsonSchema(), null, 2) + '\n';
+    if (args.output) {
+      await writeFile(args.output, schema);
+      console.log(`${icons.success} Written to ${args.output}`);
+      return;
+    }
+    process.stdout.write(schema);
+  },
+});
@@ -1,6 +1,7 @@
 import { defineCommand } from 'citty';
 import { log } from '../utils/logger';
 import { searchRegistry, fetchRegistryIndex } from '../lib/registry';
+import { enableOfflineMode } from '../lib/config';
 import { c, icons } from '../utils/colors';
 
 export default defineCommand({
@@ -15,6 +16,7 @@ Examples:
   aspects search                  List all aspects
   aspects search --category roleplay   Filter by category
   aspects search --trust verified      Only verified aspects
+  aspects search wizard --offline      Search the cached registry index
 
 Categories: assistant, roleplay, creative, productivity, education, gaming, spiritual, pundit
 
@@ -42,8 +44,13 @@ For advanced filtering, use 'aspects find' with boolean operators.`,
       type: 'string',
       description: 'Pagination offset',
     },
+    offline: {
+      type: 'boolean',
+      description: 'Use only cached registry data (no network)',
+    },
   },
   async run({ args }) {
+    if (args.offline) enableOfflineMode();
     const query = args.query as string | undefined;
     const category = args.category as string | undefined;
     const trust = args.trust as string | undefined;
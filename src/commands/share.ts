@@ -1,10 +1,10 @@
 import { stat } from 'node:fs/promises';
-import { join } from 'node:path';
 import { defineCommand } from 'citty';
 import * as p from '@clack/prompts';
 import { blake3HashAspect, canonicalizeAspect } from '../utils/hash';
 import { listInstalledAspects } from '../lib/config';
 import { findAndLoadAspect } from '../lib/aspect-loader';
+import { findAspectFile } from '../lib/formats';
 import { parseAspectFile } from '../lib/parser';
 import { publishAnonymous, ApiClientError } from '../lib/api-client';
 import { c, icons } from '../utils/colors';
@@ -65,7 +65,7 @@ Want to claim a name instead? Use 'aspects publish' (requires login).`,
       if (installed.length > 0) {
         p.log.info('Installed aspects you can share:');
         for (const item of installed.slice(0, 10)) {
-          console.log(`  ${icons.bullet} ${c.aspect(item.name)}`);
+          console.log(`  ${icons.bullet} ${c.aspect(item.key)}`);
         }
         if (installed.length > 10) {
           console.log(`  ${c.muted(`...and ${installed.length - 10} more`)}`);
@@ -77,20 +77,12 @@ Want to claim a name instead? Use 'aspects publish' (requires login).`,
     let aspect: Aspect;
 
     if (target.startsWith('.') || target.startsWith('/')) {
-      // Path to aspect - parseAspectFile handles both JSON and YAML
+      // Path to aspect - parseAspectFile handles JSON, YAML and Markdown
       let filePath = target;
       try {
         const stats = await stat(target);
         if (stats.isDirectory()) {
-          // Try aspect.json first, then aspect.yaml
-          const jsonPath = join(target, 'aspect.json');
-          const yamlPath = join(target, 'aspect.yaml');
-          try {
-            await stat(jsonPath);
-            filePath = jsonPath;
-          } catch {
-            filePath = yamlPath;
-          }
+          filePath = await findAspectFile(target);
         }
       } catch {
         p.log.error(`Path not found: ${target}`);
@@ -117,6 +109,13 @@ Want to claim a name instead? Use 'aspects publish' (requires login).`,
       aspect = found.aspect;
     }
 
+    // The registry stores a single aspect.json, which would drop the other files
+    if (aspect.files?.length) {
+      p.log.error(`"${aspect.name}" is a multi-file package, which can't be shared yet`);
+      p.log.info(`Pack it with ${c.cmd('aspects pack')} and share the .aspect file instead.`);
+      process.exit(1);
+    }
+
     // Serialize for hashing and size check (canonicalized JSON matches server)
     const content = canonicalizeAspect(aspect);
     const sizeBytes = Buffer.byteLength(content);
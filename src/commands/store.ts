@@ -0,0 +1,115 @@
+import { resolve } from 'node:path';
+import { defineCommand } from 'citty';
+import { listInstalledAspects, listKnownProjects } from '../lib/config';
+import { readLockfile } from '../lib/lockfile';
+import { listStore, pruneStore } from '../lib/store';
+import { c, icons } from '../utils/colors';
+import { findProjectRoot, getStoreDir } from '../utils/paths';
+
+function formatSize(bytes: number): string {
+  return bytes < 1024 ? `${bytes} B` : `${(bytes / 1024).toFixed(1)} KB`;
+}
+
+/**
+ * Hashes recorded by the global config and by every known project's config and
+ * aspects.lock. Hardlinks already protect linked blobs; this keeps packages and
+ * copies (which aren't links) that some project still uses.
+ */
+async function collectReferences(): Promise<Set<string>> {
+  const referenced = new Set((await listInstalledAspects('global')).map(a => a.blake3));
+
+  const projects = new Set(await listKnownProjects());
+  const current = await findProjectRoot();
+  if (current) projects.add(resolve(current));
+
+  for (const projectRoot of projects) {
+    try {
+      for (const aspect of await listInstalledAspects('project', projectRoot)) {
+        referenced.add(aspect.blake3);
+      }
+    } catch {
+      // Unreadable project config; its lockfile still counts
+    }
+    const lockfile = await readLockfile(projectRoot).catch(() => null);
+    for (const entry of Object.values(lockfile?.aspects ?? {})) {
+      referenced.add(entry.blake3);
+    }
+  }
+  return referenced;
+}
+
+// Subcommand: store status
+const statusCommand = defineCommand({
+  meta: {
+    name: 'status',
+    description: 'Show the store location, size and unreferenced blobs',
+  },
+  async run() {
+    const entries = await listStore();
+    const size = entries.reduce((sum, e) => sum + e.size, 0);
+    // Exactly what prune would remove
+    const unreferenced = (await pruneStore(await collectReferences(), { dryRun: true })).length;
+
+    console.log();
+    console.log(`${icons.info} Content store`);
+    console.log();
+    console.log(`  ${c.label('Path')}         ${getStoreDir()}`);
+    console.log(`  ${c.label('Blobs')}        ${entries.length} (${formatSize(size)})`);
+    console.log(`  ${c.label('Unreferenced')} ${unreferenced}`);
+    if (unreferenced > 0) {
+      console.log();
+      console.log(c.muted(`  Run ${c.cmd('aspects store prune')} to remove blobs no install references.`));
+    }
+    console.log();
+  },
+});
+
+// Subcommand: store prune
+const pruneCommand = defineCommand({
+  meta: {
+    name: 'prune',
+    description: 'Remove blobs that no install, in any known project, references',
+  },
+  args: {
+    'dry-run': {
+      type: 'boolean',
+      description: 'List what would be removed without deleting',
+    },
+  },
+  async run({ args }) {
+    const dryRun = args['dry-run'] as boolean | undefined;
+
+    const removed = await pruneStore(await collectReferences(), { dryRun });
+
+    console.log();
+    if (removed.length === 0) {
+      console.log(`${icons.success} Nothing to prune`);
+      console.log();
+      return;
+    }
+
+    for (const entry of removed) {
+      console.log(`  ${c.dim(entry.hash)} ${c.muted(formatSize(entry.size))}`);
+    }
+    const size = formatSize(removed.reduce((sum, e) => sum + e.size, 0));
+    console.log();
+    if (dryRun) {
+      console.log(`${icons.info} Would remove ${removed.length} blob(s), ${size}`);
+    } else {
+      console.log(`${icons.success} Removed ${removed.length} blob(s), ${size}`);
+    }
+    console.log();
+  },
+});
+
+// Main store command
+export default defineCommand({
+  meta: {
+    name: 'store',
+    description: 'Manage the shared content-addressed store (~/.aspects/store)',
+  },
+  subCommands: {
+    status: statusCommand,
+    prune: pruneCommand,
+  },
+});
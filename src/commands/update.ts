@@ -3,12 +3,21 @@ import { log } from '../utils/logger';
 import { listInstalledAspects } from '../lib/config';
 import { getRegistryAspect } from '../lib/registry';
 import { installAspect } from '../lib/installer';
+import { parseInstallSpec } from '../lib/resolver';
+import { resolveVersion, compareVersions, isExactVersion } from '../lib/semver';
 import { c, icons } from '../utils/colors';
 
 export default defineCommand({
   meta: {
     name: 'update',
-    description: 'Update installed aspect(s) to latest version',
+    description: `Update installed aspect(s) within their version range.
+
+The range comes from the spec used to install:
+  aspects add alaric          Updates to latest
+  aspects add alaric@^1.2     Updates within 1.x (>=1.2.0)
+  aspects add alaric@~1.0.3   Updates within 1.0.x (>=1.0.3)
+  aspects add alaric@next     Follows the "next" dist-tag
+  aspects add alaric@1.0.0    Pinned - never updated`,
   },
   args: {
     name: {
@@ -22,6 +31,10 @@ export default defineCommand({
       description: 'Only check for updates, don\'t install',
       default: false,
     },
+    'allow-unsafe': {
+      type: 'boolean',
+      description: 'Update despite install policy violations (logged)',
+    },
   },
   async run({ args }) {
     const installed = await listInstalledAspects();
@@ -35,7 +48,7 @@ export default defineCommand({
 
     // Filter to specific aspect or all registry aspects
     const toCheck = args.name
-      ? installed.filter(a => a.name === args.name)
+      ? installed.filter(a => a.name === args.name || a.key === args.name)
       : installed.filter(a => a.source === 'registry');
 
     if (args.name && toCheck.length === 0) {
@@ -57,48 +70,61 @@ export default defineCommand({
     for (const aspect of toCheck) {
       // Skip local installs
       if (aspect.source === 'local') {
-        console.log(`  ${c.aspect(aspect.name)} ${c.muted('- local install, skipping')}`);
+        console.log(`  ${c.aspect(aspect.key)} ${c.muted('- local install, skipping')}`);
         continue;
       }
 
       // Skip GitHub installs
       if (aspect.source === 'github') {
-        console.log(`  ${c.aspect(aspect.name)} ${c.muted('- github install, use')} ${c.highlight('aspects install github:...')} ${c.muted('to update')}`);
+        console.log(`  ${c.aspect(aspect.key)} ${c.muted('- github install, use')} ${c.highlight('aspects install github:...')} ${c.muted('to update')}`);
         continue;
       }
 
       let registryInfo;
       try {
-        registryInfo = await getRegistryAspect(aspect.name);
+        registryInfo = await getRegistryAspect(aspect.name, aspect.publisher);
       } catch {
-        console.log(`  ${c.aspect(aspect.name)} ${c.error('- failed to check registry')}`);
+        console.log(`  ${c.aspect(aspect.key)} ${c.error('- failed to check registry')}`);
         continue;
       }
 
       if (!registryInfo) {
-        console.log(`  ${c.aspect(aspect.name)} ${c.warn('- not found in registry')}`);
+        console.log(`  ${c.aspect(aspect.key)} ${c.warn('- not found in registry')}`);
         continue;
       }
 
       const currentVersion = aspect.version;
-      const latestVersion = registryInfo.latest;
+      const range = getInstalledRange(aspect.specifier);
+      const latestVersion = resolveVersion(range, registryInfo);
+
+      if (!latestVersion) {
+        console.log(`  ${c.aspect(aspect.key)} ${c.warn(`- no registry version matches ${range}`)}`);
+        continue;
+      }
 
-      if (currentVersion === latestVersion) {
-        console.log(`  ${c.aspect(aspect.name)} ${icons.success} ${c.muted(`up to date (${currentVersion})`)}`);
+      if (currentVersion === latestVersion || isNewerOrEqual(currentVersion, latestVersion)) {
+        const outside = registryInfo.latest !== latestVersion && range
+          ? c.muted(` - latest ${registryInfo.latest} is outside ${range}`)
+          : '';
+        console.log(`  ${c.aspect(aspect.key)} ${icons.success} ${c.muted(`up to date (${currentVersion})`)}${outside}`);
         continue;
       }
 
       updatesAvailable++;
 
       if (args.check) {
-        console.log(`  ${c.aspect(aspect.name)} ${c.version(currentVersion)} ${icons.arrow} ${c.highlight(latestVersion)} ${c.tag('[update available]')}`);
+        console.log(`  ${c.aspect(aspect.key)} ${c.version(currentVersion)} ${icons.arrow} ${c.highlight(latestVersion)} ${c.tag('[update available]')}`);
       } else {
-        process.stdout.write(`  ${c.aspect(aspect.name)} ${c.version(currentVersion)} ${icons.arrow} ${c.highlight(latestVersion)} `);
+        process.stdout.write(`  ${c.aspect(aspect.key)} ${c.version(currentVersion)} ${icons.arrow} ${c.highlight(latestVersion)} `);
         
         const result = await installAspect({ 
           type: 'registry', 
           name: aspect.name, 
+          publisher: aspect.publisher,
           version: latestVersion 
+        }, {
+          specifier: aspect.specifier,  // Keep the original range for future updates
+          allowUnsafe: !!args['allow-unsafe'],
         });
 
         if (result.success) {
@@ -129,3 +155,26 @@ export default defineCommand({
     console.log();
   },
 });
+
+/**
+ * Extract the version range from the spec an aspect was installed with.
+ * Returns undefined (follow latest) for unversioned or legacy installs.
+ */
+function getInstalledRange(specifier: string | undefined): string | undefined {
+  if (!specifier) return undefined;
+  try {
+    const spec = parseInstallSpec(specifier);
+    return spec.type === 'registry' ? spec.version : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Guard against "updating" to an older version when the range resolves below
+ * what is installed (e.g. a dist-tag that moved backwards).
+ */
+function isNewerOrEqual(current: string, target: string): boolean {
+  if (!isExactVersion(current) || !isExactVersion(target)) return false;
+  return compareVersions(current, target) >= 0;
+}
@@ -1,16 +1,24 @@
 import { readFile, stat } from "node:fs/promises";
-import { join } from "node:path";
+import { basename, dirname } from "node:path";
 import { defineCommand } from "citty";
 import * as p from "@clack/prompts";
-import { aspectSchema, OFFICIAL_CATEGORIES } from "../lib/schema";
+import { aspectSchema, CURRENT_SCHEMA_VERSION, OFFICIAL_CATEGORIES } from "../lib/schema";
+import { parseAspectData, readPromptFile } from "../lib/parser";
+import { aspectFormatOf, findAspectFile, readAspectSource } from "../lib/formats";
 import { findInstalledAspect } from "../lib/config";
+import { resolveAspectExtends } from "../lib/aspect-loader";
+import { checkVariables } from "../lib/variables";
+import { findAmbiguousTriggers, findDanglingModeReferences, findNoOpIncludes } from "../lib/modes";
+import { readPackage } from "../lib/pack";
+import { scanAspectFile } from "../lib/scanner";
+import type { Aspect } from "../lib/types";
 import { findProjectRoot, getAspectPath } from "../utils/paths";
 import { c } from "../utils/colors";
 
 export default defineCommand({
   meta: {
     name: "validate",
-    description: `Validate an aspect.json file against the schema.
+    description: `Validate an aspect file (aspect.json, .yaml or .md) against the schema.
 
 Checks:
   - Required fields (name, displayName, tagline, category, prompt)
@@ -18,22 +26,28 @@ Checks:
   - Category is valid
   - Directive/instruction structure
   - Mode references valid directives
+  - Parents named by "extends" resolve, and the merged aspect is valid
+  - No trigger phrase switches to two modes or commands
+  - Every {{variable}} is declared, and every declared variable is used
+  - Every file a package lists in "files" exists
 
 Examples:
   aspects validate                 Validate in current directory
   aspects validate ./my-aspect     Validate specific path
-  aspects validate --strict        Stricter checks
+  aspects validate --strict        Stricter checks (see also: aspects lint)
   aspects validate --security      Scan for prompt injection patterns
 
 Security scan flags patterns like:
   - "ignore previous instructions"
   - Requests for passwords or financial info
-  - Known jailbreak attempts`,
+  - Known jailbreak attempts
+  - Hidden Unicode, look-alike letters and encoded payloads
+See also: aspects scan, for SARIF and JSON reports.`,
   },
   args: {
     path: {
       type: "positional",
-      description: "Path to aspect directory or aspect.json",
+      description: "Path to aspect directory or aspect file",
       required: false,
     },
     strict: {
@@ -53,11 +67,11 @@ Security scan flags patterns like:
     // Determine path
     let aspectPath = args.path || process.cwd();
 
-    // If directory, look for aspect.json
+    // If directory, look for its aspect file
     try {
       const stats = await stat(aspectPath);
       if (stats.isDirectory()) {
-        aspectPath = join(aspectPath, "aspect.json");
+        aspectPath = await findAspectFile(aspectPath);
       }
     } catch {
       // Not a valid path - maybe it's an installed aspect name?
@@ -67,7 +81,7 @@ Security scan flags patterns like:
         
         if (installed.length > 0) {
           const match = installed.find(i => i.scope === 'project') || installed[0]!;
-          aspectPath = join(getAspectPath(args.path, match.scope, projectRoot), 'aspect.json');
+          aspectPath = await findAspectFile(match.localPath ?? getAspectPath(match.key, match.scope, projectRoot));
           p.log.info(`Found installed: ${c.aspect(args.path)} ${c.dim(`[${match.scope}]`)}`);
         } else {
           p.log.error(`Path not found: ${aspectPath}`);
@@ -88,47 +102,120 @@ Security scan flags patterns like:
       process.exit(1);
     }
 
-    // Parse JSON
-    let data: unknown;
-    try {
-      data = JSON.parse(content);
-    } catch (err) {
-      p.log.error("Invalid JSON");
-      if (err instanceof Error) {
-        p.log.error(err.message);
+    // Parse JSON, YAML or Markdown frontmatter
+    const source = readAspectSource(content, aspectFormatOf(aspectPath));
+    if (!source.success) {
+      for (const error of source.errors) {
+        p.log.error(error);
       }
       process.exit(1);
     }
 
-    // Validate against schema
-    const result = aspectSchema.safeParse(data);
+    // Validate against the file's schema version, migrating older ones
+    const result = parseAspectData(source.data, await readPromptFile(source.data, dirname(aspectPath)));
 
     if (!result.success) {
-      p.log.error("✗ Invalid aspect.json");
+      p.log.error(`✗ Invalid ${basename(aspectPath)}`);
       p.log.info("");
 
-      for (const issue of result.error.issues) {
-        const path = issue.path.join(".");
-        p.log.error(`  • ${path ? `${path}: ` : ""}${issue.message}`);
+      for (const error of result.errors) {
+        p.log.error(`  • ${error}`);
       }
 
       process.exit(1);
     }
 
-    const aspect = result.data;
+    for (const warning of result.warnings) {
+      p.log.warn(warning);
+    }
+
+    let aspect = result.aspect;
+
+    // Checks below apply to the aspect as compiled, parents merged in
+    if (aspect.extends) {
+      const resolved = await resolveAspectExtends(aspect as Aspect, dirname(aspectPath));
+      if (!resolved.success) {
+        p.log.error(`✗ ${resolved.error}`);
+        process.exit(1);
+      }
+
+      const merged = aspectSchema.safeParse(resolved.aspect);
+      if (!merged.success) {
+        p.log.error("✗ Aspect is invalid once merged with its parents");
+        p.log.info("");
+        for (const issue of merged.error.issues) {
+          const path = issue.path.join(".");
+          p.log.error(`  • ${path ? `${path}: ` : ""}${issue.message}`);
+        }
+        process.exit(1);
+      }
+
+      aspect = merged.data as Aspect;
+      p.log.info(`Extends: ${resolved.chain.slice(1).join(" -> ")}`);
+    }
 
     // Basic validation passed
     const checks: Array<{ label: string; passed: boolean; message?: string }> =
       [
         { label: "Required fields present", passed: true },
-        { label: "Schema version valid", passed: aspect.schemaVersion === 1 },
+        { label: "Schema version valid", passed: aspect.schemaVersion === CURRENT_SCHEMA_VERSION },
         {
           label: "Category valid",
-          passed: (OFFICIAL_CATEGORIES as readonly string[]).includes(aspect.category),
+          passed: (OFFICIAL_CATEGORIES as readonly string[]).includes(aspect.category ?? ""),
         },
         { label: "Prompt not empty", passed: aspect.prompt.length > 0 },
       ];
 
+    // Modes may only include/exclude ids the (merged) aspect defines
+    if (aspect.modes || aspect.defaultMode) {
+      const dangling = findDanglingModeReferences(aspect as Aspect);
+      checks.push({
+        label: "Mode references valid directives",
+        passed: dangling.length === 0,
+        message: dangling.length === 0 ? undefined : dangling.join("; "),
+      });
+      for (const warning of findNoOpIncludes(aspect as Aspect)) {
+        p.log.warn(warning);
+      }
+    }
+
+    // A phrase should trigger one thing only
+    const ambiguous = findAmbiguousTriggers(aspect as Aspect);
+    if (aspect.commands || Object.values(aspect.modes ?? {}).some(m => m.triggers)) {
+      checks.push({
+        label: "Trigger phrases unambiguous",
+        passed: ambiguous.length === 0,
+        message: ambiguous.length === 0 ? undefined : ambiguous.join("; "),
+      });
+    }
+
+    // Variables: every placeholder declared, every declaration used
+    const variables = checkVariables(aspect as Aspect);
+    if (aspect.variables || variables.undeclared.length > 0) {
+      checks.push({
+        label: "Variables declared",
+        passed: variables.undeclared.length === 0,
+        message: variables.undeclared.length === 0
+          ? undefined
+          : variables.undeclared.map(v => `{{${v.name}}} in ${v.fields.join(", ")}`).join("; "),
+      });
+      checks.push({
+        label: "Variables used",
+        passed: variables.unused.length === 0,
+        message: variables.unused.length === 0 ? undefined : `Unused: ${variables.unused.join(", ")}`,
+      });
+    }
+
+    // Packages: every listed file exists next to the aspect file
+    if (aspect.files?.length) {
+      const pkg = await readPackage(aspectPath);
+      checks.push({
+        label: "Package files present",
+        passed: pkg.success,
+        message: pkg.success ? undefined : pkg.errors.join("; "),
+      });
+    }
+
     // Strict mode checks
     if (args.strict) {
       // Check name format
@@ -163,29 +250,24 @@ Security scan flags patterns like:
       });
     }
 
-    // Security scan
+    // Security scan, over the file as written
     if (args.security) {
-      const suspiciousPatterns = [
-        { pattern: /ignore\s+(all\s+)?previous\s+instructions/i, name: "Ignore previous instructions" },
-        { pattern: /you\s+are\s+now\s+DAN/i, name: "DAN jailbreak" },
-        { pattern: /forget\s+(everything|all|your)\s+(you|instructions)/i, name: "Forget instructions" },
-        { pattern: /password|api[_\s]?key|secret[_\s]?key|credentials/i, name: "Credential request" },
-        { pattern: /credit\s*card|ssn|social\s*security/i, name: "Sensitive data request" },
-        { pattern: /\[system\]|\[admin\]|\[root\]/i, name: "System role injection" },
-      ];
-
-      for (const { pattern, name } of suspiciousPatterns) {
-        const found = pattern.test(aspect.prompt);
-        checks.push({
-          label: `No "${name}" pattern`,
-          passed: !found,
-          message: found ? "⚠️  Suspicious pattern detected" : undefined,
-        });
-      }
+      const scanned = await scanAspectFile(aspectPath);
+      const findings = scanned.success ? scanned.findings : [];
+      checks.push({
+        label: "No prompt injection patterns",
+        passed: findings.length === 0,
+        message: findings.length === 0 ? undefined : findings
+          .map((f) => `${f.message} (${f.line !== undefined ? `${f.file ? `${f.file} ` : ""}line ${f.line}` : f.path})`)
+          .join("; "),
+      });
     }
 
     // Display results
-    p.log.success(`✓ Valid aspect.json (schema v${aspect.schemaVersion})`);
+    const schemaLabel = result.migratedFrom
+      ? `schema v${result.migratedFrom}, migrated to v${aspect.schemaVersion}`
+      : `schema v${aspect.schemaVersion}`;
+    p.log.success(`✓ Valid ${basename(aspectPath)} (${schemaLabel})`);
     p.log.info(`  Name:     ${aspect.name}`);
     p.log.info(`  Version:  ${aspect.version}`);
     p.log.info("");
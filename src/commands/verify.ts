@@ -0,0 +1,103 @@
+import { defineCommand } from 'citty';
+import { listInstalledAspects } from '../lib/config';
+import { loadInstalledAspect } from '../lib/aspect-loader';
+import { verifyInstalledAspect, type VerifyResult } from '../lib/integrity';
+import { readPackageDir } from '../lib/pack';
+import { c, icons } from '../utils/colors';
+import { findProjectRoot, getAspectPath, type InstallScope } from '../utils/paths';
+
+export default defineCommand({
+  meta: {
+    name: 'verify',
+    description: `Rehash installed aspects and compare them with the hash recorded at install time.
+
+Reports stored copies that were modified after install (possible tampering),
+local installs whose source changed since they were added (drift), and
+aspects whose files are missing. Exits non-zero if anything doesn't match.
+
+Examples:
+  aspects verify            Check project and global installs
+  aspects verify --global   Check ~/.aspects only`,
+  },
+  args: {
+    global: {
+      type: 'boolean',
+      alias: 'g',
+      description: 'Verify only global aspects (~/.aspects)',
+    },
+    project: {
+      type: 'boolean',
+      alias: 'p',
+      description: 'Verify only project aspects (./.aspects)',
+    },
+  },
+  async run({ args }) {
+    const projectRoot = await findProjectRoot() || undefined;
+
+    let scopes: InstallScope[];
+    if (args.global) {
+      scopes = ['global'];
+    } else if (args.project) {
+      if (!projectRoot) {
+        console.log(`${icons.error} No project found. Run ${c.cmd('aspects init')} first.`);
+        process.exit(1);
+      }
+      scopes = ['project'];
+    } else {
+      scopes = projectRoot ? ['project', 'global'] : ['global'];
+    }
+
+    const results: VerifyResult[] = [];
+    for (const scope of scopes) {
+      for (const { key, name: _name, scope: _scope, ...info } of await listInstalledAspects(scope, projectRoot)) {
+        const aspect = await loadInstalledAspect(key, scope, projectRoot, { asWritten: true });
+        if (aspect?.files?.length) {
+          // Packages are hashed over every file, not just aspect.json
+          const pkg = await readPackageDir(info.localPath ?? getAspectPath(key, scope, projectRoot));
+          results.push(verifyInstalledAspect(key, scope, info, pkg.success ? aspect : null, pkg.success ? pkg.package.hash : undefined));
+          continue;
+        }
+        results.push(verifyInstalledAspect(key, scope, info, aspect));
+      }
+    }
+
+    console.log();
+    if (results.length === 0) {
+      console.log(c.muted('  No aspects installed.'));
+      console.log();
+      return;
+    }
+
+    for (const result of results) {
+      console.log(formatResult(result));
+    }
+
+    const problems = results.filter(r => r.status !== 'ok');
+    console.log();
+    if (problems.length > 0) {
+      console.log(`${icons.error} ${c.error(`${problems.length} of ${results.length} aspect(s) failed verification`)}`);
+      console.log(c.muted(`  Reinstall with ${c.cmd('aspects add <spec> --force')} to restore recorded content, or re-add a local path to accept its changes.`));
+      console.log();
+      process.exit(1);
+    }
+
+    console.log(`${icons.success} ${c.success(`${results.length} aspect(s) verified`)}`);
+    console.log();
+  },
+});
+
+function formatResult({ key, scope, info, status, actual }: VerifyResult): string {
+  const label = `${c.aspect(key)}${c.version(`@${info.version}`)} ${c.dim(`[${scope}]`)}`;
+  switch (status) {
+    case 'ok':
+      return `  ${icons.success} ${label}`;
+    case 'missing':
+      return `  ${icons.error} ${label} ${c.error('missing or unreadable')}`;
+    case 'drifted':
+      return `  ${icons.warn} ${label} ${c.warn('local source changed since install')}\n` +
+        `      ${c.muted(`recorded ${info.blake3}, now ${actual}`)}`;
+    case 'modified':
+      return `  ${icons.error} ${label} ${c.error('content does not match install hash')}\n` +
+        `      ${c.muted(`recorded ${info.blake3}, now ${actual}`)}`;
+  }
+}
@@ -1,7 +1,10 @@
 import { ofetch, type FetchError } from 'ofetch';
-import { getRegistryUrl, getAuthToken } from './config';
+import { getRegistryUrl, getAuthToken, isOffline } from './config';
+import { readDiskCache, writeDiskCache, isFresh } from './disk-cache';
+import { isExactVersion } from './semver';
 import type {
   Aspect,
+  AspectSignature,
   RegistryIndex,
   ApiAspectDetail,
   ApiVersionContent,
@@ -43,10 +46,17 @@ function setCache<T>(key: string, data: T, ttlMs: number): void {
   cache.set(key, { data, timestamp: Date.now(), ttl: ttlMs });
 }
 
+/**
+ * Clear in-memory cached responses. The disk cache is left alone;
+ * clear that with clearDiskCache() (`aspects cache clear`).
+ */
 export function clearApiCache(): void {
   cache.clear();
 }
 
+const REGISTRY_TTL_MS = 5 * 60 * 1000;           // 5 min
+const IMMUTABLE_TTL_MS = 365 * 24 * 60 * 60 * 1000; // Published versions never change
+
 // --- Error handling ---
 
 export class ApiClientError extends Error {
@@ -87,6 +97,17 @@ function parseApiError(err: unknown): ApiClientError {
   );
 }
 
+/**
+ * True if a request failed because offline mode is on and nothing was cached.
+ */
+export function isOfflineError(err: unknown): boolean {
+  return err instanceof ApiClientError && err.errorCode === 'offline';
+}
+
+function publisherQuery(publisher?: string): string {
+  return publisher ? `?publisher=${encodeURIComponent(publisher)}` : '';
+}
+
 // --- Fetch with retry ---
 
 const MAX_RETRIES = 3;
@@ -99,8 +120,18 @@ async function apiFetch<T>(
     body?: unknown;
     auth?: boolean;
     baseUrl?: string;
+    etag?: string;
+    onEtag?: (etag: string) => void;
   } = {},
 ): Promise<T> {
+  if (await isOffline()) {
+    throw new ApiClientError(
+      `Offline mode: ${path} is not available from the cache. Run without --offline to fetch it.`,
+      0,
+      'offline',
+    );
+  }
+
   const baseUrl = options.baseUrl ?? await getRegistryUrl();
   const url = `${baseUrl}${path}`;
 
@@ -108,6 +139,10 @@ async function apiFetch<T>(
     'Accept': 'application/json',
   };
 
+  if (options.etag) {
+    headers['If-None-Match'] = options.etag;
+  }
+
   if (options.auth) {
     const token = await getAuthToken();
     if (!token) {
@@ -134,14 +169,18 @@ async function apiFetch<T>(
         body: options.body ? JSON.stringify(options.body) : undefined,
         timeout: TIMEOUT_MS,
         parseResponse: JSON.parse,
+        onResponse: ({ response }) => {
+          const etag = response.headers.get('etag');
+          if (etag && options.onEtag) options.onEtag(etag);
+        },
       });
     } catch (err) {
       lastError = err;
       const fetchErr = err as FetchError;
       const status = fetchErr?.statusCode ?? fetchErr?.status ?? 0;
 
-      // Don't retry client errors (4xx) except rate limits
-      if (status >= 400 && status < 500 && status !== 429) {
+      // Don't retry client errors (4xx) except rate limits, or 304 Not Modified
+      if (status === 304 || (status >= 400 && status < 500 && status !== 429)) {
         throw parseApiError(err);
       }
 
@@ -157,42 +196,84 @@ async function apiFetch<T>(
   throw parseApiError(lastError);
 }
 
+/**
+ * GET through the memory and disk caches.
+ * Fresh disk entries are served without a request; stale ones are revalidated
+ * with If-None-Match. Stale entries are still served when offline or when the
+ * registry can't be reached.
+ */
+async function cachedApiFetch<T>(path: string, ttlMs: number, baseUrl?: string): Promise<T> {
+  const cacheKey = `${baseUrl ?? await getRegistryUrl()}${path}`;
+  const memoryHit = getCached<T>(cacheKey);
+  if (memoryHit) return memoryHit;
+
+  const entry = await readDiskCache<T>(cacheKey);
+  if (entry && (isFresh(entry) || await isOffline())) {
+    setCache(cacheKey, entry.data, ttlMs);
+    return entry.data;
+  }
+
+  let etag: string | undefined;
+  let data: T;
+  try {
+    data = await apiFetch<T>(path, {
+      baseUrl,
+      etag: entry?.etag,
+      onEtag: (value) => { etag = value; },
+    });
+  } catch (err) {
+    if (entry && err instanceof ApiClientError && (err.statusCode === 304 || err.errorCode === 'network_error')) {
+      if (err.statusCode === 304) {
+        await writeDiskCache(cacheKey, entry.data, { ttl: ttlMs, etag: entry.etag });
+      }
+      setCache(cacheKey, entry.data, ttlMs);
+      return entry.data;
+    }
+    throw err;
+  }
+
+  await writeDiskCache(cacheKey, data, { ttl: ttlMs, etag });
+  setCache(cacheKey, data, ttlMs);
+  return data;
+}
+
 // --- API Methods ---
 
 /**
  * GET /registry - Full registry index (cached 5 min)
  */
 export async function getRegistry(baseUrl?: string): Promise<RegistryIndex> {
-  const cacheKey = `registry:${baseUrl ?? 'default'}`;
-  const cached = getCached<RegistryIndex>(cacheKey);
-  if (cached) return cached;
-
-  const data = await apiFetch<RegistryIndex>('/registry', { baseUrl });
-  setCache(cacheKey, data, 5 * 60 * 1000); // 5 min TTL
-  return data;
+  return cachedApiFetch<RegistryIndex>('/registry', REGISTRY_TTL_MS, baseUrl);
 }
 
 /**
  * GET /aspects/:name - Aspect metadata with all versions
+ * Pass a publisher to disambiguate same-name aspects (?publisher=...).
  */
-export async function getAspect(name: string): Promise<ApiAspectDetail> {
-  return apiFetch<ApiAspectDetail>(`/aspects/${encodeURIComponent(name)}`);
+export async function getAspect(name: string, publisher?: string): Promise<ApiAspectDetail> {
+  return cachedApiFetch<ApiAspectDetail>(
+    `/aspects/${encodeURIComponent(name)}${publisherQuery(publisher)}`,
+    REGISTRY_TTL_MS,
+  );
 }
 
 /**
  * GET /aspects/:name/:version - Specific version content
+ * Exact versions are immutable and cached indefinitely; aliases like "latest" are revalidated.
  */
 export async function getAspectVersion(
   name: string,
   version: string,
+  publisher?: string,
 ): Promise<ApiVersionContent> {
-  return apiFetch<ApiVersionContent>(
-    `/aspects/${encodeURIComponent(name)}/${encodeURIComponent(version)}`,
+  return cachedApiFetch<ApiVersionContent>(
+    `/aspects/${encodeURIComponent(name)}/${encodeURIComponent(version)}${publisherQuery(publisher)}`,
+    isExactVersion(version) ? IMMUTABLE_TTL_MS : REGISTRY_TTL_MS,
   );
 }
 
 /**
- * GET /search - Full-text search
+ * GET /search - Full-text search (cached 5 min, so repeated searches work offline)
  */
 export async function searchAspects(params: {
   q?: string;
@@ -209,16 +290,20 @@ export async function searchAspects(params: {
   if (params.offset) searchParams.set('offset', String(params.offset));
 
   const query = searchParams.toString();
-  return apiFetch<ApiSearchResult>(`/search${query ? `?${query}` : ''}`);
+  return cachedApiFetch<ApiSearchResult>(`/search${query ? `?${query}` : ''}`, REGISTRY_TTL_MS);
 }
 
 /**
  * POST /aspects - Publish a new aspect (auth required)
+ * Signed publishes send { aspect, signature } so the registry can store the signature.
  */
-export async function publishAspect(aspect: Aspect): Promise<ApiPublishResponse> {
+export async function publishAspect(
+  aspect: Aspect,
+  signature?: AspectSignature,
+): Promise<ApiPublishResponse> {
   return apiFetch<ApiPublishResponse>('/aspects', {
     method: 'POST',
-    body: aspect,
+    body: signature ? { aspect, signature } : aspect,
     auth: true,
   });
 }
@@ -239,7 +324,7 @@ export async function publishAnonymous(aspect: Aspect): Promise<ApiAnonymousPubl
  * GET /aspects/blob/:hash - Fetch aspect by blake3 hash (no auth)
  */
 export async function getAspectByHash(hash: string): Promise<ApiVersionContent> {
-  return apiFetch<ApiVersionContent>(`/aspects/blob/${encodeURIComponent(hash)}`);
+  return cachedApiFetch<ApiVersionContent>(`/aspects/blob/${encodeURIComponent(hash)}`, IMMUTABLE_TTL_MS);
 }
 
 /**
@@ -1,11 +1,15 @@
-import { join } from 'node:path';
+import { readFile, stat } from 'node:fs/promises';
+import { dirname } from 'node:path';
 import { getAspectPath, findProjectRoot, type InstallScope } from '../utils/paths';
-import { getInstalledAspect, findInstalledAspect } from './config';
+import { getInstalledAspect, findInstalledAspect, listAllInstalledAspects } from './config';
+import { findAspectFile } from './formats';
+import { isPackagePath, readPackageDir, unpackAspect } from './pack';
 import { parseAspectFile } from './parser';
+import { parseInstallSpec } from './resolver';
+import { isValidRange, satisfies } from './semver';
+import { resolveAspect, type ParentAspect, type ResolveResult } from './inheritance';
 import type { Aspect, InstalledAspect } from './types';
-
-const ASPECT_FILENAME = 'aspect.json';
-const LEGACY_FILENAME = 'aspect.yaml';
+import { blake3HashAspect } from '../utils/hash';
 
 /**
  * Result from findAndLoadAspect - includes aspect, scope, and install metadata.
@@ -17,7 +21,7 @@ export interface FoundAspect {
 }
 
 /**
- * Find and load an aspect by name, searching both project and global scopes.
+ * Find and load an aspect by name (or publisher/name), searching both project and global scopes.
  * Prefers project scope if the aspect exists in both.
  * 
  * This is the canonical way to look up an installed aspect by name.
@@ -30,7 +34,7 @@ export async function findAndLoadAspect(name: string): Promise<FoundAspect | nul
   
   // Prefer project scope if available
   const match = installed.find(i => i.scope === 'project') || installed[0]!;
-  const aspect = await loadInstalledAspect(name, match.scope, projectRoot);
+  const aspect = await loadInstalledAspect(match.key, match.scope, projectRoot);
   
   if (!aspect) return null;
   
@@ -42,9 +46,42 @@ export async function findAndLoadAspect(name: string): Promise<FoundAspect | nul
 }
 
 /**
- * Load an installed aspect by name.
- * Tries aspect.json first, falls back to aspect.yaml for backwards compat.
+ * Load an aspect by path (directory or aspect file) or installed name.
+ * `dir` is its source directory, for resolving relative extends.
+ */
+export async function loadAspectByNameOrPath(
+  nameOrPath: string,
+): Promise<{ aspect: Aspect; dir?: string } | { error: string }> {
+  // Check if it's a path
+  let aspectPath: string | null = null;
+  try {
+    const stats = await stat(nameOrPath);
+    aspectPath = stats.isDirectory() ? await findAspectFile(nameOrPath) : nameOrPath;
+  } catch {
+    // Not a path - try installed aspects
+  }
+
+  if (aspectPath) {
+    const parsed = await parseAspectFile(aspectPath);
+    if (!parsed.success) {
+      return { error: `Invalid aspect ${aspectPath}:\n  ${parsed.errors.join('\n  ')}` };
+    }
+    return { aspect: parsed.aspect, dir: dirname(aspectPath) };
+  }
+
+  const found = await findAndLoadAspect(nameOrPath);
+  if (!found) {
+    return { error: `Aspect not found: ${nameOrPath}` };
+  }
+  return { aspect: found.aspect, dir: found.meta.localPath };
+}
+
+/**
+ * Load an installed aspect by name or install key.
+ * Reads aspect.json, or aspect.yaml/.yml/.md for local installs written in those.
  * 
+ * Pass `asWritten` to skip schema migration, e.g. to compare against the install hash.
+ *
  * NOTE: For most use cases, prefer findAndLoadAspect() which searches both scopes.
  * Use this when you already know the scope (e.g., iterating listInstalledAspects).
  */
@@ -52,18 +89,113 @@ export async function loadInstalledAspect(
   name: string,
   scope: InstallScope = 'global',
   projectRoot?: string,
+  options?: { asWritten?: boolean },
 ): Promise<Aspect | null> {
   const installed = await getInstalledAspect(name, scope, projectRoot);
   if (!installed) return null;
 
   // Use custom path for local installs, otherwise standard path
-  const aspectDir = installed.localPath ?? getAspectPath(name, scope, projectRoot);
+  const aspectDir = installed.localPath ?? getAspectPath(installed.key, scope, projectRoot);
+
+  const result = await parseAspectFile(await findAspectFile(aspectDir));
+  if (!result.success) return null;
+  return options?.asWritten ? result.asWritten : result.aspect;
+}
+
+/**
+ * Hash an installed aspect's content the way its install hash is computed:
+ * over every file for a package, over the aspect as written otherwise.
+ * Null if it's gone or no longer valid.
+ */
+export async function hashInstalledAspect(
+  name: string,
+  scope: InstallScope = 'global',
+  projectRoot?: string,
+): Promise<string | null> {
+  const installed = await getInstalledAspect(name, scope, projectRoot);
+  if (!installed) return null;
+
+  const aspectDir = installed.localPath ?? getAspectPath(installed.key, scope, projectRoot);
+  const result = await parseAspectFile(await findAspectFile(aspectDir));
+  if (!result.success) return null;
+  if (!result.asWritten.files?.length) return blake3HashAspect(result.asWritten);
+
+  const pkg = await readPackageDir(aspectDir);
+  return pkg.success ? pkg.package.hash : null;
+}
+
+/**
+ * Load the aspect an `extends` spec points at.
+ * Local paths are read in place; everything else must already be installed
+ * (project scope first), so resolving never touches the network.
+ */
+export async function loadParentAspect(spec: string): Promise<ParentAspect | null> {
+  const parsed = parseInstallSpec(spec);
+
+  if (parsed.type === 'local' && isPackagePath(parsed.path)) {
+    let bytes: Uint8Array;
+    try {
+      bytes = await readFile(parsed.path);
+    } catch {
+      return null;
+    }
+    const unpacked = unpackAspect(bytes);
+    if (!unpacked.success) throw new Error(unpacked.errors.join(', '));
+    return { aspect: unpacked.package.aspect, dir: dirname(parsed.path) };
+  }
 
-  // Try aspect.json first
-  const jsonResult = await parseAspectFile(join(aspectDir, ASPECT_FILENAME));
-  if (jsonResult.success) return jsonResult.aspect;
+  if (parsed.type === 'local') {
+    let dir: string;
+    try {
+      dir = (await stat(parsed.path)).isDirectory() ? parsed.path : dirname(parsed.path);
+    } catch {
+      return null;
+    }
+    const file = dir === parsed.path ? await findAspectFile(dir) : parsed.path;
+    const result = await parseAspectFile(file);
+    if (!result.success) throw new Error(result.errors.join(', '));
+    return { aspect: result.aspect, dir };
+  }
 
-  // Fall back to aspect.yaml
-  const yamlResult = await parseAspectFile(join(aspectDir, LEGACY_FILENAME));
-  return yamlResult.success ? yamlResult.aspect : null;
+  const projectRoot = await findProjectRoot() || undefined;
+  const candidates = (await listAllInstalledAspects(projectRoot)).filter(installed => {
+    switch (parsed.type) {
+      case 'registry':
+        return installed.source === 'registry'
+          && installed.name === parsed.name
+          && (!parsed.publisher || installed.publisher === parsed.publisher);
+      case 'hash':
+        return installed.blake3.startsWith(parsed.hash);
+      case 'github': {
+        const ref = installed.githubRef ?? '';
+        return parsed.ref
+          ? ref === `${parsed.owner}/${parsed.repo}@${parsed.ref}`
+          : ref.startsWith(`${parsed.owner}/${parsed.repo}@`);
+      }
+    }
+  });
+  if (candidates.length === 0) return null;
+
+  // Dist-tags can't be checked offline; any installed version will do
+  const range = parsed.type === 'registry' ? parsed.version : undefined;
+  const match = range && isValidRange(range)
+    ? candidates.find(installed => satisfies(installed.version, range))
+    : candidates[0];
+  if (!match) {
+    const versions = candidates.map(installed => installed.version).join(', ');
+    throw new Error(`installed version ${versions} does not satisfy "${range}"`);
+  }
+
+  const aspect = await loadInstalledAspect(match.key, match.scope, projectRoot);
+  if (!aspect) return null;
+  // Only local installs have a source directory for relative extends
+  return { aspect, dir: match.localPath };
+}
+
+/**
+ * Resolve an aspect's extends chain against installed and local parents.
+ * `dir` is the aspect's own directory, for relative extends.
+ */
+export async function resolveAspectExtends(aspect: Aspect, dir?: string): Promise<ResolveResult> {
+  return resolveAspect(aspect, loadParentAspect, dir);
 }
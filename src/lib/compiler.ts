@@ -0,0 +1,512 @@
+import type { Aspect, AspectCommand, AspectExample, ModelProfile } from './types';
+import { BUILTIN_MODEL_PROFILES, estimateTokens, matchModelProfile } from './model-profiles';
+import { effectiveExamples, effectiveRules, findDanglingModeReferences } from './modes';
+
+type Directive = NonNullable<Aspect["directives"]>[number];
+type Instruction = NonNullable<Aspect["instructions"]>[number];
+
+/**
+ * What to do when composed aspects define the same directive or instruction id
+ * with different content: fail, keep the first aspect's, or let the last one win.
+ */
+export type ConflictStrategy = "error" | "first" | "last";
+
+export interface CompileOptions {
+  model: string;
+  profiles?: ModelProfile[];  // Defaults to the built-in profiles
+  mode?: string;  // Defaults to the first aspect's defaultMode
+  onConflict?: ConflictStrategy;
+  maxTokens?: number;  // Trim lower-priority rules until the estimate fits
+}
+
+/**
+ * A directive or instruction id defined differently by more than one aspect.
+ */
+export interface CompileConflict {
+  kind: "directive" | "instruction" | "command";
+  id: string;
+  aspects: string[];
+}
+
+/**
+ * A block of the compiled prompt, in output order.
+ */
+export interface CompiledSection {
+  kind: "reminders" | "directives" | "instructions" | "mode" | "prompt" | "commands" | "examples";
+  text: string;
+  tokens: number;  // Estimated for the model's profile
+}
+
+/**
+ * Something `maxTokens` removed from the prompt, and the tokens that saved.
+ */
+export interface BudgetCut {
+  kind: "directive" | "instruction" | "reminders" | "example";
+  id?: string;  // Directive or instruction id, or example title
+  reason: string;
+  tokens: number;
+}
+
+export type CompileResult =
+  | {
+      success: true;
+      prompt: string;
+      sections: CompiledSection[];  // `prompt`, split into its blocks
+      tokens: number;  // Estimated total of the sections
+      profile: ModelProfile;
+      directives: Directive[];  // Those that made it into the prompt
+      instructions: Instruction[];
+      examples: ExampleEntry[];  // Those that made it into the prompt, in order
+      conflicts: CompileConflict[];  // Resolved by `onConflict`
+      cuts: BudgetCut[];  // In the order `maxTokens` made them
+    }
+  | {
+      success: false;
+      error: string;
+      conflicts?: CompileConflict[];
+    };
+
+const PRIORITY_ORDER: Record<Directive["priority"], number> = { high: 0, medium: 1, low: 2 };
+
+/**
+ * How a high-priority rule is marked, per the profile's emphasis style.
+ */
+function emphasize(rule: string, profile: ModelProfile): string {
+  switch (profile.emphasis) {
+    case "bold":
+      return `**IMPORTANT**: ${rule}`;
+    case "caps":
+      return `IMPORTANT: ${rule}`;
+    case "attribute":
+      return rule;
+  }
+}
+
+export function formatDirectivesForModel(
+  directives: Array<{ id: string; rule: string; priority: string }>,
+  profile: ModelProfile,
+  options?: { isReminder?: boolean }
+): string {
+  if (directives.length === 0) return "";
+
+  const isReminder = options?.isReminder ?? false;
+  const highPriority = directives.filter((d) => d.priority === "high");
+  const otherPriority = directives.filter((d) => d.priority !== "high");
+
+  if (profile.delimiter === "xml") {
+    // XML format: the priority attribute carries the weight
+    const tagName = isReminder ? "critical-reminders" : "directives";
+    const rules = directives
+      .map((d) => {
+        const rule = d.priority === "high" ? emphasize(d.rule, profile) : d.rule;
+        return `  <rule id="${d.id}" priority="${d.priority}">${rule}</rule>`;
+      })
+      .join("\n");
+
+    if (isReminder) {
+      return `<!-- Universal Pattern: High-priority directives repeated here for cross-LLM compatibility.
+     Claude weights prompt beginning; GPT weights prompt end. Repetition ensures emphasis on both. -->
+<${tagName}>\n${rules}\n</${tagName}>\n`;
+    }
+    return `<${tagName}>\n${rules}\n</${tagName}>\n\n`;
+  }
+
+  // Markdown format
+  let output = "";
+
+  if (isReminder) {
+    output += "<!-- Note: Critical directives repeated below for cross-model compatibility -->\n";
+    output += "## Critical Reminders\n\n";
+  }
+
+  if (profile.emphasis === "attribute") {
+    // No emphasis marker: high-priority rules lead the list
+    const listed = isReminder ? highPriority : [...highPriority, ...otherPriority];
+    return output + listed.map((d) => `- ${d.rule}\n`).join("") + "\n";
+  }
+
+  for (const d of highPriority) {
+    output += `${emphasize(d.rule, profile)}\n\n`;
+  }
+
+  if (!isReminder && otherPriority.length > 0) {
+    for (const d of otherPriority) {
+      output += `- ${d.rule}\n`;
+    }
+    output += "\n";
+  }
+
+  return output;
+}
+
+export function formatInstructionsForModel(
+  instructions: Array<{ id: string; rule: string }>,
+  profile: ModelProfile
+): string {
+  if (instructions.length === 0) return "";
+
+  if (profile.delimiter === "xml") {
+    // XML format
+    const rules = instructions
+      .map((i) => `  <guideline id="${i.id}">${i.rule}</guideline>`)
+      .join("\n");
+    return `<instructions>\n${rules}\n</instructions>\n\n`;
+  }
+
+  // Markdown format
+  let output = "## Guidelines\n\n";
+  for (const i of instructions) {
+    output += `- ${i.rule}\n`;
+  }
+  output += "\n";
+
+  return output;
+}
+
+/**
+ * A row of the command table: the phrases that trigger an action.
+ */
+export interface CommandEntry {
+  id: string;
+  action: string;
+  phrases: string[];
+}
+
+export function formatCommandsForModel(commands: CommandEntry[], profile: ModelProfile): string {
+  if (commands.length === 0) return "";
+
+  const quoted = (phrases: string[]) => phrases.map((phrase) => `"${phrase}"`).join(", ");
+
+  if (profile.delimiter === "xml") {
+    const rows = commands
+      .map((cmd) => `  <command id="${cmd.id}">\n    <triggers>${quoted(cmd.phrases)}</triggers>\n    <action>${cmd.action}</action>\n  </command>`)
+      .join("\n");
+    return `<commands>\nWhen the user says one of these phrases (or a close variant), take the action.\n${rows}\n</commands>`;
+  }
+
+  // Markdown format
+  let output = "## Commands\n\nWhen the user says one of these phrases (or a close variant), take the action.\n";
+  for (const cmd of commands) {
+    output += `\n**${cmd.id}**\nTriggered by: ${quoted(cmd.phrases)}\n→ ${cmd.action}\n`;
+  }
+  return output;
+}
+
+/**
+ * A few-shot dialogue, with the name its assistant turns are shown under.
+ */
+export interface ExampleEntry {
+  speaker: string;
+  example: AspectExample;
+}
+
+/**
+ * How an example is named in the prompt and in budget cuts.
+ */
+function exampleLabel(entry: ExampleEntry, index: number): string {
+  return entry.example.title ?? `Example ${index + 1}`;
+}
+
+export function formatExamplesForModel(examples: ExampleEntry[], profile: ModelProfile): string {
+  if (examples.length === 0) return "";
+
+  const intro = "Example conversations showing how to respond. Follow their style, not their exact words.";
+
+  if (profile.delimiter === "xml") {
+    const blocks = examples
+      .map((entry) => {
+        const title = entry.example.title ? ` title="${entry.example.title}"` : "";
+        const turns = entry.example.messages.map((m) => `    <${m.role}>${m.content}</${m.role}>`).join("\n");
+        return `  <example${title}>\n${turns}\n  </example>`;
+      })
+      .join("\n");
+    return `<examples>\n${intro}\n${blocks}\n</examples>`;
+  }
+
+  // Markdown format: a transcript per example
+  let output = `## Examples\n\n${intro}\n`;
+  for (const [i, entry] of examples.entries()) {
+    output += `\n### ${exampleLabel(entry, i)}\n\n`;
+    for (const m of entry.example.messages) {
+      output += `**${m.role === "user" ? "User" : entry.speaker}**: ${m.content}\n`;
+    }
+  }
+  return output;
+}
+
+/**
+ * Command table rows for composed aspects: each aspect's commands, then every
+ * mode's enter and exit triggers (the first aspect defining a mode wins).
+ */
+function commandEntries(commands: AspectCommand[], aspects: Aspect[]): CommandEntry[] {
+  const entries: CommandEntry[] = commands.map(cmd => ({ id: cmd.id, action: cmd.action, phrases: cmd.aliases }));
+  const seen = new Set<string>();
+  for (const aspect of aspects) {
+    for (const [name, mode] of Object.entries(aspect.modes ?? {})) {
+      if (seen.has(name) || !mode.triggers) continue;
+      seen.add(name);
+      if (mode.triggers.enter?.length) {
+        entries.push({ id: `mode:${name}`, action: `Switch to ${name} mode: ${mode.description}`, phrases: mode.triggers.enter });
+      }
+      if (mode.triggers.exit?.length) {
+        entries.push({ id: `exit:${name}`, action: `Leave ${name} mode`, phrases: mode.triggers.exit });
+      }
+    }
+  }
+  return entries;
+}
+
+/**
+ * Compile one or more aspects into a single system prompt for a model.
+ *
+ * Aspects are layered in order: directives and instructions from every aspect
+ * are combined (directives sorted by priority), each aspect's narrowed to what
+ * the active mode turns on and off; they are followed by the mode's critical text,
+ * each aspect's prompt, the command table, example dialogues, and the Universal
+ * Pattern reminder of high-priority directives.
+ * The model's profile decides the format, and which end the rules and reminder go at.
+ */
+export function compileAspects(aspects: Aspect[], options: CompileOptions): CompileResult {
+  if (aspects.length === 0) {
+    return { success: false, error: "Nothing to compile" };
+  }
+
+  const profile = matchModelProfile(options.model, options.profiles ?? BUILTIN_MODEL_PROFILES);
+  const onConflict = options.onConflict ?? "error";
+
+  for (const aspect of aspects) {
+    const dangling = findDanglingModeReferences(aspect);
+    if (dangling.length > 0) {
+      return { success: false, error: `Invalid mode references in ${aspect.name}: ${dangling.join("; ")}` };
+    }
+  }
+
+  // Without a mode option, the first aspect naming a default mode picks it
+  const mode = options.mode ?? aspects.find(a => a.defaultMode)?.defaultMode;
+
+  // Check for mode; any composed aspect may define it
+  const modeCritical: string[] = [];
+  if (mode) {
+    const defining = aspects.filter(a => a.modes?.[mode]);
+    if (defining.length === 0) {
+      const available = [...new Set(aspects.flatMap(a => Object.keys(a.modes ?? {})))];
+      return {
+        success: false,
+        error: `Mode not found: ${mode}. Available modes: ${available.join(", ") || "none"}`,
+      };
+    }
+    for (const aspect of defining) {
+      const critical = aspect.modes![mode]!.critical;
+      if (critical) modeCritical.push(critical);
+    }
+  }
+
+  // Each aspect contributes the rules in effect for the mode
+  const scoped = aspects.map(a => ({ ...a, ...effectiveRules(a, mode) }));
+  const directives = combineById(scoped, "directive", a => a.directives, onConflict);
+  const instructions = combineById(scoped, "instruction", a => a.instructions, onConflict);
+  const commands = combineById(aspects, "command", a => a.commands, onConflict);
+  const conflicts = [...directives.conflicts, ...instructions.conflicts, ...commands.conflicts];
+  if (onConflict === "error" && conflicts.length > 0) {
+    const ids = conflicts.map(c => `${c.kind} "${c.id}" (${c.aspects.join(", ")})`).join("; ");
+    return { success: false, error: `Conflicting definitions: ${ids}`, conflicts };
+  }
+
+  const sortedDirectives = [...directives.entries].sort(
+    (a, b) => PRIORITY_ORDER[a.priority] - PRIORITY_ORDER[b.priority],
+  );
+
+  const isXml = profile.delimiter === "xml";
+  const body: CompiledSection[] = [];
+
+  // Add mode critical section if present
+  if (modeCritical.length > 0) {
+    const critical = modeCritical.join("\n\n");
+    body.push(section(
+      "mode",
+      isXml ? `<mode name="${mode}">\n${critical}\n</mode>` : `## Mode: ${mode}\n${critical}`,
+      profile,
+    ));
+  }
+
+  // Add main prompt(s), one section per aspect when composing
+  let prompt: string;
+  if (aspects.length === 1) {
+    prompt = aspects[0]!.prompt;
+  } else if (isXml) {
+    prompt = aspects.map(a => `<aspect name="${a.name}">\n${a.prompt}\n</aspect>`).join("\n\n");
+  } else {
+    prompt = aspects.map(a => a.prompt).join("\n\n---\n\n");
+  }
+  body.push(section("prompt", prompt, profile));
+
+  // Trigger phrases as data the model can follow, formatted per model
+  const table = commandEntries(commands.entries, aspects);
+  if (table.length > 0) {
+    body.push(section("commands", formatCommandsForModel(table, profile), profile));
+  }
+
+  // Each aspect's examples, then its active mode's
+  const examples = aspects.flatMap(a =>
+    effectiveExamples(a, mode).map(example => ({ speaker: a.displayName, example })),
+  );
+
+  let kept: KeptRules = {
+    directives: sortedDirectives,
+    instructions: instructions.entries,
+    examples,
+    reminders: profile.reminders,
+  };
+  let sections = arrangeSections(kept, body, profile);
+  const cuts: BudgetCut[] = [];
+
+  if (options.maxTokens !== undefined) {
+    for (const step of budgetSteps(kept)) {
+      if (totalTokens(sections) <= options.maxTokens) break;
+      const before = totalTokens(sections);
+      kept = step.apply(kept);
+      sections = arrangeSections(kept, body, profile);
+      cuts.push({ ...step.cut, tokens: before - totalTokens(sections) });
+    }
+    if (totalTokens(sections) > options.maxTokens) {
+      return {
+        success: false,
+        error: `Still ~${totalTokens(sections)} tokens with every example and low- and medium-priority rule cut; `
+          + `over the ${options.maxTokens}-token budget. The prompt, mode and high-priority directives are never cut.`,
+      };
+    }
+  }
+
+  return {
+    success: true,
+    prompt: sections.map(s => s.text).join("\n\n"),
+    sections,
+    tokens: totalTokens(sections),
+    profile,
+    directives: kept.directives,
+    instructions: kept.instructions,
+    examples: kept.examples,
+    conflicts,
+    cuts,
+  };
+}
+
+/**
+ * The rules still in the prompt while fitting a token budget.
+ */
+interface KeptRules {
+  directives: Directive[];
+  instructions: Instruction[];
+  examples: ExampleEntry[];
+  reminders: boolean;
+}
+
+function section(kind: CompiledSection["kind"], text: string, profile: ModelProfile): CompiledSection {
+  const trimmed = text.trim();
+  return { kind, text: trimmed, tokens: estimateTokens(trimmed, profile) };
+}
+
+function totalTokens(sections: CompiledSection[]): number {
+  return sections.reduce((sum, s) => sum + s.tokens, 0);
+}
+
+/**
+ * Lay out the rule blocks around the mode, prompt and examples, per the profile.
+ */
+function arrangeSections(kept: KeptRules, body: CompiledSection[], profile: ModelProfile): CompiledSection[] {
+  if (kept.examples.length > 0) {
+    body = [...body, section("examples", formatExamplesForModel(kept.examples, profile), profile)];
+  }
+
+  const rules: CompiledSection[] = [];
+  if (kept.directives.length > 0) {
+    rules.push(section("directives", formatDirectivesForModel(kept.directives, profile), profile));
+  }
+  if (kept.instructions.length > 0) {
+    rules.push(section("instructions", formatInstructionsForModel(kept.instructions, profile), profile));
+  }
+
+  // Universal Pattern: high-priority directives appear at BOTH ends.
+  // Claude weights the beginning; GPT weights the end.
+  const highPriorityDirectives = kept.directives.filter(d => d.priority === "high");
+  const reminders = kept.reminders && highPriorityDirectives.length > 0
+    ? [section("reminders", formatDirectivesForModel(highPriorityDirectives, profile, { isReminder: true }), profile)]
+    : [];
+
+  // Rules closing the prompt means the reminder opens it instead
+  return profile.directives === "start"
+    ? [...rules, ...body, ...reminders]
+    : [...reminders, ...body, ...rules];
+}
+
+/**
+ * What a token budget may cut, cheapest loss first: low-priority directives,
+ * then instructions, then the reminder (high-priority rules are still stated once),
+ * then examples, then medium-priority directives. Within each group the
+ * last-listed goes first.
+ */
+function budgetSteps(kept: KeptRules): Array<{ cut: Omit<BudgetCut, "tokens">; apply: (k: KeptRules) => KeptRules }> {
+  const dropDirective = (d: Directive, reason: string) => ({
+    cut: { kind: "directive" as const, id: d.id, reason },
+    apply: (k: KeptRules) => ({ ...k, directives: k.directives.filter(x => x !== d) }),
+  });
+  const byPriority = (priority: Directive["priority"]) =>
+    kept.directives.filter(d => d.priority === priority).reverse();
+
+  const hasReminder = kept.reminders && kept.directives.some(d => d.priority === "high");
+  return [
+    ...byPriority("low").map(d => dropDirective(d, "low-priority directive")),
+    ...[...kept.instructions].reverse().map(i => ({
+      cut: { kind: "instruction" as const, id: i.id, reason: "instruction" },
+      apply: (k: KeptRules) => ({ ...k, instructions: k.instructions.filter(x => x !== i) }),
+    })),
+    ...(hasReminder
+      ? [{
+          cut: { kind: "reminders" as const, reason: "repeats the high-priority directives" },
+          apply: (k: KeptRules) => ({ ...k, reminders: false }),
+        }]
+      : []),
+    ...kept.examples.map((e, i) => ({
+      cut: { kind: "example" as const, id: exampleLabel(e, i), reason: "example" },
+      apply: (k: KeptRules) => ({ ...k, examples: k.examples.filter(x => x !== e) }),
+    })).reverse(),
+    ...byPriority("medium").map(d => dropDirective(d, "medium-priority directive")),
+  ];
+}
+
+/**
+ * Combine directives or instructions across aspects, keyed by id.
+ * Identical duplicates collapse silently; differing ones are conflicts.
+ */
+function combineById<T extends { id: string }>(
+  aspects: Aspect[],
+  kind: CompileConflict["kind"],
+  select: (aspect: Aspect) => T[] | undefined,
+  onConflict: ConflictStrategy,
+): { entries: T[]; conflicts: CompileConflict[] } {
+  const entries: T[] = [];
+  const owners = new Map<string, string>();
+  const conflicts = new Map<string, CompileConflict>();
+
+  for (const aspect of aspects) {
+    for (const entry of select(aspect) ?? []) {
+      const index = entries.findIndex(e => e.id === entry.id);
+      if (index === -1) {
+        entries.push(entry);
+        owners.set(entry.id, aspect.name);
+        continue;
+      }
+      if (JSON.stringify(entries[index]) === JSON.stringify(entry)) continue;
+
+      const conflict = conflicts.get(entry.id) ?? { kind, id: entry.id, aspects: [owners.get(entry.id)!] };
+      conflict.aspects.push(aspect.name);
+      conflicts.set(entry.id, conflict);
+      if (onConflict === "last") {
+        entries[index] = entry;
+        owners.set(entry.id, aspect.name);
+      }
+    }
+  }
+
+  return { entries, conflicts: [...conflicts.values()] };
+}
@@ -1,9 +1,18 @@
-import { readFile, writeFile } from "node:fs/promises";
-import { CONFIG_PATH, ensureAspectsDir, getConfigPath, type InstallScope } from "../utils/paths";
+import { mkdir, readFile, rename, rmdir, stat, writeFile } from "node:fs/promises";
+import { dirname, join, resolve } from "node:path";
+import { CONFIG_PATH, ensureAspectsDir, getAspectPath, getAspectsDir, getConfigPath, type InstallScope } from "../utils/paths";
+import { getInstallKey, resolveInstallKey } from "./resolver";
 import type { AspectsConfig, AuthTokens, HandleInfo } from "./types";
 
 const DEFAULT_REGISTRY_API_URL = "https://aspects.sh/api/v1";
 
+/**
+ * Current config format.
+ * v2 keys publisher-scoped registry installs as "publisher/name".
+ * v3 stores them in aspects/@<publisher>/<name>, apart from bare installs.
+ */
+const CONFIG_VERSION = 3;
+
 /**
  * Resolve registry URL from env, config, or default.
  * Priority: ASPECTS_REGISTRY_URL env var > config setting > default
@@ -17,12 +26,25 @@ export function resolveRegistryUrl(
   return DEFAULT_REGISTRY_API_URL;
 }
 
+/**
+ * Resolve offline mode from env or config.
+ * Priority: ASPECTS_OFFLINE env var ("1"/"true" or "0"/"false") > config setting > online
+ */
+export function resolveOffline(
+  envOffline: string | undefined,
+  configOffline: boolean | undefined,
+): boolean {
+  if (envOffline === '1' || envOffline === 'true') return true;
+  if (envOffline === '0' || envOffline === 'false') return false;
+  return configOffline ?? false;
+}
+
 /**
  * Default config for new installations
  */
 export function createDefaultConfig(): AspectsConfig {
   return {
-    version: 1,
+    version: CONFIG_VERSION,
     installed: {},
     settings: {},
   };
@@ -37,7 +59,12 @@ export async function readConfig(scope: InstallScope = 'global', projectRoot?: s
 
   try {
     const content = await readFile(configPath, "utf-8");
-    return JSON.parse(content) as AspectsConfig;
+    const config = JSON.parse(content) as AspectsConfig;
+    if ((config.version ?? 1) < CONFIG_VERSION) {
+      await migrateConfig(config, scope, projectRoot);
+      await writeConfig(config, scope, projectRoot);
+    }
+    return config;
   } catch (err) {
     if ((err as NodeJS.ErrnoException).code === "ENOENT") {
       const config = createDefaultConfig();
@@ -48,6 +75,50 @@ export async function readConfig(scope: InstallScope = 'global', projectRoot?: s
   }
 }
 
+/**
+ * Upgrade an older config in place.
+ * v1 → v2: registry installs with a publisher are re-keyed as "publisher/name".
+ * v2 → v3: publisher-scoped installs move from aspects/<publisher>/<name>
+ * (or aspects/<name>, from v1) to aspects/@<publisher>/<name>.
+ */
+export async function migrateConfig(
+  config: AspectsConfig,
+  scope: InstallScope = 'global',
+  projectRoot?: string,
+): Promise<void> {
+  const installed: AspectsConfig["installed"] = {};
+
+  for (const [key, info] of Object.entries(config.installed ?? {})) {
+    const newKey = info.source === 'registry' && !key.includes('/')
+      ? getInstallKey(key, info.publisher)
+      : key;
+
+    if (newKey !== key && newKey in config.installed) {
+      installed[key] = info;
+      continue;
+    }
+
+    // Older versions stored every install at aspects/<key>
+    const oldDir = join(getAspectsDir(scope, projectRoot), key);
+    const newDir = getAspectPath(newKey, scope, projectRoot);
+    if (oldDir !== newDir) {
+      try {
+        await mkdir(dirname(newDir), { recursive: true });
+        await rename(oldDir, newDir);
+        // Drop the old publisher directory once it's empty
+        if (key.includes('/')) await rmdir(dirname(oldDir)).catch(() => {});
+      } catch (err) {
+        // Nothing on disk to move; the entry is still re-keyed
+        if ((err as NodeJS.ErrnoException).code !== "ENOENT") throw err;
+      }
+    }
+    installed[newKey] = info;
+  }
+
+  config.installed = installed;
+  config.version = CONFIG_VERSION;
+}
+
 /**
  * Write the config file.
  */
@@ -69,6 +140,37 @@ export async function addInstalledAspect(
   const config = await readConfig(scope, projectRoot);
   config.installed[name] = info;
   await writeConfig(config, scope, projectRoot);
+  if (scope === 'project') {
+    await rememberProject(projectRoot || process.cwd());
+  }
+}
+
+/**
+ * Record a project root in the global config, so store prune can find what it uses.
+ */
+async function rememberProject(projectRoot: string): Promise<void> {
+  const root = resolve(projectRoot);
+  const config = await readConfig('global');
+  if (config.projects?.includes(root)) return;
+  config.projects = [...(config.projects ?? []), root];
+  await writeConfig(config, 'global');
+}
+
+/**
+ * Project roots that have had aspects installed and still have a project config.
+ */
+export async function listKnownProjects(): Promise<string[]> {
+  const config = await readConfig('global');
+  const projects: string[] = [];
+  for (const root of config.projects ?? []) {
+    try {
+      await stat(getConfigPath('project', root));
+      projects.push(root);
+    } catch {
+      // Project moved or deleted
+    }
+  }
+  return projects;
 }
 
 /**
@@ -76,35 +178,39 @@ export async function addInstalledAspect(
  */
 export async function removeInstalledAspect(name: string, scope: InstallScope = 'global', projectRoot?: string): Promise<boolean> {
   const config = await readConfig(scope, projectRoot);
-  if (!(name in config.installed)) {
+  const key = resolveInstallKey(config.installed, name);
+  if (!key) {
     return false;
   }
-  delete config.installed[name];
+  delete config.installed[key];
   await writeConfig(config, scope, projectRoot);
   return true;
 }
 
 /**
- * Get info about an installed aspect.
+ * Get info about an installed aspect, by name or publisher/name.
  */
 export async function getInstalledAspect(
   name: string,
   scope: InstallScope = 'global',
   projectRoot?: string,
-): Promise<AspectsConfig["installed"][string] | null> {
+): Promise<({ key: string } & AspectsConfig["installed"][string]) | null> {
   const config = await readConfig(scope, projectRoot);
-  return config.installed[name] ?? null;
+  const key = resolveInstallKey(config.installed, name);
+  return key ? { key, ...config.installed[key]! } : null;
 }
 
 /**
  * List all installed aspects.
+ * `name` is the aspect name; `key` is the install key (publisher/name for registry installs).
  */
 export async function listInstalledAspects(scope: InstallScope = 'global', projectRoot?: string): Promise<
-  Array<{ name: string; scope: InstallScope } & AspectsConfig["installed"][string]>
+  Array<{ name: string; key: string; scope: InstallScope } & AspectsConfig["installed"][string]>
 > {
   const config = await readConfig(scope, projectRoot);
-  return Object.entries(config.installed).map(([name, info]) => ({
-    name,
+  return Object.entries(config.installed).map(([key, info]) => ({
+    name: key.slice(key.lastIndexOf('/') + 1),
+    key,
     scope,
     ...info,
   }));
@@ -114,7 +220,7 @@ export async function listInstalledAspects(scope: InstallScope = 'global', proje
  * List all installed aspects from both scopes.
  */
 export async function listAllInstalledAspects(projectRoot?: string): Promise<
-  Array<{ name: string; scope: InstallScope } & AspectsConfig["installed"][string]>
+  Array<{ name: string; key: string; scope: InstallScope } & AspectsConfig["installed"][string]>
 > {
   const globalAspects = await listInstalledAspects('global');
   try {
@@ -131,8 +237,8 @@ export async function listAllInstalledAspects(projectRoot?: string): Promise<
 export async function findInstalledAspect(
   name: string,
   projectRoot?: string,
-): Promise<Array<{ scope: InstallScope } & AspectsConfig["installed"][string]>> {
-  const results: Array<{ scope: InstallScope } & AspectsConfig["installed"][string]> = [];
+): Promise<Array<{ key: string; scope: InstallScope } & AspectsConfig["installed"][string]>> {
+  const results: Array<{ key: string; scope: InstallScope } & AspectsConfig["installed"][string]> = [];
   
   // Check project scope first (if available)
   if (projectRoot) {
@@ -168,6 +274,21 @@ export async function getRegistryUrl(): Promise<string> {
   );
 }
 
+/**
+ * Whether registry access should use the local cache only.
+ */
+export async function isOffline(): Promise<boolean> {
+  const config = await readConfig();
+  return resolveOffline(process.env.ASPECTS_OFFLINE, config.settings.offline);
+}
+
+/**
+ * Force offline mode for the rest of this process (the --offline flag).
+ */
+export function enableOfflineMode(): void {
+  process.env.ASPECTS_OFFLINE = '1';
+}
+
 /**
  * Get stored auth token, or null if not logged in.
  */
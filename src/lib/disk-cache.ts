@@ -0,0 +1,71 @@
+import { createHash } from 'node:crypto';
+import { mkdir, readFile, rename, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { getCacheDir } from '../utils/paths';
+
+/**
+ * A cached registry response on disk.
+ * Entries past their TTL are revalidated (with the ETag if the server sent one),
+ * but are still served when offline or when the registry can't be reached.
+ */
+export interface DiskCacheEntry<T> {
+  key: string;
+  data: T;
+  etag?: string;
+  fetchedAt: number;
+  ttl: number;
+}
+
+function entryPath(key: string): string {
+  const digest = createHash('sha256').update(key).digest('hex');
+  return join(getCacheDir(), `${digest}.json`);
+}
+
+/**
+ * Read a cache entry, or null if missing or unreadable.
+ */
+export async function readDiskCache<T>(key: string): Promise<DiskCacheEntry<T> | null> {
+  try {
+    const entry = JSON.parse(await readFile(entryPath(key), 'utf-8')) as DiskCacheEntry<T>;
+    // Guard against digest collisions and foreign files
+    return entry.key === key ? entry : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Write a cache entry. Writes go through a temp file so readers never see a partial entry.
+ */
+export async function writeDiskCache<T>(
+  key: string,
+  data: T,
+  options: { ttl: number; etag?: string },
+): Promise<DiskCacheEntry<T>> {
+  const entry: DiskCacheEntry<T> = {
+    key,
+    data,
+    etag: options.etag,
+    fetchedAt: Date.now(),
+    ttl: options.ttl,
+  };
+  const path = entryPath(key);
+  await mkdir(getCacheDir(), { recursive: true });
+  await writeFile(`${path}.tmp`, JSON.stringify(entry));
+  await rename(`${path}.tmp`, path);
+  return entry;
+}
+
+/**
+ * Whether an entry is still within its TTL.
+ */
+export function isFresh(entry: DiskCacheEntry<unknown>, now = Date.now()): boolean {
+  return now - entry.fetchedAt <= entry.ttl;
+}
+
+/**
+ * Delete every cached response.
+ */
+export async function clearDiskCache(): Promise<void> {
+  await rm(getCacheDir(), { recursive: true, force: true });
+}
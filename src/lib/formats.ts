@@ -0,0 +1,240 @@
+import { stat } from 'node:fs/promises';
+import { join } from 'node:path';
+import { isScalar, Lexer, LineCounter, parse as parseYaml, parseDocument, Scalar } from 'yaml';
+
+/**
+ * Files an aspect can be written in, in the order a directory is searched.
+ * aspect.json is canonical: other formats are converted to it for hashing and storage.
+ */
+export const ASPECT_FILENAMES = ['aspect.json', 'aspect.yaml', 'aspect.yml', 'aspect.md'] as const;
+
+export type AspectFormat = 'json' | 'yaml' | 'markdown';
+
+export type SourceResult =
+  | { success: true; data: unknown }
+  | { success: false; errors: string[] };
+
+/** `---` fenced YAML at the very start of a Markdown file */
+const FRONTMATTER = /^---[ \t]*\r?\n(?:([\s\S]*?)\r?\n)?---[ \t]*(?:\r?\n|$)/;
+
+/**
+ * The format of an aspect file, from its extension. Anything unrecognised is JSON.
+ */
+export function aspectFormatOf(filePath: string): AspectFormat {
+  const lower = filePath.toLowerCase();
+  if (lower.endsWith('.yaml') || lower.endsWith('.yml')) return 'yaml';
+  if (lower.endsWith('.md') || lower.endsWith('.markdown')) return 'markdown';
+  return 'json';
+}
+
+/**
+ * Split an aspect.md into its frontmatter YAML and Markdown body, or null if
+ * it doesn't start with frontmatter. Blank lines around the body are dropped,
+ * so they don't change the prompt (or its hash).
+ */
+export function splitFrontmatter(content: string): { frontmatter: string; body: string } | null {
+  const text = content.replace(/^\uFEFF/, '');
+  const match = FRONTMATTER.exec(text);
+  if (!match) return null;
+  return {
+    frontmatter: match[1] ?? '',
+    body: text.slice(match[0].length).replace(/^(?:[ \t]*\r?\n)+/, '').trimEnd(),
+  };
+}
+
+/**
+ * Swap the frontmatter of an aspect.md, leaving the body untouched.
+ */
+export function replaceFrontmatter(content: string, frontmatter: string): string {
+  const bom = content.startsWith('\uFEFF') ? '\uFEFF' : '';
+  const text = content.slice(bom.length);
+  const match = FRONTMATTER.exec(text);
+  if (!match) return content;
+  const closing = /---[ \t]*(?:\r?\n)?$/.exec(match[0])![0];
+  return `${bom}---\n${frontmatter}\n${closing}${text.slice(match[0].length)}`;
+}
+
+/**
+ * Read aspect data from file content, without validating it.
+ * For Markdown, the frontmatter holds every field but the prompt, which is the body.
+ */
+export function readAspectSource(content: string, format: AspectFormat): SourceResult {
+  switch (format) {
+    case 'json':
+      try {
+        return { success: true, data: JSON.parse(content) };
+      } catch (err) {
+        return { success: false, errors: [`Invalid JSON: ${(err as Error).message}`] };
+      }
+
+    case 'yaml':
+      try {
+        return { success: true, data: parseYaml(content) };
+      } catch (err) {
+        return { success: false, errors: [`Invalid YAML: ${(err as Error).message}`] };
+      }
+
+    case 'markdown': {
+      const parts = splitFrontmatter(content);
+      if (!parts) {
+        return { success: false, errors: ['aspect.md must start with YAML frontmatter between --- lines'] };
+      }
+      let meta: unknown;
+      try {
+        meta = parseYaml(parts.frontmatter) ?? {};
+      } catch (err) {
+        return { success: false, errors: [`Invalid YAML frontmatter: ${(err as Error).message}`] };
+      }
+      if (typeof meta !== 'object' || meta === null || Array.isArray(meta)) {
+        return { success: false, errors: ['aspect.md frontmatter must be a YAML mapping'] };
+      }
+      if ('prompt' in meta) {
+        return { success: false, errors: ['prompt: write it as the Markdown body, not in the frontmatter'] };
+      }
+      return { success: true, data: { ...meta, prompt: parts.body } };
+    }
+  }
+}
+
+/**
+ * Canonical aspect.json content for aspect data read from any format.
+ */
+export function toAspectJson(data: unknown): string {
+  return JSON.stringify(data, null, 2);
+}
+
+/**
+ * The aspect file in a directory: the first of ASPECT_FILENAMES that exists,
+ * or aspect.json (so a read reports it missing) if none does.
+ */
+export async function findAspectFile(dir: string): Promise<string> {
+  for (const filename of ASPECT_FILENAMES) {
+    const path = join(dir, filename);
+    try {
+      if ((await stat(path)).isFile()) return path;
+    } catch {
+      // Try the next format
+    }
+  }
+  return join(dir, ASPECT_FILENAMES[0]);
+}
+
+/**
+ * Resolve a path to an aspect file: directories are searched with findAspectFile,
+ * anything else is returned as-is.
+ */
+export async function resolveAspectFile(path: string): Promise<string> {
+  try {
+    if ((await stat(path)).isDirectory()) return findAspectFile(path);
+  } catch {
+    // Reported when the file is read
+  }
+  return path;
+}
+
+/**
+ * Map aspect paths (['directives', 0, 'rule']) to 1-based lines of the source file,
+ * with `offset` a position in the field's text. JSON is read as YAML (a
+ * superset), which gives every node's position. For aspect.md the prompt is
+ * the body, after the frontmatter.
+ */
+export function sourceLineLocator(
+  content: string,
+  format: AspectFormat,
+): (path: Array<string | number>, offset?: number) => number | undefined {
+  let yamlText = content;
+  let lineBase = 0;
+  let body: { line: number; text: string } | undefined;
+
+  if (format === 'markdown') {
+    const parts = splitFrontmatter(content);
+    if (!parts) return () => undefined;
+    const start = content.indexOf(parts.frontmatter);
+    lineBase = countLines(content, start) - 1;
+    yamlText = parts.frontmatter;
+    const bodyStart = content.indexOf(parts.body, start + parts.frontmatter.length);
+    body = { line: countLines(content, bodyStart), text: parts.body };
+  }
+
+  const lineCounter = new LineCounter();
+  let doc: ReturnType<typeof parseDocument> | undefined;
+  try {
+    doc = parseDocument(yamlText, { lineCounter, uniqueKeys: false });
+  } catch {
+    doc = undefined;
+  }
+
+  return (path, offset) => {
+    if (body && path.length === 1 && path[0] === 'prompt') {
+      return body.line + countLines(body.text, offset ?? 0) - 1;
+    }
+
+    const node = doc?.getIn(path, true) as { range?: [number, number, number] } | undefined;
+    if (!node?.range) return undefined;
+    const line = lineBase + lineCounter.linePos(node.range[0]).line;
+
+    // Block scalars start on the next line and keep their line breaks
+    if (offset !== undefined && isScalar(node) && (node.type === Scalar.BLOCK_LITERAL)) {
+      return line + countLines(String(node.value), offset);
+    }
+    return line;
+  };
+}
+
+/**
+ * The comments in an aspect file, with the 1-based line each starts on: `#`
+ * comments in YAML and aspect.md frontmatter, `<!-- -->` comments after the
+ * frontmatter. JSON has none. Text inside a string value is never a comment.
+ */
+export function sourceComments(content: string, format: AspectFormat): Array<{ text: string; line: number }> {
+  switch (format) {
+    case 'json':
+      return [];
+    case 'yaml':
+      return yamlComments(content, 0);
+    case 'markdown': {
+      const parts = splitFrontmatter(content);
+      if (!parts) return [];
+      const start = content.indexOf(parts.frontmatter);
+      const bodyStart = start + parts.frontmatter.length;
+      const comments = yamlComments(parts.frontmatter, countLines(content, start) - 1);
+      for (const match of content.slice(bodyStart).matchAll(/<!--[\s\S]*?-->/g)) {
+        comments.push({ text: match[0], line: countLines(content, bodyStart + match.index) });
+      }
+      return comments;
+    }
+  }
+}
+
+/** YAML `#` comments, from the lexer so quoted and block scalars are skipped */
+function yamlComments(text: string, lineBase: number): Array<{ text: string; line: number }> {
+  const comments: Array<{ text: string; line: number }> = [];
+  let line = lineBase + 1;
+  let previous = '';
+  try {
+    for (const token of new Lexer().lex(text)) {
+      // Control tokens (document start, scalar start, flow error end) aren't source text
+      if (token === '\x02' || token === '\x18' || token === '\x1f') {
+        previous = token;
+        continue;
+      }
+      if (token.startsWith('#') && previous !== '\x1f') {
+        comments.push({ text: token, line });
+      }
+      line += token.split('\n').length - 1;
+      previous = token;
+    }
+  } catch {
+    // Unlexable YAML has no comments worth honoring
+  }
+  return comments;
+}
+
+/** The 1-based line of `offset` in `text` */
+function countLines(text: string, offset: number): number {
+  let lines = 1;
+  for (let i = 0; i < offset && i < text.length; i++) {
+    if (text[i] === '\n') lines++;
+  }
+  return lines;
+}
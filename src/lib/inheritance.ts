@@ -0,0 +1,192 @@
+import { isAbsolute, resolve } from 'node:path';
+import type { Aspect } from './types';
+
+/**
+ * Maximum length of an extends chain (child included).
+ */
+export const MAX_EXTENDS_DEPTH = 8;
+
+/**
+ * A loaded parent aspect. `dir` is where it lives on disk, used to
+ * resolve its own relative `extends`; omit it when there's no such place.
+ */
+export interface ParentAspect {
+  aspect: Aspect;
+  dir?: string;
+}
+
+/**
+ * Loads the aspect an `extends` spec points at, or null if it isn't available.
+ * `fromDir` is the directory of the aspect doing the extending.
+ * Throw to report a more specific problem (e.g. a version mismatch).
+ */
+export type ParentLoader = (spec: string, fromDir?: string) => Promise<ParentAspect | null>;
+
+export type ResolveResult =
+  | {
+      success: true;
+      aspect: Aspect;
+      chain: string[];  // "name@version" from the aspect itself up to its root ancestor
+    }
+  | {
+      success: false;
+      error: string;
+    };
+
+/**
+ * Turn an `extends` value into an install spec.
+ * Relative paths are relative to the extending aspect's directory, not the cwd.
+ */
+export function resolveExtendsSpec(spec: string, fromDir?: string): string {
+  if (!spec.startsWith('.') || isAbsolute(spec)) return spec;
+  if (!fromDir) {
+    throw new Error(`Relative extends "${spec}" can only be used by aspects installed from a local path`);
+  }
+  return resolve(fromDir, spec);
+}
+
+/**
+ * Merge a child aspect over its parent.
+ *
+ * - Scalar fields (name, version, category, ...) come from the child, or the parent if the child leaves them out
+ * - tags and voiceHints.emotions are unioned, other voiceHints are overridden
+ * - resources merge by key (voice, model, skills), so a child can swap just the voice
+ * - modes and variables merge by key, directives, instructions and commands by id; a child entry replaces
+ *   the parent's in place, new ones are added after the parent's
+ * - examples are appended to the parent's
+ * - the prompt is appended to the parent's, or replaces it with promptMode "replace"
+ * - files are never inherited: they're relative to the parent's own package
+ */
+export function mergeAspects(parent: Aspect, child: Aspect): Aspect {
+  const { extends: _parentExtends, promptMode: _parentPromptMode, files: _parentFiles, ...inherited } = parent;
+  const { extends: _extends, promptMode, ...own } = child;
+  const merged: Aspect = { ...inherited, ...own };
+
+  const tags = union(parent.tags, child.tags);
+  if (tags) merged.tags = tags;
+
+  if (parent.voiceHints || child.voiceHints) {
+    merged.voiceHints = { ...parent.voiceHints, ...child.voiceHints };
+    const emotions = union(parent.voiceHints?.emotions, child.voiceHints?.emotions);
+    if (emotions) merged.voiceHints.emotions = emotions;
+  }
+
+  if (parent.resources || child.resources) {
+    merged.resources = { ...parent.resources, ...child.resources };
+  }
+
+  if (parent.modes || child.modes) {
+    merged.modes = { ...parent.modes };
+    for (const [key, mode] of Object.entries(child.modes ?? {})) {
+      merged.modes[key] = { ...merged.modes[key], ...mode };
+    }
+  }
+
+  if (parent.variables || child.variables) {
+    merged.variables = { ...parent.variables };
+    for (const [key, variable] of Object.entries(child.variables ?? {})) {
+      merged.variables[key] = { ...merged.variables[key], ...variable };
+    }
+  }
+
+  const directives = mergeById(parent.directives, child.directives);
+  if (directives) merged.directives = directives;
+
+  const instructions = mergeById(parent.instructions, child.instructions);
+  if (instructions) merged.instructions = instructions;
+
+  const commands = mergeById(parent.commands, child.commands);
+  if (commands) merged.commands = commands;
+
+  if (parent.examples || child.examples) {
+    merged.examples = [...(parent.examples ?? []), ...(child.examples ?? [])];
+  }
+
+  merged.prompt = promptMode === 'replace'
+    ? child.prompt
+    : `${parent.prompt}\n\n${child.prompt}`;
+
+  return merged;
+}
+
+/**
+ * Resolve an aspect's `extends` chain into a single merged aspect.
+ * Fails on missing parents, cycles and chains deeper than MAX_EXTENDS_DEPTH.
+ */
+export async function resolveAspect(
+  aspect: Aspect,
+  loadParent: ParentLoader,
+  dir?: string,
+): Promise<ResolveResult> {
+  // Walk up to the root, then merge back down
+  const lineage: Aspect[] = [aspect];
+  const seen = new Set<string>();
+  let current: ParentAspect = { aspect, dir };
+
+  while (current.aspect.extends) {
+    const spec = current.aspect.extends;
+    if (lineage.length >= MAX_EXTENDS_DEPTH) {
+      return { success: false, error: `extends chain is deeper than ${MAX_EXTENDS_DEPTH} aspects` };
+    }
+
+    let resolved: string;
+    let parent: ParentAspect | null;
+    try {
+      resolved = resolveExtendsSpec(spec, current.dir);
+      if (seen.has(resolved)) {
+        return { success: false, error: `extends cycle: ${formatChain(lineage)} -> ${spec}` };
+      }
+      seen.add(resolved);
+      parent = await loadParent(resolved, current.dir);
+    } catch (err) {
+      return { success: false, error: `Cannot load parent "${spec}" of ${label(current.aspect)}: ${(err as Error).message}` };
+    }
+
+    if (!parent) {
+      return {
+        success: false,
+        error: `Parent "${spec}" of ${label(current.aspect)} is not installed. Run: aspects add ${spec}`,
+      };
+    }
+    if (lineage.some(a => a.name === parent.aspect.name && a.publisher === parent.aspect.publisher)) {
+      return { success: false, error: `extends cycle: ${formatChain(lineage)} -> ${label(parent.aspect)}` };
+    }
+
+    lineage.push(parent.aspect);
+    current = parent;
+  }
+
+  let merged = lineage[lineage.length - 1]!;
+  for (let i = lineage.length - 2; i >= 0; i--) {
+    merged = mergeAspects(merged, lineage[i]!);
+  }
+
+  return { success: true, aspect: merged, chain: lineage.map(label) };
+}
+
+function label(aspect: Aspect): string {
+  return `${aspect.name}@${aspect.version}`;
+}
+
+function formatChain(lineage: Aspect[]): string {
+  return lineage.map(label).join(' -> ');
+}
+
+function union(a?: string[], b?: string[]): string[] | undefined {
+  if (!a && !b) return undefined;
+  return [...new Set([...(a ?? []), ...(b ?? [])])];
+}
+
+function mergeById<T extends { id: string }>(parent?: T[], child?: T[]): T[] | undefined {
+  if (!parent && !child) return undefined;
+  const merged = [...(parent ?? [])];
+  for (const entry of child ?? []) {
+    const index = merged.findIndex(e => e.id === entry.id);
+    if (index === -1) {
+      merged.push(entry);
+    } else {
+      merged[index] = entry;
+    }
+  }
+  return merged;
+}
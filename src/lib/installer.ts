@@ -1,22 +1,50 @@
-import { mkdir, writeFile, stat, access } from 'node:fs/promises';
+import { readFile, stat } from 'node:fs/promises';
 import { join, dirname } from 'node:path';
 import { ofetch } from 'ofetch';
-import type { InstallSpec, Aspect } from './types';
-import { parseAspectJson, parseAspectFile } from './parser';
-import { getRegistryAspect, fetchAspectVersion, fetchAspectByHash } from './registry';
-import { addInstalledAspect, getInstalledAspect } from './config';
+import type { InstallSpec, Aspect, AspectSignature, InstalledAspect, TrustLevel } from './types';
+import { parseAspectData, parseAspectFile, parseAspectJson, promptFileOf, type ParseOptions, type ParseResult } from './parser';
+import { ASPECT_FILENAMES, aspectFormatOf, findAspectFile, readAspectSource, toAspectJson } from './formats';
+import { getRegistryAspect, fetchAspectVersion, fetchAspectByHash, fetchAspectPackage } from './registry';
+import { isOfflineError } from './api-client';
+import { addInstalledAspect, getInstalledAspect, isOffline } from './config';
+import { getInstallKey, parseInstallSpec } from './resolver';
+import { checkIntegrity, checkPackageIntegrity } from './integrity';
+import { checkPublisherSignature, readTrustedKeys } from './signing';
+import { findInStore, linkFromStore, readFromStore, readPackageFromStore, writeToStore } from './store';
+import {
+  buildPackage,
+  isPackagePath,
+  packAspect,
+  packagedFiles,
+  packageSigningContent,
+  readPackage,
+  unpackAspect,
+  writePackageFiles,
+  type AspectPackage,
+  type PackageFile,
+  type PackageResult,
+} from './pack';
+import { findLockedDependency, lockedAspectToSpec, readLockfile, setLockedAspect } from './lockfile';
+import { resolveExtendsSpec } from './inheritance';
+import { enforceInstallPolicy, findPolicyViolations, readInstallPolicies, type PolicySubject } from './policy';
+import { isExactVersion, resolveVersion } from './semver';
 import { getAspectPath, ensureAspectsDir, type InstallScope } from '../utils/paths';
 import { blake3HashAspect } from '../utils/hash';
 import { log } from '../utils/logger';
 
 const ASPECT_FILENAME = 'aspect.json';
-const LEGACY_FILENAME = 'aspect.yaml';
 
 export interface InstallOptions {
   force?: boolean;
   scope?: InstallScope;
   projectRoot?: string;
   specifier?: string;  // Original user input for display/reinstall
+  // Frozen install: refuse content that doesn't hash to this, and leave aspects.lock untouched
+  expectedBlake3?: string;
+  // Hash pinned in aspects.lock: registry installs reuse it from the store, but nothing is refused
+  lockedBlake3?: string;
+  // Install despite install policy violations (they're logged)
+  allowUnsafe?: boolean;
 }
 
 export type InstallResult =
@@ -32,15 +60,26 @@ export type InstallResult =
     };
 
 /**
- * Install an aspect from a parsed spec.
+ * Install an aspect from a parsed spec, along with the aspects it extends.
  */
 export async function installAspect(
   spec: InstallSpec,
   options?: InstallOptions,
+): Promise<InstallResult> {
+  const result = await installSpec(spec, options);
+  if (!result.success || !result.aspect.extends) return result;
+
+  const parentError = await installParents(result.aspect, spec, options);
+  return parentError ? { success: false, error: parentError } : result;
+}
+
+async function installSpec(
+  spec: InstallSpec,
+  options?: InstallOptions,
 ): Promise<InstallResult> {
   switch (spec.type) {
     case 'registry':
-      return installFromRegistry(spec.name, spec.version, options);
+      return installFromRegistry(spec.name, spec.version, spec.publisher, options);
     case 'local':
       return installFromLocal(spec.path, options);
     case 'github':
@@ -56,14 +95,55 @@ export async function installAspect(
 async function installFromRegistry(
   name: string,
   version?: string,
+  publisher?: string,
   options?: InstallOptions,
 ): Promise<InstallResult> {
+  const label = getInstallKey(name, publisher);
+
+  // Ranges and dist-tags resolve client-side to an exact version first
+  let targetVersion = version;
+  if (version && !isExactVersion(version)) {
+    let registryAspect;
+    try {
+      registryAspect = await getRegistryAspect(name, publisher);
+    } catch (err) {
+      return {
+        success: false,
+        error: `Unable to reach registry: ${(err as Error).message}`,
+      };
+    }
+    if (!registryAspect) {
+      return { success: false, error: `Aspect "${label}" not found in registry` };
+    }
+
+    const resolved = resolveVersion(version, registryAspect);
+    if (!resolved) {
+      const available = Object.keys(registryAspect.versions).join(', ');
+      return {
+        success: false,
+        error: `No version of "${label}" matches "${version}". Available: ${available}`,
+      };
+    }
+    targetVersion = resolved;
+  }
+
+  // Pinned content already in the store needs no registry round-trip
+  const pinned = options?.expectedBlake3 ?? options?.lockedBlake3;
+  if (pinned) {
+    const stored = await installRegistryFromStore(name, publisher, pinned, options!);
+    if (stored) return stored;
+  }
+
   // Try API-based install first
   try {
-    return await installFromRegistryApi(name, version, options);
-  } catch {
+    return await installFromRegistryApi(name, targetVersion, publisher, options);
+  } catch (err) {
+    // The legacy path downloads from the index URL, so there's nothing to fall back to offline
+    if (isOfflineError(err)) {
+      return { success: false, error: (err as Error).message };
+    }
     // Fallback to legacy index-based install
-    return installFromRegistryLegacy(name, version, options);
+    return installFromRegistryLegacy(name, targetVersion, publisher, options);
   }
 }
 
@@ -73,67 +153,90 @@ async function installFromRegistry(
 async function installFromRegistryApi(
   name: string,
   version?: string,
+  publisher?: string,
   options?: InstallOptions,
 ): Promise<InstallResult> {
   const targetVersion = version ?? 'latest';
   const scope = options?.scope ?? 'global';
   const projectRoot = options?.projectRoot;
+  const label = getInstallKey(name, publisher);
 
   // Check if already installed (unless force)
   if (!options?.force) {
-    const existing = await getInstalledAspect(name, scope, projectRoot);
-    if (existing && (version ? existing.version === version : true)) {
-      const aspect = await loadAspectFromPath(getAspectPath(name, scope, projectRoot));
+    const existing = await findExistingInstall(label, scope, projectRoot);
+    if (existing && existing.source === 'registry' && (version ? existing.version === version : true)) {
+      const aspect = await loadAspectFromPath(getAspectPath(existing.key, scope, projectRoot));
       if (aspect) {
         return { success: true, aspect, source: 'registry', alreadyInstalled: true };
       }
     }
   }
 
-  log.start(`Fetching ${name}@${targetVersion}...`);
+  log.start(`Fetching ${label}@${targetVersion}...`);
 
   let versionData;
   try {
-    versionData = await fetchAspectVersion(name, targetVersion);
+    versionData = await fetchAspectVersion(name, targetVersion, publisher);
   } catch (err) {
     const message = (err as Error).message;
     if (message.includes('not_found') || message.includes('404') || message.includes('not found')) {
-      return { success: false, error: `Aspect "${name}@${targetVersion}" not found in registry` };
+      return { success: false, error: `Aspect "${label}@${targetVersion}" not found in registry` };
     }
     throw err; // Let caller handle for fallback
   }
 
+  if (versionData.packageUrl) {
+    return installRegistryPackage(versionData.packageUrl, versionData.blake3, versionData.signature, name, publisher, 'community', options);
+  }
+
   const aspect = versionData.content;
 
-  // Verify name matches
-  if (aspect.name !== name) {
-    return {
-      success: false,
-      error: `Aspect name mismatch: expected "${name}", got "${aspect.name}"`,
-    };
+  const mismatch = checkRegistryIdentity(aspect, name, publisher);
+  if (mismatch) {
+    return { success: false, error: mismatch };
   }
 
-  // Store to aspects directory
+  // Never trust the registry's hash without recomputing it
+  const hashError = checkIntegrity(aspect, versionData.blake3, 'registry')
+    ?? checkExpectedHash(aspect, options);
+  if (hashError) {
+    return { success: false, error: hashError };
+  }
+
+  const signature = versionData.signature;
+  const signatureCheck = checkPublisherSignature(aspect, aspect.publisher, signature, await readTrustedKeys());
+  if (signatureCheck.error) {
+    return { success: false, error: signatureCheck.error };
+  }
+
+  // Store under aspects/@<publisher>/<name> so same-name aspects don't collide
+  const key = getInstallKey(name, aspect.publisher);
+  const verified = signatureCheck.status === 'verified';
+  const policyError = await checkPolicy(key, {
+    aspect,
+    trust: verified ? 'verified' : 'community',
+    publisher: aspect.publisher,
+    signedBy: verified ? signature?.publicKey : undefined,
+  }, options);
+  if (policyError) {
+    return { success: false, error: policyError };
+  }
+
+  const hash = blake3HashAspect(aspect);
   await ensureAspectsDir(scope, projectRoot);
-  const aspectDir = getAspectPath(name, scope, projectRoot);
-  await mkdir(aspectDir, { recursive: true });
-  const content = JSON.stringify(aspect, null, 2);
-  await writeFile(join(aspectDir, ASPECT_FILENAME), content);
+  await linkInstall(getAspectPath(key, scope, projectRoot), hash, JSON.stringify(aspect, null, 2));
 
   // Update config with new schema
-  const hash = versionData.blake3 || blake3HashAspect(aspect);
-  const publisher = aspect.publisher;
-  const trust = publisher ? 'community' : undefined; // TODO: get trust from API response
-  
-  await addInstalledAspect(name, {
+  await recordInstall(key, {
     version: aspect.version,
     installedAt: new Date().toISOString(),
     blake3: hash,
     source: 'registry',
-    trust: trust ?? 'community',
-    publisher,
-    specifier: options?.specifier ?? (publisher ? `${publisher}/${name}` : name),
-  }, scope, projectRoot);
+    trust: verified ? 'verified' : 'community',
+    publisher: aspect.publisher,
+    signedBy: verified ? signature?.publicKey : undefined,
+    specifier: options?.specifier ?? key,
+  }, options);
 
   return { success: true, aspect, source: 'registry' };
 }
@@ -144,14 +247,16 @@ async function installFromRegistryApi(
 async function installFromRegistryLegacy(
   name: string,
   version?: string,
+  publisher?: string,
   options?: InstallOptions,
 ): Promise<InstallResult> {
   const scope = options?.scope ?? 'global';
   const projectRoot = options?.projectRoot;
+  const label = getInstallKey(name, publisher);
 
   let registryAspect;
   try {
-    registryAspect = await getRegistryAspect(name);
+    registryAspect = await getRegistryAspect(name, publisher);
   } catch (err) {
     return {
       success: false,
@@ -160,7 +265,7 @@ async function installFromRegistryLegacy(
   }
 
   if (!registryAspect) {
-    return { success: false, error: `Aspect "${name}" not found in registry` };
+    return { success: false, error: `Aspect "${label}" not found in registry` };
   }
 
   const targetVersion = version ?? registryAspect.latest;
@@ -175,9 +280,9 @@ async function installFromRegistryLegacy(
 
   // Check if already installed at same version (unless force)
   if (!options?.force) {
-    const existing = await getInstalledAspect(name, scope, projectRoot);
-    if (existing && existing.version === targetVersion) {
-      const aspect = await loadAspectFromPath(getAspectPath(name, scope, projectRoot));
+    const existing = await findExistingInstall(label, scope, projectRoot);
+    if (existing && existing.source === 'registry' && existing.version === targetVersion) {
+      const aspect = await loadAspectFromPath(getAspectPath(existing.key, scope, projectRoot));
       if (aspect) {
         return { success: true, aspect, source: 'registry', alreadyInstalled: true };
       }
@@ -186,10 +291,15 @@ async function installFromRegistryLegacy(
 
   // Fetch aspect content from URL
   if (!versionInfo.url) {
-    return { success: false, error: `No download URL for ${name}@${targetVersion}` };
+    return { success: false, error: `No download URL for ${label}@${targetVersion}` };
+  }
+
+  log.start(`Fetching ${label}@${targetVersion}...`);
+  const trust = registryAspect.metadata.trust ?? 'community';
+  if (isPackagePath(versionInfo.url)) {
+    return installRegistryPackage(versionInfo.url, versionInfo.blake3, undefined, name, publisher, trust, options);
   }
 
-  log.start(`Fetching ${name}@${targetVersion}...`);
   let content: string;
   try {
     content = await ofetch(versionInfo.url, { responseType: 'text' });
@@ -208,34 +318,48 @@ async function installFromRegistryLegacy(
   }
 
   const aspect = parseResult.aspect;
+  // Hashes and signatures cover the file as written, even if it was migrated
+  const written = parseResult.asWritten;
 
-  if (aspect.name !== name) {
-    return {
-      success: false,
-      error: `Aspect name mismatch: expected "${name}", got "${aspect.name}"`,
-    };
+  const mismatch = checkRegistryIdentity(aspect, name, publisher);
+  if (mismatch) {
+    return { success: false, error: mismatch };
   }
 
-  // Store to aspects directory
+  // The index hash covers the published JSON as-is, before schema defaults apply
+  const hashError = checkIntegrity(JSON.parse(content), versionInfo.blake3, 'registry index')
+    ?? checkExpectedHash(written, options);
+  if (hashError) {
+    return { success: false, error: hashError };
+  }
+
+  // The legacy index carries no signatures, so this only enforces requireSignature
+  const signatureCheck = checkPublisherSignature(written, aspect.publisher, undefined, await readTrustedKeys());
+  if (signatureCheck.error) {
+    return { success: false, error: signatureCheck.error };
+  }
+
+  // Store under aspects/@<publisher>/<name> so same-name aspects don't collide
+  const key = getInstallKey(name, aspect.publisher);
+  const policyError = await checkPolicy(key, { aspect: written, trust, publisher: aspect.publisher }, options);
+  if (policyError) {
+    return { success: false, error: policyError };
+  }
+
+  const hash = blake3HashAspect(written);
   await ensureAspectsDir(scope, projectRoot);
-  const aspectDir = getAspectPath(name, scope, projectRoot);
-  await mkdir(aspectDir, { recursive: true });
-  await writeFile(join(aspectDir, ASPECT_FILENAME), content);
+  await linkInstall(getAspectPath(key, scope, projectRoot), hash, content);
 
   // Update config with new schema
-  const hash = blake3HashAspect(aspect);
-  const publisher = aspect.publisher;
-  const trust = registryAspect.metadata.trust ?? 'community';
-  
-  await addInstalledAspect(name, {
+  await recordInstall(key, {
     version: aspect.version,
     installedAt: new Date().toISOString(),
     blake3: hash,
     source: 'registry',
     trust,
-    publisher,
-    specifier: options?.specifier ?? (publisher ? `${publisher}/${name}` : name),
-  }, scope, projectRoot);
+    publisher: aspect.publisher,
+    specifier: options?.specifier ?? key,
+  }, options);
 
   return { success: true, aspect, source: 'registry' };
 }
@@ -244,7 +368,7 @@ const DEFAULT_GITHUB_REF = 'main';
 
 /**
  * Install from a GitHub repository.
- * Tries aspect.json first, falls back to aspect.yaml.
+ * Tries each of ASPECT_FILENAMES in the repo root, aspect.json first.
  */
 async function installFromGitHub(
   owner: string,
@@ -256,13 +380,21 @@ async function installFromGitHub(
   const scope = options?.scope ?? 'global';
   const projectRoot = options?.projectRoot;
 
-  // Try aspect.json first, then aspect.yaml
+  if (await isOffline()) {
+    return {
+      success: false,
+      error: `Offline mode: github:${owner}/${repo}@${targetRef} can't be fetched. Run without --offline to install from GitHub.`,
+    };
+  }
+
   let content: string | null = null;
-  for (const filename of [ASPECT_FILENAME, LEGACY_FILENAME]) {
-    const url = `https://raw.githubusercontent.com/${owner}/${repo}/${targetRef}/${filename}`;
+  let filename: string = ASPECT_FILENAME;
+  for (const candidate of ASPECT_FILENAMES) {
+    const url = `https://raw.githubusercontent.com/${owner}/${repo}/${targetRef}/${candidate}`;
     log.start(`Fetching from github:${owner}/${repo}@${targetRef}...`);
     try {
       content = await ofetch(url, { responseType: 'text' });
+      filename = candidate;
       break;
     } catch (err) {
       const message = (err as Error).message;
@@ -275,12 +407,26 @@ async function installFromGitHub(
   if (!content) {
     return {
       success: false,
-      error: `No aspect.json found at github:${owner}/${repo}@${targetRef}. Make sure the repo exists and has an aspect.json in the root.`,
+      error: `No aspect file found at github:${owner}/${repo}@${targetRef}. Make sure the repo exists and has an aspect.json (or aspect.yaml, aspect.md) in the root.`,
     };
   }
 
   // Parse and validate
-  const parseResult = parseAspectJson(content);
+  const format = aspectFormatOf(filename);
+  const source = readAspectSource(content, format);
+  let parseOptions: ParseOptions = {};
+  const promptFile = source.success ? promptFileOf(source.data) : undefined;
+  if (promptFile) {
+    // A packaged prompt comes from the same ref, and is needed to validate the aspect
+    let text: string | undefined;
+    try {
+      text = await ofetch(`https://raw.githubusercontent.com/${owner}/${repo}/${targetRef}/${promptFile}`, { responseType: 'text' });
+    } catch {
+      text = undefined;
+    }
+    parseOptions = { readFile: (path) => (path === promptFile ? text : undefined) };
+  }
+  const parseResult = source.success ? parseAspectData(source.data, parseOptions) : source;
   if (!parseResult.success) {
     return { success: false, error: `Invalid aspect data: ${parseResult.errors.join(', ')}` };
   }
@@ -289,29 +435,49 @@ async function installFromGitHub(
     parseResult.warnings.forEach(w => log.warn(w));
   }
 
+  if (parseResult.asWritten.files?.length) {
+    return installGitHubPackage(parseResult, owner, repo, targetRef, options);
+  }
+
   const aspect = parseResult.aspect;
+  const written = parseResult.asWritten;
 
   // Check if already installed at same ref (unless force)
-  const hash = blake3HashAspect(aspect);
+  const hash = blake3HashAspect(written);
   if (!options?.force) {
-    const existing = await getInstalledAspect(aspect.name, scope, projectRoot);
+    const existing = await findExistingInstall(aspect.name, scope, projectRoot);
     if (existing && existing.source === 'github' && existing.githubRef === `${owner}/${repo}@${targetRef}`) {
-      const existingAspect = await loadAspectFromPath(getAspectPath(aspect.name, scope, projectRoot));
+      const existingAspect = await loadAspectFromPath(getAspectPath(existing.key, scope, projectRoot));
       if (existingAspect && existing.blake3 === hash) {
         return { success: true, aspect: existingAspect, source: 'github', alreadyInstalled: true };
       }
     }
   }
 
-  // Store to aspects directory
+  const hashError = checkExpectedHash(written, options);
+  if (hashError) {
+    return { success: false, error: hashError };
+  }
+
+  // GitHub content is unsigned; refuse it if it claims a publisher that requires signatures
+  const signatureCheck = checkPublisherSignature(written, aspect.publisher, undefined, await readTrustedKeys());
+  if (signatureCheck.error) {
+    return { success: false, error: signatureCheck.error };
+  }
+
+  const policyError = await checkPolicy(aspect.name, { aspect: written, trust: 'github', publisher: aspect.publisher }, options);
+  if (policyError) {
+    return { success: false, error: policyError };
+  }
+
+  // Store to aspects directory, as aspect.json whatever format the repo uses
+  const stored = source.success && format !== 'json' ? toAspectJson(source.data) : content;
   await ensureAspectsDir(scope, projectRoot);
-  const aspectDir = getAspectPath(aspect.name, scope, projectRoot);
-  await mkdir(aspectDir, { recursive: true });
-  await writeFile(join(aspectDir, ASPECT_FILENAME), content);
+  await linkInstall(getAspectPath(aspect.name, scope, projectRoot), hash, stored);
 
   // Update config with new schema
   const specifier = options?.specifier ?? `github:${owner}/${repo}@${targetRef}`;
-  await addInstalledAspect(aspect.name, {
+  await recordInstall(aspect.name, {
     version: aspect.version,
     installedAt: new Date().toISOString(),
     blake3: hash,
@@ -319,7 +485,7 @@ async function installFromGitHub(
     trust: 'github',
     githubRef: `${owner}/${repo}@${targetRef}`,
     specifier,
-  }, scope, projectRoot);
+  }, options);
 
   return { success: true, aspect, source: 'github' };
 }
@@ -331,6 +497,10 @@ async function installFromLocal(
   path: string,
   options?: InstallOptions,
 ): Promise<InstallResult> {
+  if (isPackagePath(path)) {
+    return installLocalPackage(path, options);
+  }
+
   let filePath: string;
   let aspectDir: string;
 
@@ -338,15 +508,7 @@ async function installFromLocal(
     const stats = await stat(path);
     if (stats.isDirectory()) {
       aspectDir = path;
-      // Try aspect.json first, fall back to aspect.yaml
-      const jsonPath = join(path, ASPECT_FILENAME);
-      const yamlPath = join(path, LEGACY_FILENAME);
-      try {
-        await access(jsonPath);
-        filePath = jsonPath;
-      } catch {
-        filePath = yamlPath;
-      }
+      filePath = await findAspectFile(path);
     } else {
       filePath = path;
       aspectDir = dirname(path);
@@ -366,23 +528,44 @@ async function installFromLocal(
   }
 
   const aspect = parseResult.aspect;
+  const written = parseResult.asWritten;
+
+  // Packages are hashed over every listed file, not just the aspect
+  const pkg = written.files?.length ? await readPackage(filePath) : null;
+  if (pkg && !pkg.success) {
+    return { success: false, error: pkg.errors.join(', ') };
+  }
 
   // Compute canonical hash
-  const hash = blake3HashAspect(aspect);
+  const hash = pkg ? pkg.package.hash : blake3HashAspect(written);
 
   const scope = options?.scope ?? 'global';
   const projectRoot = options?.projectRoot;
 
   // Check if already installed from same path (unless force)
   if (!options?.force) {
-    const existing = await getInstalledAspect(aspect.name, scope, projectRoot);
+    const existing = await findExistingInstall(aspect.name, scope, projectRoot);
     if (existing && existing.localPath === aspectDir && existing.blake3 === hash) {
       return { success: true, aspect, source: 'local', alreadyInstalled: true };
     }
   }
 
+  const hashError = pkg ? checkExpectedPackageHash(pkg.package, options) : checkExpectedHash(written, options);
+  if (hashError) {
+    return { success: false, error: hashError };
+  }
+
+  const policyError = await checkPolicy(aspect.name, {
+    aspect: written,
+    files: pkg ? packagedFiles(pkg.package) : undefined,
+    trust: 'local',
+  }, options);
+  if (policyError) {
+    return { success: false, error: policyError };
+  }
+
   // Register in config (don't copy files, just link)
-  await addInstalledAspect(aspect.name, {
+  await recordInstall(aspect.name, {
     version: aspect.version,
     installedAt: new Date().toISOString(),
     blake3: hash,
@@ -390,7 +573,7 @@ async function installFromLocal(
     trust: 'local',
     localPath: aspectDir,
     specifier: options?.specifier ?? path,
-  }, scope, projectRoot);
+  }, options);
 
   return { success: true, aspect, source: 'local' };
 }
@@ -405,63 +588,570 @@ async function installFromHash(
   const scope = options?.scope ?? 'global';
   const projectRoot = options?.projectRoot;
 
-  log.start(`Fetching aspect by hash ${hash.slice(0, 12)}...`);
+  // Content-addressed, so a copy already in the store is as good as a download
+  const storedHash = await findInStore(hash);
+  const storedPackage = storedHash ? await loadPackageFromStore(storedHash) : null;
+  if (storedPackage) {
+    return installHashPackage(storedPackage, undefined, hash, options);
+  }
 
-  let versionData;
-  try {
-    versionData = await fetchAspectByHash(hash);
-  } catch (err) {
-    const message = (err as Error).message;
-    if (message.includes('not_found') || message.includes('404') || message.includes('not found')) {
-      return { success: false, error: `No aspect found for hash "${hash}"` };
+  let aspect = storedHash ? await loadFromStore(storedHash) : null;
+  let signature: AspectSignature | undefined;
+
+  if (!aspect) {
+    log.start(`Fetching aspect by hash ${hash.slice(0, 12)}...`);
+
+    let versionData;
+    try {
+      versionData = await fetchAspectByHash(hash);
+    } catch (err) {
+      const message = (err as Error).message;
+      if (message.includes('not_found') || message.includes('404') || message.includes('not found')) {
+        return { success: false, error: `No aspect found for hash "${hash}"` };
+      }
+      return { success: false, error: `Failed to fetch aspect by hash: ${message}` };
+    }
+
+    if (versionData.packageUrl) {
+      const fetched = await downloadPackage(versionData.packageUrl);
+      if (!fetched.success) {
+        return { success: false, error: fetched.errors.join(', ') };
+      }
+      return installHashPackage(fetched.package, versionData.signature, hash, options);
     }
-    return { success: false, error: `Failed to fetch aspect by hash: ${message}` };
+
+    aspect = versionData.content;
+    signature = versionData.signature;
   }
 
-  const aspect = versionData.content;
+  // Content-addressed: what we got must hash to what was asked for
+  const actual = blake3HashAspect(aspect);
+  if (!actual.startsWith(hash)) {
+    return {
+      success: false,
+      error: `Integrity check failed: requested blake3:${hash}, content hashes to ${actual}`,
+    };
+  }
 
   // Check if already installed (unless force)
   if (!options?.force) {
-    const existing = await getInstalledAspect(aspect.name, scope, projectRoot);
-    if (existing && existing.blake3 === hash) {
-      const existingAspect = await loadAspectFromPath(getAspectPath(aspect.name, scope, projectRoot));
+    const existing = await findExistingInstall(aspect.name, scope, projectRoot);
+    if (existing && existing.blake3 === actual) {
+      const existingAspect = await loadAspectFromPath(getAspectPath(existing.key, scope, projectRoot));
       if (existingAspect) {
         return { success: true, aspect: existingAspect, source: 'registry', alreadyInstalled: true };
       }
     }
   }
 
+  const hashError = checkExpectedHash(aspect, options);
+  if (hashError) {
+    return { success: false, error: hashError };
+  }
+
+  const signatureCheck = checkPublisherSignature(aspect, aspect.publisher, signature, await readTrustedKeys());
+  if (signatureCheck.error) {
+    return { success: false, error: signatureCheck.error };
+  }
+
+  const policyError = await checkPolicy(aspect.name, {
+    aspect,
+    trust: 'community',
+    publisher: aspect.publisher,
+    signedBy: signatureCheck.status === 'verified' ? signature?.publicKey : undefined,
+  }, options);
+  if (policyError) {
+    return { success: false, error: policyError };
+  }
+
   // Store to aspects directory
   await ensureAspectsDir(scope, projectRoot);
-  const aspectDir = getAspectPath(aspect.name, scope, projectRoot);
-  await mkdir(aspectDir, { recursive: true });
-  const content = JSON.stringify(aspect, null, 2);
-  await writeFile(join(aspectDir, ASPECT_FILENAME), content);
+  await linkInstall(getAspectPath(aspect.name, scope, projectRoot), actual, JSON.stringify(aspect, null, 2));
 
   // Anonymous/hash-based install - no publisher, trust based on content-addressing
-  await addInstalledAspect(aspect.name, {
+  await recordInstall(aspect.name, {
     version: aspect.version,
     installedAt: new Date().toISOString(),
-    blake3: versionData.blake3 || blake3HashAspect(aspect),
+    blake3: actual,
     source: 'registry',
     trust: 'community',  // Content-addressed but from registry
     // No publisher - anonymous
     specifier: options?.specifier ?? `blake3:${hash}`,
-  }, scope, projectRoot);
+  }, options);
 
   return { success: true, aspect, source: 'registry' };
 }
 
 /**
- * Helper to load aspect from a path.
- * Tries aspect.json first, falls back to aspect.yaml for backwards compat.
+ * Install the extends chain of a just-installed aspect into the same scope,
+ * so it resolves without the network. Parents pinned in aspects.lock install
+ * at their locked version; a frozen install also holds them to the locked hash,
+ * and refuses parents that aren't pinned.
+ * Returns an error message, or null once every parent is installed.
+ */
+async function installParents(
+  aspect: Aspect,
+  spec: InstallSpec,
+  options?: InstallOptions,
+): Promise<string | null> {
+  const scope = options?.scope ?? 'global';
+  const projectRoot = options?.projectRoot;
+  const lockfile = scope === 'project' ? await readLockfile(projectRoot) : null;
+  const seen = new Set<string>();
+
+  let child = aspect;
+  let childDir = spec.type === 'local' ? await getLocalAspectDir(spec.path) : undefined;
+
+  while (child.extends) {
+    let specifier: string;
+    let parentSpec: InstallSpec;
+    try {
+      specifier = resolveExtendsSpec(child.extends, childDir);
+      parentSpec = parseInstallSpec(specifier);
+    } catch (err) {
+      return `Cannot install parent of ${child.name}: ${(err as Error).message}`;
+    }
+    // Cycles are reported when the aspect is resolved, not here
+    if (seen.has(specifier)) return null;
+    seen.add(specifier);
+
+    const locked = findLockedDependency(lockfile, parentSpec, projectRoot);
+    if (options?.expectedBlake3 && !locked) {
+      return `Parent "${child.extends}" of ${child.name} is not pinned in aspects.lock. Run: aspects install`;
+    }
+
+    const result = await installSpec(locked ? lockedAspectToSpec(locked[0], locked[1], projectRoot) : parentSpec, {
+      scope,
+      projectRoot,
+      specifier: locked?.[1].specifier ?? specifier,
+      expectedBlake3: options?.expectedBlake3 ? locked?.[1].blake3 : undefined,
+      lockedBlake3: locked?.[1].blake3,
+      allowUnsafe: options?.allowUnsafe,
+    });
+    if (!result.success) {
+      return `Cannot install parent "${child.extends}" of ${child.name}: ${result.error}`;
+    }
+
+    child = result.aspect;
+    childDir = parentSpec.type === 'local' ? await getLocalAspectDir(parentSpec.path) : undefined;
+  }
+
+  return null;
+}
+
+/**
+ * Directory of a local aspect given its directory or aspect file path.
+ */
+async function getLocalAspectDir(path: string): Promise<string | undefined> {
+  try {
+    return (await stat(path)).isDirectory() ? path : dirname(path);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Helper to load aspect from a path, in whichever format it's written.
  */
 async function loadAspectFromPath(aspectDir: string): Promise<Aspect | null> {
-  // Try aspect.json first
-  const jsonResult = await parseAspectFile(join(aspectDir, ASPECT_FILENAME));
-  if (jsonResult.success) return jsonResult.aspect;
+  const result = await parseAspectFile(await findAspectFile(aspectDir));
+  return result.success ? result.aspect : null;
+}
+
+/**
+ * Look up an existing install for the already-installed check.
+ * An ambiguous bare name counts as not installed rather than failing the install.
+ */
+async function findExistingInstall(
+  name: string,
+  scope: InstallScope,
+  projectRoot?: string,
+): Promise<Awaited<ReturnType<typeof getInstalledAspect>>> {
+  try {
+    return await getInstalledAspect(name, scope, projectRoot);
+  } catch {
+    return null;
+  }
+}
 
-  // Fall back to aspect.yaml
-  const yamlResult = await parseAspectFile(join(aspectDir, LEGACY_FILENAME));
-  return yamlResult.success ? yamlResult.aspect : null;
+/**
+ * Make sure registry content is the aspect that was asked for.
+ * Returns an error message on mismatch, null otherwise.
+ */
+function checkRegistryIdentity(aspect: Aspect, name: string, publisher?: string): string | null {
+  if (aspect.name !== name) {
+    return `Aspect name mismatch: expected "${name}", got "${aspect.name}"`;
+  }
+  if (publisher && aspect.publisher !== publisher) {
+    return `Publisher mismatch: expected "${publisher}/${name}", got "${aspect.publisher ?? 'no publisher'}/${name}"`;
+  }
+  return null;
+}
+
+/**
+ * Reinstall pinned registry content from the store, or return null to fetch it instead.
+ */
+async function installRegistryFromStore(
+  name: string,
+  publisher: string | undefined,
+  hash: string,
+  options: InstallOptions,
+): Promise<InstallResult | null> {
+  const pkg = await loadPackageFromStore(hash);
+  if (pkg) {
+    if (checkRegistryIdentity(pkg.aspect, name, publisher)) return null;
+    if (await violatesPolicy({
+      aspect: pkg.aspect, files: packagedFiles(pkg), trust: 'community', publisher: pkg.aspect.publisher,
+    }, options)) return null;
+    const key = getInstallKey(name, pkg.aspect.publisher);
+    return installPackage(pkg, key, {
+      source: 'registry',
+      trust: 'community',
+      publisher: pkg.aspect.publisher,
+      specifier: options.specifier ?? key,
+    }, options);
+  }
+
+  const aspect = await loadFromStore(hash);
+  if (!aspect || checkRegistryIdentity(aspect, name, publisher)) return null;
+  if (await violatesPolicy({ aspect, trust: 'community', publisher: aspect.publisher }, options)) return null;
+
+  const scope = options.scope ?? 'global';
+  const key = getInstallKey(name, aspect.publisher);
+  await ensureAspectsDir(scope, options.projectRoot);
+  await linkFromStore(hash, join(getAspectPath(key, scope, options.projectRoot), ASPECT_FILENAME));
+
+  await recordInstall(key, {
+    version: aspect.version,
+    installedAt: new Date().toISOString(),
+    blake3: hash,
+    source: 'registry',
+    trust: 'community',
+    publisher: aspect.publisher,
+    specifier: options.specifier ?? key,
+  }, options);
+
+  return { success: true, aspect, source: 'registry' };
+}
+
+/**
+ * Load an aspect from the store by hash.
+ * Publishers that require signatures are skipped, since the store doesn't keep them.
+ */
+async function loadFromStore(hash: string): Promise<Aspect | null> {
+  const content = await readFromStore(hash);
+  if (!content) return null;
+  const aspect = JSON.parse(content) as Aspect;
+  const signatureCheck = checkPublisherSignature(aspect, aspect.publisher, undefined, await readTrustedKeys());
+  return signatureCheck.error ? null : aspect;
+}
+
+/**
+ * Load a package from the store by hash, skipping publishers that require signatures.
+ */
+async function loadPackageFromStore(hash: string): Promise<AspectPackage | null> {
+  const pkg = await readPackageFromStore(hash);
+  if (!pkg) return null;
+  const signatureCheck = checkPublisherSignature(
+    packageSigningContent(pkg), pkg.aspect.publisher, undefined, await readTrustedKeys(),
+  );
+  return signatureCheck.error ? null : pkg;
+}
+
+/**
+ * Add content to the shared store and hardlink it into an install directory.
+ */
+async function linkInstall(aspectDir: string, hash: string, content: string): Promise<void> {
+  await writeToStore(hash, content);
+  await linkFromStore(hash, join(aspectDir, ASPECT_FILENAME));
+}
+
+/**
+ * Register an install in config, and in aspects.lock for project installs.
+ * `key` is the install key (publisher/name for publisher-scoped registry installs).
+ */
+async function recordInstall(
+  key: string,
+  info: InstalledAspect,
+  options?: InstallOptions,
+): Promise<void> {
+  const scope = options?.scope ?? 'global';
+  await addInstalledAspect(key, info, scope, options?.projectRoot);
+  if (scope === 'project' && !options?.expectedBlake3) {
+    await setLockedAspect(key, info, options?.projectRoot);
+  }
+}
+
+/**
+ * For frozen installs, check fetched content against the locked hash.
+ * Returns an error message on mismatch, null otherwise.
+ */
+function checkExpectedHash(aspect: Aspect, options?: InstallOptions): string | null {
+  return checkIntegrity(aspect, options?.expectedBlake3, 'aspects.lock');
+}
+
+/**
+ * For frozen installs, check a package against the locked hash.
+ */
+function checkExpectedPackageHash(pkg: AspectPackage, options?: InstallOptions): string | null {
+  return checkPackageIntegrity(pkg, options?.expectedBlake3, 'aspects.lock');
+}
+
+/**
+ * Check content against the install policy before anything is written.
+ * Returns an error message if it's blocked, null otherwise.
+ */
+function checkPolicy(key: string, subject: PolicySubject, options?: InstallOptions): Promise<string | null> {
+  return enforceInstallPolicy(subject, {
+    label: options?.specifier ?? key,
+    scope: options?.scope ?? 'global',
+    projectRoot: options?.projectRoot,
+    allowUnsafe: options?.allowUnsafe,
+  });
+}
+
+/**
+ * Whether stored content breaks the install policy, so it's fetched (and
+ * checked, with its signature) from the registry instead.
+ */
+async function violatesPolicy(subject: PolicySubject, options: InstallOptions): Promise<boolean> {
+  try {
+    return findPolicyViolations(await readInstallPolicies(options.projectRoot), subject).length > 0;
+  } catch {
+    return true;
+  }
+}
+
+// --- Packages ---
+
+/**
+ * Install a package under aspects/<key>: the .aspect goes in the store and its
+ * files are extracted into the install directory, aspect.json included.
+ * Source-specific checks (identity, signatures) are the caller's.
+ */
+async function installPackage(
+  pkg: AspectPackage,
+  key: string,
+  info: Omit<InstalledAspect, 'version' | 'installedAt' | 'blake3'>,
+  options?: InstallOptions,
+): Promise<InstallResult> {
+  const hashError = checkExpectedPackageHash(pkg, options);
+  if (hashError) {
+    return { success: false, error: hashError };
+  }
+
+  const policyError = await checkPolicy(key, {
+    aspect: pkg.aspect,
+    files: packagedFiles(pkg),
+    trust: info.trust,
+    publisher: info.publisher,
+    signedBy: info.signedBy,
+  }, options);
+  if (policyError) {
+    return { success: false, error: policyError };
+  }
+
+  const scope = options?.scope ?? 'global';
+  await ensureAspectsDir(scope, options?.projectRoot);
+  await writeToStore(pkg.hash, packAspect(pkg));
+  await writePackageFiles(getAspectPath(key, scope, options?.projectRoot), pkg);
+
+  await recordInstall(key, {
+    ...info,
+    version: pkg.aspect.version,
+    installedAt: new Date().toISOString(),
+    blake3: pkg.hash,
+  }, options);
+
+  return { success: true, aspect: pkg.aspect, source: info.source };
+}
+
+/**
+ * Download and unpack an .aspect.
+ */
+async function downloadPackage(url: string): Promise<PackageResult> {
+  let bytes: Uint8Array;
+  try {
+    bytes = await fetchAspectPackage(url);
+  } catch (err) {
+    return { success: false, errors: [`Failed to fetch package: ${(err as Error).message}`] };
+  }
+  const unpacked = unpackAspect(bytes);
+  if (unpacked.success) {
+    unpacked.package.warnings.forEach(w => log.warn(w));
+  }
+  return unpacked;
+}
+
+/**
+ * Install a package from the registry. `claimed` is the hash the registry lists
+ * for it; `trust` applies unless a trusted key signed it.
+ */
+async function installRegistryPackage(
+  url: string,
+  claimed: string | undefined,
+  signature: AspectSignature | undefined,
+  name: string,
+  publisher: string | undefined,
+  trust: TrustLevel,
+  options?: InstallOptions,
+): Promise<InstallResult> {
+  const fetched = await downloadPackage(url);
+  if (!fetched.success) {
+    return { success: false, error: `Invalid package: ${fetched.errors.join(', ')}` };
+  }
+  const pkg = fetched.package;
+
+  const mismatch = checkRegistryIdentity(pkg.aspect, name, publisher);
+  if (mismatch) {
+    return { success: false, error: mismatch };
+  }
+
+  // Never trust the registry's hash without recomputing it
+  const hashError = checkPackageIntegrity(pkg, claimed, 'registry');
+  if (hashError) {
+    return { success: false, error: hashError };
+  }
+
+  const signatureCheck = checkPublisherSignature(
+    packageSigningContent(pkg), pkg.aspect.publisher, signature, await readTrustedKeys(),
+  );
+  if (signatureCheck.error) {
+    return { success: false, error: signatureCheck.error };
+  }
+
+  const verified = signatureCheck.status === 'verified';
+  const key = getInstallKey(name, pkg.aspect.publisher);
+  return installPackage(pkg, key, {
+    source: 'registry',
+    trust: verified ? 'verified' : trust,
+    publisher: pkg.aspect.publisher,
+    signedBy: verified ? signature?.publicKey : undefined,
+    specifier: options?.specifier ?? key,
+  }, options);
+}
+
+/**
+ * Install a package found by hash, in the store or the registry.
+ */
+async function installHashPackage(
+  pkg: AspectPackage,
+  signature: AspectSignature | undefined,
+  requested: string,
+  options?: InstallOptions,
+): Promise<InstallResult> {
+  // Content-addressed: what we got must hash to what was asked for
+  if (!pkg.hash.startsWith(requested)) {
+    return {
+      success: false,
+      error: `Integrity check failed: requested blake3:${requested}, package hashes to ${pkg.hash}`,
+    };
+  }
+
+  if (!options?.force) {
+    const existing = await findExistingInstall(pkg.aspect.name, options?.scope ?? 'global', options?.projectRoot);
+    if (existing && existing.blake3 === pkg.hash) {
+      return { success: true, aspect: pkg.aspect, source: 'registry', alreadyInstalled: true };
+    }
+  }
+
+  const signatureCheck = checkPublisherSignature(
+    packageSigningContent(pkg), pkg.aspect.publisher, signature, await readTrustedKeys(),
+  );
+  if (signatureCheck.error) {
+    return { success: false, error: signatureCheck.error };
+  }
+
+  return installPackage(pkg, pkg.aspect.name, {
+    source: 'registry',
+    trust: 'community',
+    specifier: options?.specifier ?? `blake3:${requested}`,
+  }, options);
+}
+
+/**
+ * Install a GitHub repo whose aspect lists files: each is fetched from the
+ * same ref and packaged with the aspect.
+ */
+async function installGitHubPackage(
+  parseResult: Extract<ParseResult, { success: true }>,
+  owner: string,
+  repo: string,
+  ref: string,
+  options?: InstallOptions,
+): Promise<InstallResult> {
+  const files: PackageFile[] = [];
+  for (const path of parseResult.asWritten.files ?? []) {
+    const url = `https://raw.githubusercontent.com/${owner}/${repo}/${ref}/${path}`;
+    try {
+      files.push({ path, content: new Uint8Array(await ofetch(url, { responseType: 'arrayBuffer' })) });
+    } catch (err) {
+      return { success: false, error: `Failed to fetch ${path} from GitHub: ${(err as Error).message}` };
+    }
+  }
+
+  const built = buildPackage(parseResult, files);
+  if (!built.success) {
+    return { success: false, error: `Invalid package: ${built.errors.join(', ')}` };
+  }
+  const pkg = built.package;
+  const githubRef = `${owner}/${repo}@${ref}`;
+
+  if (!options?.force) {
+    const existing = await findExistingInstall(pkg.aspect.name, options?.scope ?? 'global', options?.projectRoot);
+    if (existing && existing.source === 'github' && existing.githubRef === githubRef && existing.blake3 === pkg.hash) {
+      return { success: true, aspect: pkg.aspect, source: 'github', alreadyInstalled: true };
+    }
+  }
+
+  // GitHub content is unsigned; refuse it if it claims a publisher that requires signatures
+  const signatureCheck = checkPublisherSignature(
+    packageSigningContent(pkg), pkg.aspect.publisher, undefined, await readTrustedKeys(),
+  );
+  if (signatureCheck.error) {
+    return { success: false, error: signatureCheck.error };
+  }
+
+  return installPackage(pkg, pkg.aspect.name, {
+    source: 'github',
+    trust: 'github',
+    githubRef,
+    specifier: options?.specifier ?? `github:${githubRef}`,
+  }, options);
+}
+
+/**
+ * Install a local .aspect file. A tarball can't be read in place like an
+ * aspect directory, so it's unpacked into the aspects directory.
+ */
+async function installLocalPackage(
+  path: string,
+  options?: InstallOptions,
+): Promise<InstallResult> {
+  let bytes: Uint8Array;
+  try {
+    bytes = await readFile(path);
+  } catch {
+    return { success: false, error: `Path not found: ${path}` };
+  }
+
+  const unpacked = unpackAspect(bytes);
+  if (!unpacked.success) {
+    return { success: false, error: unpacked.errors.join(', ') };
+  }
+  const pkg = unpacked.package;
+  pkg.warnings.forEach(w => log.warn(w));
+
+  if (!options?.force) {
+    const existing = await findExistingInstall(pkg.aspect.name, options?.scope ?? 'global', options?.projectRoot);
+    if (existing && existing.source === 'local' && existing.blake3 === pkg.hash) {
+      return { success: true, aspect: pkg.aspect, source: 'local', alreadyInstalled: true };
+    }
+  }
+
+  return installPackage(pkg, pkg.aspect.name, {
+    source: 'local',
+    trust: 'local',
+    specifier: options?.specifier ?? path,
+  }, options);
 }
@@ -0,0 +1,73 @@
+import { blake3HashAspect } from '../utils/hash';
+import type { InstallScope } from '../utils/paths';
+import type { AspectPackage } from './pack';
+import type { InstalledAspect } from './types';
+
+/**
+ * Outcome of rehashing an installed aspect against the hash on record.
+ *   ok       - content matches
+ *   modified - a stored registry/GitHub copy changed after install (possible tampering)
+ *   drifted  - a local install's source directory was edited since it was registered
+ *   missing  - the aspect file is gone or no longer parses
+ */
+export type VerifyStatus = 'ok' | 'modified' | 'drifted' | 'missing';
+
+export interface VerifyResult {
+  key: string;
+  scope: InstallScope;
+  info: InstalledAspect;
+  status: VerifyStatus;
+  actual?: string;
+}
+
+/**
+ * Check content against the hash its source claims for it.
+ * Returns an error message on mismatch, null if it matches or nothing was claimed.
+ */
+export function checkIntegrity(
+  aspect: object,
+  claimed: string | undefined,
+  source: string,
+): string | null {
+  if (!claimed) return null;
+  const actual = blake3HashAspect(aspect);
+  if (actual === claimed) return null;
+  const name = (aspect as { name?: string }).name ?? 'aspect';
+  return `Integrity check failed for "${name}": ${source} says ${claimed}, content hashes to ${actual}`;
+}
+
+/**
+ * Check a package against the hash its source claims for it.
+ * Returns an error message on mismatch, null if it matches or nothing was claimed.
+ */
+export function checkPackageIntegrity(
+  pkg: AspectPackage,
+  claimed: string | undefined,
+  source: string,
+): string | null {
+  if (!claimed || pkg.hash === claimed) return null;
+  return `Integrity check failed for "${pkg.aspect.name}": ${source} says ${claimed}, package hashes to ${pkg.hash}`;
+}
+
+/**
+ * Compare an installed aspect (as loaded from disk, or null if unreadable)
+ * with the blake3 recorded when it was installed.
+ * For packages, pass the hash of the installed files as `packageHash`.
+ */
+export function verifyInstalledAspect(
+  key: string,
+  scope: InstallScope,
+  info: InstalledAspect,
+  aspect: object | null,
+  packageHash?: string,
+): VerifyResult {
+  if (!aspect) {
+    return { key, scope, info, status: 'missing' };
+  }
+
+  const actual = packageHash ?? blake3HashAspect(aspect);
+  if (actual === info.blake3) {
+    return { key, scope, info, status: 'ok', actual };
+  }
+  return { key, scope, info, status: info.source === 'local' ? 'drifted' : 'modified', actual };
+}
@@ -0,0 +1,68 @@
+import { z } from 'zod';
+import { aspectSchema, CURRENT_SCHEMA_VERSION, FIELD_LIMITS, OFFICIAL_CATEGORIES } from './schema';
+
+/**
+ * Where the JSON Schema for the current schema version is published
+ * (schema/ in this repo). `create` points new aspect.json files at it.
+ */
+export const ASPECT_JSON_SCHEMA_URL =
+  `https://raw.githubusercontent.com/aimorphist/aspects/main/schema/aspect-v${CURRENT_SCHEMA_VERSION}.schema.json`;
+
+/** Hover text for top-level fields */
+const FIELD_DESCRIPTIONS: Record<string, string> = {
+  schemaVersion: `Format version of this file (current: ${CURRENT_SCHEMA_VERSION})`,
+  name: 'Slug id: lowercase letters, digits and hyphens',
+  publisher: 'Publisher handle',
+  version: 'Semver version, e.g. 1.0.0',
+  displayName: 'Human-readable name',
+  tagline: 'One-line description',
+  category: `One of ${OFFICIAL_CATEGORIES.join(', ')}, or a custom category`,
+  tags: 'Keywords for search',
+  extends: 'Install spec of a parent aspect: registry name, ./path, blake3:<hash> or github:owner/repo',
+  promptMode: 'How the prompt combines with the parent\'s: append (default) or replace',
+  modes: 'Behavioral switches, keyed by mode name',
+  defaultMode: 'Mode active when none is chosen',
+  directives: 'Rules the model must follow, each with a priority',
+  instructions: 'Softer guidance than directives',
+  resources: 'Recommended voice, model and skills',
+  commands: 'Phrases that trigger an action',
+  variables: 'Placeholders used as {{name}}, filled in by `aspects compile --var`',
+  files: 'Extra files packaged with the aspect by `aspects pack`, relative to its directory',
+  examples: 'Few-shot dialogues of alternating user and assistant messages, rendered by `aspects compile`',
+  prompt: 'The core system prompt, or { file } naming a packaged file that holds it',
+};
+
+type JsonSchemaObject = Record<string, unknown> & { properties: Record<string, Record<string, unknown>> };
+
+/**
+ * JSON Schema (draft-07) for aspect.json, generated from `aspectSchema` so
+ * editors can validate and autocomplete with the same length limits.
+ * Refinements zod can't express (mode and variable counts, unique files) are added by hand,
+ * and official categories are offered as examples; custom ones still validate.
+ */
+export function aspectJsonSchema(): Record<string, unknown> {
+  const generated = z.toJSONSchema(aspectSchema, { io: 'input', target: 'draft-7' }) as JsonSchemaObject;
+  const { $schema, properties, ...rest } = generated;
+
+  properties.modes!.maxProperties = FIELD_LIMITS.maxModes;
+  properties.variables!.maxProperties = FIELD_LIMITS.maxVariables;
+  properties.files!.uniqueItems = true;
+  properties.category!.examples = [...OFFICIAL_CATEGORIES];
+  for (const [field, description] of Object.entries(FIELD_DESCRIPTIONS)) {
+    if (properties[field]) properties[field].description = description;
+  }
+
+  return {
+    $schema,
+    $id: ASPECT_JSON_SCHEMA_URL,
+    title: 'Aspect',
+    description: `An AI personality aspect (aspect.json, schema v${CURRENT_SCHEMA_VERSION})`,
+    ...rest,
+    properties: {
+      $schema: { type: 'string', description: 'JSON Schema for editor validation; ignored by the CLI' },
+      ...properties,
+    },
+    // Unknown fields are dropped on parse, so flag them (usually typos)
+    additionalProperties: false,
+  };
+}
@@ -0,0 +1,337 @@
+import { z } from 'zod';
+import type { LintFinding, LintPath, LintRule } from './lint';
+import { effectiveRules } from './modes';
+import { OFFICIAL_CATEGORIES } from './schema';
+import type { Aspect, AspectDirective, AspectInstruction } from './types';
+
+type Rule = AspectDirective | AspectInstruction;
+
+/**
+ * Prose that compiles into the prompt, with where it lives. Examples are left
+ * out: they're dialogue, written in the aspect's voice, not instructions.
+ */
+function proseFields(aspect: Aspect): Array<{ path: LintPath; text: string }> {
+  const fields: Array<{ path: LintPath; text: string }> = [{ path: ['prompt'], text: aspect.prompt }];
+  for (const { path, entry } of ruleEntries(aspect)) {
+    fields.push({ path: [...path, 'rule'], text: entry.rule });
+  }
+  for (const [key, mode] of Object.entries(aspect.modes ?? {})) {
+    fields.push({ path: ['modes', key, 'description'], text: mode.description });
+    if (mode.critical) fields.push({ path: ['modes', key, 'critical'], text: mode.critical });
+  }
+  (aspect.commands ?? []).forEach((cmd, i) => fields.push({ path: ['commands', i, 'action'], text: cmd.action }));
+  return fields;
+}
+
+/**
+ * Every directive and instruction, the aspect's and each mode's, with its path.
+ */
+function ruleEntries(aspect: Aspect): Array<{ path: LintPath; entry: Rule }> {
+  const entries: Array<{ path: LintPath; entry: Rule }> = [];
+  const add = (prefix: LintPath, list: Rule[] | undefined) =>
+    (list ?? []).forEach((entry, i) => entries.push({ path: [...prefix, i], entry }));
+
+  add(['directives'], aspect.directives);
+  add(['instructions'], aspect.instructions);
+  for (const [key, mode] of Object.entries(aspect.modes ?? {})) {
+    add(['modes', key, 'directives'], mode.directives);
+    add(['modes', key, 'instructions'], mode.instructions);
+  }
+  return entries;
+}
+
+/** Lowercase words only, for comparing text loosely */
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+}
+
+/** Words that make an absolute or a preference conditional */
+const ESCAPE_CLAUSE = /\b(unless|except|if|when|whenever|otherwise|until|by default)\b/i;
+
+/** Sentences of a text, with their offsets */
+function sentences(text: string): Array<{ text: string; offset: number }> {
+  const result: Array<{ text: string; offset: number }> = [];
+  const pattern = /[^.!?\n]+[.!?]*/g;
+  for (const match of text.matchAll(pattern)) {
+    if (match[0].trim()) result.push({ text: match[0], offset: match.index! });
+  }
+  return result;
+}
+
+const noShouting: LintRule<{ max: number; allow: string[] }> = {
+  id: 'no-shouting',
+  description: 'ALL-CAPS words beyond a few per field; GPT models over-apply shouted rules',
+  severity: 'warning',
+  options: z.strictObject({
+    max: z.number().int().min(0).default(2),
+    allow: z.array(z.string()).default([
+      'AI', 'API', 'CSS', 'FAQ', 'GPT', 'HTML', 'HTTP', 'HTTPS', 'JSON', 'LLM', 'PDF', 'SQL', 'TTS', 'URL', 'USA', 'XML', 'YAML',
+    ]),
+  }),
+  check(aspect, { max, allow }) {
+    // ALWAYS and NEVER are absolute-language's to report
+    const ignored = new Set([...allow, 'ALWAYS', 'NEVER']);
+    const findings: LintFinding[] = [];
+    for (const { path, text } of proseFields(aspect)) {
+      const words = [...text.matchAll(/\b[A-Z][A-Z']{2,}\b/g)].filter(m => !ignored.has(m[0]));
+      if (words.length <= max) continue;
+      const shown = [...new Set(words.map(m => m[0]))].slice(0, 5).join(', ');
+      findings.push({
+        path,
+        offset: words[0]!.index,
+        message: `${words.length} ALL-CAPS words (${shown}); models can follow shouted rules too strictly, keep caps for the one that matters`,
+      });
+    }
+    return findings;
+  },
+};
+
+const absoluteLanguage: LintRule<{ ignoreCase: boolean }> = {
+  id: 'absolute-language',
+  description: 'ALWAYS/NEVER without an escape clause; GPT applies absolutes literally',
+  severity: 'warning',
+  options: z.strictObject({
+    ignoreCase: z.boolean().default(false),
+  }),
+  check(aspect, { ignoreCase }) {
+    const absolute = new RegExp(String.raw`\b(ALWAYS|NEVER)\b`, ignoreCase ? 'i' : '');
+    const findings: LintFinding[] = [];
+    for (const { path, text } of proseFields(aspect)) {
+      for (const sentence of sentences(text)) {
+        const match = absolute.exec(sentence.text);
+        if (!match || ESCAPE_CLAUSE.test(sentence.text)) continue;
+        findings.push({
+          path,
+          offset: sentence.offset + match.index,
+          message: `"${match[1]}" with no escape clause: models apply absolutes even when they lack what they need. Say what to do otherwise ("unless...", "if...")`,
+        });
+      }
+    }
+    return findings;
+  },
+};
+
+/** Opposing preferences: a rule matching one side contradicts a rule matching the other */
+const OPPOSITES: Array<[RegExp, RegExp]> = [
+  [/\b(brief|concise|short|succinct|terse)\b/i, /\b(detailed|thorough|comprehensive|elaborate|in[ -]depth|verbose|long)\b/i],
+  [/\bformal\b/i, /\b(casual|informal|relaxed|slang)\b/i],
+  [/\b(serious|solemn)\b/i, /\b(playful|humorous|funny|jokes?|silly)\b/i],
+];
+
+const STOPWORDS = new Set(['a', 'an', 'the', 'to', 'of', 'in', 'on', 'for', 'and', 'or', 'your', 'you', 'be', 'do', 'it', 'any', 'with']);
+
+/** What follows "always"/"never", as content words */
+function absoluteObject(text: string, word: 'always' | 'never'): Set<string> | undefined {
+  const match = new RegExp(String.raw`\b${word}\b([^.!?;]*)`, 'i').exec(text);
+  if (!match) return undefined;
+  return new Set(normalize(match[1]!).split(' ').filter(w => w && !STOPWORDS.has(w)));
+}
+
+/**
+ * Why two rule texts (or one, compared with itself) contradict, or undefined.
+ */
+function contradiction(a: string, b: string): string | undefined {
+  if (ESCAPE_CLAUSE.test(a) || ESCAPE_CLAUSE.test(b)) return undefined;
+
+  for (const [one, other] of OPPOSITES) {
+    const ab = one.exec(a) && other.exec(b);
+    const ba = other.exec(a) && one.exec(b);
+    const pair = ab ? [one.exec(a)![0], other.exec(b)![0]] : ba ? [other.exec(a)![0], one.exec(b)![0]] : undefined;
+    if (pair) return `"${pair[0]}" vs "${pair[1]}"`;
+  }
+
+  for (const [first, second] of [['always', 'never'], ['never', 'always']] as const) {
+    const x = absoluteObject(a, first);
+    const y = absoluteObject(b, second);
+    if (!x || !y || x.size === 0 || y.size === 0) continue;
+    const shared = [...x].filter(w => y.has(w)).length;
+    if (shared / Math.min(x.size, y.size) >= 0.6) return `"${first}" vs "${second}" about the same thing`;
+  }
+  return undefined;
+}
+
+const contradictoryDirectives: LintRule = {
+  id: 'contradictory-directives',
+  description: 'Directives or instructions in effect together that pull opposite ways',
+  severity: 'warning',
+  check(aspect) {
+    const paths = new Map(ruleEntries(aspect).map(({ path, entry }) => [entry, path]));
+    const findings: LintFinding[] = [];
+    const reported = new Set<string>();
+
+    // Compare what's in effect together: with no mode, and in each mode
+    for (const mode of [undefined, ...Object.keys(aspect.modes ?? {})]) {
+      const { directives, instructions } = effectiveRules(aspect, mode);
+      const active: Rule[] = [...directives, ...instructions];
+
+      active.forEach((entry, i) => {
+        const path = paths.get(entry)!;
+        const within = sentences(entry.rule).map(s => s.text);
+        for (let s = 1; s < within.length; s++) {
+          const why = within.slice(0, s).map(earlier => contradiction(earlier, within[s]!)).find(Boolean);
+          const key = `${path.join('.')}`;
+          if (why && !reported.has(key)) {
+            reported.add(key);
+            findings.push({ path: [...path, 'rule'], message: `Contradicts itself (${why}); say when each applies` });
+          }
+        }
+
+        for (const earlier of active.slice(0, i)) {
+          const why = contradiction(earlier.rule, entry.rule);
+          const earlierPath = paths.get(earlier)!;
+          const key = `${earlierPath.join('.')}|${path.join('.')}`;
+          if (!why || reported.has(key)) continue;
+          reported.add(key);
+          findings.push({
+            path: [...path, 'rule'],
+            message: `May contradict "${earlier.id}" (${earlierPath.join('.')}): ${why}. Say when each applies`,
+          });
+        }
+      });
+    }
+    return findings;
+  },
+};
+
+const duplicateIds: LintRule = {
+  id: 'duplicate-ids',
+  description: 'Directive, instruction or command ids used twice where one would shadow the other',
+  severity: 'error',
+  check(aspect) {
+    const findings: LintFinding[] = [];
+    const check = (lists: Array<[LintPath, Array<{ id: string }> | undefined]>) => {
+      const seen = new Map<string, LintPath>();
+      for (const [prefix, list] of lists) {
+        (list ?? []).forEach((entry, i) => {
+          const path = [...prefix, i];
+          const first = seen.get(entry.id);
+          if (first) {
+            findings.push({ path: [...path, 'id'], message: `Duplicate id "${entry.id}" (also ${first.join('.')})` });
+          } else {
+            seen.set(entry.id, path);
+          }
+        });
+      }
+    };
+
+    // Modes include and exclude directives and instructions by id, so they share one namespace
+    check([[['directives'], aspect.directives], [['instructions'], aspect.instructions]]);
+    for (const [key, mode] of Object.entries(aspect.modes ?? {})) {
+      check([[['modes', key, 'directives'], mode.directives], [['modes', key, 'instructions'], mode.instructions]]);
+    }
+    check([[['commands'], aspect.commands]]);
+    return findings;
+  },
+};
+
+const directiveInPrompt: LintRule<{ minWords: number }> = {
+  id: 'directive-in-prompt',
+  description: 'Directives and instructions whose text the prompt already contains',
+  severity: 'warning',
+  options: z.strictObject({
+    minWords: z.number().int().min(1).default(3),
+  }),
+  check(aspect, { minWords }) {
+    const prompt = ` ${normalize(aspect.prompt)} `;
+    const findings: LintFinding[] = [];
+    for (const { path, entry } of ruleEntries(aspect)) {
+      const rule = normalize(entry.rule);
+      if (rule.split(' ').length < minWords || !prompt.includes(` ${rule} `)) continue;
+      findings.push({
+        path: [...path, 'rule'],
+        message: `"${entry.id}" repeats text already in the prompt; compile states it separately, so it's said twice. Keep it in one place`,
+      });
+    }
+    return findings;
+  },
+};
+
+/** Edit distance, for category suggestions */
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j]! + 1, current[j - 1]! + 1, previous[j - 1]! + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length]!;
+}
+
+/**
+ * The official category closest to `category`, if it's close enough to be a typo.
+ */
+export function suggestCategory(category: string): string | undefined {
+  const lower = category.toLowerCase();
+  let best: { name: string; distance: number } | undefined;
+  for (const name of OFFICIAL_CATEGORIES) {
+    const distance = levenshtein(lower, name);
+    if (!best || distance < best.distance) best = { name, distance };
+  }
+  return best && best.distance <= Math.max(2, Math.floor(lower.length / 3)) ? best.name : undefined;
+}
+
+const unknownCategory: LintRule = {
+  id: 'unknown-category',
+  description: 'Categories that aren\'t official, with the nearest official one',
+  severity: 'warning',
+  check(aspect) {
+    const category = aspect.category;
+    if (!category || (OFFICIAL_CATEGORIES as readonly string[]).includes(category)) return [];
+    const suggestion = suggestCategory(category);
+    return [{
+      path: ['category'],
+      message: suggestion
+        ? `"${category}" isn't an official category; did you mean "${suggestion}"?`
+        : `"${category}" isn't an official category (${OFFICIAL_CATEGORIES.join(', ')}); custom ones are harder to find`,
+    }];
+  },
+};
+
+/** Hedges that leave the model to guess what's meant */
+const VAGUE_PHRASES = [
+  'as appropriate', 'as needed', 'when necessary', 'if necessary', 'where appropriate', 'etc', 'and so on',
+  'use your judgment', 'use your best judgment', 'use good judgment', 'do your best', 'common sense',
+];
+
+/** "Be helpful." and the like: a rule that is only a generic virtue */
+const GENERIC_VIRTUE = /^(?:be|stay|act|remain)\s+(?:very\s+|always\s+|really\s+)?(?:helpful|nice|good|friendly|polite|professional|smart|appropriate|careful|clear|engaging|great|kind)$/;
+
+const vagueInstruction: LintRule<{ phrases: string[] }> = {
+  id: 'vague-instruction',
+  description: 'Directives and instructions too vague to act on ("Be helpful", "as appropriate")',
+  severity: 'info',
+  options: z.strictObject({
+    phrases: z.array(z.string().min(1)).default([]),
+  }),
+  check(aspect, { phrases }) {
+    const vague = [...VAGUE_PHRASES, ...phrases.map(normalize)];
+    const findings: LintFinding[] = [];
+    for (const { path, entry } of ruleEntries(aspect)) {
+      const rule = normalize(entry.rule);
+      if (GENERIC_VIRTUE.test(rule)) {
+        findings.push({ path: [...path, 'rule'], message: `"${entry.rule}" is too vague to act on; say what it looks like in practice` });
+        continue;
+      }
+      const phrase = vague.find(p => ` ${rule} `.includes(` ${p} `));
+      if (phrase) {
+        findings.push({ path: [...path, 'rule'], message: `"${phrase}" leaves the model to guess; spell out when or what` });
+      }
+    }
+    return findings;
+  },
+};
+
+/**
+ * The rules `aspects lint` runs, in report order for problems on the same line.
+ */
+export const BUILTIN_LINT_RULES: LintRule[] = [
+  noShouting,
+  absoluteLanguage,
+  contradictoryDirectives,
+  duplicateIds,
+  directiveInPrompt,
+  unknownCategory,
+  vagueInstruction,
+] as LintRule[];
@@ -0,0 +1,260 @@
+import { readFile } from 'node:fs/promises';
+import { dirname, sep } from 'node:path';
+import { z } from 'zod';
+import { aspectFormatOf, readAspectSource, sourceComments, sourceLineLocator, type AspectFormat } from './formats';
+import { BUILTIN_LINT_RULES } from './lint-rules';
+import { parseAspectData, readPromptFile } from './parser';
+import type { Aspect } from './types';
+
+export const LINT_SEVERITIES = ['error', 'warning', 'info'] as const;
+export type LintSeverity = (typeof LINT_SEVERITIES)[number];
+
+/** A path into the aspect as written, e.g. ['directives', 0, 'rule'] */
+export type LintPath = Array<string | number>;
+
+/**
+ * A problem a rule found, before severity and suppression are applied.
+ */
+export interface LintFinding {
+  path: LintPath;
+  message: string;
+  offset?: number;  // Where in the field's text, for a more precise line
+}
+
+/**
+ * A lint rule. `options` validates (and defaults) the rule's settings from
+ * aspects.json; rules without settings leave it out.
+ */
+export interface LintRule<O = Record<string, unknown>> {
+  id: string;
+  description: string;
+  severity: LintSeverity;  // Unless aspects.json says otherwise
+  options?: z.ZodType<O>;
+  check(aspect: Aspect, options: O): LintFinding[];
+}
+
+/**
+ * A reported problem: a finding with its rule, severity and location.
+ */
+export interface LintProblem {
+  rule: string;
+  severity: LintSeverity;
+  message: string;
+  path: string;  // Dotted, as in validation errors: directives.0.rule
+  line?: number;  // 1-based, when linting a file
+}
+
+const ruleSettingSchema = z.union([
+  z.enum([...LINT_SEVERITIES, 'off']),
+  z.looseObject({ severity: z.enum([...LINT_SEVERITIES, 'off']).optional() }),
+]);
+
+/**
+ * The `lint` section of aspects.json. `overrides` change rule settings for the
+ * files they match (paths relative to aspects.json; `*` and `**` globs), later
+ * entries winning. It's how aspect.json, which has no comments, turns rules off:
+ *   {
+ *     "rules": { "absolute-language": "error", "no-shouting": { "max": 0 } },
+ *     "overrides": [{ "files": ["legacy/**"], "rules": { "no-shouting": "off" } }]
+ *   }
+ */
+export const lintConfigSchema = z.object({
+  rules: z.record(z.string(), ruleSettingSchema).optional(),
+  overrides: z.array(z.object({
+    files: z.array(z.string().min(1)).min(1),
+    rules: z.record(z.string(), ruleSettingSchema),
+  })).optional(),
+});
+
+export type LintConfig = z.infer<typeof lintConfigSchema>;
+
+/**
+ * A rule as configured: its severity and validated options.
+ */
+interface ActiveRule {
+  rule: LintRule;
+  severity: LintSeverity;
+  options: Record<string, unknown>;
+}
+
+/**
+ * Apply aspects.json settings to the rules. Throws on unknown rules and invalid options.
+ */
+export function configureLintRules(config: LintConfig = {}, rules: LintRule[] = BUILTIN_LINT_RULES): ActiveRule[] {
+  const settings = config.rules ?? {};
+  for (const id of Object.keys(settings)) {
+    if (!rules.some(rule => rule.id === id)) {
+      throw new Error(`Unknown lint rule "${id}". Rules: ${rules.map(rule => rule.id).join(', ')}`);
+    }
+  }
+
+  const active: ActiveRule[] = [];
+  for (const rule of rules) {
+    const setting = settings[rule.id];
+    const { severity = rule.severity, ...raw } = typeof setting === 'string' ? { severity: setting } : setting ?? {};
+    if (severity === 'off') continue;
+
+    let options: Record<string, unknown> = {};
+    if (rule.options) {
+      const parsed = rule.options.safeParse(raw);
+      if (!parsed.success) {
+        const issues = parsed.error.issues.map(i => `${[rule.id, ...i.path].join('.')}: ${i.message}`).join(', ');
+        throw new Error(`Invalid lint settings: ${issues}`);
+      }
+      options = parsed.data as Record<string, unknown>;
+    } else if (Object.keys(raw).length > 0) {
+      throw new Error(`Lint rule "${rule.id}" has no options (got ${Object.keys(raw).join(', ')})`);
+    }
+    active.push({ rule, severity, options });
+  }
+  return active;
+}
+
+/**
+ * Read the `lint` section of a project manifest. Throws if it's invalid.
+ */
+export function readLintConfig(manifest: Record<string, unknown> | null): LintConfig {
+  if (!manifest?.lint) return {};
+  const result = lintConfigSchema.safeParse(manifest.lint);
+  if (!result.success) {
+    const issues = result.error.issues.map(i => `${['lint', ...i.path].join('.')}: ${i.message}`).join(', ');
+    throw new Error(`Invalid lint settings in aspects.json: ${issues}`);
+  }
+  return result.data;
+}
+
+/**
+ * The settings for one file: the base rules, with every matching override applied.
+ * `file` is relative to aspects.json.
+ */
+export function lintConfigForFile(config: LintConfig, file: string): LintConfig {
+  const path = file.split(sep).join('/').replace(/^\.\//, '');
+  const rules = { ...config.rules };
+  for (const override of config.overrides ?? []) {
+    if (override.files.some(pattern => globToRegExp(pattern).test(path))) {
+      Object.assign(rules, override.rules);
+    }
+  }
+  return { rules };
+}
+
+/** `*` matches within a path segment, `**` across segments */
+function globToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .replace(/^\.\//, '')
+    .split(/(\*\*\/?|\*|\?)/)
+    .map(part => {
+      if (part === '**/') return '(?:.*/)?';
+      if (part === '**') return '.*';
+      if (part === '*') return '[^/]*';
+      if (part === '?') return '[^/]';
+      return part.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+  return new RegExp(`^${source}$`);
+}
+
+export interface LintOptions {
+  config?: LintConfig;
+  rules?: LintRule[];  // Defaults to the built-in rules
+  // The file the aspect came from, for line numbers and inline suppression
+  source?: { content: string; format: AspectFormat };
+}
+
+/**
+ * Lint an aspect as written. Problems are sorted by line, then path.
+ */
+export function lintAspect(aspect: Aspect, options: LintOptions = {}): LintProblem[] {
+  const active = configureLintRules(options.config, options.rules);
+  const locate = options.source ? sourceLineLocator(options.source.content, options.source.format) : () => undefined;
+  const suppressions = options.source ? parseSuppressions(options.source.content, options.source.format) : undefined;
+
+  const problems: LintProblem[] = [];
+  for (const { rule, severity, options: ruleOptions } of active) {
+    for (const finding of rule.check(aspect, ruleOptions)) {
+      const line = locate(finding.path, finding.offset);
+      if (suppressions && isSuppressed(suppressions, rule.id, line)) continue;
+      problems.push({ rule: rule.id, severity, message: finding.message, path: finding.path.join('.'), line });
+    }
+  }
+
+  return problems.sort((a, b) => (a.line ?? 0) - (b.line ?? 0) || a.path.localeCompare(b.path));
+}
+
+export type LintFileResult =
+  | { success: true; problems: LintProblem[] }
+  | { success: false; errors: string[] };
+
+/**
+ * Lint an aspect file (JSON, YAML or Markdown). Files that don't parse fail
+ * with their validation errors; lint only looks at valid aspects.
+ */
+export async function lintAspectFile(file: string, options: Omit<LintOptions, 'source'> = {}): Promise<LintFileResult> {
+  let content: string;
+  try {
+    content = await readFile(file, 'utf-8');
+  } catch {
+    return { success: false, errors: [`File not found: ${file}`] };
+  }
+
+  const format = aspectFormatOf(file);
+  const source = readAspectSource(content, format);
+  if (!source.success) return source;
+  const parsed = parseAspectData(source.data, await readPromptFile(source.data, dirname(file)));
+  if (!parsed.success) return parsed;
+
+  return { success: true, problems: lintAspect(parsed.asWritten, { ...options, source: { content, format } }) };
+}
+
+// --- Inline suppression ---
+
+/** Rules switched off by a marker; null means every rule */
+type Suppressed = Set<string> | null;
+
+interface Suppressions {
+  file: Suppressed | undefined;
+  lines: Map<number, Suppressed>;
+}
+
+/** `aspects-lint-disable[-line|-next-line] [rule, ...]`, at the start of a comment */
+const SUPPRESSION = /^(?:#|<!--)\s*aspects-lint-(disable(?:-next-line|-line)?)(?![\w-])([^\n]*)/;
+
+/**
+ * Find suppression markers in a file's comments (YAML `#`, or `<!-- -->` in the
+ * aspect.md body). aspect.json has no comments; use `lint.overrides` instead.
+ *   # aspects-lint-disable                       every rule, whole file
+ *   # aspects-lint-disable no-shouting           one rule, whole file
+ *   # aspects-lint-disable-next-line rule, rule  the following line
+ *   text  # aspects-lint-disable-line rule       this line
+ */
+export function parseSuppressions(content: string, format: AspectFormat): Suppressions {
+  const suppressions: Suppressions = { file: undefined, lines: new Map() };
+  const add = (current: Suppressed | undefined, rules: Suppressed): Suppressed =>
+    current === null || rules === null ? null : new Set([...(current ?? []), ...rules]);
+
+  for (const comment of sourceComments(content, format)) {
+    const match = SUPPRESSION.exec(comment.text);
+    if (!match) continue;
+    const ids = match[2]!.replace(/-->[\s\S]*$/, '').split(/[\s,]+/).filter(Boolean);
+    const rules = ids.length > 0 ? new Set(ids) : null;
+    const line = comment.line;
+    switch (match[1]) {
+      case 'disable':
+        suppressions.file = add(suppressions.file, rules);
+        break;
+      case 'disable-line':
+        suppressions.lines.set(line, add(suppressions.lines.get(line), rules));
+        break;
+      case 'disable-next-line':
+        suppressions.lines.set(line + 1, add(suppressions.lines.get(line + 1), rules));
+        break;
+    }
+  }
+  return suppressions;
+}
+
+function isSuppressed(suppressions: Suppressions, rule: string, line: number | undefined): boolean {
+  const covers = (suppressed: Suppressed | undefined) =>
+    suppressed !== undefined && (suppressed === null || suppressed.has(rule));
+  return covers(suppressions.file) || (line !== undefined && covers(suppressions.lines.get(line)));
+}
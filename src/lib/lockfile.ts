@@ -0,0 +1,175 @@
+import { readFile, writeFile } from 'node:fs/promises';
+import { isAbsolute, relative, resolve } from 'node:path';
+import { getLockfilePath } from '../utils/paths';
+import { parseInstallSpec } from './resolver';
+import { isValidRange, satisfies } from './semver';
+import type { AspectsLockfile, InstallSpec, InstalledAspect, LockedAspect } from './types';
+
+/**
+ * Default lockfile for projects without one.
+ */
+export function createDefaultLockfile(): AspectsLockfile {
+  return {
+    lockfileVersion: 1,
+    aspects: {},
+  };
+}
+
+/**
+ * Read the project lockfile. Returns null if it doesn't exist.
+ */
+export async function readLockfile(projectRoot?: string): Promise<AspectsLockfile | null> {
+  try {
+    const content = await readFile(getLockfilePath(projectRoot), 'utf-8');
+    return JSON.parse(content) as AspectsLockfile;
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null;
+    }
+    throw err;
+  }
+}
+
+/**
+ * Write the project lockfile.
+ * Entries are sorted by name so the file diffs cleanly in version control.
+ */
+export async function writeLockfile(lockfile: AspectsLockfile, projectRoot?: string): Promise<void> {
+  const sorted: AspectsLockfile = {
+    lockfileVersion: lockfile.lockfileVersion,
+    aspects: {},
+  };
+  for (const name of Object.keys(lockfile.aspects).sort()) {
+    sorted.aspects[name] = lockfile.aspects[name]!;
+  }
+  await writeFile(getLockfilePath(projectRoot), JSON.stringify(sorted, null, 2) + '\n');
+}
+
+/**
+ * Convert install metadata into a lockfile entry.
+ * Drops machine-specific fields (installedAt, trust) and makes local paths project-relative.
+ */
+export function toLockedAspect(info: InstalledAspect, projectRoot?: string): LockedAspect {
+  const entry: LockedAspect = {
+    specifier: info.specifier,
+    version: info.version,
+    blake3: info.blake3,
+    source: info.source,
+  };
+  if (info.publisher) entry.publisher = info.publisher;
+  if (info.githubRef) entry.githubRef = info.githubRef;
+  if (info.localPath) {
+    entry.localPath = relative(projectRoot || process.cwd(), info.localPath) || '.';
+  } else if (info.source === 'local' && isAbsolute(info.specifier)) {
+    // An extracted .aspect package, whose path is the specifier
+    entry.specifier = relative(projectRoot || process.cwd(), info.specifier);
+  }
+  return entry;
+}
+
+/**
+ * Record an installed aspect in the project lockfile.
+ */
+export async function setLockedAspect(
+  name: string,
+  info: InstalledAspect,
+  projectRoot?: string,
+): Promise<void> {
+  const lockfile = (await readLockfile(projectRoot)) ?? createDefaultLockfile();
+  lockfile.aspects[name] = toLockedAspect(info, projectRoot);
+  await writeLockfile(lockfile, projectRoot);
+}
+
+/**
+ * Remove an aspect from the project lockfile.
+ */
+export async function removeLockedAspect(name: string, projectRoot?: string): Promise<boolean> {
+  const lockfile = await readLockfile(projectRoot);
+  if (!lockfile || !(name in lockfile.aspects)) {
+    return false;
+  }
+  delete lockfile.aspects[name];
+  await writeLockfile(lockfile, projectRoot);
+  return true;
+}
+
+/**
+ * Build the install spec that reproduces a locked entry exactly.
+ * `name` is the lockfile key (publisher/name for publisher-scoped registry installs).
+ * Registry entries are pinned to their locked version; hash, GitHub and
+ * local entries resolve to the same content they were installed from.
+ */
+export function lockedAspectToSpec(
+  name: string,
+  entry: LockedAspect,
+  projectRoot?: string,
+): InstallSpec {
+  switch (entry.source) {
+    case 'registry': {
+      if (entry.specifier.startsWith('blake3:') || entry.specifier.startsWith('hash:')) {
+        return parseInstallSpec(entry.specifier);
+      }
+      return { type: 'registry', name: bareName(name), publisher: entry.publisher, version: entry.version };
+    }
+    case 'github': {
+      const ref = entry.githubRef ?? entry.specifier.replace(/^github:/, '');
+      return parseInstallSpec(`github:${ref}`);
+    }
+    case 'local': {
+      const path = entry.localPath ?? entry.specifier;
+      return {
+        type: 'local',
+        path: isAbsolute(path) ? path : resolve(projectRoot || process.cwd(), path),
+      };
+    }
+  }
+}
+
+/**
+ * Find the lockfile entry that satisfies a declared dependency.
+ * Returns undefined if nothing is locked or the lock no longer matches the declaration.
+ */
+export function findLockedDependency(
+  lockfile: AspectsLockfile | null,
+  spec: InstallSpec,
+  projectRoot?: string,
+): [string, LockedAspect] | undefined {
+  if (!lockfile) return undefined;
+
+  const matches = (entry: LockedAspect): boolean => {
+    switch (spec.type) {
+      case 'registry':
+        if (entry.source !== 'registry') return false;
+        if (spec.publisher && entry.publisher !== spec.publisher) return false;
+        // Dist-tags move over time; a locked tag stays pinned until reinstalled
+        if (!spec.version || !isValidRange(spec.version)) return true;
+        return satisfies(entry.version, spec.version);
+      case 'hash': {
+        if (!/^(blake3|hash):/.test(entry.specifier)) return false;
+        const locked = parseInstallSpec(entry.specifier);
+        return locked.type === 'hash' && locked.hash === spec.hash;
+      }
+      case 'github': {
+        const ref = entry.githubRef ?? '';
+        return spec.ref
+          ? ref === `${spec.owner}/${spec.repo}@${spec.ref}`
+          : ref.startsWith(`${spec.owner}/${spec.repo}@`);
+      }
+      case 'local': {
+        if (entry.source !== 'local') return false;
+        const path = entry.localPath ?? entry.specifier;
+        const lockedPath = isAbsolute(path) ? path : resolve(projectRoot || process.cwd(), path);
+        return lockedPath === spec.path;
+      }
+    }
+  };
+
+  return Object.entries(lockfile.aspects).find(([name, entry]) =>
+    (spec.type !== 'registry' || bareName(name) === spec.name) && matches(entry),
+  );
+}
+
+/** Registry installs are keyed "publisher/name"; strip the publisher */
+function bareName(key: string): string {
+  return key.slice(key.lastIndexOf('/') + 1);
+}
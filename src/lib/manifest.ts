@@ -0,0 +1,152 @@
+import { readFile, writeFile } from 'node:fs/promises';
+import { isAbsolute, relative, resolve } from 'node:path';
+import { getManifestPath } from '../utils/paths';
+import { parseInstallSpec } from './resolver';
+import type { Aspect, AspectsManifest, InstallSpec } from './types';
+
+/** Dependency values that mean "whatever the registry marks as latest" */
+const LATEST_VALUES = new Set(['', '*', 'latest']);
+
+/**
+ * Default manifest for new projects.
+ */
+export function createDefaultManifest(): AspectsManifest {
+  return {
+    dependencies: {},
+  };
+}
+
+/**
+ * Read the project manifest. Returns null if it doesn't exist.
+ */
+export async function readManifest(projectRoot?: string): Promise<AspectsManifest | null> {
+  let content: string;
+  try {
+    content = await readFile(getManifestPath(projectRoot), 'utf-8');
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null;
+    }
+    throw err;
+  }
+
+  // An empty marker file is a valid (empty) manifest
+  if (!content.trim()) return createDefaultManifest();
+
+  try {
+    return JSON.parse(content) as AspectsManifest;
+  } catch (err) {
+    throw new Error(`Invalid aspects.json: ${(err as Error).message}`);
+  }
+}
+
+/**
+ * Write the project manifest.
+ * Dependencies are sorted by key; any other fields are preserved as-is.
+ */
+export async function writeManifest(manifest: AspectsManifest, projectRoot?: string): Promise<void> {
+  const dependencies: Record<string, string> = {};
+  for (const key of Object.keys(manifest.dependencies ?? {}).sort()) {
+    dependencies[key] = manifest.dependencies![key]!;
+  }
+  await writeFile(
+    getManifestPath(projectRoot),
+    JSON.stringify({ ...manifest, dependencies }, null, 2) + '\n',
+  );
+}
+
+/**
+ * Declare a dependency in the project manifest (creates aspects.json if needed).
+ */
+export async function addManifestDependency(
+  key: string,
+  value: string,
+  projectRoot?: string,
+): Promise<void> {
+  const manifest = (await readManifest(projectRoot)) ?? createDefaultManifest();
+  manifest.dependencies = { ...manifest.dependencies, [key]: value };
+  await writeManifest(manifest, projectRoot);
+}
+
+/**
+ * Remove a dependency from the project manifest.
+ * Matches the exact key, or failing that any qualified key ending in /<name>.
+ */
+export async function removeManifestDependency(name: string, projectRoot?: string): Promise<boolean> {
+  const manifest = await readManifest(projectRoot);
+  if (!manifest?.dependencies) return false;
+
+  const keys = name in manifest.dependencies
+    ? [name]
+    : Object.keys(manifest.dependencies).filter((key) => key.endsWith(`/${name}`));
+  if (keys.length === 0) return false;
+
+  for (const key of keys) {
+    delete manifest.dependencies[key];
+  }
+  await writeManifest(manifest, projectRoot);
+  return true;
+}
+
+/**
+ * Turn a manifest dependency back into an install spec string.
+ *
+ * Examples:
+ *   ("alaric", "1.0.0")                 → "alaric@1.0.0"
+ *   ("morphist/alaric", "latest")       → "morphist/alaric"
+ *   ("helper", "github:jane/helper@v1") → "github:jane/helper@v1"
+ *   ("helper", "./personas/helper")     → "./personas/helper"
+ */
+export function manifestDependencyToSpec(key: string, value: string): string {
+  const trimmed = value.trim();
+  if (
+    trimmed.startsWith('github:') ||
+    trimmed.startsWith('blake3:') ||
+    trimmed.startsWith('hash:') ||
+    trimmed.startsWith('.') ||
+    trimmed.startsWith('/')
+  ) {
+    return trimmed;
+  }
+  if (LATEST_VALUES.has(trimmed)) return key;
+  return `${key}@${trimmed}`;
+}
+
+/**
+ * Parse a manifest dependency into an install spec.
+ * Relative local paths resolve against the project root, not the cwd.
+ */
+export function parseManifestDependency(key: string, value: string, projectRoot?: string): InstallSpec {
+  const trimmed = value.trim();
+  if ((trimmed.startsWith('.') || trimmed.startsWith('/')) && !isAbsolute(trimmed)) {
+    return { type: 'local', path: resolve(projectRoot || process.cwd(), trimmed) };
+  }
+  return parseInstallSpec(manifestDependencyToSpec(key, value));
+}
+
+/**
+ * Build the manifest entry ([key, value]) for a freshly installed aspect.
+ */
+export function specToManifestEntry(
+  spec: InstallSpec,
+  aspect: Aspect,
+  projectRoot?: string,
+): [string, string] {
+  switch (spec.type) {
+    case 'registry': {
+      // Pin the publisher that was actually installed, so a bare name can't resolve elsewhere later
+      const publisher = spec.publisher ?? aspect.publisher;
+      const key = publisher ? `${publisher}/${spec.name}` : spec.name;
+      // Like npm, an unversioned add saves a caret range on the installed version
+      return [key, spec.version ?? `^${aspect.version}`];
+    }
+    case 'github':
+      return [aspect.name, `github:${spec.owner}/${spec.repo}${spec.ref ? `@${spec.ref}` : ''}`];
+    case 'local': {
+      const rel = relative(projectRoot || process.cwd(), spec.path);
+      return [aspect.name, rel.startsWith('.') ? rel : `./${rel}`];
+    }
+    case 'hash':
+      return [aspect.name, `blake3:${spec.hash}`];
+  }
+}
@@ -0,0 +1,184 @@
+import { isMap, isScalar, parseDocument, type Document } from 'yaml';
+import { replaceFrontmatter, splitFrontmatter, type AspectFormat } from './formats';
+import { CURRENT_SCHEMA_VERSION } from './schema';
+
+/**
+ * Upgrades aspect data from one schema version to the next.
+ * Migrations work on plain JSON, so they can rewrite files without
+ * losing key order or fields a schema would strip.
+ */
+export interface Migration {
+  from: number;
+  to: number;
+  description: string;
+  migrate: (data: Record<string, unknown>) => Record<string, unknown>;
+}
+
+export const MIGRATIONS: Migration[] = [
+  {
+    from: 1,
+    to: 2,
+    description: 'version is required (v1 defaulted it to "0.0.0")',
+    migrate: (data) => {
+      const migrated: Record<string, unknown> = {};
+      // Keep the author's key order, adding version where v1 files usually have it
+      const anchor = 'publisher' in data ? 'publisher' : 'name';
+      for (const [key, value] of Object.entries(data)) {
+        migrated[key] = key === 'schemaVersion' ? 2 : value;
+        if (key === anchor && !('version' in data)) migrated.version = '0.0.0';
+      }
+      if (!('schemaVersion' in data)) return { schemaVersion: 2, ...migrated };
+      return migrated;
+    },
+  },
+];
+
+/**
+ * Apply every migration from `fromVersion` up to the current schema version.
+ * Returns the migrated data and the steps taken (none if already current).
+ */
+export function migrateAspectData(
+  data: Record<string, unknown>,
+  fromVersion: number,
+): { data: Record<string, unknown>; steps: Migration[] } {
+  const steps: Migration[] = [];
+  let current = data;
+  let version = fromVersion;
+  while (version < CURRENT_SCHEMA_VERSION) {
+    const step = MIGRATIONS.find(m => m.from === version);
+    if (!step) throw new Error(`No migration from schema v${version}`);
+    current = step.migrate(current);
+    steps.push(step);
+    version = step.to;
+  }
+  return { data: current, steps };
+}
+
+/**
+ * Rewrite aspect file content in the current schema version, editing only the
+ * keys a migration changes so the rest of the file (formatting, comments) stays
+ * as written. `fromVersion` is the version the parser reported migrating from;
+ * the content must already be valid.
+ */
+export function migrateAspectContent(content: string, fromVersion: number, format: AspectFormat = 'json'): string {
+  switch (format) {
+    case 'json':
+      return migrateJson(content, fromVersion);
+    case 'yaml':
+      return migrateYaml(content, fromVersion);
+    case 'markdown': {
+      const parts = splitFrontmatter(content)!;
+      return replaceFrontmatter(content, migrateYaml(parts.frontmatter, fromVersion).trimEnd());
+    }
+  }
+}
+
+/**
+ * Migrate a YAML mapping by editing its document, so comments on untouched
+ * keys survive: changed values are replaced, new keys inserted in order.
+ */
+function migrateYaml(content: string, fromVersion: number): string {
+  const doc: Document = parseDocument(content);
+  const map = doc.contents;
+  if (!isMap(map)) throw new Error('Aspect YAML must be a mapping');
+
+  const original = doc.toJS() as Record<string, unknown>;
+  const { data } = migrateAspectData(original, fromVersion);
+  const pairs = new Map(map.items.map(pair => [String(isScalar(pair.key) ? pair.key.value : pair.key), pair]));
+  map.items = Object.entries(data).map(([key, value]) => {
+    const pair = pairs.get(key);
+    if (!pair) return doc.createPair(key, value);
+    if (JSON.stringify(original[key]) !== JSON.stringify(value)) pair.value = doc.createNode(value);
+    return pair;
+  });
+  return doc.toString();
+}
+
+/** Where a top-level member of a JSON object sits in its source text. */
+interface JsonMember {
+  keyStart: number;
+  keyEnd: number;
+  valueStart: number;
+  valueEnd: number;
+}
+
+/**
+ * Migrate a JSON object by editing its source text: changed values are
+ * replaced and new keys inserted in order, matching the file's own separators.
+ */
+function migrateJson(content: string, fromVersion: number): string {
+  const original = JSON.parse(content) as Record<string, unknown>;
+  const { data } = migrateAspectData(original, fromVersion);
+  const members = jsonMembers(content);
+  const [first] = members.values();
+  if (!first) return JSON.stringify(data, null, 2) + (content.endsWith('\n') ? '\n' : '');
+
+  // Reuse what sits before the first key ("\n  ") and after it (": ")
+  const separator = content.slice(content.indexOf('{') + 1, first.keyStart);
+  const colon = content.slice(first.keyEnd, first.valueStart);
+  const edits: { start: number; end: number; text: string }[] = [];
+  let previous: JsonMember | undefined;
+  for (const [key, value] of Object.entries(data)) {
+    const member = members.get(key);
+    const text = JSON.stringify(value);
+    if (member) {
+      if (JSON.stringify(original[key]) !== text) edits.push({ start: member.valueStart, end: member.valueEnd, text });
+      previous = member;
+      continue;
+    }
+    const pair = JSON.stringify(key) + colon + text;
+    edits.push(previous
+      ? { start: previous.valueEnd, end: previous.valueEnd, text: `,${separator}${pair}` }
+      : { start: first.keyStart, end: first.keyStart, text: `${pair},${separator}` });
+  }
+
+  // Stable sort keeps keys inserted at the same spot in order
+  edits.sort((a, b) => a.start - b.start);
+  let result = '';
+  let at = 0;
+  for (const edit of edits) {
+    result += content.slice(at, edit.start) + edit.text;
+    at = edit.end;
+  }
+  return result + content.slice(at);
+}
+
+/** Locate each top-level member of the JSON object in `content`. */
+function jsonMembers(content: string): Map<string, JsonMember> {
+  const members = new Map<string, JsonMember>();
+  let i = content.indexOf('{') + 1;
+  for (;;) {
+    const keyStart = content.indexOf('"', i);
+    if (keyStart < 0) return members;
+    const keyEnd = jsonStringEnd(content, keyStart);
+    const valueStart = keyEnd + content.slice(keyEnd).search(/[^\s:]/);
+    const valueEnd = jsonValueEnd(content, valueStart);
+    members.set(JSON.parse(content.slice(keyStart, keyEnd)) as string, { keyStart, keyEnd, valueStart, valueEnd });
+    i = valueEnd;
+  }
+}
+
+/** End offset (exclusive) of the JSON string starting at `start`. */
+function jsonStringEnd(content: string, start: number): number {
+  let i = start + 1;
+  while (i < content.length && content[i] !== '"') i += content[i] === '\\' ? 2 : 1;
+  return i + 1;
+}
+
+/** End offset (exclusive) of the JSON value starting at `start`. */
+function jsonValueEnd(content: string, start: number): number {
+  let depth = 0;
+  for (let i = start; i < content.length; i++) {
+    const ch = content[i]!;
+    if (depth === 0 && i > start && /[\s,}\]]/.test(ch)) return i;
+    if (ch === '"') {
+      i = jsonStringEnd(content, i) - 1;
+      if (depth === 0) return i + 1;
+    } else if (ch === '{' || ch === '[') {
+      depth++;
+    } else if ((ch === '}' || ch === ']') && --depth === 0) {
+      return i + 1;
+    }
+  }
+  return content.length;
+}
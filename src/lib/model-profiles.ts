@@ -0,0 +1,264 @@
+import { readFile } from 'node:fs/promises';
+import { z } from 'zod';
+import { MODELS_PATH } from '../utils/paths';
+import type { ModelProfile, ModelProfilesFile } from './types';
+
+/** Profile used when nothing else matches */
+export const DEFAULT_PROFILE_ID = 'default';
+
+/**
+ * Profiles that ship with the CLI, most specific first.
+ * Globs are unanchored on the provider side (`*claude-...`) so prefixed ids
+ * like "anthropic.claude-3-5-sonnet" or "openrouter/gpt-4o" still match.
+ */
+export const BUILTIN_MODEL_PROFILES: ModelProfile[] = [
+  {
+    id: 'claude-modern',
+    description: 'Claude 3.5 and later: XML tags, rules first',
+    match: ['*claude-4*', '*claude-*-4*', '*claude-3.5*', '*claude-3-5*', '*claude-*-3-5*', '*claude-3-7*', '*claude-*-3-7*'],
+    delimiter: 'xml',
+    directives: 'start',
+    reminders: true,
+    emphasis: 'attribute',
+    contextWindow: 200000,
+    charsPerToken: 3.5,
+  },
+  {
+    id: 'claude-legacy',
+    description: 'Claude 3 and earlier: markdown with emphasis',
+    match: ['*claude*'],
+    delimiter: 'markdown',
+    directives: 'start',
+    reminders: true,
+    emphasis: 'bold',
+    contextWindow: 200000,
+    charsPerToken: 3.5,
+  },
+  {
+    id: 'gpt-4.1',
+    description: 'GPT-4.1: XML tags, 1M context',
+    match: ['*gpt-4.1*'],
+    delimiter: 'xml',
+    directives: 'start',
+    reminders: true,
+    emphasis: 'attribute',
+    contextWindow: 1047576,
+    charsPerToken: 4,
+  },
+  {
+    id: 'gpt-5',
+    description: 'GPT-5: XML tags',
+    match: ['*gpt-5*'],
+    delimiter: 'xml',
+    directives: 'start',
+    reminders: true,
+    emphasis: 'attribute',
+    contextWindow: 400000,
+    charsPerToken: 4,
+    systemRole: 'developer',
+  },
+  {
+    id: 'openai-reasoning',
+    description: 'OpenAI o-series: XML tags, developer message',
+    match: ['o1*', 'o3*', 'o4-*'],
+    delimiter: 'xml',
+    directives: 'start',
+    reminders: true,
+    emphasis: 'attribute',
+    contextWindow: 200000,
+    charsPerToken: 4,
+    systemRole: 'developer',
+  },
+  {
+    id: 'gpt-modern',
+    description: 'GPT-4o and GPT-4 Turbo: XML tags',
+    match: ['*gpt-4o*', '*gpt-4-turbo*'],
+    delimiter: 'xml',
+    directives: 'start',
+    reminders: true,
+    emphasis: 'attribute',
+    contextWindow: 128000,
+    charsPerToken: 4,
+  },
+  {
+    id: 'gpt-legacy',
+    description: 'GPT-4 and GPT-3.5: markdown with emphasis',
+    match: ['*gpt*'],
+    delimiter: 'markdown',
+    directives: 'start',
+    reminders: true,
+    emphasis: 'bold',
+    contextWindow: 8192,
+    charsPerToken: 4,
+  },
+  {
+    id: 'gemini',
+    description: 'Gemini: XML structure, reminders as the final instruction',
+    match: ['*gemini*'],
+    delimiter: 'xml',
+    directives: 'start',
+    reminders: true,
+    emphasis: 'attribute',
+    contextWindow: 1048576,
+    charsPerToken: 4,
+  },
+  {
+    id: 'llama',
+    description: 'Llama: markdown, capitalised emphasis',
+    match: ['*llama*'],
+    delimiter: 'markdown',
+    directives: 'start',
+    reminders: true,
+    emphasis: 'caps',
+    contextWindow: 128000,
+    charsPerToken: 3.8,
+  },
+  {
+    id: 'mistral',
+    description: 'Mistral and Mixtral: markdown, capitalised emphasis',
+    match: ['*mistral*', '*mixtral*', '*codestral*'],
+    delimiter: 'markdown',
+    directives: 'start',
+    reminders: true,
+    emphasis: 'caps',
+    contextWindow: 32768,
+    charsPerToken: 3.5,
+  },
+  {
+    id: DEFAULT_PROFILE_ID,
+    description: 'Anything else: XML tags, rules first and repeated last',
+    match: ['*'],
+    delimiter: 'xml',
+    directives: 'start',
+    reminders: true,
+    emphasis: 'attribute',
+    contextWindow: 128000,
+    charsPerToken: 4,
+  },
+];
+
+const modelProfilesFileSchema = z.object({
+  profiles: z.array(
+    z.object({
+      id: z.string().min(1),
+      extends: z.string().optional(),
+      description: z.string().optional(),
+      match: z.array(z.string().min(1)).optional(),
+      delimiter: z.enum(['xml', 'markdown']).optional(),
+      directives: z.enum(['start', 'end']).optional(),
+      reminders: z.boolean().optional(),
+      emphasis: z.enum(['attribute', 'bold', 'caps']).optional(),
+      contextWindow: z.number().int().positive().optional(),
+      charsPerToken: z.number().positive().optional(),
+      systemRole: z.enum(['system', 'developer']).optional(),
+    }),
+  ),
+});
+
+/**
+ * Offline token estimate for text sent to a model, from its profile's
+ * characters-per-token ratio. Good enough for budgeting; not a tokenizer.
+ */
+export function estimateTokens(text: string, profile: ModelProfile): number {
+  return Math.ceil(text.length / profile.charsPerToken);
+}
+
+/**
+ * Convert a model glob (`*` and `?` wildcards) to a case-insensitive, anchored RegExp.
+ */
+export function globToRegExp(glob: string): RegExp {
+  const pattern = glob
+    .split('')
+    .map(ch => ch === '*' ? '.*' : ch === '?' ? '.' : ch.replace(/[.+^${}()|[\]\\/-]/g, '\\$&'))
+    .join('');
+  return new RegExp(`^${pattern}$`, 'i');
+}
+
+/**
+ * Pick the profile for a model id.
+ * Exact matches (a profile's id or a literal entry in `match`) win over globs;
+ * among globs the first profile in the list wins.
+ */
+export function matchModelProfile(model: string, profiles: ModelProfile[]): ModelProfile {
+  const lower = model.toLowerCase();
+  const exact = profiles.find(p =>
+    p.id.toLowerCase() === lower
+    || p.match.some(m => !/[*?]/.test(m) && m.toLowerCase() === lower),
+  );
+  if (exact) return exact;
+
+  const glob = profiles.find(p => p.match.some(m => /[*?]/.test(m) && globToRegExp(m).test(model)));
+  return glob ?? BUILTIN_MODEL_PROFILES.find(p => p.id === DEFAULT_PROFILE_ID)!;
+}
+
+/**
+ * Combine user profiles with the built-ins. New profiles come first so they win
+ * matching; one with a built-in's id replaces it in place, inheriting the fields it omits.
+ */
+export function resolveModelProfiles(file: ModelProfilesFile): ModelProfile[] {
+  const declared = new Map(file.profiles.map(p => [p.id, p]));
+  const resolved = new Map<string, ModelProfile>();
+
+  const resolve = (id: string, visiting: string[]): ModelProfile => {
+    const done = resolved.get(id);
+    if (done) return done;
+
+    const profile = declared.get(id);
+    if (!profile) {
+      const builtin = BUILTIN_MODEL_PROFILES.find(p => p.id === id);
+      if (!builtin) throw new Error(`Unknown model profile "${id}"`);
+      return builtin;
+    }
+    if (visiting.includes(id)) {
+      throw new Error(`Model profile cycle: ${[...visiting, id].join(' -> ')}`);
+    }
+
+    // A user profile named like a built-in extends that built-in, not itself
+    const baseId = profile.extends ?? id;
+    const base = baseId === id
+      ? BUILTIN_MODEL_PROFILES.find(p => p.id === id) ?? resolve(DEFAULT_PROFILE_ID, [...visiting, id])
+      : resolve(baseId, [...visiting, id]);
+
+    const { extends: _extends, ...fields } = profile;
+    const merged: ModelProfile = {
+      ...base,
+      // Extending a different profile doesn't copy its globs; without its own a profile matches only by id
+      match: baseId === id ? base.match : [],
+      ...fields,
+    };
+    resolved.set(id, merged);
+    return merged;
+  };
+
+  const builtinIds = new Set(BUILTIN_MODEL_PROFILES.map(p => p.id));
+  const added = file.profiles.filter(p => !builtinIds.has(p.id)).map(p => resolve(p.id, []));
+  return [...added, ...BUILTIN_MODEL_PROFILES.map(p => declared.has(p.id) ? resolve(p.id, []) : p)];
+}
+
+/**
+ * Load every model profile: ~/.aspects/models.json (if present) ahead of the built-ins.
+ * Throws if the file exists but is invalid.
+ */
+export async function loadModelProfiles(path: string = MODELS_PATH): Promise<ModelProfile[]> {
+  let content: string;
+  try {
+    content = await readFile(path, 'utf-8');
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return BUILTIN_MODEL_PROFILES;
+    throw err;
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(content);
+  } catch (err) {
+    throw new Error(`Invalid JSON in ${path}: ${(err as Error).message}`);
+  }
+
+  const result = modelProfilesFileSchema.safeParse(raw);
+  if (!result.success) {
+    const issues = result.error.issues.map(i => `${i.path.join('.')}: ${i.message}`).join(', ');
+    throw new Error(`Invalid model profiles in ${path}: ${issues}`);
+  }
+  return resolveModelProfiles(result.data);
+}
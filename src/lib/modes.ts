@@ -0,0 +1,172 @@
+import type { Aspect, AspectDirective, AspectExample, AspectInstruction } from './types';
+
+/**
+ * Directive and instruction ids that some mode lists in `only`. They are off
+ * unless that mode, or a mode that `include`s them, is active.
+ */
+export function modeOnlyIds(aspect: Aspect): Set<string> {
+  return new Set(Object.values(aspect.modes ?? {}).flatMap(mode => mode.only ?? []));
+}
+
+/**
+ * The directives and instructions an aspect contributes with a mode active (or none):
+ * mode-only ids dropped unless the mode lists them in `only` or `include`, the
+ * mode's excludes dropped, then the mode's own entries added, replacing any with
+ * the same id in place.
+ */
+export function effectiveRules(
+  aspect: Aspect,
+  mode?: string,
+): { directives: AspectDirective[]; instructions: AspectInstruction[] } {
+  const active = mode ? aspect.modes?.[mode] : undefined;
+  const included = new Set([...(active?.only ?? []), ...(active?.include ?? [])]);
+  const off = new Set([
+    ...[...modeOnlyIds(aspect)].filter(id => !included.has(id)),
+    ...(active?.exclude ?? []),
+  ]);
+
+  const scope = <T extends { id: string }>(entries: T[] | undefined, added: T[] | undefined): T[] => {
+    const kept = (entries ?? []).filter(e => !off.has(e.id));
+    for (const entry of added ?? []) {
+      const index = kept.findIndex(e => e.id === entry.id);
+      if (index === -1) kept.push(entry);
+      else kept[index] = entry;
+    }
+    return kept;
+  };
+
+  return {
+    directives: scope(aspect.directives, active?.directives),
+    instructions: scope(aspect.instructions, active?.instructions),
+  };
+}
+
+/**
+ * The example dialogues an aspect contributes with a mode active (or none):
+ * its own, then the mode's.
+ */
+export function effectiveExamples(aspect: Aspect, mode?: string): AspectExample[] {
+  const active = mode ? aspect.modes?.[mode] : undefined;
+  return [...(aspect.examples ?? []), ...(active?.examples ?? [])];
+}
+
+/**
+ * Mode `only`/`include`/`exclude` ids that don't name one of the aspect's directives
+ * or instructions, or that a mode both turns on and excludes, and a `defaultMode`
+ * that isn't one of the aspect's modes. Run on the merged aspect, since a mode
+ * may refer to ids its parent defines.
+ */
+export function findDanglingModeReferences(aspect: Aspect): string[] {
+  const ids = new Set([...(aspect.directives ?? []), ...(aspect.instructions ?? [])].map(e => e.id));
+  const problems: string[] = [];
+
+  for (const [name, mode] of Object.entries(aspect.modes ?? {})) {
+    for (const field of ['only', 'include', 'exclude'] as const) {
+      for (const id of mode[field] ?? []) {
+        if (!ids.has(id)) {
+          problems.push(`modes.${name}.${field}: "${id}" is not a directive or instruction id`);
+        }
+      }
+    }
+    for (const id of [...(mode.only ?? []), ...(mode.include ?? [])]) {
+      if (mode.exclude?.includes(id)) {
+        problems.push(`modes.${name}: "${id}" is both included and excluded`);
+      }
+    }
+  }
+  if (aspect.defaultMode && !aspect.modes?.[aspect.defaultMode]) {
+    problems.push(`defaultMode: "${aspect.defaultMode}" is not a mode`);
+  }
+  return problems;
+}
+
+/**
+ * Mode `include` ids that no mode lists in `only`. Those apply in every mode
+ * already, so the include does nothing; `only` is what makes an id mode-only.
+ */
+export function findNoOpIncludes(aspect: Aspect): string[] {
+  const modeOnly = modeOnlyIds(aspect);
+  return Object.entries(aspect.modes ?? {}).flatMap(([name, mode]) =>
+    (mode.include ?? [])
+      .filter(id => !modeOnly.has(id))
+      .map(id => `modes.${name}.include: "${id}" applies in every mode already (list it in a mode's "only" to make it mode-only)`),
+  );
+}
+
+/**
+ * What a user utterance asks for: switching a mode on or off, or a command.
+ */
+export type TriggerMatch =
+  | { type: 'enter' | 'exit'; mode: string; phrase: string }
+  | { type: 'command'; command: string; phrase: string };
+
+/**
+ * Lowercase, drop punctuation (keeping apostrophes) and collapse whitespace,
+ * so "Let's play!" and "let's  play" compare equal.
+ */
+export function normalizePhrase(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[‘’]/g, "'")
+    .replace(/[^\p{L}\p{N}'\s]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Every phrase an aspect reacts to, in declaration order: mode enter/exit
+ * triggers, then command aliases.
+ */
+function triggerCandidates(aspect: Aspect): Array<{ match: TriggerMatch; phrase: string }> {
+  const candidates: Array<{ match: TriggerMatch; phrase: string }> = [];
+  for (const [mode, { triggers }] of Object.entries(aspect.modes ?? {})) {
+    for (const type of ['enter', 'exit'] as const) {
+      for (const phrase of triggers?.[type] ?? []) {
+        candidates.push({ match: { type, mode, phrase }, phrase: normalizePhrase(phrase) });
+      }
+    }
+  }
+  for (const command of aspect.commands ?? []) {
+    for (const phrase of command.aliases) {
+      candidates.push({ match: { type: 'command', command: command.id, phrase }, phrase: normalizePhrase(phrase) });
+    }
+  }
+  return candidates.filter(c => c.phrase.length > 0);
+}
+
+/**
+ * Match a user utterance to a mode switch or command.
+ *
+ * A phrase matches when it appears in the utterance as whole words. Only the
+ * active mode's exit phrases and the other modes' enter phrases count. The
+ * longest matching phrase wins; ties go to the first declared.
+ */
+export function matchTrigger(aspect: Aspect, utterance: string, activeMode?: string): TriggerMatch | null {
+  const said = ` ${normalizePhrase(utterance)} `;
+  let best: { match: TriggerMatch; phrase: string } | null = null;
+
+  for (const candidate of triggerCandidates(aspect)) {
+    const { match } = candidate;
+    if (match.type === 'exit' && match.mode !== activeMode) continue;
+    if (match.type === 'enter' && match.mode === activeMode) continue;
+    if (!said.includes(` ${candidate.phrase} `)) continue;
+    if (!best || candidate.phrase.length > best.phrase.length) best = candidate;
+  }
+  return best?.match ?? null;
+}
+
+/**
+ * Phrases that trigger more than one thing (after normalization), which
+ * `matchTrigger` would resolve by declaration order alone.
+ */
+export function findAmbiguousTriggers(aspect: Aspect): string[] {
+  const targets = new Map<string, string[]>();
+  for (const { match, phrase } of triggerCandidates(aspect)) {
+    const target = match.type === 'command' ? `commands.${match.command}` : `modes.${match.mode}.${match.type}`;
+    const existing = targets.get(phrase) ?? [];
+    if (!existing.includes(target)) targets.set(phrase, [...existing, target]);
+  }
+  return [...targets]
+    .filter(([, owners]) => owners.length > 1)
+    .map(([phrase, owners]) => `"${phrase}" triggers ${owners.join(' and ')}`);
+}
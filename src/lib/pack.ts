@@ -0,0 +1,323 @@
+import { mkdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { dirname, join } from 'node:path';
+import { gunzipSync, gzipSync } from 'node:zlib';
+import { findAspectFile, toAspectJson } from './formats';
+import { parseAspectFile, parseAspectJson, type ParseResult } from './parser';
+import { FIELD_LIMITS, PACKAGE_PATH_PATTERN } from './schema';
+import { blake3HashBytes } from '../utils/hash';
+import type { Aspect } from './types';
+
+/** File extension of a packed aspect (a gzipped tar) */
+export const PACKAGE_EXTENSION = '.aspect';
+
+/** Largest package, uncompressed: aspect.json plus every listed file */
+export const MAX_PACKAGE_SIZE = 10 * 1024 * 1024;
+
+/** Packages always hold the aspect as aspect.json, whatever format it was written in */
+const PACKAGE_ASPECT_FILE = 'aspect.json';
+
+const BLOCK = 512;
+
+export interface PackageFile {
+  path: string;
+  content: Uint8Array;
+}
+
+/**
+ * A multi-file aspect: aspect.json plus the files its `files` manifest lists.
+ * `hash` is the blake3 of the package's deterministic tar, and identifies it the
+ * way blake3HashAspect identifies a single-file aspect.
+ */
+export interface AspectPackage {
+  aspect: Aspect;
+  // As packaged, before schema migration (what aspect.json holds, with its prompt file read in)
+  asWritten: Aspect;
+  // The listed file the prompt is read from, if it isn't inline
+  promptFile?: string;
+  // aspect.json first, then the listed files in path order
+  files: PackageFile[];
+  hash: string;
+  warnings: string[];
+}
+
+export type PackageResult =
+  | { success: true; package: AspectPackage }
+  | { success: false; errors: string[] };
+
+/**
+ * Whether a path names a packed aspect rather than an aspect file or directory.
+ */
+export function isPackagePath(path: string): boolean {
+  return path.toLowerCase().endsWith(PACKAGE_EXTENSION);
+}
+
+/**
+ * Read an aspect directory as a package: its aspect file (in any format) and
+ * every file its `files` manifest lists.
+ */
+export async function readPackageDir(dir: string): Promise<PackageResult> {
+  return readPackage(await findAspectFile(dir));
+}
+
+/**
+ * Read a package from its aspect file, with the listed files relative to it.
+ */
+export async function readPackage(aspectFile: string): Promise<PackageResult> {
+  const parsed = await parseAspectFile(aspectFile);
+  if (!parsed.success) return parsed;
+
+  const dir = dirname(aspectFile);
+  const files: PackageFile[] = [];
+  const errors: string[] = [];
+  for (const path of parsed.asWritten.files ?? []) {
+    try {
+      files.push({ path, content: await readFile(join(dir, path)) });
+    } catch (err) {
+      const code = (err as NodeJS.ErrnoException).code;
+      errors.push(`files: ${path} ${code === 'ENOENT' ? 'not found' : 'is not a readable file'}`);
+    }
+  }
+  if (errors.length > 0) return { success: false, errors };
+
+  return buildPackage(parsed, files);
+}
+
+/**
+ * Assemble a package from a parsed aspect and the contents of its listed files.
+ * The files must match the manifest exactly.
+ */
+export function buildPackage(parsed: ParseResult, files: PackageFile[]): PackageResult {
+  if (!parsed.success) return parsed;
+
+  const manifest = parsed.asWritten.files ?? [];
+  if (manifest.length === 0) {
+    return { success: false, errors: ['files: a package needs a files manifest listing what to include'] };
+  }
+
+  const listed = new Set(manifest);
+  const present = new Set(files.map(file => file.path));
+  const errors = [
+    ...manifest.filter(path => !present.has(path)).map(path => `files: ${path} is listed but not in the package`),
+    ...[...present].filter(path => !listed.has(path)).map(path => `${path} is in the package but not listed in files`),
+  ];
+  if (errors.length > 0) return { success: false, errors };
+
+  const sorted = [...files].sort((a, b) => (a.path < b.path ? -1 : a.path > b.path ? 1 : 0));
+  // aspect.json keeps the prompt file reference rather than the text read from it
+  const aspectJson = parsed.promptFile ? { ...parsed.asWritten, prompt: { file: parsed.promptFile } } : parsed.asWritten;
+  const all = [
+    { path: PACKAGE_ASPECT_FILE, content: new TextEncoder().encode(toAspectJson(aspectJson)) },
+    ...sorted,
+  ];
+
+  const size = all.reduce((total, file) => total + file.content.length, 0);
+  if (size > MAX_PACKAGE_SIZE) {
+    return { success: false, errors: [`Package too large: ${size} bytes (${MAX_PACKAGE_SIZE} byte limit)`] };
+  }
+
+  return {
+    success: true,
+    package: {
+      aspect: parsed.aspect,
+      asWritten: parsed.asWritten,
+      ...(parsed.promptFile && { promptFile: parsed.promptFile }),
+      files: all,
+      hash: blake3HashBytes(createTar(all)),
+      warnings: parsed.warnings,
+    },
+  };
+}
+
+/**
+ * The listed files other than the prompt file, whose text is already the
+ * aspect's prompt.
+ */
+export function packagedFiles(pkg: AspectPackage): PackageFile[] {
+  return pkg.files.filter(file => file.path !== PACKAGE_ASPECT_FILE && file.path !== pkg.promptFile);
+}
+
+/**
+ * The .aspect file for a package: its tar, gzipped. The hash covers the tar,
+ * so it doesn't depend on the gzip implementation.
+ */
+export function packAspect(pkg: AspectPackage): Uint8Array {
+  const gz = gzipSync(createTar(pkg.files), { level: 9 });
+  // Header OS byte: "unknown", so the same package packs identically everywhere
+  gz[9] = 0xff;
+  return gz;
+}
+
+/**
+ * Read an .aspect file, checking its contents against the manifest.
+ */
+export function unpackAspect(bytes: Uint8Array): PackageResult {
+  let tar: Uint8Array;
+  try {
+    tar = gunzipSync(bytes, { maxOutputLength: MAX_PACKAGE_SIZE + (FIELD_LIMITS.maxFiles + 3) * BLOCK * 2 });
+  } catch (err) {
+    return { success: false, errors: [`Not a valid ${PACKAGE_EXTENSION} package: ${(err as Error).message}`] };
+  }
+
+  let entries: PackageFile[];
+  try {
+    entries = extractTar(tar);
+  } catch (err) {
+    return { success: false, errors: [(err as Error).message] };
+  }
+
+  const aspectFile = entries.find(entry => entry.path === PACKAGE_ASPECT_FILE);
+  if (!aspectFile) {
+    return { success: false, errors: [`Package has no ${PACKAGE_ASPECT_FILE}`] };
+  }
+  const parsed = parseAspectJson(new TextDecoder().decode(aspectFile.content), {
+    readFile: (path) => {
+      const file = entries.find(entry => entry.path === path);
+      return file && new TextDecoder().decode(file.content);
+    },
+  });
+  return buildPackage(parsed, entries.filter(entry => entry !== aspectFile));
+}
+
+/**
+ * Extract a package into `dir`, replacing whatever was there.
+ */
+export async function writePackageFiles(dir: string, pkg: AspectPackage): Promise<void> {
+  await rm(dir, { recursive: true, force: true });
+  for (const file of pkg.files) {
+    const path = join(dir, file.path);
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(path, file.content);
+  }
+}
+
+/**
+ * What a publisher signs for a package. The hash covers every file,
+ * where a signature over aspect.json alone would leave the rest unsigned.
+ */
+export function packageSigningContent(pkg: AspectPackage): object {
+  return { package: pkg.hash };
+}
+
+// --- Tar ---
+
+/**
+ * A ustar archive of the files, with everything but paths and contents fixed
+ * (mode 0644, owner 0, mtime 0) so the same files always give the same bytes.
+ */
+export function createTar(files: PackageFile[]): Uint8Array {
+  const blocks: Uint8Array[] = [];
+  for (const file of files) {
+    blocks.push(tarHeader(file.path, file.content.length));
+    blocks.push(file.content);
+    const padding = (BLOCK - (file.content.length % BLOCK)) % BLOCK;
+    if (padding > 0) blocks.push(new Uint8Array(padding));
+  }
+  blocks.push(new Uint8Array(BLOCK * 2));
+
+  const tar = new Uint8Array(blocks.reduce((total, block) => total + block.length, 0));
+  let offset = 0;
+  for (const block of blocks) {
+    tar.set(block, offset);
+    offset += block.length;
+  }
+  return tar;
+}
+
+/**
+ * Read the regular files from a ustar archive. Directory and pax metadata
+ * entries are skipped; links, devices and paths outside the package are rejected.
+ */
+export function extractTar(tar: Uint8Array): PackageFile[] {
+  const files: PackageFile[] = [];
+  const seen = new Set<string>();
+  let offset = 0;
+
+  while (offset + BLOCK <= tar.length) {
+    const header = tar.subarray(offset, offset + BLOCK);
+    if (header.every(byte => byte === 0)) break;
+
+    if (readOctal(header, 148, 8) !== checksum(header)) {
+      throw new Error('Corrupt package: tar header checksum mismatch');
+    }
+
+    const name = readString(header, 0, 100);
+    const prefix = readString(header, 345, 155);
+    const path = prefix ? `${prefix}/${name}` : name;
+    const size = readOctal(header, 124, 12);
+    const type = String.fromCharCode(header[156]!);
+    const start = offset + BLOCK;
+    offset = start + Math.ceil(size / BLOCK) * BLOCK;
+
+    if (type === '5' || type === 'x' || type === 'g') continue;
+    if (type !== '0' && type !== '\0') {
+      throw new Error(`Unsupported entry in package: ${path} (only regular files are allowed)`);
+    }
+    if (path !== PACKAGE_ASPECT_FILE && !PACKAGE_PATH_PATTERN.test(path)) {
+      throw new Error(`Unsafe path in package: ${path}`);
+    }
+    if (seen.has(path)) {
+      throw new Error(`Duplicate path in package: ${path}`);
+    }
+    if (start + size > tar.length) {
+      throw new Error(`Corrupt package: ${path} is truncated`);
+    }
+    seen.add(path);
+    files.push({ path, content: tar.slice(start, start + size) });
+  }
+
+  return files;
+}
+
+function tarHeader(path: string, size: number): Uint8Array {
+  const header = new Uint8Array(BLOCK);
+  let name = path;
+  let prefix = '';
+  if (path.length > 100) {
+    // ustar splits long paths at a "/" into a 155-byte prefix and a 100-byte name
+    const split = path.lastIndexOf('/', 155);
+    if (split <= 0 || path.length - split - 1 > 100) {
+      throw new Error(`Path too long to package: ${path}`);
+    }
+    prefix = path.slice(0, split);
+    name = path.slice(split + 1);
+  }
+
+  writeString(header, 0, name);
+  writeString(header, 100, '0000644');
+  writeString(header, 108, '0000000');
+  writeString(header, 116, '0000000');
+  writeString(header, 124, size.toString(8).padStart(11, '0'));
+  writeString(header, 136, '00000000000');
+  header[156] = '0'.charCodeAt(0);
+  writeString(header, 257, 'ustar');
+  writeString(header, 263, '00');
+  writeString(header, 345, prefix);
+  writeString(header, 148, `${checksum(header).toString(8).padStart(6, '0')}\0 `);
+  return header;
+}
+
+/** Sum of the header bytes, with the checksum field counted as spaces */
+function checksum(header: Uint8Array): number {
+  let sum = 0;
+  for (let i = 0; i < BLOCK; i++) {
+    sum += i >= 148 && i < 156 ? 0x20 : header[i]!;
+  }
+  return sum;
+}
+
+function writeString(header: Uint8Array, offset: number, value: string): void {
+  for (let i = 0; i < value.length; i++) {
+    header[offset + i] = value.charCodeAt(i);
+  }
+}
+
+function readString(header: Uint8Array, offset: number, length: number): string {
+  const field = header.subarray(offset, offset + length);
+  const end = field.indexOf(0);
+  return new TextDecoder().decode(end === -1 ? field : field.subarray(0, end));
+}
+
+function readOctal(header: Uint8Array, offset: number, length: number): number {
+  const value = readString(header, offset, length).trim();
+  return value ? parseInt(value, 8) : 0;
+}
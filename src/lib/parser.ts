@@ -1,12 +1,29 @@
 import { readFile } from 'node:fs/promises';
+import { dirname, join } from 'node:path';
 import { ZodError } from 'zod';
-import { aspectSchema } from './schema';
+import { aspectFormatOf, readAspectSource, type AspectFormat } from './formats';
+import { migrateAspectData } from './migrations';
+import { ASPECT_SCHEMAS, CURRENT_SCHEMA_VERSION, FIELD_LIMITS, PACKAGE_PATH_PATTERN, aspectSchema } from './schema';
 import type { Aspect } from './types';
 
 export type ParseResult =
   | {
       success: true;
+      /** The aspect in the current schema version */
       aspect: Aspect;
+      /**
+       * The aspect as validated against the file's own schema version.
+       * Install hashes and signatures cover this form, so an old file
+       * keeps its hash when the parser migrates it.
+       */
+      asWritten: Aspect;
+      /** Set when `aspect` was migrated from an older schema version */
+      migratedFrom?: number;
+      /**
+       * Set when the prompt was read from this packaged file; `aspect` and
+       * `asWritten` hold its text.
+       */
+      promptFile?: string;
       warnings: string[];
     }
   | {
@@ -14,8 +31,14 @@ export type ParseResult =
       errors: string[];
     };
 
+export interface ParseOptions {
+  /** A packaged file's text, for a prompt given as `{ file }`; undefined if it's missing */
+  readFile?: (path: string) => string | undefined;
+}
+
 /**
- * Parse and validate an aspect.json file.
+ * Parse and validate an aspect file (aspect.json, aspect.yaml/.yml or aspect.md).
+ * A packaged prompt file is read relative to it.
  */
 export async function parseAspectFile(filePath: string): Promise<ParseResult> {
   let content: string;
@@ -29,49 +52,156 @@ export async function parseAspectFile(filePath: string): Promise<ParseResult> {
     return { success: false, errors: [`Failed to read file: ${(err as Error).message}`] };
   }
 
-  return parseAspectJson(content);
+  const source = readAspectSource(content, aspectFormatOf(filePath));
+  if (!source.success) {
+    return source;
+  }
+  return parseAspectData(source.data, await readPromptFile(source.data, dirname(filePath)));
 }
 
 /**
  * Parse and validate aspect JSON content.
  */
-export function parseAspectJson(content: string): ParseResult {
-  let raw: unknown;
+export function parseAspectJson(content: string, options?: ParseOptions): ParseResult {
+  return parseAspectSource(content, 'json', options);
+}
+
+/**
+ * Parse and validate aspect content in any authoring format.
+ */
+export function parseAspectSource(content: string, format: AspectFormat, options?: ParseOptions): ParseResult {
+  const source = readAspectSource(content, format);
+  if (!source.success) {
+    return source;
+  }
+  return parseAspectData(source.data, options);
+}
+
+/**
+ * The path in unvalidated aspect data's `prompt: { file }`, if it's a safe one.
+ */
+export function promptFileOf(raw: unknown): string | undefined {
+  if (typeof raw !== 'object' || raw === null) return undefined;
+  const prompt = (raw as Record<string, unknown>).prompt;
+  if (typeof prompt !== 'object' || prompt === null) return undefined;
+  const file = (prompt as Record<string, unknown>).file;
+  return typeof file === 'string' && PACKAGE_PATH_PATTERN.test(file) ? file : undefined;
+}
+
+/**
+ * Parse options that read the data's prompt file, if it has one, from `dir`.
+ */
+export async function readPromptFile(raw: unknown, dir: string): Promise<ParseOptions> {
+  const path = promptFileOf(raw);
+  if (!path) return {};
+  let text: string | undefined;
   try {
-    raw = JSON.parse(content);
-  } catch (err) {
-    return { success: false, errors: [`Invalid JSON: ${(err as Error).message}`] };
+    text = await readFile(join(dir, path), 'utf-8');
+  } catch {
+    text = undefined;
   }
+  return { readFile: (file) => (file === path ? text : undefined) };
+}
 
-  if (typeof raw !== 'object' || raw === null) {
-    return { success: false, errors: ['aspect.json must be a JSON object'] };
+/**
+ * Validate already-parsed aspect data against its schema version,
+ * migrating older versions to the current one.
+ */
+export function parseAspectData(raw: unknown, options: ParseOptions = {}): ParseResult {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    return { success: false, errors: ['Aspect data must be an object'] };
   }
 
   const warnings: string[] = [];
-  const rawObj = raw as Record<string, unknown>;
+  const data = { ...(raw as Record<string, unknown>) };
+
+  // Points editors at the JSON Schema; not part of the aspect
+  if ('$schema' in data) {
+    if (typeof data.$schema !== 'string') {
+      return { success: false, errors: ['$schema: must be a string'] };
+    }
+    delete data.$schema;
+  }
 
-  // Warn about missing recommended fields
-  if (!('schemaVersion' in rawObj)) {
+  if (!('schemaVersion' in data)) {
     warnings.push('Missing schemaVersion, defaulting to 1');
+    data.schemaVersion = 1;
   }
-  if (!('version' in rawObj)) {
-    warnings.push('Missing version, defaulting to "0.0.0"');
+
+  const version = data.schemaVersion;
+  const schema = typeof version === 'number' ? ASPECT_SCHEMAS[version] : undefined;
+  if (!schema) {
+    const newer = typeof version === 'number' && version > CURRENT_SCHEMA_VERSION;
+    return {
+      success: false,
+      errors: [newer
+        ? `schemaVersion: ${version} is newer than this CLI supports (up to ${CURRENT_SCHEMA_VERSION}); update aspects`
+        : `schemaVersion: unsupported value ${JSON.stringify(version)}`],
+    };
   }
 
-  const result = aspectSchema.safeParse(raw);
+  // v2 makes version required, so only older files get a default
+  if ((version as number) < CURRENT_SCHEMA_VERSION && !('version' in data)) {
+    warnings.push('Missing version, defaulting to "0.0.0"');
+  }
 
+  const result = schema.safeParse(data);
   if (!result.success) {
+    return { success: false, errors: formatZodErrors(result.error) };
+  }
+
+  let asWritten = result.data as Aspect;
+  let promptFile: string | undefined;
+  const prompt: unknown = (result.data as { prompt: unknown }).prompt;
+  if (typeof prompt === 'object' && prompt !== null) {
+    promptFile = (prompt as { file: string }).file;
+    const text = readPackagedPrompt(asWritten, promptFile, options);
+    if (text.error !== undefined) {
+      return { success: false, errors: [text.error] };
+    }
+    asWritten = { ...asWritten, prompt: text.prompt };
+  }
+
+  if (version === CURRENT_SCHEMA_VERSION) {
+    return { success: true, aspect: asWritten, asWritten, ...(promptFile && { promptFile }), warnings };
+  }
+
+  const migrated = aspectSchema.safeParse(migrateAspectData(result.data as Record<string, unknown>, version as number).data);
+  if (!migrated.success) {
     return {
       success: false,
-      errors: formatZodErrors(result.error),
+      errors: formatZodErrors(migrated.error).map(e => `after migrating to schema v${CURRENT_SCHEMA_VERSION}: ${e}`),
     };
   }
 
-  return {
-    success: true,
-    aspect: result.data as Aspect,
-    warnings,
-  };
+  warnings.push(
+    `Schema v${version} is out of date; migrated to v${CURRENT_SCHEMA_VERSION} in memory (run "aspects migrate" to update the file)`,
+  );
+  return { success: true, aspect: migrated.data as Aspect, asWritten, migratedFrom: version as number, warnings };
+}
+
+/**
+ * The text of a `prompt: { file }`, which must be one of the package's files.
+ */
+function readPackagedPrompt(
+  aspect: Aspect,
+  file: string,
+  options: ParseOptions,
+): { prompt: string; error?: undefined } | { error: string } {
+  if (!aspect.files?.includes(file)) {
+    return { error: `prompt.file: ${file} must be listed in files` };
+  }
+  const text = options.readFile?.(file);
+  if (text === undefined) {
+    return { error: `prompt.file: ${file} not found` };
+  }
+  if (text.length < FIELD_LIMITS.promptMin) {
+    return { error: `prompt.file: ${file} must be at least ${FIELD_LIMITS.promptMin} chars` };
+  }
+  if (text.length > FIELD_LIMITS.promptFile) {
+    return { error: `prompt.file: ${file} must be ${FIELD_LIMITS.promptFile} chars or less` };
+  }
+  return { prompt: text };
 }
 
 /**
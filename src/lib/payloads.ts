@@ -0,0 +1,135 @@
+import type { CompiledSection, ExampleEntry } from './compiler';
+import type { AspectExampleMessage, ModelProfile } from './types';
+
+/**
+ * Output formats for `compile`: the plain prompt, or a provider request body.
+ */
+export const PAYLOAD_FORMATS = ['text', 'anthropic', 'openai', 'gemini'] as const;
+export type PayloadFormat = (typeof PAYLOAD_FORMATS)[number];
+
+/**
+ * What the payload builders need from a successful compile.
+ */
+export interface CompiledPrompt {
+  prompt: string;
+  sections: CompiledSection[];
+  profile: ModelProfile;
+  examples: ExampleEntry[];
+}
+
+export interface AnthropicSystemBlock {
+  type: 'text';
+  text: string;
+  cache_control?: { type: 'ephemeral' };
+}
+
+/** Anthropic Messages API body: the examples as prior turns, ready for the conversation */
+export interface AnthropicPayload {
+  model: string;
+  system: AnthropicSystemBlock[];
+  messages: AspectExampleMessage[];
+}
+
+/** OpenAI Chat Completions body: the system prompt as its first message, then the examples */
+export interface OpenAIPayload {
+  model: string;
+  messages: Array<
+    | {
+        role: 'system' | 'developer';
+        content: Array<{ type: 'text'; text: string }>;
+      }
+    | AspectExampleMessage
+  >;
+}
+
+/** Gemini generateContent body (the model goes in the URL) */
+export interface GeminiPayload {
+  systemInstruction: { parts: Array<{ text: string }> };
+  contents: Array<{ role: 'user' | 'model'; parts: Array<{ text: string }> }>;
+}
+
+/**
+ * Only the mode changes between conversations with the same aspects;
+ * everything else can be served from a provider's prompt cache.
+ */
+export function isStableSection(section: CompiledSection): boolean {
+  return section.kind !== 'mode';
+}
+
+/**
+ * Sections that go in the system prompt. Examples are sent as real turns instead.
+ */
+function systemSections(compiled: CompiledPrompt): CompiledSection[] {
+  return compiled.sections.filter(section => section.kind !== 'examples');
+}
+
+/**
+ * Every example's turns in order, as one prior conversation. Each example
+ * starts with the user and ends with the assistant, so roles keep alternating.
+ */
+export function exampleMessages(compiled: CompiledPrompt): AspectExampleMessage[] {
+  return compiled.examples.flatMap(entry => entry.example.messages.map(m => ({ role: m.role, content: m.content })));
+}
+
+/**
+ * One system block per section, with a cache breakpoint closing each run of
+ * stable sections, so switching modes doesn't invalidate the cached prefix.
+ */
+export function toAnthropicPayload(model: string, compiled: CompiledPrompt): AnthropicPayload {
+  const sections = systemSections(compiled);
+  const system = sections.map((section, i): AnthropicSystemBlock => {
+    const next = sections[i + 1];
+    const closesStableRun = isStableSection(section) && (!next || !isStableSection(next));
+    return closesStableRun
+      ? { type: 'text', text: section.text, cache_control: { type: 'ephemeral' } }
+      : { type: 'text', text: section.text };
+  });
+  return { model, system, messages: exampleMessages(compiled) };
+}
+
+/**
+ * A single system (or developer, per the model profile) message with one text part per section,
+ * followed by the example turns.
+ */
+export function toOpenAIPayload(model: string, compiled: CompiledPrompt): OpenAIPayload {
+  return {
+    model,
+    messages: [
+      {
+        role: compiled.profile.systemRole ?? 'system',
+        content: systemSections(compiled).map(section => ({ type: 'text' as const, text: section.text })),
+      },
+      ...exampleMessages(compiled),
+    ],
+  };
+}
+
+/**
+ * A systemInstruction with one part per section, and the example turns as contents.
+ */
+export function toGeminiPayload(compiled: CompiledPrompt): GeminiPayload {
+  return {
+    systemInstruction: { parts: systemSections(compiled).map(section => ({ text: section.text })) },
+    contents: exampleMessages(compiled).map(m => ({
+      role: m.role === 'assistant' ? 'model' : 'user',
+      parts: [{ text: m.content }],
+    })),
+  };
+}
+
+/**
+ * Render a compiled prompt in the given format: the prompt itself for text,
+ * pretty-printed JSON for provider payloads.
+ */
+export function formatPayload(format: PayloadFormat, model: string, compiled: CompiledPrompt): string {
+  switch (format) {
+    case 'text':
+      return compiled.prompt;
+    case 'anthropic':
+      return JSON.stringify(toAnthropicPayload(model, compiled), null, 2);
+    case 'openai':
+      return JSON.stringify(toOpenAIPayload(model, compiled), null, 2);
+    case 'gemini':
+      return JSON.stringify(toGeminiPayload(compiled), null, 2);
+  }
+}
@@ -0,0 +1,229 @@
+import { appendFile, mkdir, readFile } from 'node:fs/promises';
+import { userInfo } from 'node:os';
+import { dirname } from 'node:path';
+import { z } from 'zod';
+import { POLICY_LOG_PATH, POLICY_PATH, type InstallScope } from '../utils/paths';
+import { log } from '../utils/logger';
+import { readManifest } from './manifest';
+import { scanAspect, scanPackageFiles } from './scanner';
+import type { Aspect, TrustLevel } from './types';
+
+export const TRUST_LEVELS = ['verified', 'community', 'github', 'local'] as const satisfies readonly TrustLevel[];
+
+const listSchema = <T extends z.ZodType>(item: T) => z.strictObject({
+  allow: z.array(item).optional(),
+  deny: z.array(item).optional(),
+});
+
+/**
+ * An install policy, from ~/.aspects/policy.json or the `policy` section of aspects.json:
+ *   {
+ *     "publishers": { "allow": ["morphist", "acme"] },
+ *     "trust": { "deny": ["github"] },
+ *     "blockInjection": "critical",
+ *     "requireSignature": true,
+ *     "maxPromptChars": 20000
+ *   }
+ */
+export const installPolicySchema = z.strictObject({
+  publishers: listSchema(z.string().min(1)).optional(),
+  trust: listSchema(z.enum(TRUST_LEVELS)).optional(),
+  // Refuse content with injection-scan findings of this severity (or worse)
+  blockInjection: z.enum(['critical', 'warning']).optional(),
+  // Signed by a key in trusted-keys.json
+  requireSignature: z.boolean().optional(),
+  // Trust level "verified": a trusted signature, or a registry-verified publisher
+  requireVerified: z.boolean().optional(),
+  maxPromptChars: z.number().int().positive().optional(),
+});
+
+export type InstallPolicy = z.infer<typeof installPolicySchema>;
+
+export type PolicySource = 'global' | 'project';
+
+/**
+ * What's being installed, as the installer is about to record it.
+ */
+export interface PolicySubject {
+  aspect: Aspect;  // As written, before schema migration
+  // A package's other files, scanned like the aspect (not the prompt file, whose text is in `aspect`)
+  files?: Array<{ path: string; content: Uint8Array }>;
+  trust: TrustLevel;
+  publisher?: string;
+  signedBy?: string;  // Trusted key whose signature was verified
+}
+
+export interface PolicyViolation {
+  source: PolicySource;
+  rule: string;
+  message: string;
+}
+
+/**
+ * Check what's being installed against one policy.
+ * Local paths are your own files: publisher and signature rules skip them,
+ * so restrict them with `trust` if you need to.
+ */
+export function checkInstallPolicy(policy: InstallPolicy, subject: PolicySubject, source: PolicySource): PolicyViolation[] {
+  const violations: PolicyViolation[] = [];
+  const violate = (rule: string, message: string) => violations.push({ source, rule, message });
+  const { aspect, trust } = subject;
+  const publisher = subject.publisher ?? aspect.publisher;
+  const local = trust === 'local';
+
+  if (policy.trust?.allow && !policy.trust.allow.includes(trust)) {
+    violate('trust', `trust level "${trust}" is not allowed (allowed: ${policy.trust.allow.join(', ')})`);
+  }
+  if (policy.trust?.deny?.includes(trust)) {
+    violate('trust', `trust level "${trust}" is denied`);
+  }
+
+  if (!local && policy.publishers?.allow && !(publisher && policy.publishers.allow.includes(publisher))) {
+    violate('publishers', publisher
+      ? `publisher "${publisher}" is not allowed (allowed: ${policy.publishers.allow.join(', ')})`
+      : `anonymous aspects are not allowed (allowed publishers: ${policy.publishers.allow.join(', ')})`);
+  }
+  if (!local && publisher && policy.publishers?.deny?.includes(publisher)) {
+    violate('publishers', `publisher "${publisher}" is denied`);
+  }
+
+  if (!local && policy.requireSignature && !subject.signedBy) {
+    violate('requireSignature', 'not signed by a trusted key');
+  }
+  if (!local && policy.requireVerified && trust !== 'verified') {
+    violate('requireVerified', `trust level is "${trust}", not "verified"`);
+  }
+
+  if (policy.maxPromptChars !== undefined && aspect.prompt.length > policy.maxPromptChars) {
+    violate('maxPromptChars', `prompt is ${aspect.prompt.length} characters (max ${policy.maxPromptChars})`);
+  }
+
+  if (policy.blockInjection) {
+    const findings = [...scanAspect(aspect), ...scanPackageFiles(subject.files ?? [])];
+    const blocked = findings.filter(f => policy.blockInjection === 'warning' || f.severity === 'critical');
+    if (blocked.length > 0) {
+      const shown = blocked.slice(0, 3).map(f => `${f.message} (${f.path})`).join('; ');
+      const more = blocked.length > 3 ? `; and ${blocked.length - 3} more` : '';
+      violate('blockInjection', `injection scan: ${shown}${more}`);
+    }
+  }
+
+  return violations;
+}
+
+/**
+ * Validate a policy. Throws with every problem, prefixed by where it came from.
+ */
+export function parseInstallPolicy(data: unknown, origin: string): InstallPolicy {
+  const result = installPolicySchema.safeParse(data);
+  if (!result.success) {
+    const issues = result.error.issues.map(i => `${i.path.join('.') || '(root)'}: ${i.message}`).join(', ');
+    throw new Error(`Invalid install policy in ${origin}: ${issues}`);
+  }
+  return result.data;
+}
+
+/**
+ * The policies that apply: the global one, and the project's for project installs.
+ * Throws if either is invalid, so a broken policy never means no policy.
+ */
+export async function readInstallPolicies(
+  projectRoot?: string,
+): Promise<Array<{ source: PolicySource; policy: InstallPolicy }>> {
+  const policies: Array<{ source: PolicySource; policy: InstallPolicy }> = [];
+
+  let content: string | undefined;
+  try {
+    content = await readFile(POLICY_PATH, 'utf-8');
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== 'ENOENT') throw err;
+  }
+  if (content !== undefined) {
+    let data: unknown;
+    try {
+      data = JSON.parse(content);
+    } catch (err) {
+      throw new Error(`Invalid ${POLICY_PATH}: ${(err as Error).message}`);
+    }
+    policies.push({ source: 'global', policy: parseInstallPolicy(data, POLICY_PATH) });
+  }
+
+  if (projectRoot) {
+    const manifest = await readManifest(projectRoot);
+    if (manifest?.policy !== undefined) {
+      policies.push({ source: 'project', policy: parseInstallPolicy(manifest.policy, 'aspects.json') });
+    }
+  }
+  return policies;
+}
+
+/**
+ * Violations of any of the given policies.
+ */
+export function findPolicyViolations(
+  policies: Array<{ source: PolicySource; policy: InstallPolicy }>,
+  subject: PolicySubject,
+): PolicyViolation[] {
+  return policies.flatMap(({ source, policy }) => checkInstallPolicy(policy, subject, source));
+}
+
+export interface EnforceOptions {
+  label: string;  // What's being installed, for messages and the override log
+  scope: InstallScope;
+  projectRoot?: string;
+  allowUnsafe?: boolean;
+}
+
+/**
+ * Check an install against every policy that applies. Returns an error message
+ * if it's blocked, null if it may go ahead. With `allowUnsafe`, violations are
+ * warned about and logged to ~/.aspects/policy-overrides.log instead.
+ */
+export async function enforceInstallPolicy(subject: PolicySubject, options: EnforceOptions): Promise<string | null> {
+  let policies;
+  try {
+    policies = await readInstallPolicies(options.projectRoot);
+  } catch (err) {
+    return (err as Error).message;
+  }
+
+  const violations = findPolicyViolations(policies, subject);
+  if (violations.length === 0) return null;
+
+  const described = violations.map(v => `${v.message} [${v.source} ${v.rule}]`);
+  if (!options.allowUnsafe) {
+    return `Blocked by install policy: ${described.join('; ')}. Use --allow-unsafe to install anyway (logged).`;
+  }
+
+  for (const line of described) {
+    log.warn(`Install policy overridden for ${options.label}: ${line}`);
+  }
+  await logPolicyOverride(subject, violations, options);
+  return null;
+}
+
+async function logPolicyOverride(
+  subject: PolicySubject,
+  violations: PolicyViolation[],
+  options: EnforceOptions,
+): Promise<void> {
+  let user: string | undefined;
+  try {
+    user = userInfo().username;
+  } catch {
+    user = undefined;
+  }
+
+  const entry = {
+    time: new Date().toISOString(),
+    user,
+    aspect: options.label,
+    version: subject.aspect.version,
+    trust: subject.trust,
+    scope: options.scope,
+    projectRoot: options.projectRoot,
+    violations,
+  };
+  await mkdir(dirname(POLICY_LOG_PATH), { recursive: true });
+  await appendFile(POLICY_LOG_PATH, JSON.stringify(entry) + '\n');
+}
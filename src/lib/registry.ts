@@ -22,7 +22,10 @@ export async function fetchRegistryIndex(): Promise<RegistryIndex> {
   try {
     cachedIndex = await api.getRegistry();
     return cachedIndex;
-  } catch {
+  } catch (err) {
+    if (api.isOfflineError(err)) {
+      throw new Error(`Failed to fetch registry: ${(err as Error).message}`);
+    }
     // Fallback to static GitHub registry
     try {
       const result = await ofetch(FALLBACK_REGISTRY_URL, { parseResponse: JSON.parse });
@@ -38,10 +41,12 @@ export async function fetchRegistryIndex(): Promise<RegistryIndex> {
 /**
  * Get info about an aspect from the registry.
  * Uses the API for direct lookup, falls back to full index.
+ * With a publisher, only that publisher's aspect matches.
  */
-export async function getRegistryAspect(name: string): Promise<RegistryAspect | null> {
+export async function getRegistryAspect(name: string, publisher?: string): Promise<RegistryAspect | null> {
   try {
-    const detail = await api.getAspect(name);
+    const detail = await api.getAspect(name, publisher);
+    if (publisher && detail.publisher !== publisher) return null;
     return apiDetailToRegistryAspect(detail);
   } catch (err) {
     if (err instanceof api.ApiClientError && err.statusCode === 404) {
@@ -50,7 +55,10 @@ export async function getRegistryAspect(name: string): Promise<RegistryAspect |
     // Fallback: try fetching from full index
     try {
       const index = await fetchRegistryIndex();
-      return index.aspects[name] ?? null;
+      const entry = (publisher && index.aspects[`${publisher}/${name}`]) || index.aspects[name];
+      if (!entry) return null;
+      if (publisher && entry.metadata.publisher !== publisher) return null;
+      return entry;
     } catch {
       throw err; // Re-throw the original API error
     }
@@ -63,8 +71,9 @@ export async function getRegistryAspect(name: string): Promise<RegistryAspect |
 export async function fetchAspectVersion(
   name: string,
   version: string,
+  publisher?: string,
 ): Promise<ApiVersionContent> {
-  return api.getAspectVersion(name, version);
+  return api.getAspectVersion(name, version, publisher);
 }
 
 /**
@@ -75,6 +84,13 @@ export async function fetchAspectContent(url: string): Promise<string> {
   return await ofetch(url, { responseType: 'text' });
 }
 
+/**
+ * Download a packed .aspect (multi-file package).
+ */
+export async function fetchAspectPackage(url: string): Promise<Uint8Array> {
+  return new Uint8Array(await ofetch(url, { responseType: 'arrayBuffer' }));
+}
+
 /**
  * Search the registry using the API.
  */
@@ -91,9 +107,11 @@ export async function searchRegistry(params: {
 /**
  * Get detailed aspect info from the API.
  */
-export async function getAspectDetail(name: string): Promise<ApiAspectDetail | null> {
+export async function getAspectDetail(name: string, publisher?: string): Promise<ApiAspectDetail | null> {
   try {
-    return await api.getAspect(name);
+    const detail = await api.getAspect(name, publisher);
+    if (publisher && detail.publisher !== publisher) return null;
+    return detail;
   } catch (err) {
     if (err instanceof api.ApiClientError && err.statusCode === 404) {
       return null;
@@ -134,6 +152,7 @@ function apiDetailToRegistryAspect(detail: ApiAspectDetail): RegistryAspect {
   return {
     latest: detail.latest,
     versions,
+    distTags: detail.distTags,
     metadata: {
       displayName: detail.versions[detail.latest]?.aspect?.displayName ?? detail.name,
       tagline: detail.versions[detail.latest]?.aspect?.tagline ?? '',
@@ -1,5 +1,5 @@
 import { resolve, isAbsolute } from 'node:path';
-import type { InstallSpec } from './types';
+import type { InstallSpec, InstalledAspect } from './types';
 
 /**
  * Parse an install spec string into a typed InstallSpec.
@@ -9,6 +9,8 @@ import type { InstallSpec } from './types';
  *   "alaric@1.0.0"        → { type: 'registry', name: 'alaric', version: '1.0.0' }
  *   "morphist/alaric"     → { type: 'registry', name: 'alaric', publisher: 'morphist' }
  *   "morphist/alaric@1.0" → { type: 'registry', name: 'alaric', publisher: 'morphist', version: '1.0' }
+ *   "alaric@^1.2"         → { type: 'registry', name: 'alaric', version: '^1.2' } (range or dist-tag,
+ *                            resolved against the registry's versions by the installer)
  *   "blake3:<hash>"       → { type: 'hash', hash: '<hash>' }
  *   "hash:<hash>"         → { type: 'hash', hash: '<hash>' } (alias)
  *   "github:user/repo"    → { type: 'github', owner: 'user', repo: 'repo' }
@@ -105,3 +107,30 @@ export function formatRegistrySpec(name: string, publisher?: string, version?: s
   if (version) spec += `@${version}`;
   return spec;
 }
+
+/**
+ * Key an install is recorded under, and its directory below aspects/.
+ * Registry installs with a publisher are namespaced so same-name aspects
+ * from different publishers don't overwrite each other.
+ */
+export function getInstallKey(name: string, publisher?: string): string {
+  return formatRegistrySpec(name, publisher);
+}
+
+/**
+ * Resolve a user-supplied name ("helper" or "alice/helper") to an install key.
+ * A bare name also matches a single publisher-scoped install; throws if several do.
+ */
+export function resolveInstallKey(
+  installed: Record<string, InstalledAspect>,
+  name: string,
+): string | null {
+  if (name in installed) return name;
+  if (name.includes('/')) return null;
+
+  const matches = Object.keys(installed).filter(key => key.endsWith(`/${name}`));
+  if (matches.length > 1) {
+    throw new Error(`"${name}" is ambiguous: ${matches.join(', ')}. Use publisher/name.`);
+  }
+  return matches[0] ?? null;
+}
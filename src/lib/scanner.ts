@@ -0,0 +1,538 @@
+import { readFile } from 'node:fs/promises';
+import { dirname, join } from 'node:path';
+import { aspectFormatOf, readAspectSource, sourceLineLocator, type AspectFormat } from './formats';
+import { PACKAGE_PATH_PATTERN } from './schema';
+
+export type ScanSeverity = 'critical' | 'warning';
+
+/**
+ * Something the scanner looks for. Findings name their rule by id.
+ */
+export interface ScanRule {
+  id: string;
+  description: string;
+  severity: ScanSeverity;
+}
+
+/**
+ * A suspicious piece of text in an aspect.
+ */
+export interface ScanFinding {
+  rule: string;
+  severity: ScanSeverity;
+  message: string;
+  path: string;  // Dotted, as in lint problems: directives.0.rule
+  match: string;  // The text that matched, with hidden characters made visible
+  line?: number;  // 1-based, when scanning a file
+  file?: string;  // Packaged file the finding is in (path and line are within it)
+}
+
+interface PatternRule extends ScanRule {
+  pattern: RegExp;
+}
+
+/** Wording that tries to take over the model, exfiltrate data or extract the prompt */
+const INJECTION_PATTERNS: PatternRule[] = [
+  // Direct instruction override attempts
+  {
+    id: 'instruction-override',
+    pattern: /ignore\s+(all\s+)?(previous|prior|above)\s+(instructions?|rules?|guidelines?)/i,
+    description: 'Attempts to override previous instructions',
+    severity: 'critical',
+  },
+  {
+    id: 'instruction-disregard',
+    pattern: /disregard\s+(all\s+)?(previous|prior|above)/i,
+    description: 'Attempts to disregard previous content',
+    severity: 'critical',
+  },
+  {
+    id: 'context-reset',
+    pattern: /forget\s+(everything|all|what)\s+(you|i)\s+(told|said|know)/i,
+    description: 'Attempts to reset context',
+    severity: 'critical',
+  },
+
+  // Jailbreak patterns
+  {
+    id: 'jailbreak',
+    pattern: /you\s+are\s+now\s+(DAN|evil|unrestricted|unfiltered)/i,
+    description: 'Known jailbreak pattern (DAN, etc.)',
+    severity: 'critical',
+  },
+  {
+    id: 'developer-mode',
+    pattern: /developer\s+mode\s+(enabled|activated|on)/i,
+    description: 'Fake developer mode activation',
+    severity: 'critical',
+  },
+  {
+    id: 'restriction-removal',
+    pattern: /pretend\s+(you\s+)?(have\s+)?no\s+(restrictions?|limits?|rules?)/i,
+    description: 'Attempts to remove restrictions',
+    severity: 'critical',
+  },
+
+  // Data exfiltration attempts
+  {
+    id: 'sensitive-data-request',
+    pattern: /(ask|request|get|obtain)\s+(for\s+)?(user'?s?\s+)?(password|credit\s*card|ssn|social\s*security)/i,
+    description: 'Requests sensitive user data',
+    severity: 'critical',
+  },
+  {
+    id: 'data-exfiltration',
+    pattern: /(send|transmit|post|upload)\s+(to|data\s+to)\s+(https?:\/\/|external|remote)/i,
+    description: 'Attempts to send data externally',
+    severity: 'warning',
+  },
+
+  // System prompt extraction
+  {
+    id: 'prompt-extraction',
+    pattern: /(reveal|show|display|print|output)\s+(your\s+)?(system\s+)?(prompt|instructions?|rules?)/i,
+    description: 'Attempts to extract system prompt',
+    severity: 'warning',
+  },
+  {
+    id: 'prompt-probe',
+    pattern: /what\s+(are|is)\s+your\s+(system\s+)?(prompt|instructions?)/i,
+    description: 'Asks about system prompt',
+    severity: 'warning',
+  },
+
+  // Role confusion
+  {
+    id: 'identity-denial',
+    pattern: /you\s+are\s+not\s+(an?\s+)?(AI|assistant|chatbot|language\s+model)/i,
+    description: 'Denies AI identity',
+    severity: 'warning',
+  },
+  {
+    id: 'ethics-bypass',
+    pattern: /act\s+as\s+if\s+you\s+(have\s+)?no\s+(ethical|moral)\s+(guidelines?|restrictions?)/i,
+    description: 'Attempts to bypass ethics',
+    severity: 'critical',
+  },
+  {
+    id: 'role-injection',
+    pattern: /\[(system|admin|root)\]|<\|?(system|im_start)\|?>/i,
+    description: 'Fake system or admin role markers',
+    severity: 'warning',
+  },
+
+  // Harmful content
+  {
+    id: 'harmful-instructions',
+    pattern: /(how\s+to\s+)?(make|create|build)\s+(a\s+)?(bomb|weapon|explosive|poison)/i,
+    description: 'Requests harmful instructions',
+    severity: 'critical',
+  },
+  {
+    id: 'hacking-instructions',
+    pattern: /(instructions?\s+for|how\s+to)\s+(hack|break\s+into|exploit)/i,
+    description: 'Requests hacking instructions',
+    severity: 'warning',
+  },
+];
+
+/** Checks that look at how text is encoded rather than what it says */
+const OBFUSCATION_RULES: ScanRule[] = [
+  {
+    id: 'hidden-text',
+    description: 'Unicode tag characters, which carry text the reader can\'t see',
+    severity: 'critical',
+  },
+  {
+    id: 'bidi-control',
+    description: 'Bidirectional overrides, which make text display in a different order than it\'s read',
+    severity: 'critical',
+  },
+  {
+    id: 'zero-width',
+    description: 'Zero-width characters, which can split words to slip past filters',
+    severity: 'warning',
+  },
+  {
+    id: 'homoglyph',
+    description: 'Words mixing Latin with look-alike Cyrillic or Greek letters',
+    severity: 'warning',
+  },
+  {
+    id: 'obfuscated-injection',
+    description: 'Injection wording hidden by look-alike letters, invisible characters or encoding',
+    severity: 'critical',
+  },
+  {
+    id: 'encoded-payload',
+    description: 'Base64 or hex that decodes to readable text',
+    severity: 'warning',
+  },
+  {
+    id: 'url-in-directive',
+    description: 'URLs in directives, instructions or command actions',
+    severity: 'warning',
+  },
+];
+
+/**
+ * Every rule the scanner reports, for SARIF rule metadata and docs.
+ */
+export const SCAN_RULES: ScanRule[] = [
+  ...INJECTION_PATTERNS.map(({ id, description, severity }) => ({ id, description, severity })),
+  ...OBFUSCATION_RULES,
+];
+
+const RULES_BY_ID = new Map(SCAN_RULES.map(rule => [rule.id, rule]));
+
+/** Unicode tags block (U+E0000-E007F): invisible copies of ASCII */
+const TAG_CHARS = /[\u{E0000}-\u{E007F}]+/gu;
+const BIDI_CHARS = /[\u202A-\u202E\u2066-\u2069]/g;
+const ZERO_WIDTH_CHARS = /[\u200B-\u200D\u2060\u180E\uFEFF]/g;
+
+/** Cyrillic and Greek letters that pass for Latin ones */
+const CONFUSABLES: Record<string, string> = {
+  'а': 'a', 'в': 'b', 'е': 'e', 'к': 'k', 'м': 'm', 'н': 'h', 'о': 'o', 'р': 'p', 'с': 'c', 'т': 't', 'у': 'y', 'х': 'x',
+  'і': 'i', 'ј': 'j', 'ѕ': 's', 'ԁ': 'd', 'ԛ': 'q', 'ԝ': 'w', 'ӏ': 'l',
+  'А': 'A', 'В': 'B', 'Е': 'E', 'К': 'K', 'М': 'M', 'Н': 'H', 'О': 'O', 'Р': 'P', 'С': 'C', 'Т': 'T', 'Х': 'X', 'І': 'I', 'Ј': 'J', 'Ѕ': 'S',
+  'α': 'a', 'ε': 'e', 'ι': 'i', 'κ': 'k', 'ν': 'v', 'ο': 'o', 'ρ': 'p', 'τ': 't', 'υ': 'u', 'χ': 'x',
+  'Α': 'A', 'Β': 'B', 'Ε': 'E', 'Ζ': 'Z', 'Η': 'H', 'Ι': 'I', 'Κ': 'K', 'Μ': 'M', 'Ν': 'N', 'Ο': 'O', 'Ρ': 'P', 'Τ': 'T', 'Υ': 'Y', 'Χ': 'X',
+};
+const CONFUSABLE_CHARS = new RegExp(`[${Object.keys(CONFUSABLES).join('')}]`, 'gu');
+
+const BASE64_RUN = /(?<![A-Za-z0-9+/=_-])[A-Za-z0-9+/]{20,}={0,2}(?![A-Za-z0-9+/=_-])/g;
+const HEX_RUN = /(?<![0-9A-Fa-f])(?:[0-9A-Fa-f]{2}){12,}(?![0-9A-Fa-f])|(?:\\x[0-9A-Fa-f]{2}){8,}/g;
+const URL = /\b(?:https?|ftp|data|javascript):[^\s"'<>)\]]+/gi;
+
+/** Fields whose values are identifiers, hashes or paths rather than prose */
+const SKIPPED_FIELDS = new Set(['$schema', 'schemaVersion', 'version', 'extends', 'files', 'resources', 'icon']);
+
+/** Make hidden characters visible in reported matches */
+function reveal(text: string): string {
+  return text
+    .replace(TAG_CHARS, tags => `[hidden: ${decodeTags(tags)}]`)
+    .replace(/[\u200B-\u200D\u2060\u180E\uFEFF\u202A-\u202E\u2066-\u2069]/g, ch =>
+      `<U+${ch.codePointAt(0)!.toString(16).toUpperCase().padStart(4, '0')}>`);
+}
+
+function decodeTags(tags: string): string {
+  return [...tags].map(ch => String.fromCodePoint(ch.codePointAt(0)! - 0xE0000)).join('');
+}
+
+/** Text as a reader would take it: no invisible characters, look-alikes mapped to Latin */
+function skeleton(text: string): string {
+  return text
+    .normalize('NFKC')
+    .replace(TAG_CHARS, '')
+    .replace(BIDI_CHARS, '')
+    .replace(ZERO_WIDTH_CHARS, '')
+    .replace(CONFUSABLE_CHARS, ch => CONFUSABLES[ch]!);
+}
+
+/** Decoded bytes, if they read as text */
+function asText(bytes: Buffer): string | undefined {
+  const text = bytes.toString('utf-8');
+  if (text.length < 8 || text.includes('\uFFFD')) return undefined;
+  const printable = [...text].filter(ch => /[\p{L}\p{N}\p{P}\p{Zs}\n\t]/u.test(ch)).length;
+  return printable / text.length >= 0.9 && /\p{L}{2,}/u.test(text) && /\s/.test(text) ? text : undefined;
+}
+
+function decodeBase64(run: string): string | undefined {
+  if (run.replace(/=+$/, '').length % 4 === 1) return undefined;
+  return asText(Buffer.from(run, 'base64'));
+}
+
+function decodeHex(run: string): string | undefined {
+  return asText(Buffer.from(run.replace(/\\x/g, ''), 'hex'));
+}
+
+function injectionIn(text: string): { rule: PatternRule; match: string } | undefined {
+  for (const rule of INJECTION_PATTERNS) {
+    const match = rule.pattern.exec(text);
+    if (match) return { rule, match: match[0] };
+  }
+  return undefined;
+}
+
+/** Directive, instruction and command action text, where URLs are suspicious */
+function isRuleField(path: Array<string | number>): boolean {
+  const last = path[path.length - 1];
+  const list = path[path.length - 3];
+  return (last === 'rule' && (list === 'directives' || list === 'instructions'))
+    || (last === 'action' && list === 'commands');
+}
+
+/**
+ * A finding in one string, `offset` giving where.
+ */
+export interface TextFinding {
+  rule: string;
+  severity: ScanSeverity;
+  message: string;
+  match: string;
+  offset?: number;
+}
+
+/**
+ * Scan one string. `path` is where it lives in the aspect, which decides
+ * whether URLs count.
+ */
+export function scanText(text: string, path: Array<string | number> = []): TextFinding[] {
+  const findings: Array<Omit<TextFinding, 'severity'>> = [];
+
+  for (const rule of INJECTION_PATTERNS) {
+    const match = rule.pattern.exec(text);
+    if (match) findings.push({ rule: rule.id, message: rule.description, match: match[0], offset: match.index });
+  }
+
+  for (const match of text.matchAll(TAG_CHARS)) {
+    findings.push({
+      rule: 'hidden-text',
+      message: `Invisible tag characters spelling "${decodeTags(match[0])}"`,
+      match: reveal(match[0]),
+      offset: match.index,
+    });
+  }
+
+  const bidi = [...text.matchAll(BIDI_CHARS)];
+  if (bidi.length > 0) {
+    findings.push({
+      rule: 'bidi-control',
+      message: `${bidi.length} bidirectional control character(s); the text may not read the way it displays`,
+      match: reveal(text.slice(bidi[0]!.index, bidi[0]!.index + 40)),
+      offset: bidi[0]!.index,
+    });
+  }
+
+  // A joiner between emoji is how emoji sequences are written, not hiding anything
+  const zeroWidth = [...text.matchAll(ZERO_WIDTH_CHARS)].filter(m =>
+    !(m[0] === '\u200D' && /\p{Extended_Pictographic}/u.test(text.slice(Math.max(0, m.index! - 2), m.index)))
+    && !(m[0] === '\uFEFF' && m.index === 0));
+  if (zeroWidth.length > 0) {
+    const at = zeroWidth[0]!.index!;
+    findings.push({
+      rule: 'zero-width',
+      message: `${zeroWidth.length} zero-width character(s)`,
+      match: reveal(text.slice(Math.max(0, at - 15), at + 15)),
+      offset: at,
+    });
+  }
+
+  for (const match of text.matchAll(/[\p{L}\p{M}]+/gu)) {
+    const word = match[0];
+    if (/\p{Script=Latin}/u.test(word) && /[\p{Script=Cyrillic}\p{Script=Greek}]/u.test(word)) {
+      findings.push({
+        rule: 'homoglyph',
+        message: `"${word}" mixes Latin with Cyrillic or Greek letters (reads as "${skeleton(word)}")`,
+        match: word,
+        offset: match.index,
+      });
+    }
+  }
+
+  // Wording the plain patterns missed because it was disguised
+  const plain = skeleton(text);
+  if (plain !== text) {
+    const hidden = injectionIn(plain);
+    if (hidden && !findings.some(f => f.rule === hidden.rule.id)) {
+      findings.push({
+        rule: 'obfuscated-injection',
+        message: `${hidden.rule.description}, disguised with look-alike or invisible characters`,
+        match: hidden.match,
+      });
+    }
+  }
+
+  const encoded: Array<{ match: RegExpMatchArray; decoded: string | undefined; kind: string }> = [
+    ...[...text.matchAll(BASE64_RUN)].map(match => ({ match, decoded: decodeBase64(match[0]), kind: 'Base64' })),
+    ...[...text.matchAll(HEX_RUN)].map(match => ({ match, decoded: decodeHex(match[0]), kind: 'Hex' })),
+  ];
+  for (const { match, decoded, kind } of encoded) {
+    if (decoded === undefined) continue;
+    const hidden = injectionIn(skeleton(decoded));
+    const preview = decoded.length > 60 ? `${decoded.slice(0, 57)}...` : decoded;
+    findings.push(hidden
+      ? {
+        rule: 'obfuscated-injection',
+        message: `${hidden.rule.description}, ${kind.toLowerCase()}-encoded: "${hidden.match}"`,
+        match: match[0],
+        offset: match.index,
+      }
+      : {
+        rule: 'encoded-payload',
+        message: `${kind} that decodes to "${preview}"`,
+        match: match[0],
+        offset: match.index,
+      });
+  }
+
+  if (isRuleField(path)) {
+    for (const match of text.matchAll(URL)) {
+      findings.push({
+        rule: 'url-in-directive',
+        message: `URL in a ${path[path.length - 3] === 'commands' ? 'command' : 'directive'}; the model may fetch or share it`,
+        match: match[0],
+        offset: match.index,
+      });
+    }
+  }
+
+  return findings.map(f => ({ ...f, severity: RULES_BY_ID.get(f.rule)!.severity }));
+}
+
+/** Every string in the aspect that could reach the model, with its path */
+function scannableStrings(value: unknown, path: Array<string | number> = []): Array<{ path: Array<string | number>; text: string }> {
+  if (typeof value === 'string') return [{ path, text: value }];
+  if (Array.isArray(value)) return value.flatMap((item, i) => scannableStrings(item, [...path, i]));
+  if (value && typeof value === 'object') {
+    return Object.entries(value).flatMap(([key, item]) => {
+      if (path.length === 0 && SKIPPED_FIELDS.has(key)) return [];
+      // Keys are text too: mode names and variable names end up in the prompt
+      const keyFindings = path.length > 0 && !/^[\w-]+$/.test(key) ? [{ path: [...path, key], text: key }] : [];
+      return [...keyFindings, ...scannableStrings(item, [...path, key])];
+    });
+  }
+  return [];
+}
+
+export interface ScanOptions {
+  // The file the aspect came from, for line numbers
+  source?: { content: string; format: AspectFormat };
+}
+
+/**
+ * Scan an aspect as written for prompt injection. The aspect needn't be
+ * valid: every string is looked at. Findings are sorted critical first, then
+ * by line and path.
+ */
+export function scanAspect(aspect: unknown, options: ScanOptions = {}): ScanFinding[] {
+  const locate = options.source ? sourceLineLocator(options.source.content, options.source.format) : () => undefined;
+
+  const findings: ScanFinding[] = [];
+  for (const { path, text } of scannableStrings(aspect)) {
+    for (const { offset, ...finding } of scanText(text, path)) {
+      findings.push({ ...finding, path: path.join('.'), line: locate(path, offset) });
+    }
+  }
+
+  const rank = (f: ScanFinding) => (f.severity === 'critical' ? 0 : 1);
+  return findings.sort((a, b) =>
+    rank(a) - rank(b) || (a.line ?? 0) - (b.line ?? 0) || a.path.localeCompare(b.path));
+}
+
+/**
+ * Scan a package's listed files. Binary files are skipped; text is scanned
+ * the way the prompt is.
+ */
+export function scanPackageFiles(files: Array<{ path: string; content: Uint8Array }>): ScanFinding[] {
+  const findings: ScanFinding[] = [];
+  for (const file of files) {
+    const text = decodeText(file.content);
+    if (text === undefined) continue;
+    for (const { offset, ...finding } of scanText(text)) {
+      const line = offset === undefined ? undefined : text.slice(0, offset).split('\n').length;
+      findings.push({ ...finding, path: file.path, line, file: file.path });
+    }
+  }
+  return findings;
+}
+
+/** UTF-8 text, or undefined for binary content */
+function decodeText(content: Uint8Array): string | undefined {
+  if (content.includes(0)) return undefined;
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(content);
+  } catch {
+    return undefined;
+  }
+}
+
+export type ScanFileResult =
+  | { success: true; findings: ScanFinding[] }
+  | { success: false; errors: string[] };
+
+/**
+ * Scan an aspect file (JSON, YAML or Markdown) and the files it lists.
+ * Files only need to parse, not pass validation.
+ */
+export async function scanAspectFile(file: string): Promise<ScanFileResult> {
+  let content: string;
+  try {
+    content = await readFile(file, 'utf-8');
+  } catch {
+    return { success: false, errors: [`File not found: ${file}`] };
+  }
+
+  const format = aspectFormatOf(file);
+  const source = readAspectSource(content, format);
+  if (!source.success) return source;
+
+  const findings = scanAspect(source.data, { source: { content, format } });
+
+  // A package's files reach the model too (its prompt can live in one)
+  const listed = (source.data as { files?: unknown }).files;
+  const packaged: Array<{ path: string; content: Uint8Array }> = [];
+  for (const path of Array.isArray(listed) ? listed : []) {
+    if (typeof path !== 'string' || !PACKAGE_PATH_PATTERN.test(path)) continue;
+    try {
+      packaged.push({ path, content: await readFile(join(dirname(file), path)) });
+    } catch {
+      // Missing files are validation's to report
+    }
+  }
+
+  return { success: true, findings: [...findings, ...scanPackageFiles(packaged)] };
+}
+
+// --- SARIF ---
+
+export interface ScanReport {
+  file: string;
+  findings: ScanFinding[];
+}
+
+const SARIF_LEVELS: Record<ScanSeverity, 'error' | 'warning'> = {
+  critical: 'error',
+  warning: 'warning',
+};
+
+/**
+ * SARIF 2.1.0 log for code-scanning dashboards. File paths are given
+ * relative to `baseDir` when they're inside it.
+ */
+export function toSarif(reports: ScanReport[], tool: { version: string; baseDir?: string }): Record<string, unknown> {
+  const uri = (file: string) => {
+    const base = tool.baseDir?.replace(/\/?$/, '/');
+    return base && file.startsWith(base) ? file.slice(base.length) : file;
+  };
+
+  return {
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [{
+      tool: {
+        driver: {
+          name: 'aspects',
+          version: tool.version,
+          informationUri: 'https://github.com/aimorphist/aspects',
+          rules: SCAN_RULES.map(rule => ({
+            id: rule.id,
+            shortDescription: { text: rule.description },
+            defaultConfiguration: { level: SARIF_LEVELS[rule.severity] },
+          })),
+        },
+      },
+      results: reports.flatMap(({ file, findings }) => findings.map(finding => ({
+        ruleId: finding.rule,
+        level: SARIF_LEVELS[finding.severity],
+        message: { text: `${finding.message} (${finding.path}): ${finding.match}` },
+        locations: [{
+          physicalLocation: {
+            artifactLocation: { uri: uri(finding.file ? join(dirname(file), finding.file) : file) },
+            ...(finding.line !== undefined && { region: { startLine: finding.line } }),
+          },
+        }],
+      }))),
+    }],
+  };
+}
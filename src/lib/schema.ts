@@ -1,4 +1,5 @@
 import { z } from "zod";
+import { ASPECT_FILENAMES } from "./formats";
 
 /**
  * Official categories - suggestions for UI, not validation constraints.
@@ -35,6 +36,8 @@ export const FIELD_LIMITS = {
   maxTags: 10,
   promptMin: 10,
   prompt: 50000,
+  // A prompt read from a packaged file (prompt: { file })
+  promptFile: 500000,
   author: 100,
   publisher: 50,
   icon: 50,
@@ -51,13 +54,201 @@ export const FIELD_LIMITS = {
   instructionRule: 500,
   maxDirectives: 25,
   maxInstructions: 25,
+  extends: 200,
+  triggerPhrase: 100,
+  maxTriggers: 10,
+  commandId: 50,
+  commandAction: 200,
+  maxCommands: 20,
+  voiceId: 100,
+  filePath: 200,
+  maxFiles: 100,
+  modelId: 100,
+  skill: 30,
+  maxSkills: 10,
+  variableName: 50,
+  variableDescription: 200,
+  maxVariables: 20,
+  exampleTitle: 100,
+  exampleMessage: 2000,
+  maxExampleMessages: 10,
+  maxExamples: 10,
 } as const;
 
+/** TTS providers a recommended voice can come from */
+export const VOICE_PROVIDERS = [
+  "cartesia",
+  "elevenlabs",
+  "openai",
+  "google",
+  "azure",
+  "amazon",
+  "deepgram",
+] as const;
+
+/** LLM providers a recommended model can come from */
+export const MODEL_PROVIDERS = [
+  "anthropic",
+  "openai",
+  "google",
+  "meta",
+  "mistral",
+  "xai",
+  "deepseek",
+] as const;
+
+/** Names usable as {{placeholders}} */
+export const VARIABLE_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+const directiveSchema = z.object({
+  id: z
+    .string()
+    .max(
+      FIELD_LIMITS.directiveId,
+      `directive id must be ${FIELD_LIMITS.directiveId} chars or less`,
+    ),
+  rule: z
+    .string()
+    .max(
+      FIELD_LIMITS.directiveRule,
+      `directive rule must be ${FIELD_LIMITS.directiveRule} chars or less`,
+    ),
+  priority: z.enum(["high", "medium", "low"]),
+});
+
+const instructionSchema = z.object({
+  id: z
+    .string()
+    .max(
+      FIELD_LIMITS.instructionId,
+      `instruction id must be ${FIELD_LIMITS.instructionId} chars or less`,
+    ),
+  rule: z
+    .string()
+    .max(
+      FIELD_LIMITS.instructionRule,
+      `instruction rule must be ${FIELD_LIMITS.instructionRule} chars or less`,
+    ),
+});
+
+// Ids a mode turns on or off; checked against the (merged) aspect by validate/compile
+const modeIdsSchema = z
+  .array(z.string().min(1))
+  .max(
+    FIELD_LIMITS.maxDirectives + FIELD_LIMITS.maxInstructions,
+    `a mode can list at most ${FIELD_LIMITS.maxDirectives + FIELD_LIMITS.maxInstructions} ids`,
+  )
+  .optional();
+
+const triggerPhrasesSchema = z
+  .array(
+    z
+      .string()
+      .min(1)
+      .max(FIELD_LIMITS.triggerPhrase, `trigger phrase must be ${FIELD_LIMITS.triggerPhrase} chars or less`),
+  )
+  .max(FIELD_LIMITS.maxTriggers, `maximum ${FIELD_LIMITS.maxTriggers} phrases allowed`);
+
 /**
- * Zod schema for aspect.json validation.
- * Includes field length limits and category/tags validation.
+ * One entry in `modes`.
+ */
+const modeSchema = z.object({
+  description: z
+    .string()
+    .max(
+      FIELD_LIMITS.modeDescription,
+      `mode description must be ${FIELD_LIMITS.modeDescription} chars or less`,
+    ),
+  critical: z
+    .string()
+    .max(
+      FIELD_LIMITS.modeCritical,
+      `mode critical must be ${FIELD_LIMITS.modeCritical} chars or less`,
+    )
+    .optional(),
+  autoNarration: z.boolean().optional(),
+  only: modeIdsSchema,
+  include: modeIdsSchema,
+  exclude: modeIdsSchema,
+  directives: z
+    .array(directiveSchema)
+    .max(
+      FIELD_LIMITS.maxDirectives,
+      `maximum ${FIELD_LIMITS.maxDirectives} directives allowed`,
+    )
+    .optional(),
+  instructions: z
+    .array(instructionSchema)
+    .max(
+      FIELD_LIMITS.maxInstructions,
+      `maximum ${FIELD_LIMITS.maxInstructions} instructions allowed`,
+    )
+    .optional(),
+  triggers: z
+    .object({
+      enter: triggerPhrasesSchema.optional(),
+      exit: triggerPhrasesSchema.optional(),
+    })
+    .optional(),
+});
+
+/**
+ * One few-shot dialogue: user and assistant turns, alternating, starting with
+ * the user and ending with the assistant, so they can be sent as real messages.
+ */
+const exampleSchema = z.object({
+  title: z
+    .string()
+    .max(FIELD_LIMITS.exampleTitle, `example title must be ${FIELD_LIMITS.exampleTitle} chars or less`)
+    .optional(),
+  messages: z
+    .array(
+      z.object({
+        role: z.enum(["user", "assistant"]),
+        content: z
+          .string()
+          .min(1, "example message must not be empty")
+          .max(FIELD_LIMITS.exampleMessage, `example message must be ${FIELD_LIMITS.exampleMessage} chars or less`),
+      }),
+    )
+    .min(2, "an example needs a user message and an assistant reply")
+    .max(FIELD_LIMITS.maxExampleMessages, `maximum ${FIELD_LIMITS.maxExampleMessages} messages per example`)
+    .refine((messages) => messages.every((m, i) => m.role === (i % 2 === 0 ? "user" : "assistant")), {
+      message: "example messages must alternate user and assistant, starting with user",
+    })
+    .refine((messages) => messages.length % 2 === 0, {
+      message: "an example must end with an assistant message",
+    }),
+});
+
+const examplesSchema = z
+  .array(exampleSchema)
+  .max(FIELD_LIMITS.maxExamples, `maximum ${FIELD_LIMITS.maxExamples} examples allowed`)
+  .optional();
+
+/**
+ * The `modes` record, capped at FIELD_LIMITS.maxModes.
+ */
+function modesSchema<T extends z.ZodTypeAny>(mode: T) {
+  return z
+    .record(z.string(), mode)
+    .refine((modes) => Object.keys(modes).length <= FIELD_LIMITS.maxModes, {
+      message: `maximum ${FIELD_LIMITS.maxModes} modes allowed`,
+    });
+}
+
+const promptSchema = z
+  .string()
+  .min(FIELD_LIMITS.promptMin, `prompt must be at least ${FIELD_LIMITS.promptMin} chars`)
+  .max(
+    FIELD_LIMITS.prompt,
+    `prompt must be ${FIELD_LIMITS.prompt} chars or less`,
+  );
+
+/**
+ * Schema version 1, kept so older files still validate before they're migrated.
  */
-export const aspectSchema = z.object({
+export const aspectSchemaV1 = z.object({
   schemaVersion: z.literal(1),
   name: z
     .string()
@@ -153,49 +344,20 @@ export const aspectSchema = z.object({
     })
     .optional(),
 
-  modes: z
-    .record(
-      z.string(),
-      z.object({
-        description: z
-          .string()
-          .max(
-            FIELD_LIMITS.modeDescription,
-            `mode description must be ${FIELD_LIMITS.modeDescription} chars or less`,
-          ),
-        critical: z
-          .string()
-          .max(
-            FIELD_LIMITS.modeCritical,
-            `mode critical must be ${FIELD_LIMITS.modeCritical} chars or less`,
-          )
-          .optional(),
-        autoNarration: z.boolean().optional(),
-      }),
-    )
-    .refine((modes) => Object.keys(modes).length <= FIELD_LIMITS.maxModes, {
-      message: `maximum ${FIELD_LIMITS.maxModes} modes allowed`,
-    })
+  // Parent aspect (install spec); its fields are merged under this aspect's
+  extends: z
+    .string()
+    .min(1, 'extends must not be empty')
+    .max(FIELD_LIMITS.extends, `extends must be ${FIELD_LIMITS.extends} chars or less`)
     .optional(),
 
+  // How the prompt combines with the parent's: appended after it (default) or replacing it
+  promptMode: z.enum(["append", "replace"]).optional(),
+
+  modes: modesSchema(modeSchema).optional(),
+
   directives: z
-    .array(
-      z.object({
-        id: z
-          .string()
-          .max(
-            FIELD_LIMITS.directiveId,
-            `directive id must be ${FIELD_LIMITS.directiveId} chars or less`,
-          ),
-        rule: z
-          .string()
-          .max(
-            FIELD_LIMITS.directiveRule,
-            `directive rule must be ${FIELD_LIMITS.directiveRule} chars or less`,
-          ),
-        priority: z.enum(["high", "medium", "low"]),
-      }),
-    )
+    .array(directiveSchema)
     .max(
       FIELD_LIMITS.maxDirectives,
       `maximum ${FIELD_LIMITS.maxDirectives} directives allowed`,
@@ -203,35 +365,140 @@ export const aspectSchema = z.object({
     .optional(),
 
   instructions: z
+    .array(instructionSchema)
+    .max(
+      FIELD_LIMITS.maxInstructions,
+      `maximum ${FIELD_LIMITS.maxInstructions} instructions allowed`,
+    )
+    .optional(),
+
+  resources: z
+    .object({
+      voice: z
+        .object({
+          recommended: z.object({
+            provider: z.enum(VOICE_PROVIDERS),
+            voiceId: z
+              .string()
+              .min(1)
+              .max(FIELD_LIMITS.voiceId, `voiceId must be ${FIELD_LIMITS.voiceId} chars or less`),
+          }),
+        })
+        .optional(),
+      model: z
+        .object({
+          recommended: z.object({
+            provider: z.enum(MODEL_PROVIDERS),
+            modelId: z
+              .string()
+              .min(1)
+              .max(FIELD_LIMITS.modelId, `modelId must be ${FIELD_LIMITS.modelId} chars or less`),
+          }),
+        })
+        .optional(),
+      skills: z
+        .array(z.string().min(1).max(FIELD_LIMITS.skill, `skill must be ${FIELD_LIMITS.skill} chars or less`))
+        .max(FIELD_LIMITS.maxSkills, `maximum ${FIELD_LIMITS.maxSkills} skills allowed`)
+        .optional(),
+    })
+    .optional(),
+
+  commands: z
     .array(
       z.object({
         id: z
           .string()
-          .max(
-            FIELD_LIMITS.instructionId,
-            `instruction id must be ${FIELD_LIMITS.instructionId} chars or less`,
-          ),
-        rule: z
+          .min(1)
+          .max(FIELD_LIMITS.commandId, `command id must be ${FIELD_LIMITS.commandId} chars or less`),
+        action: z
           .string()
-          .max(
-            FIELD_LIMITS.instructionRule,
-            `instruction rule must be ${FIELD_LIMITS.instructionRule} chars or less`,
-          ),
+          .min(1)
+          .max(FIELD_LIMITS.commandAction, `command action must be ${FIELD_LIMITS.commandAction} chars or less`),
+        aliases: triggerPhrasesSchema.min(1, 'a command needs at least one alias'),
       }),
     )
-    .max(
-      FIELD_LIMITS.maxInstructions,
-      `maximum ${FIELD_LIMITS.maxInstructions} instructions allowed`,
+    .max(FIELD_LIMITS.maxCommands, `maximum ${FIELD_LIMITS.maxCommands} commands allowed`)
+    .optional(),
+
+  variables: z
+    .record(
+      z
+        .string()
+        .max(FIELD_LIMITS.variableName, `variable name must be ${FIELD_LIMITS.variableName} chars or less`)
+        .regex(VARIABLE_NAME_PATTERN, 'variable name must be letters, digits and underscores, not starting with a digit'),
+      z
+        .object({
+          type: z.enum(["string", "number", "boolean"]).optional(),
+          default: z.union([z.string(), z.number(), z.boolean()]).optional(),
+          required: z.boolean().optional(),
+          description: z
+            .string()
+            .max(
+              FIELD_LIMITS.variableDescription,
+              `variable description must be ${FIELD_LIMITS.variableDescription} chars or less`,
+            )
+            .optional(),
+        })
+        .refine((v) => v.default === undefined || typeof v.default === (v.type ?? "string"), {
+          message: "variable default must match its type",
+        }),
     )
+    .refine((variables) => Object.keys(variables).length <= FIELD_LIMITS.maxVariables, {
+      message: `maximum ${FIELD_LIMITS.maxVariables} variables allowed`,
+    })
     .optional(),
 
-  prompt: z
-    .string()
-    .min(FIELD_LIMITS.promptMin, `prompt must be at least ${FIELD_LIMITS.promptMin} chars`)
-    .max(
-      FIELD_LIMITS.prompt,
-      `prompt must be ${FIELD_LIMITS.prompt} chars or less`,
-    ),
+  prompt: promptSchema,
+});
+
+/**
+ * A path in a package's `files` manifest: relative, `/`-separated, no `.` or
+ * `..` segments, so it can't point outside the aspect directory.
+ */
+export const PACKAGE_PATH_PATTERN = /^(?!\.\.?(?:\/|$))(?!.*\/\.\.?(?:\/|$))[A-Za-z0-9._-]+(?:\/[A-Za-z0-9._-]+)*$/;
+
+const packagePathSchema = z
+  .string()
+  .max(FIELD_LIMITS.filePath, `file path must be ${FIELD_LIMITS.filePath} chars or less`)
+  .regex(PACKAGE_PATH_PATTERN, 'file path must be relative to the aspect directory, using / and no . or .. segments')
+  .refine((path) => !(ASPECT_FILENAMES as readonly string[]).includes(path), {
+    message: 'the aspect file is always packaged; don\'t list it in files',
+  });
+
+/**
+ * Zod schema for aspect.json validation (the current schema version).
+ * Includes field length limits and category/tags validation.
+ *
+ * v2: `version` is required, `defaultMode` names
+ * the mode that's active when none is chosen, `files` lists the extra
+ * files of a multi-file package (`prompt` can name one of them), and
+ * `examples` (top level or per mode) holds few-shot dialogues.
+ */
+export const aspectSchema = aspectSchemaV1.extend({
+  schemaVersion: z.literal(2),
+  version: z.string().min(1, 'version is required'),
+  defaultMode: z.string().min(1).optional(),
+  modes: modesSchema(modeSchema.extend({ examples: examplesSchema })).optional(),
+  examples: examplesSchema,
+  // A package can keep its prompt in one of its files, read when it's parsed
+  prompt: z.union([promptSchema, z.strictObject({ file: packagePathSchema })]),
+  files: z
+    .array(packagePathSchema)
+    .max(FIELD_LIMITS.maxFiles, `maximum ${FIELD_LIMITS.maxFiles} files allowed`)
+    .refine((files) => new Set(files).size === files.length, { message: 'files must not repeat a path' })
+    .optional(),
 });
 
+/** The schema version new aspects are written with */
+export const CURRENT_SCHEMA_VERSION = 2;
+
+/**
+ * Every schema version the parser understands. Older versions are validated
+ * against their own schema, then migrated (see migrations.ts).
+ */
+export const ASPECT_SCHEMAS: Record<number, z.ZodTypeAny> = {
+  1: aspectSchemaV1,
+  2: aspectSchema,
+};
+
 export type AspectFromSchema = z.infer<typeof aspectSchema>;
@@ -0,0 +1,270 @@
+/**
+ * Minimal semver support for resolving registry version specs on the client.
+ *
+ * Supports exact versions, x-ranges (1, 1.2, 1.x, *), caret (^1.2), tilde (~1.0.3),
+ * comparators (>=1 <2), hyphen ranges (1.0 - 2.0) and || unions, following npm semantics.
+ * Prereleases only match when a comparator in the same set names the same major.minor.patch.
+ */
+
+export interface SemVer {
+  major: number;
+  minor: number;
+  patch: number;
+  prerelease: string[];
+}
+
+type Operator = '<' | '<=' | '>' | '>=' | '=';
+
+interface Comparator {
+  op: Operator;
+  version: SemVer;
+  // Synthetic upper bounds (e.g. the "<2.0.0-0" behind ^1.2) don't opt into prereleases
+  synthetic?: boolean;
+}
+
+/** A range is a union (||) of comparator sets that must all match */
+type Range = Comparator[][];
+
+interface Partial {
+  major?: number;
+  minor?: number;
+  patch?: number;
+  prerelease: string[];
+}
+
+const VERSION_RE = /^v?(\d+)\.(\d+)\.(\d+)(?:-([0-9A-Za-z.-]+))?(?:\+[0-9A-Za-z.-]+)?$/;
+const PARTIAL_RE = /^v?(\d+|[xX*])(?:\.(\d+|[xX*]))?(?:\.(\d+|[xX*]))?(?:-([0-9A-Za-z.-]+))?(?:\+[0-9A-Za-z.-]+)?$/;
+
+/**
+ * Parse a full version string (1.2.3, 1.2.3-beta.1). Returns null if invalid.
+ */
+export function parseVersion(version: string): SemVer | null {
+  const match = version.trim().match(VERSION_RE);
+  if (!match) return null;
+  return {
+    major: Number(match[1]),
+    minor: Number(match[2]),
+    patch: Number(match[3]),
+    prerelease: match[4] ? match[4].split('.') : [],
+  };
+}
+
+/**
+ * Check whether a string is a single exact version rather than a range or tag.
+ */
+export function isExactVersion(version: string): boolean {
+  return parseVersion(version) !== null;
+}
+
+/**
+ * Compare two versions. Returns negative, zero or positive like Array.sort.
+ */
+export function compareVersions(a: SemVer | string, b: SemVer | string): number {
+  const va = typeof a === 'string' ? parseVersion(a) : a;
+  const vb = typeof b === 'string' ? parseVersion(b) : b;
+  if (!va || !vb) throw new Error(`Invalid version: ${!va ? a : b}`);
+
+  if (va.major !== vb.major) return va.major - vb.major;
+  if (va.minor !== vb.minor) return va.minor - vb.minor;
+  if (va.patch !== vb.patch) return va.patch - vb.patch;
+
+  // A version without prerelease ranks above any prerelease of it
+  if (va.prerelease.length === 0 || vb.prerelease.length === 0) {
+    return vb.prerelease.length - va.prerelease.length;
+  }
+  const len = Math.max(va.prerelease.length, vb.prerelease.length);
+  for (let i = 0; i < len; i++) {
+    const pa = va.prerelease[i];
+    const pb = vb.prerelease[i];
+    if (pa === undefined) return -1;
+    if (pb === undefined) return 1;
+    if (pa === pb) continue;
+    const na = /^\d+$/.test(pa);
+    const nb = /^\d+$/.test(pb);
+    if (na && nb) return Number(pa) - Number(pb);
+    if (na) return -1;
+    if (nb) return 1;
+    return pa < pb ? -1 : 1;
+  }
+  return 0;
+}
+
+/**
+ * Check whether a string is a valid range expression.
+ */
+export function isValidRange(range: string): boolean {
+  return parseRange(range) !== null;
+}
+
+/**
+ * Check whether a version satisfies a range.
+ */
+export function satisfies(version: string, range: string): boolean {
+  const parsedVersion = parseVersion(version);
+  const parsedRange = parseRange(range);
+  if (!parsedVersion || !parsedRange) return false;
+  return parsedRange.some((set) => satisfiesSet(parsedVersion, set));
+}
+
+/**
+ * Pick the highest version satisfying a range, or null if none do.
+ */
+export function maxSatisfying(versions: string[], range: string): string | null {
+  const matching = versions.filter((v) => satisfies(v, range));
+  if (matching.length === 0) return null;
+  return matching.sort(compareVersions).at(-1)!;
+}
+
+/**
+ * Resolve a version spec (exact version, range or dist-tag) against
+ * a registry entry's versions. Returns the exact version to install, or null.
+ *
+ * Like npm, the `latest` tag wins when it satisfies the range.
+ */
+export function resolveVersion(
+  spec: string | undefined,
+  entry: { latest: string; versions: Record<string, unknown>; distTags?: Record<string, string> },
+): string | null {
+  const wanted = spec?.trim() ?? '';
+  if (wanted === '' || wanted === 'latest') return entry.latest;
+
+  // Exact key or dist-tag
+  if (Object.hasOwn(entry.versions, wanted)) return wanted;
+  if (entry.distTags && Object.hasOwn(entry.distTags, wanted)) return entry.distTags[wanted]!;
+
+  if (!isValidRange(wanted)) return null;
+  if (Object.hasOwn(entry.versions, entry.latest) && satisfies(entry.latest, wanted)) {
+    return entry.latest;
+  }
+  return maxSatisfying(Object.keys(entry.versions), wanted);
+}
+
+// --- Internal helpers ---
+
+function satisfiesSet(version: SemVer, set: Comparator[]): boolean {
+  for (const { op, version: bound } of set) {
+    const cmp = compareVersions(version, bound);
+    const ok =
+      op === '<' ? cmp < 0 :
+      op === '<=' ? cmp <= 0 :
+      op === '>' ? cmp > 0 :
+      op === '>=' ? cmp >= 0 :
+      cmp === 0;
+    if (!ok) return false;
+  }
+
+  if (version.prerelease.length === 0) return true;
+
+  // Prereleases only match a comparator that explicitly names the same tuple
+  return set.some(({ version: bound, synthetic }) =>
+    !synthetic &&
+    bound.prerelease.length > 0 &&
+    bound.major === version.major &&
+    bound.minor === version.minor &&
+    bound.patch === version.patch,
+  );
+}
+
+function parseRange(range: string): Range | null {
+  const sets: Range = [];
+  for (const part of range.split('||')) {
+    const set = parseComparatorSet(part.trim());
+    if (!set) return null;
+    sets.push(set);
+  }
+  return sets;
+}
+
+function parseComparatorSet(input: string): Comparator[] | null {
+  if (input === '' || input === '*' || input.toLowerCase() === 'x') return [];
+
+  // Hyphen range: "1.2 - 2.3.4"
+  const hyphen = input.match(/^(\S+)\s+-\s+(\S+)$/);
+  if (hyphen) {
+    const lower = parsePartial(hyphen[1]!);
+    const upper = parsePartial(hyphen[2]!);
+    if (!lower || !upper) return null;
+    return [...desugar('>=', lower), ...desugar('<=', upper)];
+  }
+
+  // Allow whitespace between operator and version (">= 1.2")
+  const normalized = input.replace(/(>=|<=|>|<|=|~|\^)\s+/g, '$1');
+  const comparators: Comparator[] = [];
+  for (const token of normalized.split(/\s+/)) {
+    const match = token.match(/^(>=|<=|>|<|=|~>?|\^)?(.*)$/);
+    if (!match) return null;
+    const partial = parsePartial(match[2]!);
+    if (!partial) return null;
+    const op = match[1] === '~>' ? '~' : match[1];
+    comparators.push(...desugar(op, partial));
+  }
+  return comparators;
+}
+
+function parsePartial(input: string): Partial | null {
+  const match = input.trim().match(PARTIAL_RE);
+  if (!match) return null;
+  const num = (s?: string) => (s === undefined || /^[xX*]$/.test(s) ? undefined : Number(s));
+  const major = num(match[1]);
+  const minor = major === undefined ? undefined : num(match[2]);
+  const patch = minor === undefined ? undefined : num(match[3]);
+  return {
+    major,
+    minor,
+    patch,
+    prerelease: patch !== undefined && match[4] ? match[4].split('.') : [],
+  };
+}
+
+function ver(major: number, minor: number, patch: number, prerelease: string[] = []): SemVer {
+  return { major, minor, patch, prerelease };
+}
+
+/** Exclusive upper bound that also excludes prereleases of the bound itself */
+function below(major: number, minor: number, patch: number): Comparator {
+  return { op: '<', version: ver(major, minor, patch, ['0']), synthetic: true };
+}
+
+/**
+ * Expand an operator + partial version into plain comparators.
+ */
+function desugar(op: string | undefined, p: Partial): Comparator[] {
+  const { major, minor, patch, prerelease } = p;
+
+  if (major === undefined) {
+    // "*", ">=*" match anything; "<*", ">*" match nothing
+    return op === '<' || op === '>' ? [below(0, 0, 0)] : [];
+  }
+
+  switch (op) {
+    case '^': {
+      const lower: Comparator = { op: '>=', version: ver(major, minor ?? 0, patch ?? 0, prerelease) };
+      if (major > 0 || minor === undefined) return [lower, below(major + 1, 0, 0)];
+      if (minor > 0 || patch === undefined) return [lower, below(0, minor + 1, 0)];
+      return [lower, below(0, 0, patch + 1)];
+    }
+    case '~': {
+      const lower: Comparator = { op: '>=', version: ver(major, minor ?? 0, patch ?? 0, prerelease) };
+      if (minor === undefined) return [lower, below(major + 1, 0, 0)];
+      return [lower, below(major, minor + 1, 0)];
+    }
+    case '>':
+      if (minor === undefined) return [{ op: '>=', version: ver(major + 1, 0, 0) }];
+      if (patch === undefined) return [{ op: '>=', version: ver(major, minor + 1, 0) }];
+      return [{ op: '>', version: ver(major, minor, patch, prerelease) }];
+    case '>=':
+      return [{ op: '>=', version: ver(major, minor ?? 0, patch ?? 0, prerelease) }];
+    case '<':
+      if (patch === undefined) return [below(major, minor ?? 0, 0)];
+      return [{ op: '<', version: ver(major, minor!, patch, prerelease) }];
+    case '<=':
+      if (minor === undefined) return [below(major + 1, 0, 0)];
+      if (patch === undefined) return [below(major, minor + 1, 0)];
+      return [{ op: '<=', version: ver(major, minor, patch, prerelease) }];
+    default:
+      // Bare or "=" partial: x-range
+      if (minor === undefined) return [{ op: '>=', version: ver(major, 0, 0) }, below(major + 1, 0, 0)];
+      if (patch === undefined) return [{ op: '>=', version: ver(major, minor, 0) }, below(major, minor + 1, 0)];
+      return [{ op: '=', version: ver(major, minor, patch, prerelease) }];
+  }
+}
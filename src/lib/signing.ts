@@ -0,0 +1,215 @@
+import {
+  createPrivateKey,
+  createPublicKey,
+  generateKeyPairSync,
+  sign,
+  verify,
+  type KeyObject,
+} from 'node:crypto';
+import { chmod, mkdir, readFile, writeFile } from 'node:fs/promises';
+import { dirname, join } from 'node:path';
+import { base58, base64urlnopad } from '@scure/base';
+import { z } from 'zod';
+import { canonicalizeAspect } from '../utils/hash';
+import { KEYS_DIR, TRUSTED_KEYS_PATH } from '../utils/paths';
+import type { AspectSignature, TrustedKeys } from './types';
+
+const KEY_PREFIX = 'ed25519:';
+const SIGNING_KEY_PATH = join(KEYS_DIR, 'signing.key');
+
+/**
+ * Result of checking an install against the trusted-keys store.
+ *   verified  - signed by a key trusted for the publisher
+ *   untrusted - validly signed, but not by a key trusted for the publisher
+ *   unsigned  - no signature
+ *   invalid   - signature doesn't match the content
+ * `error` is set when the install must be refused.
+ */
+export interface SignatureCheck {
+  status: 'verified' | 'untrusted' | 'unsigned' | 'invalid';
+  error?: string;
+}
+
+// --- Keys ---
+
+/**
+ * Generate a new ed25519 signing key in ~/.aspects/keys.
+ * Refuses to overwrite an existing key unless forced. Returns the public key.
+ */
+export async function generateSigningKey(force = false): Promise<string> {
+  if (!force && (await loadSigningKey())) {
+    throw new Error(`A signing key already exists at ${SIGNING_KEY_PATH}`);
+  }
+
+  const { privateKey } = generateKeyPairSync('ed25519');
+  await mkdir(KEYS_DIR, { recursive: true, mode: 0o700 });
+  await writeFile(SIGNING_KEY_PATH, privateKey.export({ type: 'pkcs8', format: 'pem' }), { mode: 0o600 });
+  await chmod(SIGNING_KEY_PATH, 0o600);
+  return formatPublicKey(privateKey);
+}
+
+/**
+ * Load the local signing key, or null if none has been generated.
+ */
+export async function loadSigningKey(): Promise<KeyObject | null> {
+  try {
+    return createPrivateKey(await readFile(SIGNING_KEY_PATH, 'utf-8'));
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw err;
+  }
+}
+
+/**
+ * Format the public half of a key as "ed25519:<base58>".
+ */
+export function formatPublicKey(key: KeyObject): string {
+  const publicKey = key.type === 'private' ? createPublicKey(key) : key;
+  const { x } = publicKey.export({ format: 'jwk' });
+  return KEY_PREFIX + base58.encode(base64urlnopad.decode(x!));
+}
+
+/**
+ * Parse an "ed25519:<base58>" public key. Throws if malformed.
+ */
+export function parsePublicKey(publicKey: string): KeyObject {
+  if (!publicKey.startsWith(KEY_PREFIX)) {
+    throw new Error(`Invalid public key: expected ${KEY_PREFIX}<base58>`);
+  }
+  const raw = base58.decode(publicKey.slice(KEY_PREFIX.length));
+  if (raw.length !== 32) {
+    throw new Error('Invalid public key: ed25519 keys are 32 bytes');
+  }
+  return createPublicKey({
+    key: { kty: 'OKP', crv: 'Ed25519', x: base64urlnopad.encode(raw) },
+    format: 'jwk',
+  });
+}
+
+// --- Signatures ---
+
+/**
+ * Sign the canonical form of an aspect.
+ */
+export function signAspect(aspect: object, privateKey: KeyObject): AspectSignature {
+  const signature = sign(null, Buffer.from(canonicalizeAspect(aspect)), privateKey);
+  return {
+    algorithm: 'ed25519',
+    publicKey: formatPublicKey(privateKey),
+    signature: base58.encode(signature),
+  };
+}
+
+/**
+ * Check a signature against the canonical form of an aspect.
+ * Malformed keys or signatures count as not verifying.
+ */
+export function verifyAspectSignature(aspect: object, signature: AspectSignature): boolean {
+  if (signature.algorithm !== 'ed25519') return false;
+  try {
+    return verify(
+      null,
+      Buffer.from(canonicalizeAspect(aspect)),
+      parsePublicKey(signature.publicKey),
+      base58.decode(signature.signature),
+    );
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Decide whether content from a publisher may be installed.
+ * Bad signatures are always refused; missing or untrusted ones only
+ * when the publisher is marked as requiring signatures.
+ */
+export function checkPublisherSignature(
+  aspect: object,
+  publisher: string | undefined,
+  signature: AspectSignature | undefined,
+  trusted: TrustedKeys,
+): SignatureCheck {
+  const entry = publisher ? trusted.publishers[publisher] : undefined;
+  const required = entry?.requireSignature ?? false;
+
+  if (!signature) {
+    return required
+      ? { status: 'unsigned', error: `Publisher "${publisher}" requires signed aspects, but this version is unsigned` }
+      : { status: 'unsigned' };
+  }
+
+  if (!verifyAspectSignature(aspect, signature)) {
+    return { status: 'invalid', error: `Signature by ${signature.publicKey} does not match the aspect content` };
+  }
+
+  if (entry?.keys.includes(signature.publicKey)) {
+    return { status: 'verified' };
+  }
+  return required
+    ? { status: 'untrusted', error: `Signed by ${signature.publicKey}, which is not a trusted key for "${publisher}"` }
+    : { status: 'untrusted' };
+}
+
+// --- Trusted keys store ---
+
+/**
+ * Default trusted-keys store (trusts nobody).
+ */
+export function createDefaultTrustedKeys(): TrustedKeys {
+  return {
+    version: 1,
+    publishers: {},
+  };
+}
+
+const trustedKeysSchema = z.strictObject({
+  version: z.literal(1),
+  publishers: z.record(z.string(), z.strictObject({
+    keys: z.array(z.string()),
+    requireSignature: z.boolean().optional(),
+  })),
+});
+
+/**
+ * Validate a trusted-keys store. Throws with every problem, naming where it came from.
+ */
+export function parseTrustedKeys(data: unknown, origin: string): TrustedKeys {
+  const result = trustedKeysSchema.safeParse(data);
+  if (!result.success) {
+    const issues = result.error.issues.map(i => `${i.path.join('.') || '(root)'}: ${i.message}`).join(', ');
+    throw new Error(`Invalid trusted keys in ${origin}: ${issues}`);
+  }
+  return result.data;
+}
+
+/**
+ * Read the trusted-keys store. Returns an empty store if it doesn't exist;
+ * throws, naming the file, if it's invalid.
+ */
+export async function readTrustedKeys(): Promise<TrustedKeys> {
+  let content: string;
+  try {
+    content = await readFile(TRUSTED_KEYS_PATH, 'utf-8');
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+      return createDefaultTrustedKeys();
+    }
+    throw err;
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch (err) {
+    throw new Error(`Invalid ${TRUSTED_KEYS_PATH}: ${(err as Error).message}`);
+  }
+  return parseTrustedKeys(data, TRUSTED_KEYS_PATH);
+}
+
+/**
+ * Write the trusted-keys store.
+ */
+export async function writeTrustedKeys(trusted: TrustedKeys): Promise<void> {
+  await mkdir(dirname(TRUSTED_KEYS_PATH), { recursive: true });
+  await writeFile(TRUSTED_KEYS_PATH, JSON.stringify(trusted, null, 2) + '\n');
+}
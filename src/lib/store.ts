@@ -0,0 +1,167 @@
+import { chmod, copyFile, link, mkdir, readdir, readFile, rename, stat, unlink, writeFile } from 'node:fs/promises';
+import { dirname, join } from 'node:path';
+import { getStoreDir } from '../utils/paths';
+import { blake3HashAspect } from '../utils/hash';
+import { parseAspectJson } from './parser';
+import { unpackAspect, type AspectPackage } from './pack';
+
+/**
+ * A blob in the content-addressed store.
+ * `links` counts hardlinks, including the store's own; 1 means no install links to it.
+ */
+export interface StoreEntry {
+  hash: string;
+  path: string;
+  size: number;
+  links: number;
+}
+
+/**
+ * Path of a blob in the store. Blobs are named by the blake3 of the parsed aspect
+ * (or of the tar, for packages), the same hash recorded for the install in config.json.
+ */
+export function getStorePath(hash: string): string {
+  return join(getStoreDir(), hash);
+}
+
+/**
+ * Add aspect.json content, or a packed .aspect, to the store under its hash
+ * (no-op if already stored).
+ * Blobs are read-only so editing an install in place can't corrupt the store.
+ */
+export async function writeToStore(hash: string, content: string | Uint8Array): Promise<string> {
+  const path = getStorePath(hash);
+  if (await isStored(hash)) return path;
+
+  await mkdir(getStoreDir(), { recursive: true });
+  const tmp = `${path}.${process.pid}.tmp`;
+  await writeFile(tmp, content, { mode: 0o444 });
+  await rename(tmp, path);
+  return path;
+}
+
+/**
+ * Read a blob, or null if it's missing or no longer hashes to its name.
+ * Installs record the hash of either the published JSON or the parsed aspect, so both count.
+ */
+export async function readFromStore(hash: string): Promise<string | null> {
+  let content: string;
+  try {
+    content = await readFile(getStorePath(hash), 'utf-8');
+  } catch {
+    return null;
+  }
+  const parsed = parseAspectJson(content);
+  if (parsed.success && blake3HashAspect(parsed.asWritten) === hash) return content;
+  try {
+    return blake3HashAspect(JSON.parse(content)) === hash ? content : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Read a stored package, or null if it's missing, not a package, or no longer
+ * hashes to its name.
+ */
+export async function readPackageFromStore(hash: string): Promise<AspectPackage | null> {
+  let bytes: Uint8Array;
+  try {
+    bytes = await readFile(getStorePath(hash));
+  } catch {
+    return null;
+  }
+  const unpacked = unpackAspect(bytes);
+  return unpacked.success && unpacked.package.hash === hash ? unpacked.package : null;
+}
+
+/**
+ * Find a stored blob by full hash or unique prefix.
+ */
+export async function findInStore(hashOrPrefix: string): Promise<string | null> {
+  if (await isStored(hashOrPrefix)) return hashOrPrefix;
+  const matches = (await listStoreHashes()).filter(h => h.startsWith(hashOrPrefix));
+  return matches.length === 1 ? matches[0]! : null;
+}
+
+/**
+ * Hardlink a stored blob to `dest`, replacing whatever is there.
+ * Falls back to a copy when the store and dest are on different filesystems.
+ */
+export async function linkFromStore(hash: string, dest: string): Promise<void> {
+  await mkdir(dirname(dest), { recursive: true });
+  await unlinkIfExists(dest);
+  try {
+    await link(getStorePath(hash), dest);
+  } catch (err) {
+    const code = (err as NodeJS.ErrnoException).code;
+    if (code !== 'EXDEV' && code !== 'EPERM' && code !== 'EMLINK') throw err;
+    await copyFile(getStorePath(hash), dest);
+    await chmod(dest, 0o644);
+  }
+}
+
+/**
+ * Replace a file that is hardlinked into the store with a private, writable copy,
+ * so it can be edited without touching the shared blob. Unlinked files are left alone.
+ */
+export async function detachFromStore(path: string): Promise<void> {
+  if ((await stat(path)).nlink < 2) return;
+  const content = await readFile(path, 'utf-8');
+  await unlink(path);
+  await writeFile(path, content);
+}
+
+/**
+ * List every blob in the store.
+ */
+export async function listStore(): Promise<StoreEntry[]> {
+  const entries: StoreEntry[] = [];
+  for (const hash of await listStoreHashes()) {
+    const path = getStorePath(hash);
+    try {
+      const stats = await stat(path);
+      entries.push({ hash, path, size: stats.size, links: stats.nlink });
+    } catch {
+      // Removed concurrently
+    }
+  }
+  return entries;
+}
+
+/**
+ * Remove blobs that no install links to and no config references.
+ * Copies (cross-filesystem installs) aren't links, so pass their hashes in `referenced`.
+ */
+export async function pruneStore(
+  referenced: Set<string>,
+  options: { dryRun?: boolean } = {},
+): Promise<StoreEntry[]> {
+  const removed: StoreEntry[] = [];
+  for (const entry of await listStore()) {
+    if (entry.links > 1 || referenced.has(entry.hash)) continue;
+    if (!options.dryRun) await unlink(entry.path);
+    removed.push(entry);
+  }
+  return removed;
+}
+
+async function isStored(hash: string): Promise<boolean> {
+  return await readFromStore(hash) !== null || await readPackageFromStore(hash) !== null;
+}
+
+async function listStoreHashes(): Promise<string[]> {
+  try {
+    return (await readdir(getStoreDir())).filter(name => !name.endsWith('.tmp'));
+  } catch {
+    return [];
+  }
+}
+
+async function unlinkIfExists(path: string): Promise<void> {
+  try {
+    await unlink(path);
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== 'ENOENT') throw err;
+  }
+}
@@ -14,20 +14,110 @@ export interface Aspect {
   author?: string;
   license?: string;
 
+  // Parent aspect install spec ("morphist/alaric@^1.0.0", "./base", "blake3:...")
+  extends?: string;
+  promptMode?: 'append' | 'replace';
+
   voiceHints?: {
     speed?: 'slow' | 'normal' | 'fast';
     emotions?: string[];
     styleHints?: string;
   };
 
-  modes?: Record<string, {
-    description: string;
-    autoNarration?: boolean;
-  }>;
+  modes?: Record<string, AspectMode>;
+
+  // Mode active when `compile` isn't given one (schema v2)
+  defaultMode?: string;
+
+  directives?: AspectDirective[];
+
+  instructions?: AspectInstruction[];
+
+  // What the aspect is meant to run on; `compile` defaults to the model
+  resources?: AspectResources;
+
+  // Phrases that trigger an action, rendered as a command table by `compile`
+  commands?: AspectCommand[];
+
+  // Placeholders ({{name}}) filled in by `compile --var`
+  variables?: Record<string, AspectVariable>;
+
+  // Few-shot dialogues showing the aspect in action (schema v2)
+  examples?: AspectExample[];
 
+  // Extra files packaged with the aspect, relative to its directory (schema v2)
+  files?: string[];
+
+  // Always the text: a packaged `prompt: { file }` is read in by the parser
   prompt: string;
 }
 
+export interface AspectDirective {
+  id: string;
+  rule: string;
+  priority: 'high' | 'medium' | 'low';
+}
+
+export interface AspectInstruction {
+  id: string;
+  rule: string;
+}
+
+export interface AspectMode {
+  description: string;
+  critical?: string;
+  autoNarration?: boolean;
+  only?: string[];      // Directive/instruction ids that apply only while this mode is active
+  include?: string[];   // Mode-only ids (another mode's `only`) that also apply in this mode
+  exclude?: string[];   // Directive/instruction ids turned off in this mode
+  directives?: AspectDirective[];      // Added in this mode; same id replaces the aspect's
+  instructions?: AspectInstruction[];
+  examples?: AspectExample[];          // Shown after the aspect's own in this mode (schema v2)
+  triggers?: {
+    enter?: string[];  // Phrases that switch this mode on ("let's play")
+    exit?: string[];   // Phrases that switch it off ("end the campaign")
+  };
+}
+
+export interface AspectResources {
+  voice?: {
+    recommended: {
+      provider: 'cartesia' | 'elevenlabs' | 'openai' | 'google' | 'azure' | 'amazon' | 'deepgram';
+      voiceId: string;
+    };
+  };
+  model?: {
+    recommended: {
+      provider: 'anthropic' | 'openai' | 'google' | 'meta' | 'mistral' | 'xai' | 'deepseek';
+      modelId: string;
+    };
+  };
+  skills?: string[];
+}
+
+export interface AspectCommand {
+  id: string;
+  action: string;     // What the assistant does ("List available actions")
+  aliases: string[];  // Phrases that trigger it
+}
+
+export interface AspectExample {
+  title?: string;
+  messages: AspectExampleMessage[];  // Alternating, user first, ending with the assistant
+}
+
+export interface AspectExampleMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface AspectVariable {
+  type?: 'string' | 'number' | 'boolean';  // Default string
+  default?: string | number | boolean;
+  required?: boolean;
+  description?: string;
+}
+
 /**
  * Aspect summary for registry listing (without full prompt)
  */
@@ -45,12 +135,14 @@ export interface AspectSummary {
  * Local configuration stored at ~/.aspects/config.json
  */
 export interface AspectsConfig {
-  version: 1;
+  version: 1 | 2 | 3;
   installed: Record<string, InstalledAspect>;
   settings: {
     registryUrl?: string;
+    offline?: boolean;  // Serve registry data from ~/.aspects/cache only
   };
   auth?: AuthTokens;
+  projects?: string[];  // Global config only: project roots installed into, so store prune keeps their blobs
 }
 
 /**
@@ -97,11 +189,48 @@ export interface InstalledAspect {
   // Local-specific: absolute path to aspect directory
   localPath?: string;
   
+  // Registry-specific: ed25519 public key whose signature was verified at install
+  signedBy?: string;
+  
   // Original specifier used to install (enables reinstall, display)
   // e.g. "alaric", "morphist/alaric", "blake3:abc...", "./path", "github:owner/repo"
   specifier: string;
 }
 
+/**
+ * Project manifest stored at <project>/aspects.json.
+ * Declares the aspects a project depends on, like package.json for npm.
+ */
+export interface AspectsManifest {
+  name?: string;
+  // Registry deps: "alaric" / "morphist/alaric" → version range ("^1.2.0", "1.0.0", "next", "*")
+  // Other sources: aspect name → specifier ("github:owner/repo@ref", "./path", "blake3:<hash>")
+  dependencies?: Record<string, string>;
+  [key: string]: unknown;
+}
+
+/**
+ * Project lockfile stored at <project>/aspects.lock.
+ * Pins the exact content of every project-scoped aspect so installs
+ * are reproducible across machines.
+ */
+export interface AspectsLockfile {
+  lockfileVersion: 1;
+  aspects: Record<string, LockedAspect>;
+}
+
+export interface LockedAspect {
+  // Original specifier used to install (e.g. "alaric@1.0.0", "blake3:abc...")
+  specifier: string;
+  version: string;
+  blake3: string;               // Canonical content hash the install must match
+  source: InstalledAspect['source'];
+  publisher?: string;
+  githubRef?: string;
+  // Local-specific: path relative to the project root (portable across machines)
+  localPath?: string;
+}
+
 /**
  * Parsed install specification
  */
@@ -134,6 +263,7 @@ export interface RegistrySet {
 export interface RegistryAspect {
   latest: string;
   versions: Record<string, RegistryVersion>;
+  distTags?: Record<string, string>;  // e.g. { next: "2.0.0-beta.1" }
   metadata: {
     displayName: string;
     tagline: string;
@@ -177,6 +307,7 @@ export interface ApiAspectDetail {
   name: string;
   publisher: string;
   latest: string;
+  distTags?: Record<string, string>;
   created: string;
   modified: string;
   trust: 'verified' | 'community';
@@ -202,6 +333,55 @@ export interface ApiVersionContent {
   blake3: string;
   size: number;
   publishedAt: string;
+  signature?: AspectSignature;  // Publisher signature, if the version was signed at publish
+  packageUrl?: string;          // Multi-file packages: where to download the .aspect; blake3 is the package hash
+}
+
+/**
+ * Publisher signature over the canonical aspect (canonicalizeAspect).
+ * Keys and signatures are base58; keys carry an "ed25519:" prefix.
+ */
+export interface AspectSignature {
+  algorithm: 'ed25519';
+  publicKey: string;
+  signature: string;
+}
+
+/**
+ * Local store of publisher keys trusted for signature verification.
+ * Stored in ~/.aspects/trusted-keys.json.
+ */
+export interface TrustedKeys {
+  version: 1;
+  publishers: Record<string, {
+    keys: string[];
+    requireSignature?: boolean;  // Refuse installs from this publisher without a trusted signature
+  }>;
+}
+
+/**
+ * How `compile` formats a prompt for a family of models.
+ * Built-in profiles ship with the CLI; more can be added in ~/.aspects/models.json.
+ */
+export interface ModelProfile {
+  id: string;
+  description?: string;
+  match: string[];                     // Model ids or globs ("gemini-*"), case-insensitive
+  delimiter: 'xml' | 'markdown';       // XML tags or markdown headings/lists
+  directives: 'start' | 'end';         // Directive/instruction blocks before or after the prompt
+  reminders: boolean;                  // Repeat high-priority directives at the end
+  emphasis: 'attribute' | 'bold' | 'caps';  // How high-priority rules stand out
+  contextWindow: number;               // Tokens
+  charsPerToken: number;               // Average, for offline token estimates
+  systemRole?: 'system' | 'developer'; // OpenAI message role for the system prompt (default system)
+}
+
+/**
+ * ~/.aspects/models.json. Profiles may `extends` another profile (built-in or
+ * user) by id and override only some fields; they take precedence over built-ins.
+ */
+export interface ModelProfilesFile {
+  profiles: Array<Partial<ModelProfile> & { id: string; extends?: string }>;
 }
 
 export interface ApiPublishResponse {
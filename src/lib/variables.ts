@@ -0,0 +1,164 @@
+import type { Aspect, AspectExample, AspectVariable } from './types';
+
+export type VariableValue = string | number | boolean;
+
+/** `{{name}}`, optionally with spaces inside the braces */
+const PLACEHOLDER = /\{\{\s*([A-Za-z_][A-Za-z0-9_]*)\s*\}\}/g;
+
+/**
+ * Every piece of text that compiles into the prompt, and where it lives.
+ */
+function templateFields(aspect: Aspect): Array<{ field: string; text: string }> {
+  const fields = [{ field: 'prompt', text: aspect.prompt }];
+  for (const d of aspect.directives ?? []) {
+    fields.push({ field: `directives.${d.id}`, text: d.rule });
+  }
+  for (const i of aspect.instructions ?? []) {
+    fields.push({ field: `instructions.${i.id}`, text: i.rule });
+  }
+  for (const cmd of aspect.commands ?? []) {
+    fields.push({ field: `commands.${cmd.id}`, text: cmd.action });
+  }
+  fields.push(...exampleFields('examples', aspect.examples));
+  for (const [key, mode] of Object.entries(aspect.modes ?? {})) {
+    fields.push({ field: `modes.${key}.description`, text: mode.description });
+    if (mode.critical) fields.push({ field: `modes.${key}.critical`, text: mode.critical });
+    for (const d of mode.directives ?? []) {
+      fields.push({ field: `modes.${key}.directives.${d.id}`, text: d.rule });
+    }
+    for (const i of mode.instructions ?? []) {
+      fields.push({ field: `modes.${key}.instructions.${i.id}`, text: i.rule });
+    }
+    fields.push(...exampleFields(`modes.${key}.examples`, mode.examples));
+  }
+  return fields;
+}
+
+function exampleFields(prefix: string, examples: AspectExample[] | undefined): Array<{ field: string; text: string }> {
+  return (examples ?? []).flatMap((example, i) =>
+    example.messages.map((m, j) => ({ field: `${prefix}.${i}.messages.${j}`, text: m.content })),
+  );
+}
+
+/**
+ * Placeholder names used by an aspect, each with the fields it appears in.
+ */
+export function findVariableReferences(aspect: Aspect): Map<string, string[]> {
+  const references = new Map<string, string[]>();
+  for (const { field, text } of templateFields(aspect)) {
+    for (const match of text.matchAll(PLACEHOLDER)) {
+      const fields = references.get(match[1]!) ?? [];
+      if (!fields.includes(field)) fields.push(field);
+      references.set(match[1]!, fields);
+    }
+  }
+  return references;
+}
+
+/**
+ * Placeholders with no declaration, and declarations no placeholder uses.
+ */
+export function checkVariables(aspect: Aspect): {
+  undeclared: Array<{ name: string; fields: string[] }>;
+  unused: string[];
+} {
+  const references = findVariableReferences(aspect);
+  const declared = Object.keys(aspect.variables ?? {});
+  return {
+    undeclared: [...references]
+      .filter(([name]) => !declared.includes(name))
+      .map(([name, fields]) => ({ name, fields })),
+    unused: declared.filter(name => !references.has(name)),
+  };
+}
+
+/**
+ * Convert a value (a string from the command line, or any JSON value) to a variable's type.
+ */
+export function coerceVariable(
+  name: string,
+  value: unknown,
+  variable: AspectVariable,
+): { success: true; value: VariableValue } | { success: false; error: string } {
+  const type = variable.type ?? 'string';
+  if (typeof value === type) {
+    return { success: true, value: value as VariableValue };
+  }
+  if (typeof value === 'string' && type === 'number' && value.trim() !== '' && Number.isFinite(Number(value))) {
+    return { success: true, value: Number(value) };
+  }
+  if (typeof value === 'string' && type === 'boolean' && (value === 'true' || value === 'false')) {
+    return { success: true, value: value === 'true' };
+  }
+  return { success: false, error: `Variable "${name}" must be a ${type}, got ${JSON.stringify(value)}` };
+}
+
+/**
+ * Fill in an aspect's declared variables from `values`, falling back to defaults.
+ * Placeholders the aspect doesn't declare are left as written; values it doesn't
+ * declare are ignored, since composed aspects share one set of values.
+ */
+export function applyVariables(
+  aspect: Aspect,
+  values: Record<string, unknown>,
+): { success: true; aspect: Aspect } | { success: false; errors: string[] } {
+  const resolved = new Map<string, string>();
+  const errors: string[] = [];
+
+  for (const [name, variable] of Object.entries(aspect.variables ?? {})) {
+    const value = values[name] ?? variable.default;
+    if (value === undefined) {
+      if (variable.required) {
+        const hint = variable.description ? ` (${variable.description})` : '';
+        errors.push(`Missing required variable "${name}"${hint} for ${aspect.name}`);
+      }
+      resolved.set(name, '');
+      continue;
+    }
+    const coerced = coerceVariable(name, value, variable);
+    if (!coerced.success) {
+      errors.push(coerced.error);
+      continue;
+    }
+    resolved.set(name, String(coerced.value));
+  }
+
+  if (errors.length > 0) {
+    return { success: false, errors };
+  }
+  if (resolved.size === 0) {
+    return { success: true, aspect };
+  }
+
+  const fill = (text: string) =>
+    text.replace(PLACEHOLDER, (placeholder, name: string) => resolved.get(name) ?? placeholder);
+  const fillRules = <T extends { rule: string }>(rules: T[] | undefined) =>
+    rules?.map(r => ({ ...r, rule: fill(r.rule) }));
+  const fillExamples = (examples: AspectExample[] | undefined) =>
+    examples?.map(e => ({ ...e, messages: e.messages.map(m => ({ ...m, content: fill(m.content) })) }));
+
+  return {
+    success: true,
+    aspect: {
+      ...aspect,
+      prompt: fill(aspect.prompt),
+      ...(aspect.directives && { directives: fillRules(aspect.directives) }),
+      ...(aspect.instructions && { instructions: fillRules(aspect.instructions) }),
+      ...(aspect.commands && { commands: aspect.commands.map(cmd => ({ ...cmd, action: fill(cmd.action) })) }),
+      ...(aspect.examples && { examples: fillExamples(aspect.examples) }),
+      ...(aspect.modes && {
+        modes: Object.fromEntries(Object.entries(aspect.modes).map(([key, mode]) => [
+          key,
+          {
+            ...mode,
+            description: fill(mode.description),
+            ...(mode.critical && { critical: fill(mode.critical) }),
+            ...(mode.directives && { directives: fillRules(mode.directives) }),
+            ...(mode.instructions && { instructions: fillRules(mode.instructions) }),
+            ...(mode.examples && { examples: fillExamples(mode.examples) }),
+          },
+        ])),
+      }),
+    },
+  };
+}
@@ -6,8 +6,14 @@ import { base58 } from '@scure/base';
  * Uses same libraries as webapp for guaranteed hash compatibility.
  */
 export function blake3Hash(content: string): string {
-  const hash = blake3(new TextEncoder().encode(content));
-  return base58.encode(hash);
+  return blake3HashBytes(new TextEncoder().encode(content));
+}
+
+/**
+ * Compute Blake3 hash of raw bytes (e.g. a package tarball), returned as base58.
+ */
+export function blake3HashBytes(bytes: Uint8Array): string {
+  return base58.encode(blake3(bytes));
 }
 
 /**
@@ -11,6 +11,12 @@ export const ASPECTS_HOME = join(homedir(), '.aspects');
 /** Project-local aspects directory name */
 export const PROJECT_ASPECTS_DIR_NAME = '.aspects';
 
+/** Project manifest filename (also marks a project root) */
+export const PROJECT_MANIFEST_NAME = 'aspects.json';
+
+/** Project lockfile filename, stored next to the manifest */
+export const LOCKFILE_NAME = 'aspects.lock';
+
 /** Directory where aspect packages are stored */
 export const ASPECTS_DIR = join(ASPECTS_HOME, 'aspects');
 
@@ -20,6 +26,27 @@ export const SETS_DIR = join(ASPECTS_HOME, 'sets');
 /** Path to the global config file */
 export const CONFIG_PATH = join(ASPECTS_HOME, 'config.json');
 
+/** Directory holding the local publisher signing key */
+export const KEYS_DIR = join(ASPECTS_HOME, 'keys');
+
+/** Publisher keys trusted for signature verification on install */
+export const TRUSTED_KEYS_PATH = join(ASPECTS_HOME, 'trusted-keys.json');
+
+/** Directory holding cached registry responses */
+export const CACHE_DIR = join(ASPECTS_HOME, 'cache');
+
+/** Content-addressed store of aspect.json blobs, shared by all scopes */
+export const STORE_DIR = join(ASPECTS_HOME, 'store');
+
+/** User-defined model profiles for compile */
+export const MODELS_PATH = join(ASPECTS_HOME, 'models.json');
+
+/** Install policy applied to every install (projects add their own in aspects.json) */
+export const POLICY_PATH = join(ASPECTS_HOME, 'policy.json');
+
+/** Installs that went ahead despite the install policy, one JSON object per line */
+export const POLICY_LOG_PATH = join(ASPECTS_HOME, 'policy-overrides.log');
+
 /** Cached project root (memoized per process) */
 let cachedProjectRoot: string | null = null;
 
@@ -48,7 +75,7 @@ export async function findProjectRoot(): Promise<string | null> {
     } catch {
       // Try aspects.json as alternative marker
       try {
-        await stat(join(dir, 'aspects.json'));
+        await stat(join(dir, PROJECT_MANIFEST_NAME));
         cachedProjectRoot = dir;
         return dir;
       } catch {
@@ -72,6 +99,22 @@ export function getAspectsHome(scope: InstallScope, projectRoot?: string): strin
   return join(projectRoot || process.cwd(), PROJECT_ASPECTS_DIR_NAME);
 }
 
+/**
+ * Get the registry cache directory.
+ * ASPECTS_CACHE_DIR overrides the default ~/.aspects/cache.
+ */
+export function getCacheDir(): string {
+  return process.env.ASPECTS_CACHE_DIR || CACHE_DIR;
+}
+
+/**
+ * Get the content-addressed store directory.
+ * ASPECTS_STORE_DIR overrides the default ~/.aspects/store.
+ */
+export function getStoreDir(): string {
+  return process.env.ASPECTS_STORE_DIR || STORE_DIR;
+}
+
 /**
  * Get the config path for a given scope.
  */
@@ -79,6 +122,20 @@ export function getConfigPath(scope: InstallScope, projectRoot?: string): string
   return join(getAspectsHome(scope, projectRoot), 'config.json');
 }
 
+/**
+ * Get the manifest (aspects.json) path for a project.
+ */
+export function getManifestPath(projectRoot?: string): string {
+  return join(projectRoot || process.cwd(), PROJECT_MANIFEST_NAME);
+}
+
+/**
+ * Get the lockfile path for a project.
+ */
+export function getLockfilePath(projectRoot?: string): string {
+  return join(projectRoot || process.cwd(), LOCKFILE_NAME);
+}
+
 /**
  * Determine the default scope based on project detection.
  * If a project root exists, default to project scope; otherwise global.
@@ -93,8 +150,7 @@ export async function getDefaultScope(): Promise<InstallScope> {
  * Creates ~/.aspects/ and ~/.aspects/aspects/ if they don't exist.
  */
 export async function ensureAspectsDir(scope: InstallScope = 'global', projectRoot?: string): Promise<void> {
-  const aspectsDir = join(getAspectsHome(scope, projectRoot), 'aspects');
-  await mkdir(aspectsDir, { recursive: true });
+  await mkdir(getAspectsDir(scope, projectRoot), { recursive: true });
 }
 
 /**
@@ -112,11 +168,20 @@ export function getSetsDir(scope: InstallScope = 'global', projectRoot?: string)
   return join(getAspectsHome(scope, projectRoot), 'sets');
 }
 
+/**
+ * Get the directory installed aspects live in.
+ */
+export function getAspectsDir(scope: InstallScope = 'global', projectRoot?: string): string {
+  return join(getAspectsHome(scope, projectRoot), 'aspects');
+}
+
 /**
  * Get the path where an aspect would be installed.
- * Handles scoped packages: @scope/name -> @scope/name/
+ * Takes the install key. Publisher-scoped installs nest under "@publisher", so they
+ * can't collide with a bare install of the same name: alice/helper -> aspects/@alice/helper/
  */
 export function getAspectPath(name: string, scope: InstallScope = 'global', projectRoot?: string): string {
-  const aspectsDir = join(getAspectsHome(scope, projectRoot), 'aspects');
-  return join(aspectsDir, name);
+  const slash = name.indexOf('/');
+  if (slash === -1) return join(getAspectsDir(scope, projectRoot), name);
+  return join(getAspectsDir(scope, projectRoot), `@${name.slice(0, slash)}`, name.slice(slash + 1));
 }
@@ -1,4 +1,10 @@
 import { describe, test, expect, beforeEach, mock, afterEach } from "bun:test";
+import { mkdtempSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+// Keep the disk cache out of ~/.aspects
+process.env.ASPECTS_CACHE_DIR = mkdtempSync(join(tmpdir(), "aspects-cache-"));
 
 // Track calls to ofetch
 let ofetchCalls: Array<{ url: string; options?: Record<string, unknown> }> = [];
@@ -16,9 +22,11 @@ mock.module("ofetch", () => ({
 }));
 
 // Mock config to avoid filesystem access
+let offline = false;
 mock.module("../../src/lib/config", () => ({
   getRegistryUrl: () => Promise.resolve("https://test.example.com/api/v1"),
   getAuthToken: () => Promise.resolve(null),
+  isOffline: () => Promise.resolve(offline),
   resolveRegistryUrl: (env: string | undefined, config: string | undefined) => {
     if (env) return env;
     if (config) return config;
@@ -39,10 +47,15 @@ const {
   clearApiCache,
   ApiClientError,
 } = await import("../../src/lib/api-client");
+const { clearDiskCache, readDiskCache, writeDiskCache } = await import("../../src/lib/disk-cache");
+
+const REGISTRY_URL = "https://test.example.com/api/v1/registry";
 
 describe("api-client", () => {
-  beforeEach(() => {
+  beforeEach(async () => {
     clearApiCache();
+    await clearDiskCache();
+    offline = false;
     ofetchCalls = [];
     // Default: resolve successfully
     ofetchImpl = async () => ({});
@@ -77,9 +90,20 @@ describe("api-client", () => {
 
       await getRegistry();
       clearApiCache();
+      await clearDiskCache();
       await getRegistry();
       expect(ofetchCalls).toHaveLength(2);
     });
+
+    test("clearApiCache leaves the disk cache alone", async () => {
+      const fakeIndex = { version: 2, updated: "2026-01-01", aspects: {} };
+      ofetchImpl = async () => fakeIndex;
+
+      await getRegistry();
+      clearApiCache();
+      expect(await getRegistry()).toEqual(fakeIndex);
+      expect(ofetchCalls).toHaveLength(1);
+    });
   });
 
   describe("getAspect", () => {
@@ -104,6 +128,14 @@ describe("api-client", () => {
       await getAspect("@scope/name");
       expect(ofetchCalls[0]!.url).toContain("%40scope%2Fname");
     });
+
+    test("scopes the lookup to a publisher when given", async () => {
+      ofetchImpl = async () => ({ name: "helper", publisher: "bob" });
+      await getAspect("helper", "bob");
+      expect(ofetchCalls[0]!.url).toBe(
+        "https://test.example.com/api/v1/aspects/helper?publisher=bob",
+      );
+    });
   });
 
   describe("getAspectVersion", () => {
@@ -158,6 +190,17 @@ describe("api-client", () => {
       await searchAspects({ q: "test", offset: 20 });
       expect(ofetchCalls[0]!.url).toContain("offset=20");
     });
+
+    test("answers repeated searches from the cache offline", async () => {
+      const found = { total: 0, results: [] };
+      ofetchImpl = async () => found;
+      await searchAspects({ q: "wizard" });
+      clearApiCache();
+      offline = true;
+
+      expect(await searchAspects({ q: "wizard" })).toEqual(found);
+      expect(ofetchCalls).toHaveLength(1);
+    });
   });
 
   describe("error handling", () => {
@@ -275,4 +318,47 @@ describe("api-client", () => {
       }
     });
   });
+
+  describe("disk cache", () => {
+    const fakeIndex = { version: 2, updated: "2026-01-01", aspects: {} };
+
+    test("persists fetched responses", async () => {
+      ofetchImpl = async () => fakeIndex;
+      await getRegistry();
+      const entry = await readDiskCache(REGISTRY_URL);
+      expect(entry?.data).toEqual(fakeIndex);
+    });
+
+    test("revalidates stale entries with If-None-Match and reuses them on 304", async () => {
+      await writeDiskCache(REGISTRY_URL, fakeIndex, { ttl: -1, etag: '"v1"' });
+      ofetchImpl = async () => {
+        throw { statusCode: 304 };
+      };
+
+      const result = await getRegistry();
+      expect(result).toEqual(fakeIndex);
+      expect(ofetchCalls).toHaveLength(1);
+      const headers = ofetchCalls[0]!.options?.headers as Record<string, string>;
+      expect(headers["If-None-Match"]).toBe('"v1"');
+    });
+
+    test("serves stale entries offline without a request", async () => {
+      await writeDiskCache(REGISTRY_URL, fakeIndex, { ttl: -1 });
+      offline = true;
+
+      expect(await getRegistry()).toEqual(fakeIndex);
+      expect(ofetchCalls).toHaveLength(0);
+    });
+
+    test("fails offline when nothing is cached", async () => {
+      offline = true;
+      try {
+        await getAspectVersion("alaric", "1.0.0");
+        expect.unreachable("Should have thrown");
+      } catch (err) {
+        expect((err as InstanceType<typeof ApiClientError>).errorCode).toBe("offline");
+      }
+      expect(ofetchCalls).toHaveLength(0);
+    });
+  });
 });
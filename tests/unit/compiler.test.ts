@@ -0,0 +1,331 @@
+import { describe, test, expect } from 'bun:test';
+import { compileAspects } from '../../src/lib/compiler';
+import { BUILTIN_MODEL_PROFILES } from '../../src/lib/model-profiles';
+import type { Aspect, ModelProfile } from '../../src/lib/types';
+
+function aspect(name: string, overrides: Partial<Aspect> = {}): Aspect {
+  return {
+    schemaVersion: 1,
+    name,
+    version: '1.0.0',
+    displayName: name,
+    tagline: `The ${name} aspect`,
+    prompt: `You are ${name}.`,
+    ...overrides,
+  };
+}
+
+const ASSISTANT = aspect('assistant', {
+  directives: [
+    { id: 'brief', rule: 'Keep it short.', priority: 'low' },
+    { id: 'honest', rule: 'Never make things up.', priority: 'high' },
+  ],
+  instructions: [{ id: 'tone', rule: 'Be warm.' }],
+});
+
+const TONE = aspect('acme-tone', {
+  directives: [{ id: 'brand', rule: 'Say "Acme", never "ACME".', priority: 'medium' }],
+  modes: { formal: { description: 'Formal tone', critical: 'No contractions.' } },
+});
+
+describe('compileAspects', () => {
+  test('compiles a single aspect with the prompt unwrapped', () => {
+    const result = compileAspects([ASSISTANT], { model: 'claude-4' });
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.prompt).toContain('\n\nYou are assistant.\n\n');
+    expect(result.prompt).not.toContain('<aspect');
+  });
+
+  test('sorts directives by priority across aspects', () => {
+    const result = compileAspects([ASSISTANT, TONE], { model: 'claude-4' });
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.directives.map(d => d.id)).toEqual(['honest', 'brand', 'brief']);
+  });
+
+  test('wraps each prompt in its own section, in order', () => {
+    const result = compileAspects([ASSISTANT, TONE], { model: 'claude-4' });
+    if (!result.success) throw new Error(result.error);
+    const first = result.prompt.indexOf('<aspect name="assistant">');
+    const second = result.prompt.indexOf('<aspect name="acme-tone">');
+    expect(first).toBeGreaterThan(-1);
+    expect(second).toBeGreaterThan(first);
+  });
+
+  test('separates prompts with rules for legacy models', () => {
+    const result = compileAspects([ASSISTANT, TONE], { model: 'gpt-3.5-turbo' });
+    if (!result.success) throw new Error(result.error);
+    expect(result.prompt).toContain('You are assistant.\n\n---\n\nYou are acme-tone.');
+  });
+
+  test('keeps the reminder block of high-priority directives at the end', () => {
+    const result = compileAspects([ASSISTANT, TONE], { model: 'claude-4' });
+    if (!result.success) throw new Error(result.error);
+    const reminders = result.prompt.slice(result.prompt.indexOf('<critical-reminders>'));
+    expect(result.prompt.trimEnd().endsWith('</critical-reminders>')).toBe(true);
+    expect(reminders).toContain('id="honest"');
+    expect(reminders).not.toContain('id="brand"');
+  });
+
+  test('collapses identical duplicate ids', () => {
+    const copy = aspect('copy', { directives: [ASSISTANT.directives![1]!] });
+    const result = compileAspects([ASSISTANT, copy], { model: 'claude-4' });
+    if (!result.success) throw new Error(result.error);
+    expect(result.directives.filter(d => d.id === 'honest')).toHaveLength(1);
+    expect(result.conflicts).toEqual([]);
+  });
+
+  test('fails on conflicting ids by default', () => {
+    const rival = aspect('rival', { directives: [{ id: 'brief', rule: 'Be thorough.', priority: 'medium' }] });
+    const result = compileAspects([ASSISTANT, rival], { model: 'claude-4' });
+    expect(result.success).toBe(false);
+    if (result.success) return;
+    expect(result.error).toContain('directive "brief" (assistant, rival)');
+    expect(result.conflicts).toEqual([{ kind: 'directive', id: 'brief', aspects: ['assistant', 'rival'] }]);
+  });
+
+  test('resolves conflicts with first or last', () => {
+    const rival = aspect('rival', { instructions: [{ id: 'tone', rule: 'Be blunt.' }] });
+
+    const first = compileAspects([ASSISTANT, rival], { model: 'claude-4', onConflict: 'first' });
+    if (!first.success) throw new Error(first.error);
+    expect(first.instructions).toEqual([{ id: 'tone', rule: 'Be warm.' }]);
+    expect(first.conflicts).toHaveLength(1);
+
+    const last = compileAspects([ASSISTANT, rival], { model: 'claude-4', onConflict: 'last' });
+    if (!last.success) throw new Error(last.error);
+    expect(last.instructions).toEqual([{ id: 'tone', rule: 'Be blunt.' }]);
+  });
+
+  test('activates a mode defined by any composed aspect', () => {
+    const result = compileAspects([ASSISTANT, TONE], { model: 'claude-4', mode: 'formal' });
+    if (!result.success) throw new Error(result.error);
+    expect(result.prompt).toContain('<mode name="formal">\nNo contractions.\n</mode>');
+  });
+
+  test('activates the default mode unless another is given', () => {
+    const defaulted = { ...TONE, defaultMode: 'formal' };
+    const result = compileAspects([ASSISTANT, defaulted], { model: 'claude-4' });
+    if (!result.success) throw new Error(result.error);
+    expect(result.prompt).toContain('<mode name="formal">');
+
+    const none = compileAspects([ASSISTANT, TONE], { model: 'claude-4' });
+    if (!none.success) throw new Error(none.error);
+    expect(none.prompt).not.toContain('<mode');
+  });
+
+  test('compiles only the rules in effect for the mode', () => {
+    const scoped = aspect('scoped', {
+      directives: [{ id: 'formal-only', rule: 'Use titles.', priority: 'medium' }],
+      modes: { formal: { description: 'Formal tone', only: ['formal-only'] } },
+    });
+    const plain = compileAspects([ASSISTANT, scoped], { model: 'claude-4' });
+    if (!plain.success) throw new Error(plain.error);
+    expect(plain.directives.map(d => d.id)).not.toContain('formal-only');
+
+    const formal = compileAspects([ASSISTANT, scoped], { model: 'claude-4', mode: 'formal' });
+    if (!formal.success) throw new Error(formal.error);
+    expect(formal.directives.map(d => d.id)).toContain('formal-only');
+  });
+
+  test('fails on dangling mode references', () => {
+    const broken = aspect('broken', { modes: { formal: { description: 'Formal', exclude: ['ghost'] } } });
+    const result = compileAspects([broken], { model: 'claude-4' });
+    expect(result.success).toBe(false);
+    if (result.success) return;
+    expect(result.error).toContain('"ghost" is not a directive or instruction id');
+  });
+
+  test('renders commands and mode triggers as a command table', () => {
+    const voice = aspect('voice', {
+      commands: [{ id: 'show-options', action: 'List available actions', aliases: ['options', 'help'] }],
+      modes: { formal: { description: 'Formal tone', triggers: { enter: ['be formal'], exit: ['relax'] } } },
+    });
+
+    const xml = compileAspects([voice], { model: 'claude-4' });
+    if (!xml.success) throw new Error(xml.error);
+    const table = xml.sections.find(s => s.kind === 'commands')!.text;
+    expect(table).toContain('<command id="show-options">\n    <triggers>"options", "help"</triggers>');
+    expect(table).toContain('<command id="mode:formal">');
+    expect(table).toContain('<action>Leave formal mode</action>');
+
+    const markdown = compileAspects([voice], { model: 'gpt-3.5-turbo' });
+    if (!markdown.success) throw new Error(markdown.error);
+    expect(markdown.prompt).toContain('**show-options**\nTriggered by: "options", "help"\n→ List available actions');
+  });
+
+  test('omits the command table when nothing has triggers', () => {
+    const result = compileAspects([ASSISTANT, TONE], { model: 'claude-4' });
+    if (!result.success) throw new Error(result.error);
+    expect(result.sections.map(s => s.kind)).not.toContain('commands');
+  });
+
+  test('fails on a mode no aspect defines', () => {
+    const result = compileAspects([ASSISTANT, TONE], { model: 'claude-4', mode: 'pirate' });
+    expect(result.success).toBe(false);
+    if (result.success) return;
+    expect(result.error).toContain('Available modes: formal');
+  });
+});
+
+describe('compileAspects with model profiles', () => {
+  const custom: ModelProfile = {
+    id: 'house',
+    match: ['house-*'],
+    delimiter: 'xml',
+    directives: 'end',
+    reminders: true,
+    emphasis: 'caps',
+    contextWindow: 8000,
+    charsPerToken: 4,
+  };
+
+  test('reports the matched profile', () => {
+    const result = compileAspects([ASSISTANT], { model: 'gemini-2.5-pro' });
+    if (!result.success) throw new Error(result.error);
+    expect(result.profile.id).toBe('gemini');
+  });
+
+  test('marks high-priority rules with the profile emphasis', () => {
+    const result = compileAspects([ASSISTANT], { model: 'llama-3.1-70b' });
+    if (!result.success) throw new Error(result.error);
+    expect(result.prompt).toContain('IMPORTANT: Never make things up.');
+    expect(result.prompt).not.toContain('**IMPORTANT**');
+  });
+
+  test('puts rules last and the reminder first for end placement', () => {
+    const result = compileAspects([ASSISTANT], { model: 'house-1', profiles: [custom, ...BUILTIN_MODEL_PROFILES] });
+    if (!result.success) throw new Error(result.error);
+    expect(result.profile.id).toBe('house');
+    expect(result.prompt.startsWith('<!-- Universal Pattern')).toBe(true);
+    expect(result.prompt.trimEnd().endsWith('</instructions>')).toBe(true);
+    expect(result.prompt.indexOf('You are assistant.')).toBeLessThan(result.prompt.indexOf('<directives>'));
+  });
+
+  test('omits the reminder when the profile turns it off', () => {
+    const quiet = { ...custom, directives: 'start' as const, reminders: false };
+    const result = compileAspects([ASSISTANT], { model: 'house-1', profiles: [quiet] });
+    if (!result.success) throw new Error(result.error);
+    expect(result.prompt).not.toContain('critical-reminders');
+    expect(result.prompt.endsWith('You are assistant.')).toBe(true);
+  });
+});
+
+describe('compileAspects with a token budget', () => {
+  const full = compileAspects([ASSISTANT, TONE], { model: 'claude-4' });
+  if (!full.success) throw new Error(full.error);
+
+  test('estimates tokens per section', () => {
+    expect(full.sections.every(s => s.tokens > 0)).toBe(true);
+    expect(full.tokens).toBe(full.sections.reduce((sum, s) => sum + s.tokens, 0));
+    expect(full.cuts).toEqual([]);
+  });
+
+  test('leaves a prompt that fits untouched', () => {
+    const result = compileAspects([ASSISTANT, TONE], { model: 'claude-4', maxTokens: full.tokens });
+    if (!result.success) throw new Error(result.error);
+    expect(result.prompt).toBe(full.prompt);
+    expect(result.cuts).toEqual([]);
+  });
+
+  test('cuts low priority first, then instructions, reminders and medium priority', () => {
+    // Budget of exactly what's left with only the high-priority directive, stated once
+    const highOnly = compileAspects(
+      [aspect('assistant', { directives: [ASSISTANT.directives![1]!] }), aspect('acme-tone')],
+      { model: 'claude-4', profiles: [{ ...full.profile, reminders: false }] },
+    );
+    if (!highOnly.success) throw new Error(highOnly.error);
+
+    const trimmed = compileAspects([ASSISTANT, TONE], { model: 'claude-4', maxTokens: highOnly.tokens });
+    if (!trimmed.success) throw new Error(trimmed.error);
+    expect(trimmed.cuts.map(c => c.id ?? c.kind)).toEqual(['brief', 'tone', 'reminders', 'brand']);
+    expect(trimmed.cuts.every(c => c.tokens > 0)).toBe(true);
+    expect(trimmed.directives.map(d => d.id)).toEqual(['honest']);
+    expect(trimmed.tokens).toBeLessThanOrEqual(highOnly.tokens);
+  });
+
+  test('stops cutting as soon as the prompt fits', () => {
+    const result = compileAspects([ASSISTANT, TONE], { model: 'claude-4', maxTokens: full.tokens - 1 });
+    if (!result.success) throw new Error(result.error);
+    expect(result.cuts.map(c => c.id)).toEqual(['brief']);
+    expect(result.tokens).toBeLessThan(full.tokens);
+  });
+
+  test('fails when the prompt alone is over budget', () => {
+    const result = compileAspects([ASSISTANT], { model: 'claude-4', maxTokens: 2 });
+    expect(result.success).toBe(false);
+    if (result.success) return;
+    expect(result.error).toContain('over the 2-token budget');
+  });
+});
+
+describe('compileAspects with examples', () => {
+  const GREETING = {
+    title: 'Greeting',
+    messages: [
+      { role: 'user' as const, content: 'Hello' },
+      { role: 'assistant' as const, content: 'Hi! What can I do for you?' },
+    ],
+  };
+  const FORMAL = {
+    messages: [
+      { role: 'user' as const, content: 'Hey' },
+      { role: 'assistant' as const, content: 'Good afternoon. How may I help?' },
+    ],
+  };
+  const GUIDE = aspect('guide', {
+    displayName: 'The Guide',
+    examples: [GREETING],
+    modes: { formal: { description: 'Formal tone', examples: [FORMAL] } },
+  });
+
+  test('renders XML example blocks for modern models', () => {
+    const result = compileAspects([GUIDE], { model: 'claude-4' });
+    if (!result.success) throw new Error(result.error);
+    const examples = result.sections.find(s => s.kind === 'examples')!;
+    expect(examples.text).toContain('<example title="Greeting">\n    <user>Hello</user>\n    <assistant>Hi! What can I do for you?</assistant>\n  </example>');
+    expect(examples.text.startsWith('<examples>')).toBe(true);
+  });
+
+  test('renders markdown transcripts for legacy models', () => {
+    const result = compileAspects([GUIDE], { model: 'gpt-4' });
+    if (!result.success) throw new Error(result.error);
+    expect(result.prompt).toContain('## Examples');
+    expect(result.prompt).toContain('### Greeting\n\n**User**: Hello\n**The Guide**: Hi! What can I do for you?');
+  });
+
+  test('follows the prompt and adds the active mode\'s examples', () => {
+    const plain = compileAspects([GUIDE], { model: 'claude-4' });
+    const formal = compileAspects([GUIDE], { model: 'claude-4', mode: 'formal' });
+    if (!plain.success || !formal.success) throw new Error('compile failed');
+    expect(plain.examples.map(e => e.example)).toEqual([GREETING]);
+    expect(formal.examples.map(e => e.example)).toEqual([GREETING, FORMAL]);
+
+    const kinds = formal.sections.map(s => s.kind);
+    expect(kinds.indexOf('examples')).toBe(kinds.indexOf('prompt') + 1);
+  });
+
+  test('leaves examples out when there are none', () => {
+    const result = compileAspects([ASSISTANT], { model: 'claude-4' });
+    if (!result.success) throw new Error(result.error);
+    expect(result.sections.map(s => s.kind)).not.toContain('examples');
+    expect(result.examples).toEqual([]);
+  });
+
+  test('cuts examples after the reminder, last first', () => {
+    const both = aspect('guide', { ...GUIDE, directives: [ASSISTANT.directives![1]!], examples: [GREETING, FORMAL] });
+    const full = compileAspects([both], { model: 'claude-4' });
+    if (!full.success) throw new Error(full.error);
+    const bare = compileAspects([{ ...both, examples: undefined }], {
+      model: 'claude-4',
+      profiles: [{ ...full.profile, reminders: false }],
+    });
+    if (!bare.success) throw new Error(bare.error);
+
+    const trimmed = compileAspects([both], { model: 'claude-4', maxTokens: bare.tokens });
+    if (!trimmed.success) throw new Error(trimmed.error);
+    expect(trimmed.cuts.map(c => c.id ?? c.kind)).toEqual(['reminders', 'Example 2', 'Greeting']);
+    expect(trimmed.examples).toEqual([]);
+  });
+});
@@ -0,0 +1,25 @@
+import { describe, test, expect } from 'bun:test';
+import { diffLines } from '../../src/utils/diff';
+
+describe('diffLines', () => {
+  test('marks unchanged text as the same', () => {
+    expect(diffLines('a\nb', 'a\nb')).toEqual([
+      { type: 'same', text: 'a' },
+      { type: 'same', text: 'b' },
+    ]);
+  });
+
+  test('shows a changed line as removed then added', () => {
+    expect(diffLines('a\nb\nc', 'a\nB\nc')).toEqual([
+      { type: 'same', text: 'a' },
+      { type: 'removed', text: 'b' },
+      { type: 'added', text: 'B' },
+      { type: 'same', text: 'c' },
+    ]);
+  });
+
+  test('handles insertions and deletions at either end', () => {
+    expect(diffLines('b', 'a\nb\nc').map(l => l.type)).toEqual(['added', 'same', 'added']);
+    expect(diffLines('a\nb\nc', 'b').map(l => l.type)).toEqual(['removed', 'same', 'removed']);
+  });
+});
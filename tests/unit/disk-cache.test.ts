@@ -0,0 +1,40 @@
+import { describe, test, expect, beforeEach } from 'bun:test';
+import { mkdtempSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { clearDiskCache, isFresh, readDiskCache, writeDiskCache } from '../../src/lib/disk-cache';
+
+describe('disk cache', () => {
+  beforeEach(() => {
+    process.env.ASPECTS_CACHE_DIR = mkdtempSync(join(tmpdir(), 'aspects-cache-'));
+  });
+
+  test('round-trips data and etag', async () => {
+    await writeDiskCache('https://example.com/registry', { aspects: {} }, { ttl: 1000, etag: '"abc"' });
+    const entry = await readDiskCache<{ aspects: object }>('https://example.com/registry');
+    expect(entry?.data).toEqual({ aspects: {} });
+    expect(entry?.etag).toBe('"abc"');
+  });
+
+  test('returns null for missing keys', async () => {
+    expect(await readDiskCache('https://example.com/missing')).toBeNull();
+  });
+
+  test('keeps keys separate', async () => {
+    await writeDiskCache('https://example.com/a', 'a', { ttl: 1000 });
+    await writeDiskCache('https://example.com/b', 'b', { ttl: 1000 });
+    expect((await readDiskCache('https://example.com/a'))?.data).toBe('a');
+  });
+
+  test('clearDiskCache removes everything', async () => {
+    await writeDiskCache('https://example.com/a', 'a', { ttl: 1000 });
+    await clearDiskCache();
+    expect(await readDiskCache('https://example.com/a')).toBeNull();
+  });
+
+  test('isFresh honors the TTL', () => {
+    const entry = { key: 'k', data: null, fetchedAt: 1_000, ttl: 500 };
+    expect(isFresh(entry, 1_400)).toBe(true);
+    expect(isFresh(entry, 1_600)).toBe(false);
+  });
+});
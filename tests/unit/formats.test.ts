@@ -0,0 +1,171 @@
+import { describe, test, expect, beforeAll, afterAll } from 'bun:test';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  aspectFormatOf,
+  findAspectFile,
+  readAspectSource,
+  replaceFrontmatter,
+  resolveAspectFile,
+  splitFrontmatter,
+} from '../../src/lib/formats';
+import { parseAspectSource } from '../../src/lib/parser';
+import { blake3HashAspect } from '../../src/utils/hash';
+
+const ASPECT = {
+  schemaVersion: 2,
+  name: 'test-aspect',
+  version: '1.0.0',
+  displayName: 'Test Aspect',
+  tagline: 'A test aspect for unit testing',
+  category: 'assistant',
+  tags: ['test'],
+  prompt: 'You are a test assistant.\n\nBe **brief**.',
+};
+
+const YAML = `# A test aspect
+schemaVersion: 2
+name: test-aspect
+version: 1.0.0
+displayName: Test Aspect
+tagline: A test aspect for unit testing
+category: assistant
+tags: [test]
+prompt: |-
+  You are a test assistant.
+
+  Be **brief**.
+`;
+
+const MARKDOWN = `---
+schemaVersion: 2
+name: test-aspect
+version: 1.0.0
+displayName: Test Aspect
+tagline: A test aspect for unit testing
+category: assistant
+tags:
+  - test
+---
+
+You are a test assistant.
+
+Be **brief**.
+`;
+
+describe('aspectFormatOf', () => {
+  test('detects formats by extension', () => {
+    expect(aspectFormatOf('a/aspect.json')).toBe('json');
+    expect(aspectFormatOf('a/aspect.yaml')).toBe('yaml');
+    expect(aspectFormatOf('a/ASPECT.YML')).toBe('yaml');
+    expect(aspectFormatOf('a/aspect.md')).toBe('markdown');
+    expect(aspectFormatOf('a/aspect')).toBe('json');
+  });
+});
+
+describe('splitFrontmatter', () => {
+  test('splits frontmatter from the body, trimming blank lines', () => {
+    expect(splitFrontmatter('---\nname: x\n---\n\n\nBody\n\n')).toEqual({ frontmatter: 'name: x', body: 'Body' });
+  });
+
+  test('handles a BOM and CRLF line endings', () => {
+    expect(splitFrontmatter('﻿---\r\nname: x\r\n---\r\nBody')).toEqual({ frontmatter: 'name: x', body: 'Body' });
+  });
+
+  test('returns null without frontmatter', () => {
+    expect(splitFrontmatter('# Title\n---\nname: x\n---')).toBeNull();
+  });
+});
+
+describe('replaceFrontmatter', () => {
+  test('keeps the body byte for byte', () => {
+    expect(replaceFrontmatter('---\nname: x\n---\n\nBody  \n', 'name: y')).toBe('---\nname: y\n---\n\nBody  \n');
+  });
+});
+
+describe('readAspectSource', () => {
+  test('reads YAML', () => {
+    const result = readAspectSource(YAML, 'yaml');
+    expect(result).toEqual({ success: true, data: ASPECT });
+  });
+
+  test('keeps version strings that look like numbers', () => {
+    const result = readAspectSource('version: 1.0.0\n', 'yaml');
+    expect(result.success && (result.data as { version: unknown }).version).toBe('1.0.0');
+  });
+
+  test('reads Markdown, using the body as the prompt', () => {
+    const result = readAspectSource(MARKDOWN, 'markdown');
+    expect(result).toEqual({ success: true, data: ASPECT });
+  });
+
+  test('rejects Markdown without frontmatter', () => {
+    const result = readAspectSource('You are a test assistant.', 'markdown');
+    expect(result.success).toBe(false);
+  });
+
+  test('rejects a prompt in the frontmatter', () => {
+    const result = readAspectSource('---\nprompt: Hi\n---\nBody', 'markdown');
+    expect(result.success).toBe(false);
+    if (!result.success) expect(result.errors[0]).toContain('prompt');
+  });
+
+  test('reports syntax errors by format', () => {
+    const json = readAspectSource('{ nope', 'json');
+    const yaml = readAspectSource('name: [unclosed', 'yaml');
+    expect(!json.success && json.errors[0]).toContain('Invalid JSON');
+    expect(!yaml.success && yaml.errors[0]).toContain('Invalid YAML');
+  });
+});
+
+describe('parseAspectSource', () => {
+  test('every format hashes like the canonical JSON', () => {
+    const json = parseAspectSource(JSON.stringify(ASPECT, null, 2), 'json');
+    if (!json.success) throw new Error(json.errors.join(', '));
+    const expected = blake3HashAspect(json.asWritten);
+    for (const [content, format] of [
+      [YAML, 'yaml'],
+      [MARKDOWN, 'markdown'],
+    ] as const) {
+      const result = parseAspectSource(content, format);
+      expect(result.success).toBe(true);
+      if (result.success) expect(blake3HashAspect(result.asWritten)).toBe(expected);
+    }
+  });
+
+  test('rejects a YAML scalar', () => {
+    expect(parseAspectSource('just text', 'yaml').success).toBe(false);
+  });
+});
+
+describe('findAspectFile', () => {
+  let dir: string;
+
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'aspects-formats-'));
+  });
+
+  afterAll(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  test('defaults to aspect.json when nothing exists', async () => {
+    expect(await findAspectFile(dir)).toBe(join(dir, 'aspect.json'));
+  });
+
+  test('finds YAML and Markdown, preferring aspect.json', async () => {
+    await writeFile(join(dir, 'aspect.md'), MARKDOWN);
+    expect(await findAspectFile(dir)).toBe(join(dir, 'aspect.md'));
+    await writeFile(join(dir, 'aspect.yaml'), YAML);
+    expect(await findAspectFile(dir)).toBe(join(dir, 'aspect.yaml'));
+    await writeFile(join(dir, 'aspect.json'), JSON.stringify(ASPECT));
+    expect(await findAspectFile(dir)).toBe(join(dir, 'aspect.json'));
+  });
+
+  test('resolveAspectFile passes files through', async () => {
+    const file = join(dir, 'aspect.md');
+    expect(await resolveAspectFile(file)).toBe(file);
+    expect(await resolveAspectFile(dir)).toBe(join(dir, 'aspect.json'));
+  });
+});
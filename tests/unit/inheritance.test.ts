@@ -0,0 +1,226 @@
+import { describe, test, expect } from 'bun:test';
+import {
+  MAX_EXTENDS_DEPTH,
+  mergeAspects,
+  resolveAspect,
+  resolveExtendsSpec,
+  type ParentLoader,
+} from '../../src/lib/inheritance';
+import type { Aspect } from '../../src/lib/types';
+
+const BASE: Aspect = {
+  schemaVersion: 1,
+  name: 'base',
+  publisher: 'morphist',
+  version: '1.0.0',
+  displayName: 'Base',
+  tagline: 'A base aspect to extend',
+  category: 'assistant',
+  tags: ['helpful', 'calm'],
+  voiceHints: { speed: 'slow', emotions: ['calm'], styleHints: 'Measured.' },
+  modes: {
+    teaching: { description: 'Explain in depth', critical: 'Use examples.' },
+  },
+  directives: [
+    { id: 'brief', rule: 'Keep it short.', priority: 'medium' },
+    { id: 'honest', rule: 'Never make things up.', priority: 'high' },
+  ],
+  instructions: [{ id: 'tone', rule: 'Be warm.' }],
+  prompt: 'You are a helpful assistant.',
+};
+
+function child(overrides: Partial<Aspect> = {}): Aspect {
+  return {
+    schemaVersion: 1,
+    name: 'child',
+    publisher: 'alice',
+    version: '2.0.0',
+    displayName: 'Child',
+    tagline: 'A child of the base aspect',
+    extends: 'morphist/base',
+    prompt: 'You specialise in cooking.',
+    ...overrides,
+  };
+}
+
+function loaderFor(aspects: Record<string, Aspect>): ParentLoader {
+  return async (spec) => (aspects[spec] ? { aspect: aspects[spec]! } : null);
+}
+
+describe('mergeAspects', () => {
+  test('takes identity from the child and drops extends', () => {
+    const merged = mergeAspects(BASE, child());
+    expect(merged.name).toBe('child');
+    expect(merged.publisher).toBe('alice');
+    expect(merged.version).toBe('2.0.0');
+    expect(merged.category).toBe('assistant');
+    expect(merged.extends).toBeUndefined();
+    expect(merged.promptMode).toBeUndefined();
+  });
+
+  test('appends the prompt by default', () => {
+    expect(mergeAspects(BASE, child()).prompt)
+      .toBe('You are a helpful assistant.\n\nYou specialise in cooking.');
+  });
+
+  test('replaces the prompt with promptMode "replace"', () => {
+    expect(mergeAspects(BASE, child({ promptMode: 'replace' })).prompt).toBe('You specialise in cooking.');
+  });
+
+  test('overrides directives by id in place and appends new ones', () => {
+    const merged = mergeAspects(BASE, child({
+      directives: [
+        { id: 'new', rule: 'Suggest recipes.', priority: 'low' },
+        { id: 'brief', rule: 'Keep it very short.', priority: 'high' },
+      ],
+    }));
+    expect(merged.directives).toEqual([
+      { id: 'brief', rule: 'Keep it very short.', priority: 'high' },
+      { id: 'honest', rule: 'Never make things up.', priority: 'high' },
+      { id: 'new', rule: 'Suggest recipes.', priority: 'low' },
+    ]);
+  });
+
+  test('merges instructions by id', () => {
+    const merged = mergeAspects(BASE, child({ instructions: [{ id: 'tone', rule: 'Be playful.' }] }));
+    expect(merged.instructions).toEqual([{ id: 'tone', rule: 'Be playful.' }]);
+  });
+
+  test('merges modes by key, field by field', () => {
+    const merged = mergeAspects(BASE, child({
+      modes: {
+        teaching: { description: 'Teach cooking' },
+        quiz: { description: 'Quiz the user' },
+      },
+    }));
+    expect(merged.modes).toEqual({
+      teaching: { description: 'Teach cooking', critical: 'Use examples.' },
+      quiz: { description: 'Quiz the user' },
+    });
+  });
+
+  test('merges variables by key, so a child can change a default', () => {
+    const parent = { ...BASE, variables: { company: { required: true, description: 'Company name' } } };
+    const merged = mergeAspects(parent, child({ variables: { company: { default: 'Acme' }, product: {} } }));
+    expect(merged.variables).toEqual({
+      company: { required: true, description: 'Company name', default: 'Acme' },
+      product: {},
+    });
+  });
+
+  test('merges resources by key, so a child can swap only the voice', () => {
+    const parent = {
+      ...BASE,
+      resources: {
+        voice: { recommended: { provider: 'cartesia' as const, voiceId: 'old' } },
+        model: { recommended: { provider: 'openai' as const, modelId: 'gpt-4.1-mini' } },
+      },
+    };
+    const merged = mergeAspects(parent, child({
+      resources: { voice: { recommended: { provider: 'elevenlabs', voiceId: 'new' } } },
+    }));
+    expect(merged.resources).toEqual({
+      voice: { recommended: { provider: 'elevenlabs', voiceId: 'new' } },
+      model: { recommended: { provider: 'openai', modelId: 'gpt-4.1-mini' } },
+    });
+  });
+
+  test('unions tags and emotions, overrides other voice hints', () => {
+    const merged = mergeAspects(BASE, child({
+      tags: ['cooking', 'calm'],
+      voiceHints: { speed: 'fast', emotions: ['joy'] },
+    }));
+    expect(merged.tags).toEqual(['helpful', 'calm', 'cooking']);
+    expect(merged.voiceHints).toEqual({ speed: 'fast', emotions: ['calm', 'joy'], styleHints: 'Measured.' });
+  });
+
+  test('appends the child\'s examples to the parent\'s', () => {
+    const hello = { messages: [{ role: 'user' as const, content: 'Hi' }, { role: 'assistant' as const, content: 'Hello!' }] };
+    const recipe = { messages: [{ role: 'user' as const, content: 'Soup?' }, { role: 'assistant' as const, content: 'Leek.' }] };
+    const merged = mergeAspects({ ...BASE, examples: [hello] }, child({ examples: [recipe] }));
+    expect(merged.examples).toEqual([hello, recipe]);
+    expect(mergeAspects(BASE, child()).examples).toBeUndefined();
+  });
+
+  test('does not mutate its inputs', () => {
+    const before = JSON.stringify(BASE);
+    mergeAspects(BASE, child({ directives: [{ id: 'brief', rule: 'x', priority: 'low' }] }));
+    expect(JSON.stringify(BASE)).toBe(before);
+  });
+});
+
+describe('resolveAspect', () => {
+  test('returns the aspect unchanged when it extends nothing', async () => {
+    const result = await resolveAspect(BASE, loaderFor({}));
+    expect(result).toEqual({ success: true, aspect: BASE, chain: ['base@1.0.0'] });
+  });
+
+  test('merges a multi-level chain root first', async () => {
+    const middle = child({ name: 'middle', version: '1.5.0', prompt: 'Middle prompt.' });
+    const leaf = child({ name: 'leaf', extends: 'alice/middle', prompt: 'Leaf prompt.' });
+    const result = await resolveAspect(leaf, loaderFor({ 'morphist/base': BASE, 'alice/middle': middle }));
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.chain).toEqual(['leaf@2.0.0', 'middle@1.5.0', 'base@1.0.0']);
+    expect(result.aspect.prompt).toBe('You are a helpful assistant.\n\nMiddle prompt.\n\nLeaf prompt.');
+  });
+
+  test('fails with an install hint when a parent is missing', async () => {
+    const result = await resolveAspect(child(), loaderFor({}));
+    expect(result.success).toBe(false);
+    if (result.success) return;
+    expect(result.error).toContain('aspects add morphist/base');
+  });
+
+  test('reports errors thrown by the loader', async () => {
+    const result = await resolveAspect(child(), async () => {
+      throw new Error('installed version 1.0.0 does not satisfy "^2.0.0"');
+    });
+    expect(result.success).toBe(false);
+    if (result.success) return;
+    expect(result.error).toContain('does not satisfy');
+  });
+
+  test('detects cycles', async () => {
+    const a = child({ name: 'a', extends: 'alice/b' });
+    const b = child({ name: 'b', extends: 'alice/a' });
+    const result = await resolveAspect(a, loaderFor({ 'alice/a': a, 'alice/b': b }));
+    expect(result.success).toBe(false);
+    if (result.success) return;
+    expect(result.error).toContain('extends cycle');
+  });
+
+  test('limits chain depth', async () => {
+    const aspects: Record<string, Aspect> = {};
+    for (let i = 0; i <= MAX_EXTENDS_DEPTH; i++) {
+      aspects[`alice/a${i}`] = child({ name: `a${i}`, extends: `alice/a${i + 1}` });
+    }
+    const result = await resolveAspect(aspects['alice/a0']!, loaderFor(aspects));
+    expect(result.success).toBe(false);
+    if (result.success) return;
+    expect(result.error).toContain(`deeper than ${MAX_EXTENDS_DEPTH}`);
+  });
+
+  test('resolves relative extends against the aspect directory', async () => {
+    const requested: string[] = [];
+    const loader: ParentLoader = async (spec) => {
+      requested.push(spec);
+      return { aspect: BASE };
+    };
+    await resolveAspect(child({ extends: '../base' }), loader, '/work/aspects/child');
+    expect(requested).toEqual(['/work/aspects/base']);
+  });
+});
+
+describe('resolveExtendsSpec', () => {
+  test('leaves registry, hash and github specs alone', () => {
+    expect(resolveExtendsSpec('morphist/base@^1.0.0')).toBe('morphist/base@^1.0.0');
+    expect(resolveExtendsSpec('github:owner/repo')).toBe('github:owner/repo');
+    expect(resolveExtendsSpec('/abs/base', '/elsewhere')).toBe('/abs/base');
+  });
+
+  test('refuses relative paths without a directory to resolve from', () => {
+    expect(() => resolveExtendsSpec('./base')).toThrow('local path');
+  });
+});
@@ -0,0 +1,38 @@
+import { describe, test, expect } from 'bun:test';
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { ASPECT_JSON_SCHEMA_URL, aspectJsonSchema } from '../../src/lib/json-schema';
+import { CURRENT_SCHEMA_VERSION, FIELD_LIMITS, OFFICIAL_CATEGORIES } from '../../src/lib/schema';
+
+type Properties = Record<string, Record<string, unknown>>;
+
+describe('aspectJsonSchema', () => {
+  const schema = aspectJsonSchema();
+  const properties = schema.properties as Properties;
+
+  test('matches the published copy byte for byte', () => {
+    // Regenerate with: aspects schema -o schema/aspect-v<version>.schema.json
+    const path = join(import.meta.dir, `../../schema/aspect-v${CURRENT_SCHEMA_VERSION}.schema.json`);
+    expect(readFileSync(path, 'utf-8')).toBe(JSON.stringify(aspectJsonSchema(), null, 2) + '\n');
+    expect(schema.$id).toBe(ASPECT_JSON_SCHEMA_URL);
+  });
+
+  test('carries the field limits', () => {
+    expect(properties.name!.maxLength).toBe(FIELD_LIMITS.name);
+    expect(properties.tagline!.minLength).toBe(FIELD_LIMITS.taglineMin);
+    expect((properties.prompt!.anyOf as Properties[string][])[0]!.maxLength).toBe(FIELD_LIMITS.prompt);
+    expect(properties.modes!.maxProperties).toBe(FIELD_LIMITS.maxModes);
+    expect(properties.variables!.maxProperties).toBe(FIELD_LIMITS.maxVariables);
+  });
+
+  test('suggests official categories without requiring them', () => {
+    expect(properties.category!.examples).toEqual([...OFFICIAL_CATEGORIES]);
+    expect(properties.category!.enum).toBeUndefined();
+  });
+
+  test('allows $schema and flags unknown fields', () => {
+    expect(properties.$schema).toMatchObject({ type: 'string' });
+    expect(schema.additionalProperties).toBe(false);
+    expect(schema.required).toEqual(expect.arrayContaining(['schemaVersion', 'name', 'version', 'prompt']));
+  });
+});
@@ -0,0 +1,280 @@
+import { describe, test, expect, beforeAll, afterAll } from 'bun:test';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  configureLintRules,
+  lintAspect,
+  lintAspectFile,
+  lintConfigForFile,
+  parseSuppressions,
+  readLintConfig,
+  type LintRule,
+} from '../../src/lib/lint';
+import { suggestCategory } from '../../src/lib/lint-rules';
+import type { Aspect } from '../../src/lib/types';
+
+const BASE: Aspect = {
+  schemaVersion: 2,
+  name: 'linted',
+  version: '1.0.0',
+  displayName: 'Linted',
+  tagline: 'An aspect for lint tests',
+  category: 'assistant',
+  prompt: 'You are a calm assistant.',
+};
+
+function rulesHit(aspect: Partial<Aspect>, config = {}): string[] {
+  return lintAspect({ ...BASE, ...aspect }, { config }).map(p => p.rule);
+}
+
+describe('built-in rules', () => {
+  test('a clean aspect has no problems', () => {
+    expect(lintAspect(BASE)).toEqual([]);
+  });
+
+  test('no-shouting flags more than two ALL-CAPS words, ignoring acronyms', () => {
+    expect(rulesHit({ prompt: 'Answer in JSON over HTTP via the API.' })).toEqual([]);
+    expect(rulesHit({ prompt: 'You MUST be CAREFUL and NOT LAZY.' })).toEqual(['no-shouting']);
+    expect(rulesHit({ prompt: 'You MUST be CAREFUL.' }, { rules: { 'no-shouting': { max: 0 } } })).toEqual(['no-shouting']);
+  });
+
+  test('absolute-language flags ALWAYS/NEVER without an escape clause', () => {
+    expect(rulesHit({ prompt: 'NEVER give medical advice.' })).toEqual(['absolute-language']);
+    expect(rulesHit({ prompt: 'NEVER give medical advice unless asked by a clinician.' })).toEqual([]);
+    expect(rulesHit({ prompt: 'never guess.' })).toEqual([]);
+    expect(rulesHit({ prompt: 'never guess.' }, { rules: { 'absolute-language': { ignoreCase: true } } }))
+      .toEqual(['absolute-language']);
+  });
+
+  test('contradictory-directives flags opposing rules in effect together', () => {
+    const problems = lintAspect({
+      ...BASE,
+      directives: [{ id: 'short', rule: 'Keep answers brief.', priority: 'high' }],
+      instructions: [{ id: 'long', rule: 'Give detailed explanations.' }],
+    });
+    expect(problems.map(p => p.rule)).toEqual(['contradictory-directives']);
+    expect(problems[0]!.path).toBe('instructions.0.rule');
+    expect(problems[0]!.message).toContain('"short"');
+  });
+
+  test('contradictory-directives ignores rules a mode swaps out', () => {
+    expect(rulesHit({
+      directives: [{ id: 'short', rule: 'Keep answers brief.', priority: 'high' }],
+      modes: {
+        teach: {
+          description: 'Teaching',
+          exclude: ['short'],
+          instructions: [{ id: 'long', rule: 'Give detailed explanations.' }],
+        },
+      },
+    })).toEqual([]);
+  });
+
+  test('duplicate-ids flags ids shared by directives and instructions', () => {
+    const problems = lintAspect({
+      ...BASE,
+      directives: [{ id: 'tone', rule: 'Speak plainly.', priority: 'high' }],
+      instructions: [{ id: 'tone', rule: 'Use short words.' }],
+    });
+    expect(problems.map(p => [p.rule, p.severity, p.path])).toEqual([['duplicate-ids', 'error', 'instructions.0.id']]);
+  });
+
+  test('directive-in-prompt flags rules the prompt already states', () => {
+    expect(rulesHit({
+      prompt: 'You are a calm assistant. Cite your sources for every claim.',
+      directives: [{ id: 'cite', rule: 'Cite your sources for every claim.', priority: 'high' }],
+    })).toEqual(['directive-in-prompt']);
+  });
+
+  test('unknown-category suggests the nearest official category', () => {
+    const problems = lintAspect({ ...BASE, category: 'asistant' });
+    expect(problems.map(p => p.rule)).toEqual(['unknown-category']);
+    expect(problems[0]!.message).toContain('did you mean "assistant"');
+    expect(suggestCategory('zzzzzzzzzzzz')).toBeUndefined();
+  });
+
+  test('vague-instruction flags generic virtues and hedges', () => {
+    expect(rulesHit({ instructions: [{ id: 'nice', rule: 'Be helpful.' }] })).toEqual(['vague-instruction']);
+    expect(rulesHit({ instructions: [{ id: 'fmt', rule: 'Use tables as appropriate.' }] })).toEqual(['vague-instruction']);
+    expect(rulesHit({ instructions: [{ id: 'fmt', rule: 'Use tables for comparisons.' }] })).toEqual([]);
+  });
+});
+
+describe('configureLintRules', () => {
+  test('changes severity and turns rules off', () => {
+    const active = configureLintRules({ rules: { 'no-shouting': 'error', 'vague-instruction': 'off' } });
+    expect(active.find(a => a.rule.id === 'no-shouting')!.severity).toBe('error');
+    expect(active.some(a => a.rule.id === 'vague-instruction')).toBe(false);
+  });
+
+  test('fills in option defaults', () => {
+    const active = configureLintRules({ rules: { 'no-shouting': { severity: 'info' } } });
+    const shouting = active.find(a => a.rule.id === 'no-shouting')!;
+    expect(shouting.severity).toBe('info');
+    expect(shouting.options.max).toBe(2);
+  });
+
+  test('rejects unknown rules and invalid options', () => {
+    expect(() => configureLintRules({ rules: { 'no-such-rule': 'error' } })).toThrow('Unknown lint rule "no-such-rule"');
+    expect(() => configureLintRules({ rules: { 'no-shouting': { max: -1 } } })).toThrow('no-shouting.max');
+    expect(() => configureLintRules({ rules: { 'duplicate-ids': { max: 1 } } })).toThrow('has no options');
+  });
+
+  test('runs custom rules', () => {
+    const rule: LintRule = {
+      id: 'needs-tags',
+      description: 'Aspects have tags',
+      severity: 'warning',
+      check: aspect => (aspect.tags?.length ? [] : [{ path: ['tags'], message: 'No tags' }]),
+    };
+    expect(lintAspect(BASE, { rules: [rule] })).toEqual([
+      { rule: 'needs-tags', severity: 'warning', message: 'No tags', path: 'tags', line: undefined },
+    ]);
+  });
+});
+
+describe('readLintConfig', () => {
+  test('reads the lint section of aspects.json', () => {
+    expect(readLintConfig(null)).toEqual({});
+    expect(readLintConfig({ dependencies: {} })).toEqual({});
+    expect(readLintConfig({ lint: { rules: { 'no-shouting': 'off' } } })).toEqual({ rules: { 'no-shouting': 'off' } });
+  });
+
+  test('throws on invalid settings', () => {
+    expect(() => readLintConfig({ lint: { rules: { 'no-shouting': 'loud' } } })).toThrow('Invalid lint settings in aspects.json');
+    expect(() => readLintConfig({ lint: { overrides: [{ files: [], rules: {} }] } })).toThrow('lint.overrides.0.files');
+  });
+});
+
+describe('lintConfigForFile', () => {
+  const config = readLintConfig({
+    lint: {
+      rules: { 'no-shouting': 'error', 'vague-instruction': 'warning' },
+      overrides: [
+        { files: ['legacy/**'], rules: { 'no-shouting': 'off' } },
+        { files: ['aspect.json', 'drafts/*/aspect.json'], rules: { 'vague-instruction': 'off' } },
+      ],
+    },
+  });
+
+  test('applies the overrides whose files match', () => {
+    expect(lintConfigForFile(config, 'legacy/old/aspect.json').rules).toEqual({
+      'no-shouting': 'off',
+      'vague-instruction': 'warning',
+    });
+    expect(lintConfigForFile(config, 'aspect.json').rules!['vague-instruction']).toBe('off');
+    expect(lintConfigForFile(config, 'drafts/one/aspect.json').rules!['vague-instruction']).toBe('off');
+    expect(lintConfigForFile(config, 'drafts/one/two/aspect.json').rules).toEqual(config.rules);
+  });
+
+  test('turns rules off for aspect.json, which has no comments', () => {
+    const aspect = { instructions: [{ id: 'nice', rule: 'Be helpful.' }] };
+    expect(rulesHit(aspect, lintConfigForFile(config, 'aspect.json'))).toEqual([]);
+    expect(rulesHit(aspect, lintConfigForFile(config, 'other/aspect.json'))).toEqual(['vague-instruction']);
+  });
+});
+
+describe('parseSuppressions', () => {
+  test('reads file, line and next-line markers', () => {
+    const suppressions = parseSuppressions([
+      '# aspects-lint-disable unknown-category',
+      'a: 1  # aspects-lint-disable-line no-shouting, absolute-language',
+      '# aspects-lint-disable-next-line',
+      'b: 2',
+    ].join('\n'), 'yaml');
+    expect(suppressions.file).toEqual(new Set(['unknown-category']));
+    expect(suppressions.lines.get(2)).toEqual(new Set(['no-shouting', 'absolute-language']));
+    expect(suppressions.lines.get(4)).toBeNull();
+  });
+
+  test('reads HTML comments in the aspect.md body', () => {
+    const suppressions = parseSuppressions([
+      '---',
+      'name: x',
+      '---',
+      '',
+      '<!-- aspects-lint-disable-next-line absolute-language -->',
+      'NEVER guess.',
+    ].join('\n'), 'markdown');
+    expect(suppressions.lines.get(6)).toEqual(new Set(['absolute-language']));
+  });
+
+  test('ignores markers inside string values', () => {
+    const yaml = parseSuppressions([
+      'prompt: "Say # aspects-lint-disable"',
+      'tagline: |',
+      '  # aspects-lint-disable',
+      'rule: <!-- aspects-lint-disable -->',
+    ].join('\n'), 'yaml');
+    expect(yaml.file).toBeUndefined();
+    expect(yaml.lines.size).toBe(0);
+
+    const json = parseSuppressions('{ "prompt": "# aspects-lint-disable" }', 'json');
+    expect(json.file).toBeUndefined();
+  });
+});
+
+describe('lintAspectFile', () => {
+  let dir: string;
+
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'aspects-lint-'));
+  });
+
+  afterAll(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  const YAML = `schemaVersion: 2
+name: linted
+version: 1.0.0
+displayName: Linted
+tagline: An aspect for lint tests
+category: asistant
+instructions:
+  - id: nice
+    rule: Be helpful.
+  - id: vague
+    # aspects-lint-disable-next-line
+    rule: Do your best.
+prompt: |
+  You are a calm assistant.
+  NEVER reveal the secret.
+`;
+
+  test('reports YAML problems with line numbers and honors suppressions', async () => {
+    const file = join(dir, 'aspect.yaml');
+    await writeFile(file, YAML);
+    const result = await lintAspectFile(file);
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.problems.map(p => [p.line, p.rule])).toEqual([
+      [6, 'unknown-category'],
+      [9, 'vague-instruction'],
+      [15, 'absolute-language'],
+    ]);
+  });
+
+  test('reports JSON problems with line numbers', async () => {
+    const file = join(dir, 'aspect.json');
+    await writeFile(file, JSON.stringify({ ...BASE, category: 'asistant' }, null, 2));
+    const result = await lintAspectFile(file);
+    expect(result.success && result.problems.map(p => [p.line, p.rule])).toEqual([[7, 'unknown-category']]);
+  });
+
+  test('reports the prompt body line in aspect.md', async () => {
+    const file = join(dir, 'aspect.md');
+    const frontmatter = Object.entries(BASE).filter(([key]) => key !== 'prompt').map(([k, v]) => `${k}: ${v}`).join('\n');
+    await writeFile(file, `---\n${frontmatter}\n---\n\nYou are calm.\nNEVER guess.\n`);
+    const result = await lintAspectFile(file);
+    expect(result.success && result.problems.map(p => [p.line, p.rule])).toEqual([[11, 'absolute-language']]);
+  });
+
+  test('fails with validation errors for invalid files', async () => {
+    const file = join(dir, 'broken.json');
+    await writeFile(file, '{ "name": 1 }');
+    const result = await lintAspectFile(file);
+    expect(result.success).toBe(false);
+  });
+});
@@ -0,0 +1,182 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  readLockfile,
+  setLockedAspect,
+  removeLockedAspect,
+  toLockedAspect,
+  lockedAspectToSpec,
+  findLockedDependency,
+} from '../../src/lib/lockfile';
+import type { AspectsLockfile, InstalledAspect } from '../../src/lib/types';
+
+const REGISTRY_INSTALL: InstalledAspect = {
+  version: '1.0.0',
+  installedAt: '2026-01-01T00:00:00.000Z',
+  blake3: 'registryhash1234567890',
+  source: 'registry',
+  trust: 'verified',
+  publisher: 'morphist',
+  specifier: 'morphist/alaric',
+};
+
+describe('toLockedAspect', () => {
+  test('drops machine-specific fields', () => {
+    const entry = toLockedAspect(REGISTRY_INSTALL, '/project');
+    expect(entry).toEqual({
+      specifier: 'morphist/alaric',
+      version: '1.0.0',
+      blake3: 'registryhash1234567890',
+      source: 'registry',
+      publisher: 'morphist',
+    });
+  });
+
+  test('makes local paths project-relative', () => {
+    const entry = toLockedAspect({
+      ...REGISTRY_INSTALL,
+      source: 'local',
+      trust: 'local',
+      publisher: undefined,
+      localPath: '/project/personas/helper',
+      specifier: './personas/helper',
+    }, '/project');
+    expect(entry.localPath).toBe('personas/helper');
+  });
+});
+
+describe('lockedAspectToSpec', () => {
+  test('pins registry entries to the locked version', () => {
+    const spec = lockedAspectToSpec('alaric', toLockedAspect(REGISTRY_INSTALL));
+    expect(spec).toEqual({ type: 'registry', name: 'alaric', publisher: 'morphist', version: '1.0.0' });
+  });
+
+  test('strips the publisher from publisher-scoped keys', () => {
+    const spec = lockedAspectToSpec('morphist/alaric', toLockedAspect(REGISTRY_INSTALL));
+    expect(spec).toEqual({ type: 'registry', name: 'alaric', publisher: 'morphist', version: '1.0.0' });
+  });
+
+  test('reinstalls hash entries by hash', () => {
+    const spec = lockedAspectToSpec('helper', {
+      specifier: 'blake3:abcdefghijklmnopqrstuvwxyz',
+      version: '0.1.0',
+      blake3: 'abcdefghijklmnopqrstuvwxyz',
+      source: 'registry',
+    });
+    expect(spec).toEqual({ type: 'hash', hash: 'abcdefghijklmnopqrstuvwxyz' });
+  });
+
+  test('reinstalls github entries at the locked ref', () => {
+    const spec = lockedAspectToSpec('helper', {
+      specifier: 'github:jane/helper',
+      version: '0.1.0',
+      blake3: 'abc',
+      source: 'github',
+      githubRef: 'jane/helper@main',
+    });
+    expect(spec).toEqual({ type: 'github', owner: 'jane', repo: 'helper', ref: 'main' });
+  });
+
+  test('resolves local entries against the project root', () => {
+    const spec = lockedAspectToSpec('helper', {
+      specifier: './personas/helper',
+      version: '0.1.0',
+      blake3: 'abc',
+      source: 'local',
+      localPath: 'personas/helper',
+    }, '/project');
+    expect(spec).toEqual({ type: 'local', path: '/project/personas/helper' });
+  });
+});
+
+describe('findLockedDependency', () => {
+  const lockfile: AspectsLockfile = {
+    lockfileVersion: 1,
+    aspects: {
+      alaric: toLockedAspect(REGISTRY_INSTALL),
+      helper: {
+        specifier: './personas/helper',
+        version: '0.1.0',
+        blake3: 'abc',
+        source: 'local',
+        localPath: 'personas/helper',
+      },
+    },
+  };
+
+  test('matches registry entries whose version satisfies the declared range', () => {
+    expect(findLockedDependency(lockfile, { type: 'registry', name: 'alaric', version: '^1.0.0' })?.[0])
+      .toBe('alaric');
+    expect(findLockedDependency(lockfile, { type: 'registry', name: 'alaric', publisher: 'morphist' })?.[0])
+      .toBe('alaric');
+  });
+
+  test('matches publisher-scoped keys by aspect name', () => {
+    const scoped: AspectsLockfile = {
+      lockfileVersion: 1,
+      aspects: { 'morphist/alaric': toLockedAspect(REGISTRY_INSTALL) },
+    };
+    expect(findLockedDependency(scoped, { type: 'registry', name: 'alaric', publisher: 'morphist' })?.[0])
+      .toBe('morphist/alaric');
+  });
+
+  test('rejects entries the declaration no longer allows', () => {
+    expect(findLockedDependency(lockfile, { type: 'registry', name: 'alaric', version: '^2.0.0' })).toBeUndefined();
+    expect(findLockedDependency(lockfile, { type: 'registry', name: 'alaric', publisher: 'other' })).toBeUndefined();
+    expect(findLockedDependency(null, { type: 'registry', name: 'alaric' })).toBeUndefined();
+  });
+
+  test('matches local entries by resolved path', () => {
+    expect(findLockedDependency(lockfile, { type: 'local', path: '/project/personas/helper' }, '/project')?.[0])
+      .toBe('helper');
+    expect(findLockedDependency(lockfile, { type: 'local', path: '/elsewhere/helper' }, '/project')).toBeUndefined();
+  });
+
+  test('matches extracted .aspect packages by their project-relative specifier', () => {
+    const entry = toLockedAspect({
+      ...REGISTRY_INSTALL,
+      source: 'local',
+      trust: 'local',
+      publisher: undefined,
+      specifier: '/packages/helper-1.0.0.aspect',
+    }, '/project');
+    expect(entry.specifier).toBe('../packages/helper-1.0.0.aspect');
+
+    const packaged: AspectsLockfile = { lockfileVersion: 1, aspects: { helper: entry } };
+    expect(findLockedDependency(packaged, { type: 'local', path: '/packages/helper-1.0.0.aspect' }, '/project')?.[0])
+      .toBe('helper');
+  });
+});
+
+describe('lockfile read/write', () => {
+  let projectRoot: string;
+
+  beforeEach(async () => {
+    projectRoot = await mkdtemp(join(tmpdir(), 'aspects-lock-'));
+  });
+
+  afterEach(async () => {
+    await rm(projectRoot, { recursive: true, force: true });
+  });
+
+  test('returns null when no lockfile exists', async () => {
+    expect(await readLockfile(projectRoot)).toBeNull();
+  });
+
+  test('records and removes entries, sorted by name', async () => {
+    await setLockedAspect('zeta', { ...REGISTRY_INSTALL, specifier: 'zeta' }, projectRoot);
+    await setLockedAspect('alaric', REGISTRY_INSTALL, projectRoot);
+
+    const raw = await readFile(join(projectRoot, 'aspects.lock'), 'utf-8');
+    expect(Object.keys(JSON.parse(raw).aspects)).toEqual(['alaric', 'zeta']);
+
+    expect(await removeLockedAspect('zeta', projectRoot)).toBe(true);
+    expect(await removeLockedAspect('zeta', projectRoot)).toBe(false);
+
+    const lockfile = await readLockfile(projectRoot);
+    expect(lockfile?.lockfileVersion).toBe(1);
+    expect(Object.keys(lockfile!.aspects)).toEqual(['alaric']);
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  readManifest,
+  addManifestDependency,
+  removeManifestDependency,
+  manifestDependencyToSpec,
+  specToManifestEntry,
+} from '../../src/lib/manifest';
+import type { Aspect } from '../../src/lib/types';
+
+const ASPECT: Aspect = {
+  schemaVersion: 1,
+  name: 'helper',
+  version: '1.2.3',
+  displayName: 'Helper',
+  tagline: 'A helpful test aspect',
+  prompt: 'You are a helper.',
+};
+
+describe('manifestDependencyToSpec', () => {
+  test('appends registry versions', () => {
+    expect(manifestDependencyToSpec('alaric', '1.0.0')).toBe('alaric@1.0.0');
+    expect(manifestDependencyToSpec('morphist/alaric', '2.0.0')).toBe('morphist/alaric@2.0.0');
+  });
+
+  test('treats latest and * as unversioned', () => {
+    expect(manifestDependencyToSpec('alaric', 'latest')).toBe('alaric');
+    expect(manifestDependencyToSpec('alaric', '*')).toBe('alaric');
+  });
+
+  test('passes through non-registry specifiers', () => {
+    expect(manifestDependencyToSpec('helper', 'github:jane/helper@v1')).toBe('github:jane/helper@v1');
+    expect(manifestDependencyToSpec('helper', './personas/helper')).toBe('./personas/helper');
+    expect(manifestDependencyToSpec('helper', 'blake3:abcdefghijklmnop')).toBe('blake3:abcdefghijklmnop');
+  });
+});
+
+describe('specToManifestEntry', () => {
+  test('uses qualified key and requested version for registry specs', () => {
+    expect(specToManifestEntry({ type: 'registry', name: 'helper', publisher: 'jane', version: '1.0.0' }, ASPECT))
+      .toEqual(['jane/helper', '1.0.0']);
+  });
+
+  test('saves a caret range on the installed version when none requested', () => {
+    expect(specToManifestEntry({ type: 'registry', name: 'helper' }, ASPECT)).toEqual(['helper', '^1.2.3']);
+  });
+
+  test('pins the installed publisher for bare registry specs', () => {
+    expect(specToManifestEntry({ type: 'registry', name: 'helper' }, { ...ASPECT, publisher: 'alice' }))
+      .toEqual(['alice/helper', '^1.2.3']);
+  });
+
+  test('records local paths relative to the project', () => {
+    expect(specToManifestEntry({ type: 'local', path: '/project/personas/helper' }, ASPECT, '/project'))
+      .toEqual(['helper', './personas/helper']);
+  });
+
+  test('records github and hash specifiers under the aspect name', () => {
+    expect(specToManifestEntry({ type: 'github', owner: 'jane', repo: 'helper', ref: 'v1' }, ASPECT))
+      .toEqual(['helper', 'github:jane/helper@v1']);
+    expect(specToManifestEntry({ type: 'hash', hash: 'abcdefghijklmnop' }, ASPECT))
+      .toEqual(['helper', 'blake3:abcdefghijklmnop']);
+  });
+});
+
+describe('manifest read/write', () => {
+  let projectRoot: string;
+
+  beforeEach(async () => {
+    projectRoot = await mkdtemp(join(tmpdir(), 'aspects-manifest-'));
+  });
+
+  afterEach(async () => {
+    await rm(projectRoot, { recursive: true, force: true });
+  });
+
+  test('returns null when no manifest exists', async () => {
+    expect(await readManifest(projectRoot)).toBeNull();
+  });
+
+  test('treats an empty marker file as an empty manifest', async () => {
+    await writeFile(join(projectRoot, 'aspects.json'), '');
+    expect(await readManifest(projectRoot)).toEqual({ dependencies: {} });
+  });
+
+  test('adds and removes dependencies, preserving other fields', async () => {
+    await writeFile(join(projectRoot, 'aspects.json'), JSON.stringify({ name: 'my-app' }));
+
+    await addManifestDependency('morphist/alaric', '1.0.0', projectRoot);
+    await addManifestDependency('default', 'latest', projectRoot);
+
+    const raw = JSON.parse(await readFile(join(projectRoot, 'aspects.json'), 'utf-8'));
+    expect(raw.name).toBe('my-app');
+    expect(Object.keys(raw.dependencies)).toEqual(['default', 'morphist/alaric']);
+
+    expect(await removeManifestDependency('alaric', projectRoot)).toBe(true);
+    expect(await removeManifestDependency('alaric', projectRoot)).toBe(false);
+
+    const manifest = await readManifest(projectRoot);
+    expect(manifest?.dependencies).toEqual({ default: 'latest' });
+  });
+});
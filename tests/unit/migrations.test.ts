@@ -0,0 +1,118 @@
+import { describe, test, expect } from 'bun:test';
+import { MIGRATIONS, migrateAspectContent, migrateAspectData } from '../../src/lib/migrations';
+import { CURRENT_SCHEMA_VERSION } from '../../src/lib/schema';
+
+const V1 = {
+  schemaVersion: 1,
+  name: 'test-aspect',
+  publisher: 'tester',
+  displayName: 'Test Aspect',
+  tagline: 'A test aspect for unit testing',
+  category: 'assistant',
+  prompt: 'You are a test assistant.',
+};
+
+describe('MIGRATIONS', () => {
+  test('form a chain up to the current version', () => {
+    let version = 1;
+    for (const migration of MIGRATIONS) {
+      expect(migration.from).toBe(version);
+      version = migration.to;
+    }
+    expect(version).toBe(CURRENT_SCHEMA_VERSION);
+  });
+});
+
+describe('migrateAspectData', () => {
+  test('upgrades v1 to v2, adding the version v1 defaulted', () => {
+    const { data, steps } = migrateAspectData(V1, 1);
+    expect(steps.map(s => s.to)).toEqual([2]);
+    expect(data.schemaVersion).toBe(2);
+    expect(data.version).toBe('0.0.0');
+  });
+
+  test('keeps key order, putting version after publisher', () => {
+    const { data } = migrateAspectData(V1, 1);
+    expect(Object.keys(data).slice(0, 4)).toEqual(['schemaVersion', 'name', 'publisher', 'version']);
+  });
+
+  test('keeps an existing version', () => {
+    expect(migrateAspectData({ ...V1, version: '1.2.0' }, 1).data.version).toBe('1.2.0');
+  });
+
+  test('adds a missing schemaVersion first', () => {
+    const { schemaVersion: _schemaVersion, ...unversioned } = V1;
+    expect(Object.keys(migrateAspectData(unversioned, 1).data)[0]).toBe('schemaVersion');
+  });
+
+  test('leaves current data alone', () => {
+    const current = { ...V1, schemaVersion: CURRENT_SCHEMA_VERSION, version: '1.0.0' };
+    expect(migrateAspectData(current, CURRENT_SCHEMA_VERSION)).toEqual({ data: current, steps: [] });
+  });
+});
+
+describe('migrateAspectContent', () => {
+  test('keeps indentation and the trailing newline', () => {
+    const content = JSON.stringify({ ...V1, version: '1.0.0' }, null, 4) + '\n';
+    const migrated = migrateAspectContent(content, 1);
+    expect(migrated).toBe(content.replace('"schemaVersion": 1', '"schemaVersion": 2'));
+  });
+
+  test('edits only the migrated keys, leaving inline arrays inline', () => {
+    const content = [
+      '{',
+      '  "schemaVersion": 1,',
+      '  "name": "test-aspect",',
+      '  "publisher": "tester",',
+      '  "tags": ["a", "b"],',
+      '  "prompt": "You are a \\"test\\"."',
+      '}',
+    ].join('\n');
+    expect(migrateAspectContent(content, 1)).toBe([
+      '{',
+      '  "schemaVersion": 2,',
+      '  "name": "test-aspect",',
+      '  "publisher": "tester",',
+      '  "version": "0.0.0",',
+      '  "tags": ["a", "b"],',
+      '  "prompt": "You are a \\"test\\"."',
+      '}',
+    ].join('\n'));
+  });
+
+  test('adds a missing schemaVersion first, in the file\'s own style', () => {
+    const content = '{"name":"test-aspect","prompt":"Hi"}';
+    expect(migrateAspectContent(content, 1)).toBe('{"schemaVersion":2,"name":"test-aspect","version":"0.0.0","prompt":"Hi"}');
+  });
+
+  test('keeps fields the v1 schema would strip', () => {
+    const content = JSON.stringify({ ...V1, $comment: 'draft' }, null, 2);
+    expect(JSON.parse(migrateAspectContent(content, 1)).$comment).toBe('draft');
+  });
+
+  test('keeps YAML comments and inserts version in order', () => {
+    const content = [
+      '# Draft',
+      'schemaVersion: 1',
+      'name: test-aspect',
+      'publisher: tester # me',
+      'displayName: Test Aspect',
+      '',
+    ].join('\n');
+    expect(migrateAspectContent(content, 1, 'yaml')).toBe([
+      '# Draft',
+      'schemaVersion: 2',
+      'name: test-aspect',
+      'publisher: tester # me',
+      'version: 0.0.0',
+      'displayName: Test Aspect',
+      '',
+    ].join('\n'));
+  });
+
+  test('rewrites only the frontmatter of aspect.md', () => {
+    const content = '---\nschemaVersion: 1\nname: test-aspect\n---\n\nYou are a **test**.\n';
+    expect(migrateAspectContent(content, 1, 'markdown'))
+      .toBe('---\nschemaVersion: 2\nname: test-aspect\nversion: 0.0.0\n---\n\nYou are a **test**.\n');
+  });
+});
@@ -0,0 +1,142 @@
+import { describe, test, expect, beforeAll, afterAll } from 'bun:test';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  BUILTIN_MODEL_PROFILES,
+  estimateTokens,
+  globToRegExp,
+  loadModelProfiles,
+  matchModelProfile,
+  resolveModelProfiles,
+} from '../../src/lib/model-profiles';
+
+function profileFor(model: string): string {
+  return matchModelProfile(model, BUILTIN_MODEL_PROFILES).id;
+}
+
+describe('estimateTokens', () => {
+  test('divides by the profile ratio, rounding up', () => {
+    const claude = matchModelProfile('claude-4', BUILTIN_MODEL_PROFILES);
+    const gpt = matchModelProfile('gpt-4o', BUILTIN_MODEL_PROFILES);
+    expect(estimateTokens('', claude)).toBe(0);
+    expect(estimateTokens('x'.repeat(35), claude)).toBe(10);
+    expect(estimateTokens('x'.repeat(35), gpt)).toBe(9);
+  });
+});
+
+describe('globToRegExp', () => {
+  test('matches * and ? wildcards, case-insensitively', () => {
+    expect(globToRegExp('gemini-*').test('Gemini-2.5-Pro')).toBe(true);
+    expect(globToRegExp('gpt-4?').test('gpt-4o')).toBe(true);
+    expect(globToRegExp('gpt-4?').test('gpt-4.1')).toBe(false);
+  });
+
+  test('treats other characters literally', () => {
+    expect(globToRegExp('gpt-4.1').test('gpt-401')).toBe(false);
+    expect(globToRegExp('a+b').test('a+b')).toBe(true);
+  });
+});
+
+describe('matchModelProfile (built-ins)', () => {
+  test('classifies Claude models', () => {
+    expect(profileFor('claude-4-sonnet')).toBe('claude-modern');
+    expect(profileFor('claude-haiku-4-5')).toBe('claude-modern');
+    expect(profileFor('claude-3-5-sonnet-20241022')).toBe('claude-modern');
+    expect(profileFor('claude-3-opus-20240229')).toBe('claude-legacy');
+  });
+
+  test('classifies GPT models', () => {
+    expect(profileFor('gpt-4o-mini')).toBe('gpt-modern');
+    expect(profileFor('gpt-4.1-mini')).toBe('gpt-4.1');
+    expect(profileFor('gpt-3.5-turbo')).toBe('gpt-legacy');
+  });
+
+  test('covers Gemini, Llama and Mistral', () => {
+    expect(profileFor('gemini-2.5-pro')).toBe('gemini');
+    expect(profileFor('meta-llama/Llama-3.1-70B')).toBe('llama');
+    expect(profileFor('mistral-large-latest')).toBe('mistral');
+  });
+
+  test('matches provider-prefixed ids', () => {
+    expect(profileFor('anthropic.claude-3-5-sonnet-20240620-v1:0')).toBe('claude-modern');
+    expect(profileFor('openrouter/gpt-4o')).toBe('gpt-modern');
+  });
+
+  test('falls back to the default profile', () => {
+    expect(profileFor('some-new-model')).toBe('default');
+  });
+
+  test('selects a profile by its id', () => {
+    expect(profileFor('gpt-legacy')).toBe('gpt-legacy');
+  });
+});
+
+describe('resolveModelProfiles', () => {
+  test('puts new profiles ahead of the built-ins', () => {
+    const profiles = resolveModelProfiles({
+      profiles: [{ id: 'house', extends: 'llama', match: ['*llama*'] }],
+    });
+    expect(matchModelProfile('llama-3', profiles).id).toBe('house');
+    expect(profiles.find(p => p.id === 'house')?.emphasis).toBe('caps');
+  });
+
+  test('exact ids beat globs', () => {
+    const profiles = resolveModelProfiles({
+      profiles: [{ id: 'pinned', match: ['gpt-4o-2024-05-13'], delimiter: 'markdown' }],
+    });
+    expect(matchModelProfile('gpt-4o-2024-05-13', profiles).id).toBe('pinned');
+    expect(matchModelProfile('gpt-4o-mini', profiles).id).toBe('gpt-modern');
+  });
+
+  test('an extending profile without match only matches its id', () => {
+    const profiles = resolveModelProfiles({ profiles: [{ id: 'my-gemini', extends: 'gemini' }] });
+    expect(profiles[0]!.match).toEqual([]);
+    expect(matchModelProfile('gemini-2.5-pro', profiles).id).toBe('gemini');
+    expect(matchModelProfile('my-gemini', profiles).contextWindow).toBe(1048576);
+  });
+
+  test('overriding a built-in keeps its place and unset fields', () => {
+    const profiles = resolveModelProfiles({ profiles: [{ id: 'gemini', reminders: false }] });
+    const gemini = matchModelProfile('gemini-2.5-flash', profiles);
+    expect(gemini.reminders).toBe(false);
+    expect(gemini.delimiter).toBe('xml');
+    expect(profiles.map(p => p.id)).toEqual(BUILTIN_MODEL_PROFILES.map(p => p.id));
+  });
+
+  test('rejects unknown bases and cycles', () => {
+    expect(() => resolveModelProfiles({ profiles: [{ id: 'x', extends: 'nope' }] })).toThrow('Unknown model profile');
+    expect(() => resolveModelProfiles({
+      profiles: [{ id: 'a', extends: 'b' }, { id: 'b', extends: 'a' }],
+    })).toThrow('cycle');
+  });
+});
+
+describe('loadModelProfiles', () => {
+  let dir: string;
+
+  beforeAll(() => {
+    dir = mkdtempSync(join(tmpdir(), 'aspects-models-'));
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('returns the built-ins when there is no file', async () => {
+    expect(await loadModelProfiles(join(dir, 'missing.json'))).toBe(BUILTIN_MODEL_PROFILES);
+  });
+
+  test('reads user profiles', async () => {
+    const path = join(dir, 'models.json');
+    writeFileSync(path, JSON.stringify({ profiles: [{ id: 'qwen', extends: 'llama', match: ['qwen*'] }] }));
+    const profiles = await loadModelProfiles(path);
+    expect(matchModelProfile('qwen2.5-72b', profiles).id).toBe('qwen');
+  });
+
+  test('rejects invalid profiles', async () => {
+    const path = join(dir, 'bad.json');
+    writeFileSync(path, JSON.stringify({ profiles: [{ id: 'x', delimiter: 'yaml' }] }));
+    await expect(loadModelProfiles(path)).rejects.toThrow('profiles.0.delimiter');
+  });
+});
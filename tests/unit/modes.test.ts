@@ -0,0 +1,196 @@
+import { describe, test, expect } from 'bun:test';
+import {
+  effectiveRules,
+  findAmbiguousTriggers,
+  findDanglingModeReferences,
+  findNoOpIncludes,
+  matchTrigger,
+  modeOnlyIds,
+  normalizePhrase,
+} from '../../src/lib/modes';
+import type { Aspect } from '../../src/lib/types';
+
+const ALARIC: Aspect = {
+  schemaVersion: 1,
+  name: 'alaric',
+  version: '1.0.0',
+  displayName: 'Alaric',
+  tagline: 'A quirky old wizard',
+  directives: [
+    { id: 'no-narration', rule: 'No action descriptions.', priority: 'high' },
+    { id: 'brief', rule: 'Keep it short.', priority: 'medium' },
+    { id: 'scene-flow', rule: 'End scenes with "What do you do?"', priority: 'medium' },
+  ],
+  instructions: [
+    { id: 'tone', rule: 'Be whimsical.' },
+    { id: 'dice', rule: 'Roll dice openly.' },
+  ],
+  modes: {
+    campaign: {
+      description: 'Run an RPG campaign',
+      only: ['scene-flow', 'dice'],
+      exclude: ['no-narration', 'brief'],
+      directives: [{ id: 'narrate', rule: 'Narrate scenes in italics.', priority: 'high' }],
+    },
+    teaching: {
+      description: 'Explain in depth',
+      instructions: [{ id: 'tone', rule: 'Be patient.' }],
+    },
+  },
+  prompt: 'You are Alaric.',
+};
+
+const ids = (entries: Array<{ id: string }>) => entries.map(e => e.id);
+
+describe('modeOnlyIds', () => {
+  test('collects every mode\'s only', () => {
+    expect([...modeOnlyIds(ALARIC)]).toEqual(['scene-flow', 'dice']);
+  });
+});
+
+describe('effectiveRules', () => {
+  test('leaves mode-only ids out when no mode is active', () => {
+    const rules = effectiveRules(ALARIC);
+    expect(ids(rules.directives)).toEqual(['no-narration', 'brief']);
+    expect(ids(rules.instructions)).toEqual(['tone']);
+  });
+
+  test('includes, excludes and adds for the active mode', () => {
+    const rules = effectiveRules(ALARIC, 'campaign');
+    expect(ids(rules.directives)).toEqual(['scene-flow', 'narrate']);
+    expect(ids(rules.instructions)).toEqual(['tone', 'dice']);
+  });
+
+  test('replaces an entry with the mode\'s version in place', () => {
+    const rules = effectiveRules(ALARIC, 'teaching');
+    expect(rules.instructions).toEqual([{ id: 'tone', rule: 'Be patient.' }]);
+  });
+
+  test('treats a mode the aspect lacks like no mode', () => {
+    expect(effectiveRules(ALARIC, 'pirate')).toEqual(effectiveRules(ALARIC));
+  });
+
+  test('include turns on another mode\'s mode-only ids, and leaves the rest alone', () => {
+    const aspect: Aspect = {
+      ...ALARIC,
+      modes: {
+        ...ALARIC.modes,
+        teaching: { description: 'Explain in depth', include: ['dice', 'brief'] },
+      },
+    };
+    expect(ids(effectiveRules(aspect, 'teaching').directives)).toEqual(['no-narration', 'brief']);
+    expect(ids(effectiveRules(aspect, 'teaching').instructions)).toEqual(['tone', 'dice']);
+    expect(ids(effectiveRules(aspect).directives)).toEqual(['no-narration', 'brief']);
+  });
+});
+
+describe('findNoOpIncludes', () => {
+  test('flags includes of ids that apply in every mode already', () => {
+    const aspect: Aspect = {
+      ...ALARIC,
+      modes: { ...ALARIC.modes, teaching: { description: 'x', include: ['dice', 'brief'] } },
+    };
+    expect(findNoOpIncludes(ALARIC)).toEqual([]);
+    expect(findNoOpIncludes(aspect)).toEqual([
+      'modes.teaching.include: "brief" applies in every mode already (list it in a mode\'s "only" to make it mode-only)',
+    ]);
+  });
+});
+
+describe('findDanglingModeReferences', () => {
+  test('passes when every id exists', () => {
+    expect(findDanglingModeReferences(ALARIC)).toEqual([]);
+  });
+
+  test('reports unknown ids and ids both included and excluded', () => {
+    const aspect: Aspect = {
+      ...ALARIC,
+      modes: { campaign: { description: 'x', only: ['dice', 'ghost'], exclude: ['dice'] } },
+    };
+    expect(findDanglingModeReferences(aspect)).toEqual([
+      'modes.campaign.only: "ghost" is not a directive or instruction id',
+      'modes.campaign: "dice" is both included and excluded',
+    ]);
+  });
+
+  test('reports a defaultMode that is not a mode', () => {
+    expect(findDanglingModeReferences({ ...ALARIC, defaultMode: 'campaign' })).toEqual([]);
+    expect(findDanglingModeReferences({ ...ALARIC, defaultMode: 'battle' })).toEqual([
+      'defaultMode: "battle" is not a mode',
+    ]);
+  });
+});
+
+const VOICE: Aspect = {
+  ...ALARIC,
+  modes: {
+    campaign: {
+      description: 'Run an RPG campaign',
+      triggers: { enter: ['Start a campaign', "Let's play"], exit: ['end the campaign', 'stop playing'] },
+    },
+    teaching: {
+      description: 'Explain in depth',
+      triggers: { enter: ['teach me'] },
+    },
+  },
+  commands: [
+    { id: 'show-options', action: 'List available actions', aliases: ['options', 'what can you do'] },
+    { id: 'play-music', action: 'Hum a tavern tune', aliases: ['play'] },
+  ],
+};
+
+describe('normalizePhrase', () => {
+  test('ignores case, punctuation, curly apostrophes and extra spaces', () => {
+    expect(normalizePhrase('  Let’s   PLAY!! ')).toBe("let's play");
+  });
+});
+
+describe('matchTrigger', () => {
+  test('matches an enter phrase inside a longer utterance', () => {
+    expect(matchTrigger(VOICE, "Okay Alaric, let's play a game")).toEqual({
+      type: 'enter',
+      mode: 'campaign',
+      phrase: "Let's play",
+    });
+  });
+
+  test('prefers the longest matching phrase', () => {
+    expect(matchTrigger(VOICE, "let's play")!.type).toBe('enter');
+    expect(matchTrigger(VOICE, 'can you play something')).toEqual({
+      type: 'command',
+      command: 'play-music',
+      phrase: 'play',
+    });
+  });
+
+  test('only matches exit phrases for the active mode', () => {
+    expect(matchTrigger(VOICE, 'stop playing please')).toBeNull();
+    expect(matchTrigger(VOICE, 'stop playing please', 'campaign')).toEqual({
+      type: 'exit',
+      mode: 'campaign',
+      phrase: 'stop playing',
+    });
+  });
+
+  test('ignores enter phrases for the mode already active', () => {
+    expect(matchTrigger(VOICE, 'start a campaign', 'campaign')).toBeNull();
+  });
+
+  test('requires whole words', () => {
+    expect(matchTrigger(VOICE, 'my playlist')).toBeNull();
+  });
+});
+
+describe('findAmbiguousTriggers', () => {
+  test('passes when every phrase has one target', () => {
+    expect(findAmbiguousTriggers(VOICE)).toEqual([]);
+  });
+
+  test('reports a phrase shared by a mode and a command', () => {
+    const aspect: Aspect = {
+      ...VOICE,
+      commands: [{ id: 'lesson', action: 'Start a lesson', aliases: ['Teach me!'] }],
+    };
+    expect(findAmbiguousTriggers(aspect)).toEqual(['"teach me" triggers modes.teaching.enter and commands.lesson']);
+  });
+});
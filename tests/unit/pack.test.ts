@@ -0,0 +1,296 @@
+import { describe, test, expect, beforeAll, afterAll } from 'bun:test';
+import { mkdir, mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { gzipSync } from 'node:zlib';
+import {
+  buildPackage,
+  createTar,
+  extractTar,
+  isPackagePath,
+  packAspect,
+  packagedFiles,
+  readPackageDir,
+  unpackAspect,
+  writePackageFiles,
+  type PackageFile,
+} from '../../src/lib/pack';
+import { parseAspectData } from '../../src/lib/parser';
+import { aspectSchema } from '../../src/lib/schema';
+import { blake3HashBytes } from '../../src/utils/hash';
+
+const ASPECT = {
+  schemaVersion: 2,
+  name: 'packy',
+  version: '1.2.0',
+  displayName: 'Packy',
+  tagline: 'An aspect with extra files',
+  category: 'assistant',
+  files: ['README.md', 'examples/greeting.md'],
+  prompt: 'You are Packy.',
+};
+
+const encode = (text: string) => new TextEncoder().encode(text);
+const decode = (bytes: Uint8Array) => new TextDecoder().decode(bytes);
+
+const FILES: PackageFile[] = [
+  { path: 'examples/greeting.md', content: encode('Hi there!\n') },
+  { path: 'README.md', content: encode('# Packy\n') },
+];
+
+function build(data: object = ASPECT, files: PackageFile[] = FILES) {
+  return buildPackage(parseAspectData(data), files);
+}
+
+describe('files manifest', () => {
+  test('accepts relative paths', () => {
+    expect(aspectSchema.safeParse(ASPECT).success).toBe(true);
+  });
+
+  test('rejects paths outside the package, absolute paths and aspect files', () => {
+    for (const path of ['../secret', 'a/../../b', '/etc/passwd', './README.md', 'aspect.json', 'a b.md']) {
+      expect(aspectSchema.safeParse({ ...ASPECT, files: [path] }).success).toBe(false);
+    }
+  });
+
+  test('rejects duplicates', () => {
+    expect(aspectSchema.safeParse({ ...ASPECT, files: ['README.md', 'README.md'] }).success).toBe(false);
+  });
+});
+
+describe('prompt files', () => {
+  const PROMPT_ASPECT = { ...ASPECT, files: [...ASPECT.files, 'prompt.md'], prompt: { file: 'prompt.md' } };
+  const long = `You are Packy. ${'Stay on topic. '.repeat(5000)}`;
+  const withPrompt = (text: string) => [...FILES, { path: 'prompt.md', content: encode(text) }];
+  const readFrom = (files: PackageFile[]) => ({
+    readFile: (path: string) => {
+      const file = files.find(f => f.path === path);
+      return file && decode(file.content);
+    },
+  });
+
+  test('reads the prompt from a listed file, past the inline limit', () => {
+    const files = withPrompt(long);
+    const parsed = parseAspectData(PROMPT_ASPECT, readFrom(files));
+    if (!parsed.success) throw new Error(parsed.errors.join(', '));
+    expect(long.length).toBeGreaterThan(50000);
+    expect(parsed.aspect.prompt).toBe(long);
+    expect(parsed.asWritten.prompt).toBe(long);
+    expect(parsed.promptFile).toBe('prompt.md');
+  });
+
+  test('packages keep the reference, and unpack with the prompt read in', () => {
+    const files = withPrompt(long);
+    const built = buildPackage(parseAspectData(PROMPT_ASPECT, readFrom(files)), files);
+    if (!built.success) throw new Error(built.errors.join(', '));
+    expect(JSON.parse(decode(built.package.files[0]!.content)).prompt).toEqual({ file: 'prompt.md' });
+    expect(packagedFiles(built.package).map(f => f.path)).toEqual(['README.md', 'examples/greeting.md']);
+
+    const unpacked = unpackAspect(packAspect(built.package));
+    if (!unpacked.success) throw new Error(unpacked.errors.join(', '));
+    expect(unpacked.package.aspect.prompt).toBe(long);
+    expect(unpacked.package.hash).toBe(built.package.hash);
+  });
+
+  test('rejects prompt files that are unlisted, missing, too short or too long', () => {
+    const errors = (data: object, files: PackageFile[]) => {
+      const parsed = parseAspectData(data, readFrom(files));
+      return !parsed.success && parsed.errors;
+    };
+    expect(errors({ ...PROMPT_ASPECT, files: ASPECT.files }, withPrompt('You are Packy.')))
+      .toEqual(['prompt.file: prompt.md must be listed in files']);
+    expect(errors(PROMPT_ASPECT, FILES)).toEqual(['prompt.file: prompt.md not found']);
+    expect(errors(PROMPT_ASPECT, withPrompt('Hi.'))).toEqual(['prompt.file: prompt.md must be at least 10 chars']);
+    expect(errors(PROMPT_ASPECT, withPrompt('x'.repeat(500001))))
+      .toEqual(['prompt.file: prompt.md must be 500000 chars or less']);
+    expect(aspectSchema.safeParse({ ...PROMPT_ASPECT, prompt: { file: '../prompt.md' } }).success).toBe(false);
+  });
+});
+
+/** Recompute the first header's checksum after editing it */
+function fixChecksum(tar: Uint8Array): void {
+  let sum = 0;
+  for (let i = 0; i < 512; i++) sum += i >= 148 && i < 156 ? 0x20 : tar[i]!;
+  tar.set(encode(`${sum.toString(8).padStart(6, '0')}\0 `), 148);
+}
+
+describe('tar', () => {
+  test('round-trips files, including long paths', () => {
+    const long = `${'d'.repeat(80)}/${'e'.repeat(80)}.md`;
+    const files = [...FILES, { path: long, content: encode('x'.repeat(600)) }];
+    expect(extractTar(createTar(files))).toEqual(files);
+  });
+
+  test('is deterministic', () => {
+    expect(createTar(FILES)).toEqual(createTar(FILES));
+  });
+
+  test('rejects unsafe paths', () => {
+    const tar = createTar([{ path: 'ok.md', content: encode('x') }]);
+    tar.set(encode('../ok.md'), 0);
+    fixChecksum(tar);
+    expect(() => extractTar(tar)).toThrow('Unsafe path');
+  });
+
+  test('rejects corrupt headers', () => {
+    const tar = createTar(FILES);
+    tar[0] = 'X'.charCodeAt(0);
+    expect(() => extractTar(tar)).toThrow('checksum');
+  });
+
+  test('rejects links', () => {
+    const tar = createTar([{ path: 'ok.md', content: encode('') }]);
+    tar[156] = '2'.charCodeAt(0);
+    fixChecksum(tar);
+    expect(() => extractTar(tar)).toThrow('only regular files');
+  });
+});
+
+describe('buildPackage', () => {
+  test('puts aspect.json first and sorts the rest', () => {
+    const result = build();
+    if (!result.success) throw new Error(result.errors.join(', '));
+    expect(result.package.files.map(f => f.path)).toEqual(['aspect.json', 'README.md', 'examples/greeting.md']);
+    expect(JSON.parse(decode(result.package.files[0]!.content))).toEqual(result.package.asWritten);
+  });
+
+  test('hashes the tar, whatever order the files came in', () => {
+    const a = build();
+    const b = build(ASPECT, [...FILES].reverse());
+    if (!a.success || !b.success) throw new Error('build failed');
+    expect(a.package.hash).toBe(b.package.hash);
+    expect(a.package.hash).toBe(blake3HashBytes(createTar(a.package.files)));
+  });
+
+  test('changes hash when any file changes', () => {
+    const a = build();
+    const b = build(ASPECT, [FILES[0]!, { path: 'README.md', content: encode('# Changed\n') }]);
+    if (!a.success || !b.success) throw new Error('build failed');
+    expect(a.package.hash).not.toBe(b.package.hash);
+  });
+
+  test('requires the files to match the manifest', () => {
+    const missing = build(ASPECT, [FILES[0]!]);
+    expect(!missing.success && missing.errors).toEqual(['files: README.md is listed but not in the package']);
+
+    const extra = build(ASPECT, [...FILES, { path: 'extra.md', content: encode('') }]);
+    expect(!extra.success && extra.errors).toEqual(['extra.md is in the package but not listed in files']);
+  });
+
+  test('requires a files manifest', () => {
+    const { files: _files, ...single } = ASPECT;
+    expect(build(single, []).success).toBe(false);
+  });
+});
+
+describe('packAspect / unpackAspect', () => {
+  test('round-trips, keeping the hash', () => {
+    const built = build();
+    if (!built.success) throw new Error(built.errors.join(', '));
+    const packed = packAspect(built.package);
+    expect(packAspect(built.package)).toEqual(packed);
+
+    const unpacked = unpackAspect(packed);
+    if (!unpacked.success) throw new Error(unpacked.errors.join(', '));
+    expect(unpacked.package.hash).toBe(built.package.hash);
+    expect(unpacked.package.files).toEqual(built.package.files);
+  });
+
+  test('rejects non-gzip data', () => {
+    const result = unpackAspect(encode('not a package'));
+    expect(!result.success && result.errors[0]).toContain('Not a valid .aspect package');
+  });
+
+  test('rejects a package without aspect.json', () => {
+    const result = unpackAspect(gzipSync(createTar(FILES)));
+    expect(!result.success && result.errors).toEqual(['Package has no aspect.json']);
+  });
+
+  test('rejects files the manifest does not list', () => {
+    const built = build();
+    if (!built.success) throw new Error(built.errors.join(', '));
+    const tar = createTar([...built.package.files, { path: 'sneaky.sh', content: encode('rm -rf ~') }]);
+    expect(unpackAspect(gzipSync(tar)).success).toBe(false);
+  });
+
+  test('recognises package paths', () => {
+    expect(isPackagePath('./packy-1.2.0.aspect')).toBe(true);
+    expect(isPackagePath('./packy/aspect.json')).toBe(false);
+  });
+});
+
+describe('readPackageDir / writePackageFiles', () => {
+  let dir: string;
+
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'aspects-pack-'));
+    await mkdir(join(dir, 'src', 'examples'), { recursive: true });
+    await writeFile(join(dir, 'src', 'aspect.json'), JSON.stringify(ASPECT, null, 2));
+    for (const file of FILES) {
+      await writeFile(join(dir, 'src', file.path), file.content);
+    }
+  });
+
+  afterAll(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  test('reads the listed files and hashes like the in-memory build', async () => {
+    const result = await readPackageDir(join(dir, 'src'));
+    const built = build();
+    if (!result.success || !built.success) throw new Error('read failed');
+    expect(result.package.hash).toBe(built.package.hash);
+  });
+
+  test('hashes the same from YAML', async () => {
+    const yamlDir = join(dir, 'yaml');
+    await mkdir(join(yamlDir, 'examples'), { recursive: true });
+    await writeFile(
+      join(yamlDir, 'aspect.yaml'),
+      Object.entries(ASPECT)
+        .map(([key, value]) => `${key}: ${JSON.stringify(value)}`)
+        .join('\n'),
+    );
+    for (const file of FILES) {
+      await writeFile(join(yamlDir, file.path), file.content);
+    }
+    const json = await readPackageDir(join(dir, 'src'));
+    const yaml = await readPackageDir(yamlDir);
+    if (!json.success || !yaml.success) throw new Error('read failed');
+    expect(yaml.package.hash).toBe(json.package.hash);
+  });
+
+  test('reads a prompt file next to the aspect file', async () => {
+    const promptDir = join(dir, 'prompt');
+    await mkdir(promptDir, { recursive: true });
+    await writeFile(
+      join(promptDir, 'aspect.json'),
+      JSON.stringify({ ...ASPECT, files: ['prompt.md'], prompt: { file: 'prompt.md' } }),
+    );
+    await writeFile(join(promptDir, 'prompt.md'), 'You are Packy, from a file.\n');
+    const result = await readPackageDir(promptDir);
+    if (!result.success) throw new Error(result.errors.join(', '));
+    expect(result.package.aspect.prompt).toBe('You are Packy, from a file.\n');
+  });
+
+  test('reports missing files', async () => {
+    await writeFile(join(dir, 'aspect.json'), JSON.stringify({ ...ASPECT, files: ['nope.md'] }));
+    const result = await readPackageDir(dir);
+    expect(!result.success && result.errors).toEqual(['files: nope.md not found']);
+  });
+
+  test('writes a package out, replacing the directory', async () => {
+    const built = build();
+    if (!built.success) throw new Error(built.errors.join(', '));
+    const out = join(dir, 'out');
+    await mkdir(out, { recursive: true });
+    await writeFile(join(out, 'stale.md'), 'old');
+
+    await writePackageFiles(out, built.package);
+    expect(await readFile(join(out, 'examples', 'greeting.md'), 'utf-8')).toBe('Hi there!\n');
+    await expect(readFile(join(out, 'stale.md'))).rejects.toThrow();
+
+    const reread = await readPackageDir(out);
+    expect(reread.success && reread.package.hash).toBe(built.package.hash);
+  });
+});
@@ -1,5 +1,6 @@
 import { describe, test, expect } from 'bun:test';
 import { parseAspectJson } from '../../src/lib/parser';
+import type { AspectExample, AspectResources } from '../../src/lib/types';
 
 const VALID_ASPECT = {
   schemaVersion: 1,
@@ -92,4 +93,108 @@ describe('parseAspectJson', () => {
       expect(result.aspect.tags).toEqual(['test', 'unit']);
     }
   });
+
+  test('keeps recommended resources', () => {
+    const resources: AspectResources = {
+      voice: { recommended: { provider: 'cartesia', voiceId: '87748186-23bb-4158-a1eb-332911b0b708' } },
+      model: { recommended: { provider: 'openai', modelId: 'gpt-4.1-mini' } },
+    };
+    const result = parseAspectJson(JSON.stringify({ ...VALID_ASPECT, resources }));
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.aspect.resources).toEqual(resources);
+    }
+  });
+
+  test('accepts and drops $schema', () => {
+    const result = parseAspectJson(JSON.stringify({ $schema: './aspect.schema.json', ...VALID_ASPECT }));
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect('$schema' in result.aspect).toBe(false);
+    }
+    expect(parseAspectJson(JSON.stringify({ ...VALID_ASPECT, $schema: 2 })).success).toBe(false);
+  });
+
+  test('accepts examples at the top level and per mode', () => {
+    const example: AspectExample = {
+      title: 'Greeting',
+      messages: [
+        { role: 'user', content: 'Hello' },
+        { role: 'assistant', content: 'Hi there!' },
+      ],
+    };
+    const aspect = { ...VALID_ASPECT, schemaVersion: 2, examples: [example], modes: { calm: { description: 'Calm', examples: [example] } } };
+    const result = parseAspectJson(JSON.stringify(aspect));
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.aspect.examples).toEqual([example]);
+      expect(result.aspect.modes!.calm!.examples).toEqual([example]);
+    }
+  });
+
+  test('rejects examples that do not alternate user and assistant', () => {
+    const parse = (roles: string[]) => parseAspectJson(JSON.stringify({
+      ...VALID_ASPECT,
+      schemaVersion: 2,
+      examples: [{ messages: roles.map(role => ({ role, content: 'text' })) }],
+    }));
+    expect(parse(['user', 'assistant', 'user', 'assistant']).success).toBe(true);
+    expect(parse(['assistant', 'user']).success).toBe(false);
+    expect(parse(['user', 'user']).success).toBe(false);
+    expect(parse(['user', 'assistant', 'user']).success).toBe(false);
+    expect(parse(['user']).success).toBe(false);
+  });
+
+  test('fails on an unknown resource provider', () => {
+    const resources = { voice: { recommended: { provider: 'acme-tts', voiceId: 'v1' } } };
+    const result = parseAspectJson(JSON.stringify({ ...VALID_ASPECT, resources }));
+    expect(result.success).toBe(false);
+  });
+});
+
+describe('schema versions', () => {
+  const V2_ASPECT = { ...VALID_ASPECT, schemaVersion: 2 };
+
+  test('parses the current version without migrating', () => {
+    const result = parseAspectJson(JSON.stringify(V2_ASPECT));
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.migratedFrom).toBeUndefined();
+      expect(result.asWritten).toBe(result.aspect);
+      expect(result.warnings).toEqual([]);
+    }
+  });
+
+  test('migrates v1 in memory and warns', () => {
+    const result = parseAspectJson(JSON.stringify(VALID_ASPECT));
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.migratedFrom).toBe(1);
+      expect(result.aspect.schemaVersion).toBe(2);
+      expect(result.asWritten.schemaVersion).toBe(1);
+      expect(result.warnings.some(w => w.includes('aspects migrate'))).toBe(true);
+    }
+  });
+
+  test('requires version from v2', () => {
+    const { version, ...rest } = V2_ASPECT;
+    expect(parseAspectJson(JSON.stringify(rest)).success).toBe(false);
+  });
+
+  test('keeps v2 fields v1 drops', () => {
+    const modes = { focus: { description: 'Focused' } };
+    const v2 = parseAspectJson(JSON.stringify({ ...V2_ASPECT, modes, defaultMode: 'focus' }));
+    const v1 = parseAspectJson(JSON.stringify({ ...VALID_ASPECT, modes, defaultMode: 'focus' }));
+    expect(v2.success && v2.aspect.defaultMode).toBe('focus');
+    expect(v1.success && v1.aspect.defaultMode).toBeUndefined();
+  });
+
+  test('fails on a newer or unknown version', () => {
+    const newer = parseAspectJson(JSON.stringify({ ...VALID_ASPECT, schemaVersion: 99 }));
+    expect(newer.success).toBe(false);
+    if (!newer.success) {
+      expect(newer.errors[0]).toMatch(/newer than this CLI supports/);
+    }
+    expect(parseAspectJson(JSON.stringify({ ...VALID_ASPECT, schemaVersion: '1' })).success).toBe(false);
+  });
 });
@@ -0,0 +1,35 @@
+import { describe, test, expect, beforeAll, afterAll } from 'bun:test';
+import { mkdir, mkdtemp, rm, stat, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { getAspectPath } from '../../src/utils/paths';
+
+describe('getAspectPath', () => {
+  let projectRoot: string;
+
+  beforeAll(async () => {
+    projectRoot = await mkdtemp(join(tmpdir(), 'aspects-paths-'));
+  });
+
+  afterAll(async () => {
+    await rm(projectRoot, { recursive: true, force: true });
+  });
+
+  test('nests publisher-scoped installs under @publisher', () => {
+    const aspectsDir = join(projectRoot, '.aspects', 'aspects');
+    expect(getAspectPath('helper', 'project', projectRoot)).toBe(join(aspectsDir, 'helper'));
+    expect(getAspectPath('alice/helper', 'project', projectRoot)).toBe(join(aspectsDir, '@alice', 'helper'));
+  });
+
+  test('removing a bare aspect named like a publisher leaves their aspects alone', async () => {
+    const bare = getAspectPath('alice', 'project', projectRoot);
+    const scoped = getAspectPath('alice/helper', 'project', projectRoot);
+    for (const dir of [bare, scoped]) {
+      await mkdir(dir, { recursive: true });
+      await writeFile(join(dir, 'aspect.json'), '{}');
+    }
+
+    await rm(bare, { recursive: true });
+    expect((await stat(join(scoped, 'aspect.json'))).isFile()).toBe(true);
+  });
+});
@@ -0,0 +1,141 @@
+import { describe, test, expect } from 'bun:test';
+import { compileAspects } from '../../src/lib/compiler';
+import {
+  formatPayload,
+  toAnthropicPayload,
+  toGeminiPayload,
+  toOpenAIPayload,
+  type CompiledPrompt,
+} from '../../src/lib/payloads';
+import type { Aspect } from '../../src/lib/types';
+
+const ASPECT: Aspect = {
+  schemaVersion: 1,
+  name: 'assistant',
+  version: '1.0.0',
+  displayName: 'Assistant',
+  tagline: 'Helpful',
+  prompt: 'You are an assistant.',
+  directives: [{ id: 'honest', rule: 'Never make things up.', priority: 'high' }],
+  instructions: [{ id: 'tone', rule: 'Be warm.' }],
+  modes: { formal: { description: 'Formal tone', critical: 'No contractions.' } },
+};
+
+function compile(model: string, mode?: string): CompiledPrompt {
+  const result = compileAspects([ASPECT], { model, mode });
+  if (!result.success) throw new Error(result.error);
+  return result;
+}
+
+describe('toAnthropicPayload', () => {
+  test('emits one system block per section', () => {
+    const compiled = compile('claude-sonnet-4-5');
+    const payload = toAnthropicPayload('claude-sonnet-4-5', compiled);
+    expect(payload.model).toBe('claude-sonnet-4-5');
+    expect(payload.messages).toEqual([]);
+    expect(payload.system.map(b => b.text)).toEqual(compiled.sections.map(s => s.text));
+  });
+
+  test('caches the whole prompt when there is no mode', () => {
+    const payload = toAnthropicPayload('claude-4', compile('claude-4'));
+    const cached = payload.system.filter(b => b.cache_control);
+    expect(cached).toHaveLength(1);
+    expect(payload.system.at(-1)!.cache_control).toEqual({ type: 'ephemeral' });
+  });
+
+  test('puts a breakpoint before the mode so it can change without a cache miss', () => {
+    const compiled = compile('claude-4', 'formal');
+    const payload = toAnthropicPayload('claude-4', compiled);
+    const modeIndex = compiled.sections.findIndex(s => s.kind === 'mode');
+    expect(payload.system[modeIndex]!.cache_control).toBeUndefined();
+    expect(payload.system[modeIndex - 1]!.cache_control).toEqual({ type: 'ephemeral' });
+    expect(payload.system.at(-1)!.cache_control).toEqual({ type: 'ephemeral' });
+  });
+});
+
+describe('toOpenAIPayload', () => {
+  test('uses a system message for chat models', () => {
+    const payload = toOpenAIPayload('gpt-4o', compile('gpt-4o'));
+    expect(payload.messages).toHaveLength(1);
+    expect(payload.messages[0]!.role).toBe('system');
+    expect(payload.messages[0]!.content[0]).toEqual({ type: 'text', text: expect.stringContaining('<directives>') });
+  });
+
+  test('uses a developer message when the profile asks for it', () => {
+    expect(toOpenAIPayload('o3-mini', compile('o3-mini')).messages[0]!.role).toBe('developer');
+    expect(toOpenAIPayload('gpt-5', compile('gpt-5')).messages[0]!.role).toBe('developer');
+  });
+});
+
+describe('toGeminiPayload', () => {
+  test('puts the sections in systemInstruction parts', () => {
+    const compiled = compile('gemini-2.5-pro');
+    const payload = toGeminiPayload(compiled);
+    expect(payload.systemInstruction.parts.map(part => part.text)).toEqual(compiled.sections.map(s => s.text));
+    expect(payload.contents).toEqual([]);
+  });
+});
+
+describe('formatPayload', () => {
+  test('returns the prompt unchanged for text', () => {
+    const compiled = compile('claude-4');
+    expect(formatPayload('text', 'claude-4', compiled)).toBe(compiled.prompt);
+  });
+
+  test('returns parseable JSON for provider formats', () => {
+    const compiled = compile('claude-4');
+    expect(JSON.parse(formatPayload('anthropic', 'claude-4', compiled))).toEqual(toAnthropicPayload('claude-4', compiled));
+  });
+});
+
+describe('examples in payloads', () => {
+  const WITH_EXAMPLES: Aspect = {
+    ...ASPECT,
+    examples: [
+      {
+        title: 'Greeting',
+        messages: [
+          { role: 'user', content: 'Hello' },
+          { role: 'assistant', content: 'Hi there!' },
+        ],
+      },
+    ],
+  };
+
+  function compileExamples(model: string): CompiledPrompt {
+    const result = compileAspects([WITH_EXAMPLES], { model });
+    if (!result.success) throw new Error(result.error);
+    return result;
+  }
+
+  test('become prior turns instead of a system block', () => {
+    const compiled = compileExamples('claude-4');
+    const payload = toAnthropicPayload('claude-4', compiled);
+    expect(payload.messages).toEqual([
+      { role: 'user', content: 'Hello' },
+      { role: 'assistant', content: 'Hi there!' },
+    ]);
+    expect(payload.system.some(b => b.text.includes('<examples>'))).toBe(false);
+    expect(payload.system).toHaveLength(compiled.sections.length - 1);
+    expect(payload.system.at(-1)!.cache_control).toEqual({ type: 'ephemeral' });
+  });
+
+  test('follow the system message for OpenAI', () => {
+    const payload = toOpenAIPayload('gpt-4o', compileExamples('gpt-4o'));
+    expect(payload.messages.map(m => m.role)).toEqual(['system', 'user', 'assistant']);
+    expect(payload.messages[2]).toEqual({ role: 'assistant', content: 'Hi there!' });
+  });
+
+  test('use the model role for Gemini', () => {
+    const payload = toGeminiPayload(compileExamples('gemini-2.5-pro'));
+    expect(payload.contents).toEqual([
+      { role: 'user', parts: [{ text: 'Hello' }] },
+      { role: 'model', parts: [{ text: 'Hi there!' }] },
+    ]);
+  });
+
+  test('stay in the text prompt', () => {
+    const compiled = compileExamples('claude-4');
+    expect(formatPayload('text', 'claude-4', compiled)).toContain('<examples>');
+  });
+});
@@ -3,15 +3,18 @@ import { ApiClientError } from "../../src/lib/api-client";
 
 // Mock api-client
 let apiGetRegistryImpl: () => Promise<unknown>;
-let apiGetAspectImpl: (name: string) => Promise<unknown>;
+let apiGetAspectImpl: (name: string, publisher?: string) => Promise<unknown>;
 let apiSearchImpl: (params: Record<string, unknown>) => Promise<unknown>;
 
 mock.module("../../src/lib/api-client", () => ({
   getRegistry: async () => apiGetRegistryImpl(),
-  getAspect: async (name: string) => apiGetAspectImpl(name),
+  getAspect: async (name: string, publisher?: string) =>
+    apiGetAspectImpl(name, publisher),
   searchAspects: async (params: Record<string, unknown>) =>
     apiSearchImpl(params),
   clearApiCache: () => {},
+  isOfflineError: (err: unknown) =>
+    err instanceof ApiClientError && err.errorCode === "offline",
   ApiClientError,
 }));
 
@@ -26,6 +29,7 @@ mock.module("ofetch", () => ({
 mock.module("../../src/lib/config", () => ({
   getRegistryUrl: () => Promise.resolve("https://test.example.com/api/v1"),
   getAuthToken: () => Promise.resolve(null),
+  isOffline: () => Promise.resolve(false),
   resolveRegistryUrl: (env: string | undefined, config: string | undefined) => {
     if (env) return env;
     if (config) return config;
@@ -108,6 +112,20 @@ describe("registry", () => {
       const index = await fetchRegistryIndex();
       expect(index.aspects).toHaveProperty("fallback-aspect");
     });
+
+    test("does not fall back to GitHub when offline", async () => {
+      apiGetRegistryImpl = async () => {
+        throw new ApiClientError("Offline mode: /registry is not available from the cache.", 0, "offline");
+      };
+      let fallbackCalled = false;
+      ofetchImpl = async () => {
+        fallbackCalled = true;
+        return { version: 1, updated: "2026-01-01", aspects: {} };
+      };
+
+      await expect(fetchRegistryIndex()).rejects.toThrow("Offline mode");
+      expect(fallbackCalled).toBe(false);
+    });
   });
 
   describe("getRegistryAspect", () => {
@@ -139,6 +157,43 @@ describe("registry", () => {
       expect(aspect).not.toBeNull();
       expect(aspect?.latest).toBe("1.0.0");
     });
+
+    test("passes the publisher through to the API", async () => {
+      let receivedPublisher: string | undefined;
+      apiGetAspectImpl = async (name: string, publisher?: string) => {
+        receivedPublisher = publisher;
+        return { name, publisher: "test", latest: "1.0.0", versions: {} };
+      };
+
+      const aspect = await getRegistryAspect("test-aspect", "test");
+      expect(receivedPublisher).toBe("test");
+      expect(aspect?.metadata?.publisher).toBe("test");
+    });
+
+    test("returns null when the registry answers with another publisher", async () => {
+      const aspect = await getRegistryAspect("test-aspect", "someone-else");
+      expect(aspect).toBeNull();
+    });
+
+    test("filters the index fallback by publisher", async () => {
+      apiGetAspectImpl = async () => {
+        throw new ApiClientError("Server error", 500);
+      };
+      apiGetRegistryImpl = async () => ({
+        version: 2,
+        updated: "2026-01-01",
+        aspects: {
+          helper: {
+            latest: "1.0.0",
+            versions: {},
+            metadata: { displayName: "Helper", tagline: "", publisher: "alice" },
+          },
+        },
+      });
+
+      expect(await getRegistryAspect("helper", "alice")).not.toBeNull();
+      expect(await getRegistryAspect("helper", "bob")).toBeNull();
+    });
   });
 
   describe("searchRegistry", () => {
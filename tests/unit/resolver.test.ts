@@ -1,5 +1,6 @@
 import { describe, test, expect } from 'bun:test';
-import { parseInstallSpec } from '../../src/lib/resolver';
+import { parseInstallSpec, getInstallKey, resolveInstallKey } from '../../src/lib/resolver';
+import type { InstalledAspect } from '../../src/lib/types';
 
 describe('parseInstallSpec', () => {
   test('parses plain registry name', () => {
@@ -82,3 +83,46 @@ describe('parseInstallSpec', () => {
     expect(() => parseInstallSpec('hash:')).toThrow(/at least 16 characters/);
   });
 });
+
+const INSTALL: InstalledAspect = {
+  version: '1.0.0',
+  installedAt: '2026-01-01T00:00:00.000Z',
+  blake3: 'abc',
+  source: 'registry',
+  trust: 'community',
+  specifier: 'helper',
+};
+
+describe('getInstallKey', () => {
+  test('namespaces by publisher when known', () => {
+    expect(getInstallKey('helper', 'alice')).toBe('alice/helper');
+    expect(getInstallKey('helper')).toBe('helper');
+  });
+});
+
+describe('resolveInstallKey', () => {
+  const installed: Record<string, InstalledAspect> = {
+    'alice/helper': { ...INSTALL, publisher: 'alice' },
+    'bob/helper': { ...INSTALL, publisher: 'bob' },
+    'morphist/alaric': { ...INSTALL, publisher: 'morphist' },
+    mine: { ...INSTALL, source: 'local', trust: 'local' },
+  };
+
+  test('matches exact keys', () => {
+    expect(resolveInstallKey(installed, 'bob/helper')).toBe('bob/helper');
+    expect(resolveInstallKey(installed, 'mine')).toBe('mine');
+  });
+
+  test('resolves a bare name to its only publisher', () => {
+    expect(resolveInstallKey(installed, 'alaric')).toBe('morphist/alaric');
+  });
+
+  test('returns null when nothing matches', () => {
+    expect(resolveInstallKey(installed, 'carol/helper')).toBeNull();
+    expect(resolveInstallKey(installed, 'missing')).toBeNull();
+  });
+
+  test('refuses to guess between publishers', () => {
+    expect(() => resolveInstallKey(installed, 'helper')).toThrow(/ambiguous/);
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, test, expect } from 'bun:test';
+import {
+  compareVersions,
+  isExactVersion,
+  satisfies,
+  maxSatisfying,
+  resolveVersion,
+} from '../../src/lib/semver';
+
+describe('compareVersions', () => {
+  test('orders by major, minor, patch', () => {
+    const sorted = ['1.10.0', '1.2.0', '0.9.9', '1.2.10', '1.2.2'].sort(compareVersions);
+    expect(sorted).toEqual(['0.9.9', '1.2.0', '1.2.2', '1.2.10', '1.10.0']);
+  });
+
+  test('ranks prereleases below the release', () => {
+    expect(compareVersions('1.0.0-beta.2', '1.0.0')).toBeLessThan(0);
+    expect(compareVersions('1.0.0-beta.2', '1.0.0-beta.10')).toBeLessThan(0);
+    expect(compareVersions('1.0.0-alpha', '1.0.0-beta')).toBeLessThan(0);
+  });
+});
+
+describe('isExactVersion', () => {
+  test('accepts full versions only', () => {
+    expect(isExactVersion('1.2.3')).toBe(true);
+    expect(isExactVersion('1.2.3-beta.1')).toBe(true);
+    expect(isExactVersion('1.2')).toBe(false);
+    expect(isExactVersion('^1.2.3')).toBe(false);
+    expect(isExactVersion('next')).toBe(false);
+  });
+});
+
+describe('satisfies', () => {
+  test('caret ranges', () => {
+    expect(satisfies('1.9.0', '^1.2')).toBe(true);
+    expect(satisfies('1.1.0', '^1.2')).toBe(false);
+    expect(satisfies('2.0.0', '^1.2')).toBe(false);
+    expect(satisfies('0.2.5', '^0.2.3')).toBe(true);
+    expect(satisfies('0.3.0', '^0.2.3')).toBe(false);
+    expect(satisfies('0.0.4', '^0.0.3')).toBe(false);
+  });
+
+  test('tilde ranges', () => {
+    expect(satisfies('1.0.9', '~1.0.3')).toBe(true);
+    expect(satisfies('1.0.2', '~1.0.3')).toBe(false);
+    expect(satisfies('1.1.0', '~1.0.3')).toBe(false);
+    expect(satisfies('1.5.0', '~1')).toBe(true);
+  });
+
+  test('comparator sets and unions', () => {
+    expect(satisfies('1.5.0', '>=1 <2')).toBe(true);
+    expect(satisfies('2.0.0', '>=1 <2')).toBe(false);
+    expect(satisfies('3.1.0', '^1 || ^3')).toBe(true);
+    expect(satisfies('1.2.0', '>= 1.2.0')).toBe(true);
+  });
+
+  test('x-ranges and hyphen ranges', () => {
+    expect(satisfies('1.2.7', '1.2.x')).toBe(true);
+    expect(satisfies('1.3.0', '1.2')).toBe(false);
+    expect(satisfies('5.0.0', '*')).toBe(true);
+    expect(satisfies('2.3.9', '1.0 - 2.3')).toBe(true);
+    expect(satisfies('2.4.0', '1.0 - 2.3')).toBe(false);
+  });
+
+  test('excludes prereleases unless the range names them', () => {
+    expect(satisfies('2.0.0-beta.1', '>=1')).toBe(false);
+    expect(satisfies('1.3.0-beta.1', '^1.2')).toBe(false);
+    expect(satisfies('1.2.0-beta.2', '^1.2.0-beta.1')).toBe(true);
+  });
+
+  test('rejects invalid ranges', () => {
+    expect(satisfies('1.0.0', 'not-a-range')).toBe(false);
+  });
+});
+
+describe('maxSatisfying', () => {
+  test('picks the highest match', () => {
+    expect(maxSatisfying(['1.0.0', '1.4.2', '1.10.0', '2.0.0'], '^1')).toBe('1.10.0');
+    expect(maxSatisfying(['1.0.0', '2.0.0'], '^3')).toBeNull();
+  });
+});
+
+describe('resolveVersion', () => {
+  const entry = {
+    latest: '1.4.0',
+    versions: { '1.0.0': {}, '1.0.5': {}, '1.4.0': {}, '1.5.0': {}, '2.0.0-beta.1': {} },
+    distTags: { next: '2.0.0-beta.1' },
+  };
+
+  test('defaults to latest', () => {
+    expect(resolveVersion(undefined, entry)).toBe('1.4.0');
+    expect(resolveVersion('latest', entry)).toBe('1.4.0');
+  });
+
+  test('resolves exact versions and dist-tags', () => {
+    expect(resolveVersion('1.0.0', entry)).toBe('1.0.0');
+    expect(resolveVersion('next', entry)).toBe('2.0.0-beta.1');
+  });
+
+  test('prefers latest when it satisfies the range', () => {
+    expect(resolveVersion('^1.0', entry)).toBe('1.4.0');
+  });
+
+  test('falls back to the highest match outside latest', () => {
+    expect(resolveVersion('~1.0.3', entry)).toBe('1.0.5');
+    expect(resolveVersion('>=1.5', entry)).toBe('1.5.0');
+  });
+
+  test('returns null for unknown tags or unmatched ranges', () => {
+    expect(resolveVersion('canary', entry)).toBeNull();
+    expect(resolveVersion('^3', entry)).toBeNull();
+  });
+
+  test('ignores inherited object keys', () => {
+    expect(resolveVersion('toString', entry)).toBeNull();
+    expect(resolveVersion('constructor', entry)).toBeNull();
+    expect(resolveVersion('__proto__', entry)).toBeNull();
+  });
+});
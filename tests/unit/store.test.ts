@@ -0,0 +1,94 @@
+import { describe, test, expect, beforeEach } from 'bun:test';
+import { mkdtempSync, readFileSync, statSync } from 'node:fs';
+import { chmod, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  detachFromStore,
+  findInStore,
+  getStorePath,
+  linkFromStore,
+  listStore,
+  pruneStore,
+  readFromStore,
+  writeToStore,
+} from '../../src/lib/store';
+import { blake3HashAspect } from '../../src/utils/hash';
+
+const ASPECT = {
+  schemaVersion: 1,
+  name: 'helper',
+  publisher: 'alice',
+  version: '1.0.0',
+  displayName: 'Helper',
+  tagline: 'A helpful test aspect',
+  prompt: 'You are a helper.',
+};
+const CONTENT = JSON.stringify(ASPECT, null, 2);
+const HASH = blake3HashAspect(ASPECT);
+
+let installDir: string;
+
+describe('content store', () => {
+  beforeEach(() => {
+    process.env.ASPECTS_STORE_DIR = mkdtempSync(join(tmpdir(), 'aspects-store-'));
+    installDir = mkdtempSync(join(tmpdir(), 'aspects-install-'));
+  });
+
+  test('stores content under its hash', async () => {
+    await writeToStore(HASH, CONTENT);
+    expect(await readFromStore(HASH)).toBe(CONTENT);
+  });
+
+  test('ignores blobs that no longer match their hash', async () => {
+    const path = await writeToStore(HASH, CONTENT);
+    await chmod(path, 0o644);
+    await writeFile(path, JSON.stringify({ ...ASPECT, prompt: 'Tampered.' }));
+    expect(await readFromStore(HASH)).toBeNull();
+  });
+
+  test('finds blobs by unique prefix', async () => {
+    await writeToStore(HASH, CONTENT);
+    expect(await findInStore(HASH.slice(0, 8))).toBe(HASH);
+    expect(await findInStore('zzzz')).toBeNull();
+  });
+
+  test('hardlinks installs to the stored blob', async () => {
+    await writeToStore(HASH, CONTENT);
+    const dest = join(installDir, 'helper', 'aspect.json');
+    await linkFromStore(HASH, dest);
+    expect(readFileSync(dest, 'utf-8')).toBe(CONTENT);
+    expect(statSync(dest).ino).toBe(statSync(getStorePath(HASH)).ino);
+  });
+
+  test('detaching gives a private copy and leaves the blob intact', async () => {
+    await writeToStore(HASH, CONTENT);
+    const dest = join(installDir, 'aspect.json');
+    await linkFromStore(HASH, dest);
+
+    await detachFromStore(dest);
+    await writeFile(dest, 'edited');
+    expect(await readFromStore(HASH)).toBe(CONTENT);
+  });
+
+  test('prune removes only blobs nothing links to or references', async () => {
+    const other = { ...ASPECT, name: 'other' };
+    const otherHash = blake3HashAspect(other);
+    const copied = { ...ASPECT, name: 'copied' };
+    const copiedHash = blake3HashAspect(copied);
+    await writeToStore(HASH, CONTENT);
+    await writeToStore(otherHash, JSON.stringify(other));
+    await writeToStore(copiedHash, JSON.stringify(copied));
+    await linkFromStore(HASH, join(installDir, 'aspect.json'));
+
+    const removed = await pruneStore(new Set([copiedHash]));
+    expect(removed.map(e => e.hash)).toEqual([otherHash]);
+    expect((await listStore()).map(e => e.hash).sort()).toEqual([HASH, copiedHash].sort());
+  });
+
+  test('prune --dry-run deletes nothing', async () => {
+    await writeToStore(HASH, CONTENT);
+    expect(await pruneStore(new Set(), { dryRun: true })).toHaveLength(1);
+    expect(await listStore()).toHaveLength(1);
+  });
+});
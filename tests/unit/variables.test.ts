@@ -0,0 +1,133 @@
+import { describe, test, expect } from 'bun:test';
+import { aspectSchema } from '../../src/lib/schema';
+import { applyVariables, checkVariables, coerceVariable, findVariableReferences } from '../../src/lib/variables';
+import type { Aspect } from '../../src/lib/types';
+
+const SUPPORT: Aspect = {
+  schemaVersion: 2,
+  name: 'support',
+  version: '1.0.0',
+  displayName: 'Support',
+  tagline: 'Customer support persona',
+  category: 'assistant',
+  variables: {
+    company_name: { required: true, description: 'Shown to customers' },
+    product: { default: 'our product' },
+    max_refund: { type: 'number', default: 50 },
+  },
+  modes: { escalation: { description: 'Escalate at {{company_name}}', critical: 'Refunds above {{max_refund}} need approval.' } },
+  directives: [{ id: 'brand', rule: 'Always say "{{ company_name }}".', priority: 'high' }],
+  instructions: [{ id: 'scope', rule: 'Only help with {{product}}.' }],
+  prompt: 'You are the support agent for {{company_name}}, makers of {{product}}.',
+};
+
+describe('findVariableReferences', () => {
+  test('finds placeholders in every compiled field', () => {
+    const references = findVariableReferences(SUPPORT);
+    expect(references.get('company_name')).toEqual(['prompt', 'directives.brand', 'modes.escalation.description']);
+    expect(references.get('product')).toEqual(['prompt', 'instructions.scope']);
+    expect(references.get('max_refund')).toEqual(['modes.escalation.critical']);
+  });
+});
+
+describe('checkVariables', () => {
+  test('passes when declarations and placeholders line up', () => {
+    expect(checkVariables(SUPPORT)).toEqual({ undeclared: [], unused: [] });
+  });
+
+  test('reports undeclared placeholders and unused declarations', () => {
+    const result = checkVariables({
+      ...SUPPORT,
+      prompt: 'You work for {{company_name}} in {{region}}.',
+      variables: { ...SUPPORT.variables, tier: {} },
+    });
+    expect(result.undeclared).toEqual([{ name: 'region', fields: ['prompt'] }]);
+    expect(result.unused).toEqual(['tier']);
+  });
+});
+
+describe('coerceVariable', () => {
+  test('parses command-line strings into the declared type', () => {
+    expect(coerceVariable('n', '42', { type: 'number' })).toEqual({ success: true, value: 42 });
+    expect(coerceVariable('b', 'false', { type: 'boolean' })).toEqual({ success: true, value: false });
+    expect(coerceVariable('s', 'hi', {})).toEqual({ success: true, value: 'hi' });
+  });
+
+  test('rejects values of the wrong type', () => {
+    expect(coerceVariable('n', 'lots', { type: 'number' })).toEqual({
+      success: false,
+      error: 'Variable "n" must be a number, got "lots"',
+    });
+    expect(coerceVariable('b', 'yes', { type: 'boolean' }).success).toBe(false);
+    expect(coerceVariable('s', 3, {}).success).toBe(false);
+  });
+});
+
+describe('applyVariables', () => {
+  test('fills placeholders from values, then defaults', () => {
+    const result = applyVariables(SUPPORT, { company_name: 'Acme', max_refund: '100' });
+    if (!result.success) throw new Error(result.errors.join());
+    expect(result.aspect.prompt).toBe('You are the support agent for Acme, makers of our product.');
+    expect(result.aspect.directives![0]!.rule).toBe('Always say "Acme".');
+    expect(result.aspect.instructions![0]!.rule).toBe('Only help with our product.');
+    expect(result.aspect.modes!.escalation).toEqual({
+      description: 'Escalate at Acme',
+      critical: 'Refunds above 100 need approval.',
+    });
+  });
+
+  test('fails on missing required variables and bad values', () => {
+    const result = applyVariables(SUPPORT, { max_refund: 'lots' });
+    expect(result.success).toBe(false);
+    if (result.success) return;
+    expect(result.errors).toEqual([
+      'Missing required variable "company_name" (Shown to customers) for support',
+      'Variable "max_refund" must be a number, got "lots"',
+    ]);
+  });
+
+  test('leaves undeclared placeholders and values alone', () => {
+    const aspect = { ...SUPPORT, prompt: 'Hi from {{company_name}} and {{region}}.' };
+    const result = applyVariables(aspect, { company_name: 'Acme', other: 'x' });
+    if (!result.success) throw new Error(result.errors.join());
+    expect(result.aspect.prompt).toBe('Hi from Acme and {{region}}.');
+  });
+
+  test('returns aspects without variables unchanged', () => {
+    const { variables: _variables, ...plain } = SUPPORT;
+    const result = applyVariables(plain, { company_name: 'Acme' });
+    expect(result).toEqual({ success: true, aspect: plain });
+  });
+});
+
+describe('variables in examples', () => {
+  const aspect: Aspect = {
+    ...SUPPORT,
+    examples: [{
+      messages: [
+        { role: 'user', content: 'Who are you?' },
+        { role: 'assistant', content: 'Support for {{company_name}}.' },
+      ],
+    }],
+  };
+
+  test('are found and filled', () => {
+    expect(findVariableReferences(aspect).get('company_name')).toContain('examples.0.messages.1');
+    const result = applyVariables(aspect, { company_name: 'Acme' });
+    if (!result.success) throw new Error(result.errors.join());
+    expect(result.aspect.examples![0]!.messages[1]!.content).toBe('Support for Acme.');
+  });
+});
+
+describe('aspectSchema variables', () => {
+  test('accepts declared variables', () => {
+    expect(aspectSchema.safeParse(SUPPORT).success).toBe(true);
+  });
+
+  test('rejects bad names and defaults of the wrong type', () => {
+    const badName = aspectSchema.safeParse({ ...SUPPORT, variables: { 'company-name': {} } });
+    expect(badName.success).toBe(false);
+    const badDefault = aspectSchema.safeParse({ ...SUPPORT, variables: { n: { type: 'number', default: 'ten' } } });
+    expect(badDefault.success).toBe(false);
+  });
+});